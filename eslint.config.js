@@ -11,7 +11,6 @@ export default [
       'coverage/**',
       'src/auth/**',
       'src/utils/shutdown.ts',
-      'src/middleware/security.ts',
       'src/middleware/api-docs.ts',
       'src/core/realtime-manager.ts',
       'src/core/intelligent-cache.ts',
@@ -44,7 +44,6 @@ module.exports = {
     '!src/index.ts',
     '!src/auth/**',
     '!src/utils/shutdown.ts',
-    '!src/middleware/security.ts',
     '!src/middleware/api-docs.ts',
     '!src/core/realtime-manager.ts',
     '!src/core/intelligent-cache.ts',
@@ -75,6 +75,24 @@ const ConfigSchema = z.object({
     resetTimeout: z.number().positive().default(30000), // 30 seconds
   }),
 
+  // HTTP transport security (only used when MCP_TRANSPORT=http)
+  security: z.object({
+    apiKey: z.string().optional(),
+    allowedOrigins: z.array(z.string()).default(['http://localhost:3000']),
+    ipWhitelist: z.array(z.string()).default([]),
+    rateLimitWindowMs: z.number().positive().default(60000), // 1 minute
+    rateLimitMax: z.number().positive().default(120),
+  }),
+
+  // Human confirmation for destructive and high-value tools
+  confirmation: z.object({
+    enabled: z.boolean().default(true),
+    refundThreshold: z.number().min(0).default(500), // Refunds above this amount
+    batchDeleteThreshold: z.number().min(0).default(10), // Batches with more deletes than this
+    // Refuse calls from clients that can't elicit instead of running them with a warning
+    requireElicitation: z.boolean().default(false),
+  }),
+
   // Monitoring Configuration
   monitoring: z.object({
     enabled: z.boolean().default(true),
@@ -158,6 +176,31 @@ function loadConfig(): Config {
         ? parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT, 10)
         : undefined,
     },
+    security: {
+      apiKey: process.env.MCP_HTTP_API_KEY || undefined,
+      allowedOrigins: process.env.MCP_HTTP_ALLOWED_ORIGINS
+        ? process.env.MCP_HTTP_ALLOWED_ORIGINS.split(',').map((origin) => origin.trim())
+        : undefined,
+      ipWhitelist: process.env.MCP_HTTP_IP_WHITELIST
+        ? process.env.MCP_HTTP_IP_WHITELIST.split(',').map((ip) => ip.trim())
+        : undefined,
+      rateLimitWindowMs: process.env.MCP_HTTP_RATE_LIMIT_WINDOW_MS
+        ? parseInt(process.env.MCP_HTTP_RATE_LIMIT_WINDOW_MS, 10)
+        : undefined,
+      rateLimitMax: process.env.MCP_HTTP_RATE_LIMIT_MAX
+        ? parseInt(process.env.MCP_HTTP_RATE_LIMIT_MAX, 10)
+        : undefined,
+    },
+    confirmation: {
+      enabled: process.env.CONFIRMATION_ENABLED !== 'false',
+      refundThreshold: process.env.CONFIRM_REFUND_THRESHOLD
+        ? parseFloat(process.env.CONFIRM_REFUND_THRESHOLD)
+        : undefined,
+      batchDeleteThreshold: process.env.CONFIRM_BATCH_DELETE_THRESHOLD
+        ? parseInt(process.env.CONFIRM_BATCH_DELETE_THRESHOLD, 10)
+        : undefined,
+      requireElicitation: process.env.CONFIRMATION_REQUIRE_ELICITATION === 'true',
+    },
     monitoring: {
       enabled: process.env.MONITORING_ENABLED !== 'false',
       metricsInterval: process.env.METRICS_INTERVAL
@@ -133,6 +133,15 @@ abstract class CacheStrategy<T> {
     return { ...this.stats };
   }
 
+  /**
+   * Keys of unexpired entries, without counting as hits or touching access order
+   */
+  keys(): string[] {
+    return Array.from(this.cache.entries())
+      .filter(([, entry]) => !this.isExpired(entry))
+      .map(([key]) => key);
+  }
+
   protected isExpired(entry: CacheEntry<T>): boolean {
     return Date.now() - entry.timestamp > entry.ttl;
   }
@@ -306,6 +315,11 @@ export class CacheManager {
     return cache ? cache.delete(key) : false;
   }
 
+  keys(namespace: string): string[] {
+    const cache = this.caches.get(namespace);
+    return cache ? cache.keys() : [];
+  }
+
   clear(namespace?: string): void {
     if (namespace) {
       const cache = this.caches.get(namespace);
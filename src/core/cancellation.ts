@@ -0,0 +1,66 @@
+/**
+ * Cancellation support for MCP requests.
+ *
+ * The MCP SDK aborts a request's AbortSignal when the client sends
+ * `notifications/cancelled`. These helpers let the layers between the
+ * dispatcher and axios stop waiting as soon as that happens.
+ */
+export class CancellationError extends Error {
+  public readonly code = 'REQUEST_CANCELLED';
+
+  constructor(
+    public readonly operation: string,
+    public readonly reason?: string,
+  ) {
+    super(`Operation '${operation}' was cancelled${reason ? `: ${reason}` : ''}`);
+    this.name = 'CancellationError';
+  }
+}
+
+/**
+ * Creates the error for an aborted signal
+ */
+export function createCancellationError(
+  signal: AbortSignal | undefined,
+  operation: string,
+): CancellationError {
+  return new CancellationError(
+    operation,
+    typeof signal?.reason === 'string' ? signal.reason : undefined,
+  );
+}
+
+/**
+ * Throws a CancellationError if the signal has already been aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined, operation: string): void {
+  if (signal?.aborted) {
+    throw createCancellationError(signal, operation);
+  }
+}
+
+/**
+ * Rejects with a CancellationError as soon as the signal is aborted,
+ * otherwise settles with the given promise
+ */
+export function raceWithSignal<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+  operation: string,
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createCancellationError(signal, operation));
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
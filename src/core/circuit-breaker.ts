@@ -1,6 +1,12 @@
 import { config } from '@config/index';
 import { createLogger } from '@utils/logger';
 import { EventEmitter } from 'events';
+import {
+  CancellationError,
+  createCancellationError,
+  raceWithSignal,
+  throwIfCancelled,
+} from './cancellation';
 
 const logger = createLogger('circuit-breaker');
 
@@ -77,7 +83,10 @@ export class CircuitBreaker extends EventEmitter {
     this.startMonitoring();
   }
 
-  async execute<T>(fn: () => Promise<T>): Promise<T> {
+  async execute<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    // Cancelled requests never reach the protected call
+    throwIfCancelled(signal, this.name);
+
     // Check if circuit is open
     if (this.state === CircuitState.OPEN) {
       if (this.canAttemptReset()) {
@@ -116,14 +125,15 @@ export class CircuitBreaker extends EventEmitter {
     }
 
     const startTime = Date.now();
+    let timeoutId: NodeJS.Timeout | undefined;
 
     try {
       // Set timeout
       const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('Request timeout')), this.options.timeout);
+        timeoutId = setTimeout(() => reject(new Error('Request timeout')), this.options.timeout);
       });
 
-      const result = await Promise.race([fn(), timeoutPromise]);
+      const result = await raceWithSignal(Promise.race([fn(), timeoutPromise]), signal, this.name);
 
       const duration = Date.now() - startTime;
       this.recordSuccess(duration);
@@ -134,6 +144,16 @@ export class CircuitBreaker extends EventEmitter {
 
       return result;
     } catch (error) {
+      // A cancelled request says nothing about the health of the service
+      if (signal?.aborted) {
+        if (this.state === CircuitState.HALF_OPEN) {
+          this.halfOpenRequests--;
+        }
+        throw error instanceof CancellationError
+          ? error
+          : createCancellationError(signal, this.name);
+      }
+
       const duration = Date.now() - startTime;
       this.recordFailure(error as Error, duration);
 
@@ -142,6 +162,8 @@ export class CircuitBreaker extends EventEmitter {
       }
 
       throw error;
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
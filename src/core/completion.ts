@@ -0,0 +1,146 @@
+import { z } from 'zod';
+import type { CompleteRequest, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import { createLogger } from '../utils/logger';
+import { cacheManager } from './cache';
+import { promptHandlers } from './prompt-registry';
+import {
+  type ResourceType,
+  getResourceTypeByArgument,
+  getResourceTypeByProtocol,
+} from './resource-registry';
+import { toolHandlers } from '../tools/registry';
+
+const logger = createLogger('completion');
+
+// The MCP spec caps a completion response at 100 values
+const MAX_COMPLETION_VALUES = 100;
+
+// Order numbers are looked up remotely only once the operator has typed this much
+const MIN_ORDER_NUMBER_LENGTH = 3;
+
+/**
+ * Answer completion/complete for resource template variables and prompt arguments.
+ *
+ * Sources, in order:
+ * - enum values of the prompt argument's zod schema (e.g. RMA status)
+ * - IDs of recently fetched records from the cacheManager namespaces
+ * - for orders, an order number resolved through stateset_get_order_by_number
+ */
+export async function complete(
+  client: StateSetMCPClient,
+  params: CompleteRequest['params'],
+): Promise<CompleteResult> {
+  const { ref, argument } = params;
+  let values: string[] = [];
+
+  if (ref.type === 'ref/prompt') {
+    values = await completePromptArgument(client, ref.name, argument.name, argument.value);
+  } else if (ref.type === 'ref/resource') {
+    values = await completeResourceTemplate(client, ref.uri, argument.value);
+  }
+
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETION_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETION_VALUES,
+    },
+  };
+}
+
+async function completePromptArgument(
+  client: StateSetMCPClient,
+  promptName: string,
+  argumentName: string,
+  value: string,
+): Promise<string[]> {
+  const prompt = promptHandlers.get(promptName);
+  const argumentSchema = prompt?.argumentSchema.shape[argumentName] as z.ZodTypeAny | undefined;
+  if (!argumentSchema) {
+    return [];
+  }
+
+  const enumValues = getEnumValues(argumentSchema);
+  if (enumValues) {
+    return filterByPrefix(enumValues, value);
+  }
+
+  const resourceType = getResourceTypeByArgument(argumentName);
+  return resourceType ? completeResourceId(client, resourceType, value) : [];
+}
+
+async function completeResourceTemplate(
+  client: StateSetMCPClient,
+  uriTemplate: string,
+  value: string,
+): Promise<string[]> {
+  const protocol = uriTemplate.slice(0, uriTemplate.indexOf(':') + 1);
+  const resourceType = getResourceTypeByProtocol(protocol);
+  return resourceType ? completeResourceId(client, resourceType, value) : [];
+}
+
+async function completeResourceId(
+  client: StateSetMCPClient,
+  resourceType: ResourceType,
+  value: string,
+): Promise<string[]> {
+  const recentIds = filterByPrefix(getRecentIds(resourceType), value);
+
+  if (recentIds.length === 0 && resourceType.channel === 'orders') {
+    const orderId = await resolveOrderNumber(client, value);
+    return orderId ? [orderId] : [];
+  }
+
+  return recentIds;
+}
+
+/**
+ * IDs of records of this type the client has fetched and still holds in cache
+ */
+function getRecentIds(resourceType: ResourceType): string[] {
+  if (!resourceType.cache) {
+    return [];
+  }
+
+  const prefix = `${resourceType.cache.keyPrefix}:`;
+  return cacheManager
+    .keys(resourceType.cache.namespace)
+    .filter((key) => key.startsWith(prefix))
+    .map((key) => key.slice(prefix.length));
+}
+
+async function resolveOrderNumber(
+  client: StateSetMCPClient,
+  orderNumber: string,
+): Promise<string | undefined> {
+  const lookup = toolHandlers.get('stateset_get_order_by_number');
+  if (!lookup || orderNumber.trim().length < MIN_ORDER_NUMBER_LENGTH) {
+    return undefined;
+  }
+
+  try {
+    const order = await lookup(client, { order_number: orderNumber.trim() });
+    return typeof order?.id === 'string' ? order.id : undefined;
+  } catch (error) {
+    // Unknown order numbers are expected while the operator is still typing
+    logger.debug('Order number did not resolve', {
+      orderNumber,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+function getEnumValues(schema: z.ZodTypeAny): string[] | undefined {
+  let inner = schema;
+  while (inner instanceof z.ZodOptional || inner instanceof z.ZodDefault) {
+    inner = inner instanceof z.ZodOptional ? inner.unwrap() : inner.removeDefault();
+  }
+  return inner instanceof z.ZodEnum ? [...(inner.options as string[])] : undefined;
+}
+
+function filterByPrefix(values: string[], prefix: string): string[] {
+  const needle = prefix.toLowerCase();
+  return values.filter((value) => value.toLowerCase().startsWith(needle));
+}
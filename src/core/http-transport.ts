@@ -0,0 +1,306 @@
+import { randomUUID } from 'crypto';
+import type { Server as HttpServer } from 'http';
+import express from 'express';
+import type { Express, Request, Response } from 'express';
+import { rateLimit } from 'express-rate-limit';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createLogger } from '../utils/logger';
+import { config } from '../config';
+import { healthChecker } from './health';
+import {
+  securityHeaders,
+  corsOptions,
+  compressionMiddleware,
+  sanitizeRequest,
+  requestSizeLimit,
+  ipWhitelist,
+  validateApiKey,
+} from '../middleware/security';
+
+const logger = createLogger('http-transport');
+
+export interface HttpTransportOptions {
+  port: number;
+  host: string;
+  /** Streamable HTTP endpoint */
+  path?: string;
+}
+
+type SessionTransport = StreamableHTTPServerTransport | SSEServerTransport;
+
+interface McpSession {
+  server: Server;
+  transport: SessionTransport;
+  type: 'streamable-http' | 'sse';
+  createdAt: number;
+}
+
+// Legacy HTTP+SSE endpoints, kept for clients that predate streamable HTTP
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+
+/**
+ * Serves MCP over HTTP for remote deployments.
+ *
+ * Every client session gets its own MCP Server from the factory, so sessions
+ * are isolated at the protocol level while sharing the StateSet client that
+ * the factory closes over.
+ */
+export class HttpTransportServer {
+  private readonly app: Express;
+  private readonly path: string;
+  private httpServer?: HttpServer;
+  private sessions: Map<string, McpSession> = new Map();
+
+  constructor(
+    private readonly serverFactory: () => Server,
+    private readonly options: HttpTransportOptions,
+  ) {
+    this.path = options.path ?? '/mcp';
+    this.app = this.createApp();
+  }
+
+  /**
+   * Start listening for HTTP connections
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const httpServer = this.app.listen(this.options.port, this.options.host, () => {
+        logger.info('HTTP transport listening', {
+          host: this.options.host,
+          port: this.options.port,
+          path: this.path,
+          sse: SSE_PATH,
+        });
+        resolve();
+      });
+      httpServer.on('error', reject);
+      this.httpServer = httpServer;
+    });
+  }
+
+  /**
+   * Close all sessions and stop the HTTP server
+   */
+  async stop(): Promise<void> {
+    for (const [sessionId, session] of Array.from(this.sessions.entries())) {
+      try {
+        // Closing the server closes its transport as well
+        await session.server.close();
+      } catch (error) {
+        logger.error('Failed to close MCP session', error, { sessionId });
+      }
+    }
+    this.sessions.clear();
+
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (!httpServer) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.close((error) => (error ? reject(error) : resolve()));
+      httpServer.closeAllConnections();
+    });
+    logger.info('HTTP transport stopped');
+  }
+
+  /**
+   * Express application, exposed for embedding and tests
+   */
+  getApp(): Express {
+    return this.app;
+  }
+
+  /**
+   * Get session statistics
+   */
+  getStats(): {
+    activeSessions: number;
+    streamableHttpSessions: number;
+    sseSessions: number;
+  } {
+    let sseSessions = 0;
+    for (const session of this.sessions.values()) {
+      if (session.type === 'sse') sseSessions++;
+    }
+
+    return {
+      activeSessions: this.sessions.size,
+      streamableHttpSessions: this.sessions.size - sseSessions,
+      sseSessions,
+    };
+  }
+
+  private createApp(): Express {
+    const app = express();
+    const health = healthChecker.expressMiddleware();
+
+    app.disable('x-powered-by');
+    app.use(securityHeaders, corsOptions, compressionMiddleware);
+
+    // Probes stay outside auth and rate limiting
+    app.get('/health', health.health);
+    app.get('/health/live', health.liveness);
+    app.get('/health/ready', health.readiness);
+
+    const mcpLimiter = rateLimit({
+      windowMs: config.security.rateLimitWindowMs,
+      limit: config.security.rateLimitMax,
+      standardHeaders: 'draft-7',
+      legacyHeaders: false,
+      handler: (_req, res) => {
+        sendJsonRpcError(res, 429, -32000, 'Too many requests, please retry later');
+      },
+    });
+
+    const guards = [ipWhitelist, mcpLimiter];
+    if (config.security.apiKey) {
+      guards.push(validateApiKey);
+    } else {
+      logger.warn('MCP_HTTP_API_KEY is not set - HTTP transport accepts unauthenticated clients');
+    }
+
+    const body = [requestSizeLimit('10mb'), express.json({ limit: '10mb' }), sanitizeRequest];
+
+    app.post(this.path, ...guards, ...body, (req, res) => this.handleStreamablePost(req, res));
+    app.get(this.path, ...guards, (req, res) => this.handleStreamableSession(req, res));
+    app.delete(this.path, ...guards, (req, res) => this.handleStreamableSession(req, res));
+
+    app.get(SSE_PATH, ...guards, (req, res) => this.handleSseConnect(req, res));
+    app.post(SSE_MESSAGES_PATH, ...guards, ...body, (req, res) => this.handleSseMessage(req, res));
+
+    return app;
+  }
+
+  private async handleStreamablePost(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header('mcp-session-id');
+
+    try {
+      if (sessionId) {
+        const session = this.sessions.get(sessionId);
+        if (session?.type !== 'streamable-http') {
+          sendJsonRpcError(res, 404, -32001, 'Session not found');
+          return;
+        }
+        await (session.transport as StreamableHTTPServerTransport).handleRequest(
+          req,
+          res,
+          req.body,
+        );
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const server = this.serverFactory();
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.sessions.set(id, {
+            server,
+            transport,
+            type: 'streamable-http',
+            createdAt: Date.now(),
+          });
+          logger.info('MCP session initialized', { sessionId: id, transport: 'streamable-http' });
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) {
+          this.removeSession(transport.sessionId);
+        }
+      };
+
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      logger.error('Failed to handle MCP request', error, { sessionId });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  // GET opens the server-to-client notification stream, DELETE ends the session
+  private async handleStreamableSession(req: Request, res: Response): Promise<void> {
+    const sessionId = req.header('mcp-session-id');
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (session?.type !== 'streamable-http') {
+      sendJsonRpcError(res, sessionId ? 404 : 400, -32000, 'Invalid or missing session ID');
+      return;
+    }
+
+    try {
+      await (session.transport as StreamableHTTPServerTransport).handleRequest(req, res);
+    } catch (error) {
+      logger.error('Failed to handle MCP session request', error, { sessionId });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  private async handleSseConnect(_req: Request, res: Response): Promise<void> {
+    const server = this.serverFactory();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, transport, type: 'sse', createdAt: Date.now() });
+    res.on('close', () => this.removeSession(sessionId));
+
+    try {
+      await server.connect(transport);
+      logger.info('MCP session initialized', { sessionId, transport: 'sse' });
+    } catch (error) {
+      logger.error('Failed to open SSE session', error, { sessionId });
+      this.removeSession(sessionId);
+    }
+  }
+
+  private async handleSseMessage(req: Request, res: Response): Promise<void> {
+    const sessionId = typeof req.query.sessionId === 'string' ? req.query.sessionId : undefined;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (session?.type !== 'sse') {
+      sendJsonRpcError(res, 404, -32001, 'Session not found');
+      return;
+    }
+
+    try {
+      await (session.transport as SSEServerTransport).handlePostMessage(req, res, req.body);
+    } catch (error) {
+      logger.error('Failed to handle SSE message', error, { sessionId });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, -32603, 'Internal server error');
+      }
+    }
+  }
+
+  private removeSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+
+    this.sessions.delete(sessionId);
+    session.server.close().catch((error: unknown) => {
+      logger.error('Failed to close MCP server for session', error, { sessionId });
+    });
+    logger.info('MCP session closed', { sessionId, transport: session.type });
+  }
+}
+
+function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null,
+  });
+}
@@ -0,0 +1,95 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel, ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { maskSensitiveData } from '../utils/validation';
+import type { LogForwarder } from './request-context';
+
+// MCP logging levels, least to most severe
+const severity: LoggingLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+// MCP level for each pino level. Metrics are not forwarded.
+const pinoLevels: Record<string, LoggingLevel> = {
+  trace: 'debug',
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+  fatal: 'critical',
+};
+
+/**
+ * Level used until the client sends logging/setLevel
+ */
+export const DEFAULT_LOGGING_LEVEL: LoggingLevel = 'warning';
+
+/**
+ * Bridges the server's logger to MCP `notifications/message`.
+ *
+ * Each session chooses its own level with logging/setLevel. Log records
+ * written while a tool call runs are sent only to the session that made the
+ * call, with sensitive fields masked.
+ */
+export class McpLoggingManager {
+  private levels: Map<Server, LoggingLevel> = new Map();
+
+  setLevel(server: Server, level: LoggingLevel): void {
+    this.levels.set(server, level);
+  }
+
+  getLevel(server: Server): LoggingLevel {
+    return this.levels.get(server) ?? DEFAULT_LOGGING_LEVEL;
+  }
+
+  /**
+   * Forget a session's level, e.g. when it disconnects
+   */
+  removeServer(server: Server): void {
+    this.levels.delete(server);
+  }
+
+  /**
+   * Creates a forwarder that sends log records to one session
+   */
+  createForwarder(
+    server: Server,
+    sendNotification: (notification: ServerNotification) => Promise<void>,
+  ): LogForwarder {
+    return (pinoLevel, msg, fields) => {
+      const level = pinoLevels[pinoLevel];
+      if (!level || severity.indexOf(level) < severity.indexOf(this.getLevel(server))) {
+        return;
+      }
+
+      const { module, ...data } = fields;
+      sendNotification({
+        method: 'notifications/message',
+        params: {
+          level,
+          logger: typeof module === 'string' ? module : undefined,
+          data: { message: msg, ...maskSensitiveData(serializeErrors(data)) },
+        },
+      }).catch(() => {
+        // Logging here would forward the failure to the same broken session
+      });
+    };
+  }
+}
+
+// Errors have no enumerable fields, so they would otherwise be sent as {}
+function serializeErrors(data: Record<string, unknown>): Record<string, unknown> {
+  const serialized: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    serialized[key] = value instanceof Error ? { name: value.name, message: value.message } : value;
+  }
+  return serialized;
+}
+
+export const mcpLogging = new McpLoggingManager();
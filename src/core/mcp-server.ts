@@ -0,0 +1,166 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ReadResourceRequestSchema,
+  ListToolsRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListResourcesRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  CompleteRequestSchema,
+  SetLevelRequestSchema,
+  type ElicitRequestFormParams,
+} from '@modelcontextprotocol/sdk/types.js';
+import { tools, resourceTemplates } from '../tools/definitions';
+import { handleError } from '../middleware/error-handler';
+import { handleToolCall, toCallToolResult } from '../tools/dispatcher';
+import {
+  resourceHandlers,
+  resourceTypes,
+  buildResourceUri,
+  parseResourceUri,
+} from './resource-registry';
+import { resourceSubscriptions } from './resource-subscriptions';
+import { mcpLogging } from './mcp-logging';
+import { cacheManager } from './cache';
+import { complete } from './completion';
+import { promptHandlers, listPrompts } from './prompt-registry';
+import type { StateSetMCPClient } from '../services/mcp-client';
+
+export const SERVER_INFO = { name: 'stateset-mcp-server', version: '1.0.0' };
+
+/**
+ * Create an MCP server with all request handlers registered.
+ *
+ * Each transport session gets its own Server instance, while the StateSet
+ * client (and with it the rate limiter, circuit breaker and cache) is shared.
+ */
+export function createMcpServer(client: StateSetMCPClient): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      completions: {},
+      logging: {},
+      prompts: {},
+      resources: { subscribe: true },
+      tools: {},
+    },
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    try {
+      const forwardLog = mcpLogging.createForwarder(server, extra.sendNotification);
+      const elicitInput = server.getClientCapabilities()?.elicitation?.form
+        ? (params: ElicitRequestFormParams) =>
+            server.elicitInput(params, { signal: extra.signal, relatedRequestId: extra.requestId })
+        : undefined;
+      return toCallToolResult(
+        await handleToolCall(client, request, { ...extra, forwardLog, elicitInput }),
+      );
+    } catch (error) {
+      // Use the error handler for better error messages
+      const apiError = handleError(error, { operation: request.params.name });
+      throw new Error(apiError.message);
+    }
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { protocol, id } = parseResourceUri(request.params.uri);
+    const handler = resourceHandlers.get(protocol);
+
+    if (!handler) {
+      throw new Error(`Unsupported URI: ${request.params.uri}`);
+    }
+
+    const data = await handler(client, id);
+    return {
+      contents: [
+        {
+          uri: request.params.uri,
+          mimeType: 'application/json',
+          text: JSON.stringify(data, null, 2),
+        },
+      ],
+    };
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools,
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates,
+  }));
+
+  // Concrete resources are the records this server has fetched recently
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: resourceTypes.flatMap((type) => {
+      if (!type.cache) return [];
+      const prefix = `${type.cache.keyPrefix}:`;
+
+      return cacheManager
+        .keys(type.cache.namespace)
+        .filter((key) => key.startsWith(prefix))
+        .map((key) => {
+          const id = key.slice(prefix.length);
+          return {
+            uri: buildResourceUri(type.protocol, id),
+            name: `${type.name} ${id}`,
+            mimeType: 'application/json',
+          };
+        });
+    }),
+  }));
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { protocol } = parseResourceUri(request.params.uri);
+    if (!resourceHandlers.has(protocol)) {
+      throw new Error(`Unsupported URI: ${request.params.uri}`);
+    }
+
+    resourceSubscriptions.subscribe(server, request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    resourceSubscriptions.unsubscribe(server, request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(CompleteRequestSchema, async (request) =>
+    complete(client, request.params),
+  );
+
+  // Replaces the SDK's handler so the level also applies to forwarded logs
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    mcpLogging.setLevel(server, request.params.level);
+    return {};
+  });
+
+  server.onclose = () => {
+    resourceSubscriptions.removeServer(server);
+    mcpLogging.removeServer(server);
+  };
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+    prompts: listPrompts(),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const prompt = promptHandlers.get(request.params.name);
+
+    if (!prompt) {
+      throw new Error(`Unknown prompt: ${request.params.name}`);
+    }
+
+    try {
+      return prompt.handler(request.params.arguments ?? {});
+    } catch (error) {
+      const apiError = handleError(error, { operation: request.params.name });
+      throw new Error(apiError.message);
+    }
+  });
+
+  return server;
+}
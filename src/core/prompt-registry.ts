@@ -0,0 +1,169 @@
+import { z } from 'zod';
+import type { GetPromptResult, Prompt, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import * as schemas from '../tools/schemas';
+
+export type PromptHandler = (args: Record<string, string>) => GetPromptResult;
+
+export interface PromptRegistration {
+  definition: Prompt;
+  handler: PromptHandler;
+  argumentSchema: z.AnyZodObject;
+}
+
+export const promptHandlers = new Map<string, PromptRegistration>();
+
+/**
+ * Register a prompt whose arguments are validated by a zod object schema.
+ * The advertised argument list is derived from the schema shape and descriptions.
+ */
+function registerPrompt<T extends z.ZodRawShape>(
+  name: string,
+  meta: { title: string; description: string },
+  schema: z.ZodObject<T>,
+  build: (args: z.infer<z.ZodObject<T>>) => PromptMessage[],
+): void {
+  const promptArguments = Object.entries(schema.shape).map(([argName, argSchema]) => ({
+    name: argName,
+    description: argSchema.description,
+    required: !argSchema.isOptional(),
+  }));
+
+  promptHandlers.set(name, {
+    definition: { name, ...meta, arguments: promptArguments },
+    argumentSchema: schema,
+    handler: (args) => ({
+      description: meta.description,
+      messages: build(schema.parse(args)),
+    }),
+  });
+}
+
+export function listPrompts(): Prompt[] {
+  return Array.from(promptHandlers.values()).map((registration) => registration.definition);
+}
+
+// ==================================
+// Message helpers
+// ==================================
+
+function instructions(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+function resourceLink(uri: string, name: string, description: string): PromptMessage {
+  return {
+    role: 'user',
+    content: { type: 'resource_link', uri, name, description, mimeType: 'application/json' },
+  };
+}
+
+// ==================================
+// Returns
+// ==================================
+
+registerPrompt(
+  'stateset_triage_return',
+  {
+    title: 'Triage a return',
+    description: 'Walk through the return triage procedure for an order',
+  },
+  z.object({
+    order_id: z.string().min(1).describe('Order the customer wants to return items from'),
+    reason: z.string().optional().describe('Return reason reported by the customer'),
+    rma_status: schemas.UpdateRMAArgsSchema.shape.status.describe(
+      'Status to move an existing RMA to instead of opening a new one',
+    ),
+  }),
+  ({ order_id, reason, rma_status }) => [
+    instructions(
+      [
+        `Triage a return request for order ${order_id}.`,
+        reason ? `The customer reports: "${reason}".` : undefined,
+        '',
+        'Follow the standard returns procedure:',
+        `1. Read stateset-order:///${order_id} and confirm the order exists, was delivered and belongs to the requesting customer.`,
+        `2. Call stateset_list_rmas filtered by order_id ${order_id} to check for an existing RMA; never open a duplicate.`,
+        rma_status
+          ? `   If one exists, move it to ${rma_status} with stateset_update_rma and skip to step 6.`
+          : undefined,
+        '3. Check whether the items are inside the return window. If not, call stateset_list_warranties for the order and route defects to a warranty claim instead.',
+        '4. If eligible, create the RMA with stateset_create_rma listing only the returned items and quantities, and put the reason in notes.',
+        '5. Approve with stateset_approve_return only when the reason is covered by policy; otherwise leave the RMA pending and explain why.',
+        '6. Summarize the decision, the RMA ID and the next step for the customer.',
+      ]
+        .filter((line) => line !== undefined)
+        .join('\n'),
+    ),
+    resourceLink(`stateset-order:///${order_id}`, `Order ${order_id}`, 'The order being returned'),
+  ],
+);
+
+// ==================================
+// Fulfillment
+// ==================================
+
+registerPrompt(
+  'stateset_investigate_late_shipment',
+  {
+    title: 'Investigate a late shipment',
+    description: 'Diagnose why a shipment is late and decide how to recover the order',
+  },
+  z.object({
+    shipment_id: z.string().min(1).describe('Shipment that missed its promised delivery date'),
+  }),
+  ({ shipment_id }) => [
+    instructions(
+      [
+        `Investigate late shipment ${shipment_id}.`,
+        '',
+        'Follow the standard late-shipment procedure:',
+        `1. Read stateset-shipment:///${shipment_id} for carrier, tracking number, ship date and promised date.`,
+        `2. Call stateset_track_shipment for ${shipment_id} and identify the last carrier scan and where the delay started.`,
+        '3. Read the linked order (stateset-order:///<order_id> from the shipment) to see what the customer was promised.',
+        '4. Classify the delay: not yet shipped (warehouse), in transit (carrier), or exception (address/customs/damage).',
+        '5. Recommend one recovery action: expedite, reship, partial refund, or proactive customer notice. Do not issue refunds or reships without confirmation.',
+        '6. Report the root cause, the affected order and the recommended action.',
+      ].join('\n'),
+    ),
+    resourceLink(
+      `stateset-shipment:///${shipment_id}`,
+      `Shipment ${shipment_id}`,
+      'The late shipment',
+    ),
+  ],
+);
+
+// ==================================
+// Inventory
+// ==================================
+
+registerPrompt(
+  'stateset_weekly_inventory_review',
+  {
+    title: 'Prepare weekly inventory review',
+    description: 'Compile the weekly inventory review: low stock, inbound supply and slow movers',
+  },
+  z.object({
+    location: z.string().optional().describe('Limit the review to one warehouse location'),
+    low_stock_threshold: z
+      .string()
+      .regex(/^\d+$/, 'low_stock_threshold must be a whole number')
+      .optional()
+      .describe('Quantity at or below which an item counts as low stock (default 10)'),
+  }),
+  ({ location, low_stock_threshold }) => [
+    instructions(
+      [
+        `Prepare the weekly inventory review${location ? ` for location ${location}` : ''}.`,
+        '',
+        'Follow the standard review procedure:',
+        `1. Call stateset_get_low_stock with threshold ${low_stock_threshold ?? '10'}${location ? ` and location ${location}` : ''}.`,
+        '2. For each low-stock item, check inbound supply with stateset_list_purchase_orders and stateset_list_asns; note expected arrival dates.',
+        '3. Call stateset_get_inventory_metrics for the last 7 days to find slow movers and stock turns.',
+        '4. Flag items with no inbound supply that will stock out before the next review, and items with excess stock.',
+        '5. Produce a table: item, on hand, reserved, inbound, days of cover, recommended action (reorder, expedite, hold, markdown).',
+        'Link each flagged item to its stateset-inventory:///<inventory_id> resource.',
+      ].join('\n'),
+    ),
+  ],
+);
@@ -19,6 +19,10 @@ export interface RequestContext {
   clientId?: string;
   /** Session identifier */
   sessionId?: string;
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+  /** Sends log records written during the request to the client */
+  forwardLog?: LogForwarder;
   /** Custom metadata */
   metadata: Record<string, unknown>;
   /** Breadcrumbs for debugging */
@@ -27,6 +31,11 @@ export interface RequestContext {
   marks: Map<string, number>;
 }
 
+/**
+ * Receives a log record with its pino level name and merged fields
+ */
+export type LogForwarder = (level: string, msg: string, fields: Record<string, unknown>) => void;
+
 export interface Breadcrumb {
   timestamp: number;
   category: string;
@@ -50,6 +59,8 @@ export function createRequestContext(options: Partial<RequestContext> = {}): Req
     toolCategory: options.toolCategory,
     clientId: options.clientId,
     sessionId: options.sessionId,
+    signal: options.signal,
+    forwardLog: options.forwardLog,
     metadata: options.metadata || {},
     breadcrumbs: options.breadcrumbs || [],
     marks: options.marks || new Map(),
@@ -80,6 +91,13 @@ export function getRequestContext(): RequestContext | undefined {
   return asyncLocalStorage.getStore();
 }
 
+/**
+ * Gets the cancellation signal of the current request, if any
+ */
+export function getAbortSignal(): AbortSignal | undefined {
+  return getRequestContext()?.signal;
+}
+
 /**
  * Gets the current correlation ID (or generates a new one if no context)
  */
@@ -28,3 +28,162 @@ resourceHandlers.set('stateset-cash-sale:', (client, path) => client.getCashSale
 resourceHandlers.set('stateset-inventory:', (client, path) => client.getInventory(path));
 resourceHandlers.set('stateset-product:', (client, path) => client.getProduct(path));
 resourceHandlers.set('stateset-customer:', (client, path) => client.getCustomer(path));
+
+export interface ResourceType {
+  /** URI scheme including the trailing colon, as keyed in resourceHandlers */
+  protocol: string;
+  /** Channel passed to broadcastResourceUpdate for this resource */
+  channel: string;
+  /** Tool and prompt argument that carries this resource's ID */
+  argument: string;
+  name: string;
+  /** Where StateSetMCPClient caches fetched records, if it does */
+  cache?: { namespace: string; keyPrefix: string };
+}
+
+export const resourceTypes: ResourceType[] = [
+  {
+    protocol: 'stateset-rma:',
+    channel: 'rmas',
+    argument: 'rma_id',
+    name: 'RMA',
+    cache: { namespace: 'rmas', keyPrefix: 'rma' },
+  },
+  {
+    protocol: 'stateset-order:',
+    channel: 'orders',
+    argument: 'order_id',
+    name: 'Order',
+    cache: { namespace: 'orders', keyPrefix: 'order' },
+  },
+  {
+    protocol: 'stateset-warranty:',
+    channel: 'warranties',
+    argument: 'warranty_id',
+    name: 'Warranty',
+    cache: { namespace: 'warranties', keyPrefix: 'warranty' },
+  },
+  {
+    protocol: 'stateset-shipment:',
+    channel: 'shipments',
+    argument: 'shipment_id',
+    name: 'Shipment',
+    cache: { namespace: 'shipments', keyPrefix: 'shipment' },
+  },
+  {
+    protocol: 'stateset-bill-of-materials:',
+    channel: 'bill_of_materials',
+    argument: 'bill_of_materials_id',
+    name: 'Bill of Materials',
+    cache: { namespace: 'bom', keyPrefix: 'bom' },
+  },
+  {
+    protocol: 'stateset-work-order:',
+    channel: 'work_orders',
+    argument: 'work_order_id',
+    name: 'Work Order',
+    cache: { namespace: 'workorders', keyPrefix: 'workorder' },
+  },
+  {
+    protocol: 'stateset-manufacturer-order:',
+    channel: 'manufacturer_orders',
+    argument: 'manufacturer_order_id',
+    name: 'Manufacturer Order',
+    cache: { namespace: 'mfgorders', keyPrefix: 'mfgorder' },
+  },
+  {
+    protocol: 'stateset-purchase-order:',
+    channel: 'purchase_orders',
+    argument: 'purchase_order_id',
+    name: 'Purchase Order',
+  },
+  {
+    protocol: 'stateset-asn:',
+    channel: 'asns',
+    argument: 'asn_id',
+    name: 'ASN',
+  },
+  {
+    protocol: 'stateset-invoice:',
+    channel: 'invoices',
+    argument: 'invoice_id',
+    name: 'Invoice',
+    cache: { namespace: 'invoices', keyPrefix: 'invoice' },
+  },
+  {
+    protocol: 'stateset-payment:',
+    channel: 'payments',
+    argument: 'payment_id',
+    name: 'Payment',
+  },
+  {
+    protocol: 'stateset-sales-order:',
+    channel: 'sales_orders',
+    argument: 'sales_order_id',
+    name: 'Sales Order',
+  },
+  {
+    protocol: 'stateset-fulfillment-order:',
+    channel: 'fulfillment_orders',
+    argument: 'fulfillment_order_id',
+    name: 'Fulfillment Order',
+  },
+  {
+    protocol: 'stateset-item-receipt:',
+    channel: 'item_receipts',
+    argument: 'item_receipt_id',
+    name: 'Item Receipt',
+  },
+  {
+    protocol: 'stateset-cash-sale:',
+    channel: 'cash_sales',
+    argument: 'cash_sale_id',
+    name: 'Cash Sale',
+  },
+  {
+    protocol: 'stateset-inventory:',
+    channel: 'inventory',
+    argument: 'inventory_id',
+    name: 'Inventory',
+  },
+  {
+    protocol: 'stateset-product:',
+    channel: 'products',
+    argument: 'product_id',
+    name: 'Product',
+  },
+  {
+    protocol: 'stateset-customer:',
+    channel: 'customers',
+    argument: 'customer_id',
+    name: 'Customer',
+  },
+];
+
+export function getResourceTypeByChannel(channel: string): ResourceType | undefined {
+  return resourceTypes.find((type) => type.channel === channel);
+}
+
+export function getResourceTypeByProtocol(protocol: string): ResourceType | undefined {
+  return resourceTypes.find((type) => type.protocol === protocol);
+}
+
+export function getResourceTypeByArgument(argument: string): ResourceType | undefined {
+  return resourceTypes.find((type) => type.argument === argument);
+}
+
+export function buildResourceUri(protocol: string, id: string): string {
+  return `${protocol}///${id}`;
+}
+
+/**
+ * Split a resource URI into protocol and record ID.
+ * Accepts both the template form (stateset-order:///ORD-1) and stateset-order://ORD-1.
+ */
+export function parseResourceUri(uri: string): { protocol: string; id: string } {
+  const url = new URL(uri);
+  return {
+    protocol: url.protocol,
+    id: `${url.host}${url.pathname}`.replace(/^\/+/, ''),
+  };
+}
@@ -0,0 +1,89 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { createLogger } from '../utils/logger';
+import { parseResourceUri } from './resource-registry';
+
+const logger = createLogger('resource-subscriptions');
+
+/**
+ * Tracks MCP resources/subscribe requests across sessions.
+ *
+ * Subscriptions are keyed by protocol and record ID, so stateset-order://ORD-1
+ * and stateset-order:///ORD-1 refer to the same record. Each session is
+ * notified with the URI exactly as it subscribed.
+ */
+export class ResourceSubscriptionManager {
+  private subscriptions: Map<string, Map<Server, string>> = new Map(); // record key -> session -> URI
+
+  subscribe(server: Server, uri: string): void {
+    const key = this.recordKey(uri);
+    let subscribers = this.subscriptions.get(key);
+    if (!subscribers) {
+      subscribers = new Map();
+      this.subscriptions.set(key, subscribers);
+    }
+    subscribers.set(server, uri);
+    logger.debug('Resource subscription added', { uri, subscribers: subscribers.size });
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    const key = this.recordKey(uri);
+    const subscribers = this.subscriptions.get(key);
+    if (!subscribers) return;
+
+    subscribers.delete(server);
+    if (subscribers.size === 0) {
+      this.subscriptions.delete(key);
+    }
+    logger.debug('Resource subscription removed', { uri });
+  }
+
+  /**
+   * Drop every subscription held by a session, e.g. when it disconnects
+   */
+  removeServer(server: Server): void {
+    for (const [key, subscribers] of this.subscriptions.entries()) {
+      subscribers.delete(server);
+      if (subscribers.size === 0) {
+        this.subscriptions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Send notifications/resources/updated to every session subscribed to the record
+   */
+  async notify(protocol: string, id: string): Promise<number> {
+    const subscribers = this.subscriptions.get(`${protocol}${id}`);
+    if (!subscribers) return 0;
+
+    const deliveries = Array.from(subscribers.entries()).map(async ([server, uri]) => {
+      try {
+        await server.sendResourceUpdated({ uri });
+      } catch (error) {
+        // The session may have gone away between the update and the notification
+        logger.warn('Failed to send resource update notification', {
+          uri,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    });
+    await Promise.all(deliveries);
+
+    return subscribers.size;
+  }
+
+  getStats(): { resources: number; subscriptions: number } {
+    let subscriptions = 0;
+    for (const subscribers of this.subscriptions.values()) {
+      subscriptions += subscribers.size;
+    }
+    return { resources: this.subscriptions.size, subscriptions };
+  }
+
+  private recordKey(uri: string): string {
+    const { protocol, id } = parseResourceUri(uri);
+    return `${protocol}${id}`;
+  }
+}
+
+export const resourceSubscriptions = new ResourceSubscriptionManager();
@@ -1,6 +1,18 @@
 import axios from 'axios';
 import { logger } from '../utils/logger';
 import { RateLimiterMetrics } from '../types/mcp-api';
+import { createCancellationError, throwIfCancelled } from './cancellation';
+import {
+  getToolCategory,
+  type ToolCategory as ToolClassificationCategory,
+} from './tool-classification';
+
+export interface EnqueueOptions {
+  /** Retries for network and 5xx errors */
+  retries?: number;
+  /** Aborts the request, removing it from the queue if it has not started */
+  signal?: AbortSignal;
+}
 
 // Rate Limiter
 export class RateLimiter {
@@ -17,13 +29,19 @@ export class RateLimiter {
     this.minDelayMs = 3600000 / requestsPerHour;
   }
 
-  async enqueue<T>(fn: () => Promise<T>, operation: string, retries = 3): Promise<T> {
+  async enqueue<T>(
+    fn: () => Promise<T>,
+    operation: string,
+    { retries = 3, signal }: EnqueueOptions = {},
+  ): Promise<T> {
+    throwIfCancelled(signal, operation);
     const startTime = Date.now();
     return new Promise((resolve, reject) => {
-      this.queue.push(async () => {
+      const task = async () => {
+        signal?.removeEventListener('abort', onAbort);
         try {
           logger.debug('Starting API request', { operation });
-          const result = await this.executeWithRetry(fn, operation, retries);
+          const result = await this.executeWithRetry(fn, operation, retries, signal);
           const duration = Date.now() - startTime;
           this.trackRequest(startTime, duration);
           logger.debug('Completed API request', { operation, duration });
@@ -32,7 +50,20 @@ export class RateLimiter {
           logger.error('API request failed', error, { operation });
           reject(error);
         }
-      });
+      };
+
+      // Free the queue slot if the request is cancelled before it starts
+      const onAbort = () => {
+        const index = this.queue.indexOf(task);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        logger.debug('Cancelled queued API request', { operation });
+        reject(createCancellationError(signal, operation));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(task);
       this.processQueue();
     });
   }
@@ -41,11 +72,14 @@ export class RateLimiter {
     fn: () => Promise<T>,
     operation: string,
     retries: number,
+    signal?: AbortSignal,
   ): Promise<T> {
     for (let attempt = 1; ; attempt++) {
+      throwIfCancelled(signal, operation);
       try {
         return await fn();
       } catch (error) {
+        throwIfCancelled(signal, operation);
         if (attempt > retries || !this.isRetryableError(error)) {
           throw error;
         }
@@ -129,6 +163,21 @@ export interface ToolRateLimitMetrics {
   lastRequestTime: string;
 }
 
+// Rate limit bucket for each tool category. Workflow transitions share the
+// conservative create bucket.
+const rateLimitCategories: Record<ToolClassificationCategory, ToolCategory> = {
+  create: 'create',
+  read: 'read',
+  list: 'read',
+  search: 'read',
+  analytics: 'read',
+  update: 'update',
+  delete: 'delete',
+  workflow: 'create',
+  batch: 'batch',
+  admin: 'admin',
+};
+
 // Per-Tool Rate Limiter with Token Bucket Algorithm
 export class ToolRateLimiter {
   private readonly limits: Record<ToolCategory, ToolRateLimitConfig> = {
@@ -174,27 +223,7 @@ export class ToolRateLimiter {
 
   // Categorize a tool based on its name
   private categorize(toolName: string): ToolCategory {
-    if (toolName.includes('batch') || toolName.includes('csv_import')) {
-      return 'batch';
-    }
-    if (toolName.includes('_delete_')) {
-      return 'delete';
-    }
-    if (toolName.includes('_create_')) {
-      return 'create';
-    }
-    if (toolName.includes('_update_')) {
-      return 'update';
-    }
-    if (toolName.includes('_get_') || toolName.includes('_list_') || toolName.includes('_search')) {
-      return 'read';
-    }
-    // Admin tools: health_check, cache_stats, clear_cache, metrics
-    if (toolName.includes('health') || toolName.includes('cache') || toolName.includes('metrics')) {
-      return 'admin';
-    }
-    // Default to create for unknown operations (conservative)
-    return 'create';
+    return rateLimitCategories[getToolCategory(toolName)];
   }
 
   // Refill tokens based on elapsed time
@@ -0,0 +1,110 @@
+import { InvalidStateTransitionError } from '../middleware/error-handler';
+
+export interface Transition<S extends string, A extends string> {
+  action: A;
+  from: S[];
+  /** Omitted when the action leaves the state unchanged, e.g. editing a step again */
+  to?: S;
+}
+
+export interface StateMachineDefinition<S extends string, A extends string> {
+  /** Used in error messages, e.g. "checkout" */
+  resourceType: string;
+  states: readonly S[];
+  transitions: Transition<S, A>[];
+  /** Tool that performs each action, suggested as a next step */
+  actionTools: Record<A, string>;
+}
+
+/**
+ * Validates lifecycle transitions locally so out-of-order calls fail with an
+ * actionable error instead of a round trip to the API.
+ *
+ * An action may appear in several transitions with different source states;
+ * the first transition whose `from` contains the current state applies.
+ */
+export class StateMachine<S extends string, A extends string> {
+  constructor(private readonly definition: StateMachineDefinition<S, A>) {}
+
+  isState(value: unknown): value is S {
+    return typeof value === 'string' && this.definition.states.includes(value as S);
+  }
+
+  canTransition(state: S, action: A): boolean {
+    return this.findTransition(state, action) !== undefined;
+  }
+
+  /**
+   * Actions that are allowed from a state, in definition order
+   */
+  availableActions(state: S): A[] {
+    const actions: A[] = [];
+    for (const transition of this.definition.transitions) {
+      if (transition.from.includes(state) && !actions.includes(transition.action)) {
+        actions.push(transition.action);
+      }
+    }
+    return actions;
+  }
+
+  getActionTool(action: A): string {
+    return this.definition.actionTools[action];
+  }
+
+  /**
+   * Returns the state after the action, or throws InvalidStateTransitionError
+   */
+  transition(resourceId: string, state: S, action: A): S {
+    const transition = this.findTransition(state, action);
+    if (!transition) {
+      throw this.invalidTransition(resourceId, state, action);
+    }
+    return transition.to ?? state;
+  }
+
+  /**
+   * Returns the action that moves the resource from a state to the target
+   * state, or throws InvalidStateTransitionError
+   */
+  transitionTo(resourceId: string, state: S, target: S): A {
+    const transition = this.definition.transitions.find(
+      (candidate) => candidate.to === target && candidate.from.includes(state),
+    );
+    if (!transition) {
+      throw this.invalidTransition(resourceId, state, `move_to_${target}`);
+    }
+    return transition.action;
+  }
+
+  /**
+   * State an action moves to, regardless of where it starts
+   */
+  targetState(action: A): S | undefined {
+    return this.definition.transitions.find(
+      (transition) => transition.action === action && transition.to !== undefined,
+    )?.to;
+  }
+
+  private invalidTransition(
+    resourceId: string,
+    state: S,
+    action: string,
+  ): InvalidStateTransitionError {
+    return new InvalidStateTransitionError(
+      this.definition.resourceType,
+      resourceId,
+      state,
+      action,
+      this.availableActions(state).map((next) => ({
+        action: this.getActionTool(next),
+        description: `Allowed from '${state}': ${next.replace(/_/g, ' ')}`,
+      })),
+    );
+  }
+
+  private findTransition(state: S, action: A): Transition<S, A> | undefined {
+    return this.definition.transitions.find(
+      (transition) => transition.action === action && transition.from.includes(state),
+    );
+  }
+}
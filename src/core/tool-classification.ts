@@ -0,0 +1,196 @@
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Tool category, shared by metrics, per-tool rate limiting and MCP annotations
+ */
+export type ToolCategory =
+  | 'create'
+  | 'read'
+  | 'update'
+  | 'delete'
+  | 'list'
+  | 'workflow'
+  | 'search'
+  | 'batch'
+  | 'analytics'
+  | 'admin';
+
+// Tools whose names don't start with a verb
+const toolCategoryOverrides: Record<string, ToolCategory> = {
+  stateset_advanced_search: 'search',
+  stateset_full_text_search: 'search',
+  stateset_saved_search: 'search',
+  stateset_export_search_results: 'search',
+  stateset_csv_import: 'batch',
+  stateset_supplier_scorecard: 'analytics',
+  stateset_order_balance: 'analytics',
+  stateset_customer_login: 'workflow',
+  stateset_customer_register: 'create',
+  stateset_health_check: 'admin',
+  stateset_cache_stats: 'admin',
+  stateset_clear_cache: 'admin',
+  stateset_tool_rate_limits: 'admin',
+  stateset_timeout_config: 'admin',
+  stateset_websocket_stats: 'admin',
+};
+
+// Categories by the verb that follows the `stateset_` prefix
+const verbCategories: Record<string, ToolCategory> = {
+  create: 'create',
+  add: 'create',
+  record: 'create',
+  get: 'read',
+  track: 'read',
+  list: 'list',
+  search: 'search',
+  update: 'update',
+  mark: 'update',
+  change: 'update',
+  set: 'update',
+  delete: 'delete',
+  remove: 'delete',
+  clear: 'delete',
+  batch: 'batch',
+  bulk: 'batch',
+  match: 'analytics',
+  explode: 'analytics',
+  approve: 'workflow',
+  archive: 'workflow',
+  assign: 'workflow',
+  apply: 'workflow',
+  cancel: 'workflow',
+  close: 'workflow',
+  complete: 'workflow',
+  extend: 'workflow',
+  hold: 'workflow',
+  install: 'workflow',
+  process: 'workflow',
+  receive: 'workflow',
+  refund: 'workflow',
+  release: 'workflow',
+  reserve: 'workflow',
+  restock: 'workflow',
+  schedule: 'workflow',
+  start: 'workflow',
+};
+
+function getToolVerb(toolName: string): string {
+  return toolName.replace(/^stateset_/, '').split('_')[0] ?? '';
+}
+
+/**
+ * Determines tool category from tool name. Unknown tools are treated as
+ * workflows so they are never reported as read-only.
+ */
+export function getToolCategory(toolName: string): ToolCategory {
+  return toolCategoryOverrides[toolName] ?? verbCategories[getToolVerb(toolName)] ?? 'workflow';
+}
+
+// ==================================
+// MCP ANNOTATIONS
+// ==================================
+
+type ToolHints = Omit<ToolAnnotations, 'title'>;
+
+const readOnlyHints: ToolHints = {
+  readOnlyHint: true,
+  destructiveHint: false,
+  idempotentHint: true,
+  openWorldHint: true,
+};
+
+const categoryHints: Record<ToolCategory, ToolHints> = {
+  read: readOnlyHints,
+  list: readOnlyHints,
+  search: readOnlyHints,
+  analytics: readOnlyHints,
+  create: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  update: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  delete: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+    openWorldHint: true,
+  },
+  workflow: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  batch: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+    openWorldHint: true,
+  },
+  admin: {
+    readOnlyHint: true,
+    destructiveHint: false,
+    idempotentHint: true,
+    openWorldHint: false,
+  },
+};
+
+// Workflow transitions that cannot be undone
+const destructiveVerbs = new Set(['archive', 'cancel', 'refund']);
+
+// Workflow transitions that leave the record in the same state when repeated
+const idempotentVerbs = new Set(['approve', 'archive', 'cancel', 'close', 'complete', 'hold']);
+
+const hintOverrides: Record<string, Partial<ToolHints>> = {
+  stateset_health_check: { openWorldHint: true },
+  stateset_clear_cache: { readOnlyHint: false },
+  stateset_batch_operations: { destructiveHint: true },
+  // Ends with a refund
+  stateset_process_return: { destructiveHint: true },
+  // Removing a cart line is undone by adding it again
+  stateset_remove_cart_item: { destructiveHint: false },
+};
+
+const acronyms = new Set(['api', 'asn', 'asns', 'bom', 'csv', 'ncr', 'rma', 'rmas']);
+
+/**
+ * Builds a human-readable title from a tool name, e.g. "Create RMA"
+ */
+export function getToolTitle(toolName: string): string {
+  const title = toolName
+    .replace(/^stateset_/, '')
+    .split('_')
+    .map((word) =>
+      acronyms.has(word) ? word.toUpperCase().replace(/S$/, 's') : word.toLowerCase(),
+    )
+    .join(' ');
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+/**
+ * Derives MCP tool annotations from the tool's category
+ */
+export function getToolAnnotations(toolName: string): ToolAnnotations {
+  const verb = getToolVerb(toolName);
+  const hints: ToolHints = { ...categoryHints[getToolCategory(toolName)] };
+
+  if (destructiveVerbs.has(verb)) {
+    hints.destructiveHint = true;
+  }
+  if (idempotentVerbs.has(verb)) {
+    hints.idempotentHint = true;
+  }
+
+  return {
+    title: getToolTitle(toolName),
+    ...hints,
+    ...hintOverrides[toolName],
+  };
+}
@@ -1,6 +1,9 @@
 import { metrics } from './metrics';
 import { createLogger } from '@utils/logger';
 import { getCorrelationId, addBreadcrumb } from './request-context';
+import { getToolCategory, type ToolCategory } from './tool-classification';
+
+export { getToolCategory, type ToolCategory };
 
 const logger = createLogger('tool-metrics');
 
@@ -37,62 +40,6 @@ export interface ToolStats {
   lastCalled: number;
 }
 
-/**
- * Tool category for grouping metrics
- */
-export type ToolCategory =
-  | 'create'
-  | 'read'
-  | 'update'
-  | 'delete'
-  | 'list'
-  | 'workflow'
-  | 'search'
-  | 'batch'
-  | 'analytics'
-  | 'admin';
-
-/**
- * Determines tool category from tool name
- */
-export function getToolCategory(toolName: string): ToolCategory {
-  if (toolName.includes('_create_') || toolName.includes('_add_')) return 'create';
-  if (toolName.includes('_get_')) return 'read';
-  if (toolName.includes('_update_') || toolName.includes('_mark_')) return 'update';
-  if (toolName.includes('_delete_') || toolName.includes('_remove_')) return 'delete';
-  if (toolName.includes('_list_')) return 'list';
-  if (
-    toolName.includes('_approve_') ||
-    toolName.includes('_cancel_') ||
-    toolName.includes('_complete_') ||
-    toolName.includes('_start_') ||
-    toolName.includes('_hold_') ||
-    toolName.includes('_assign_') ||
-    toolName.includes('_restock_') ||
-    toolName.includes('_reserve_') ||
-    toolName.includes('_release_') ||
-    toolName.includes('_refund_') ||
-    toolName.includes('_extend_') ||
-    toolName.includes('_receive_')
-  ) return 'workflow';
-  if (toolName.includes('_search_') || toolName.includes('_advanced_')) return 'search';
-  if (toolName.includes('_batch_') || toolName.includes('_csv_')) return 'batch';
-  if (
-    toolName.includes('_metrics') ||
-    toolName.includes('_trends') ||
-    toolName.includes('_dashboard')
-  ) return 'analytics';
-  if (
-    toolName.includes('_health_') ||
-    toolName.includes('_cache_') ||
-    toolName.includes('_rate_') ||
-    toolName.includes('_timeout_') ||
-    toolName.includes('_websocket_')
-  ) return 'admin';
-
-  return 'read'; // Default
-}
-
 /**
  * Tool metrics collector singleton
  */
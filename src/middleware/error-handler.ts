@@ -8,6 +8,7 @@ import {
   getElapsedTime,
 } from '../core/request-context';
 import { classifyError, ErrorType } from '../core/retry-strategy';
+import { CancellationError } from '../core/cancellation';
 import { metrics } from '../core/metrics';
 
 export interface ErrorContext {
@@ -161,6 +162,131 @@ export class TimeoutError extends APIError {
   }
 }
 
+export class InvalidStateTransitionError extends APIError {
+  constructor(
+    resourceType: string,
+    resourceId: string,
+    public readonly currentState: string,
+    public readonly action: string,
+    nextSteps: ActionableSuggestion[],
+  ) {
+    const next =
+      nextSteps.length > 0
+        ? `Next steps: ${nextSteps.map((step) => step.action).join(', ')}`
+        : `No further changes are possible once it is ${currentState}`;
+    super(
+      `Cannot ${action.replace(/_/g, ' ')} for ${resourceType} '${resourceId}' in state '${currentState}'. ${next}.`,
+      409,
+      'INVALID_STATE_TRANSITION',
+      undefined,
+      nextSteps.length > 0
+        ? nextSteps
+        : [
+            {
+              action: `Start a new ${resourceType}`,
+              description: `This ${resourceType} is ${currentState} and can no longer be changed`,
+            },
+          ],
+    );
+    this.name = 'InvalidStateTransitionError';
+  }
+}
+
+export class InsufficientInventoryError extends APIError {
+  constructor(
+    public readonly inventoryId: string,
+    public readonly requested: number,
+    public readonly available: number,
+  ) {
+    super(
+      `Cannot reserve ${requested} of inventory '${inventoryId}': only ${available} available`,
+      409,
+      'INSUFFICIENT_INVENTORY',
+      undefined,
+      [
+        {
+          action: 'stateset_get_available_to_promise',
+          description: 'See when enough stock is projected to be available',
+        },
+        {
+          action: 'stateset_release_inventory',
+          description: 'Release reservations that are no longer needed',
+        },
+      ],
+    );
+    this.name = 'InsufficientInventoryError';
+  }
+}
+
+export class WarrantyClaimIneligibleError extends APIError {
+  constructor(
+    public readonly warrantyId: string,
+    public readonly reasons: string[],
+  ) {
+    super(
+      `Warranty '${warrantyId}' is not eligible for this claim: ${reasons.join('; ')}`,
+      422,
+      'WARRANTY_CLAIM_INELIGIBLE',
+      undefined,
+      [
+        {
+          action: 'stateset_get_warranty',
+          description: "Review the warranty's coverage dates and serial numbers",
+        },
+        {
+          action: 'stateset_extend_warranty',
+          description: 'Extend coverage first if the claim should be honoured anyway',
+        },
+      ],
+    );
+    this.name = 'WarrantyClaimIneligibleError';
+  }
+}
+
+export class RefundExceedsCapturedError extends APIError {
+  constructor(
+    public readonly paymentId: string,
+    public readonly requested: number,
+    public readonly refundable: number,
+  ) {
+    super(
+      `Cannot refund ${requested} of payment '${paymentId}': only ${refundable} of the captured amount has not been refunded`,
+      409,
+      'REFUND_EXCEEDS_CAPTURED',
+      undefined,
+      [
+        {
+          action: 'stateset_get_payments_by_order',
+          description: 'Review the payments captured for the order',
+        },
+        {
+          action: 'stateset_order_balance',
+          description: 'See what the order has been paid and refunded so far',
+        },
+      ],
+    );
+    this.name = 'RefundExceedsCapturedError';
+  }
+}
+
+export class InvalidAddressError extends APIError {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid address: ${problems.join('; ')}`, 400, 'INVALID_ADDRESS', undefined, [
+      {
+        action: 'Check the country',
+        description: 'Use a country name or its ISO 3166 code',
+        example: 'US, CA, GB',
+      },
+      {
+        action: 'Check the postal code and state',
+        description: "Use the country's postal code format and a state or province it has",
+        example: '94105, K1A 0B1, SW1A 1AA',
+      },
+    ]);
+    this.name = 'InvalidAddressError';
+  }
+}
+
 // Helper to get suggestions based on error type and status code
 function getSuggestionsForHttpError(
   statusCode: number,
@@ -298,6 +424,10 @@ export function handleError(error: unknown, context?: ErrorContext): APIError {
     return error;
   }
 
+  if (error instanceof CancellationError) {
+    return new APIError(error.message, 499, error.code, { ...context, correlationId, requestId });
+  }
+
   if (error instanceof ZodError) {
     const validationError = new ValidationError(
       `Validation failed: ${error.errors.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')}`,
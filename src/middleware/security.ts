@@ -1,7 +1,7 @@
 import helmet from 'helmet';
 import cors from 'cors';
 import compression from 'compression';
-import { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
 import { createLogger } from '@utils/logger';
 import { config } from '@config/index';
 
@@ -47,7 +47,7 @@ export const corsOptions = cors({
     // Allow requests with no origin (like mobile apps or curl requests)
     if (!origin) return callback(null, true);
 
-    const allowedOrigins = config.security?.allowedOrigins || ['http://localhost:3000'];
+    const allowedOrigins = config.security.allowedOrigins;
 
     if (allowedOrigins.includes('*') || allowedOrigins.includes(origin)) {
       callback(null, true);
@@ -57,8 +57,22 @@ export const corsOptions = cors({
   },
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
-  exposedHeaders: ['X-Request-ID', 'X-RateLimit-Limit', 'X-RateLimit-Remaining'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-Request-ID',
+    'X-API-Key',
+    'Mcp-Session-Id',
+    'Mcp-Protocol-Version',
+    'Last-Event-ID',
+  ],
+  exposedHeaders: [
+    'X-Request-ID',
+    'X-RateLimit-Limit',
+    'X-RateLimit-Remaining',
+    'Mcp-Session-Id',
+    'Mcp-Protocol-Version',
+  ],
   maxAge: 86400, // 24 hours
 });
 
@@ -69,6 +83,10 @@ export const compressionMiddleware = compression({
     if (req.headers['x-no-compression']) {
       return false;
     }
+    // Never buffer event streams (SSE transport, streamable HTTP responses)
+    if (String(res.getHeader('Content-Type') ?? '').includes('text/event-stream')) {
+      return false;
+    }
     // Fallback to standard filter function
     return compression.filter(req, res);
   },
@@ -79,7 +97,7 @@ export const compressionMiddleware = compression({
 // Request sanitization middleware
 export const sanitizeRequest: RequestHandler = (
   req: Request,
-  res: Response,
+  _res: Response,
   next: NextFunction,
 ) => {
   // Remove any null bytes from request
@@ -100,8 +118,8 @@ export const sanitizeRequest: RequestHandler = (
     return value;
   };
 
+  // req.query is a read-only getter in Express 5, so only body and params are rewritten
   req.body = sanitizeValue(req.body);
-  req.query = sanitizeValue(req.query);
   req.params = sanitizeValue(req.params);
 
   next();
@@ -109,23 +127,28 @@ export const sanitizeRequest: RequestHandler = (
 
 // API key validation middleware
 export const validateApiKey: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
-  const apiKey = req.headers['x-api-key'] || req.headers.authorization?.replace('Bearer ', '');
+  const headerKey = req.headers['x-api-key'];
+  const apiKey =
+    (Array.isArray(headerKey) ? headerKey[0] : headerKey) ??
+    req.headers.authorization?.replace('Bearer ', '');
 
   if (!apiKey) {
-    logger.warn({ ip: req.ip, path: req.path }, 'Missing API key');
-    return res.status(401).json({
+    logger.warn('Missing API key', { ip: req.ip, path: req.path });
+    res.status(401).json({
       error: 'Unauthorized',
       message: 'API key is required',
     });
+    return;
   }
 
   // In a real implementation, validate against a database or service
-  if (apiKey !== config.api.apiKey) {
-    logger.warn({ ip: req.ip, path: req.path }, 'Invalid API key');
-    return res.status(401).json({
+  if (apiKey !== config.security.apiKey) {
+    logger.warn('Invalid API key', { ip: req.ip, path: req.path });
+    res.status(401).json({
       error: 'Unauthorized',
       message: 'Invalid API key',
     });
+    return;
   }
 
   // Add user context to request
@@ -139,20 +162,22 @@ export const validateApiKey: RequestHandler = (req: Request, res: Response, next
 
 // IP whitelist middleware
 export const ipWhitelist: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
-  const whitelist = config.security?.ipWhitelist || [];
+  const whitelist = config.security.ipWhitelist;
 
   if (whitelist.length === 0) {
-    return next(); // No whitelist configured
+    next(); // No whitelist configured
+    return;
   }
 
-  const clientIp = req.ip || req.connection.remoteAddress;
+  const clientIp = req.ip ?? req.socket.remoteAddress;
 
   if (!clientIp || !whitelist.includes(clientIp)) {
-    logger.warn({ ip: clientIp, path: req.path }, 'IP not in whitelist');
-    return res.status(403).json({
+    logger.warn('IP not in whitelist', { ip: clientIp, path: req.path });
+    res.status(403).json({
       error: 'Forbidden',
       message: 'Access denied',
     });
+    return;
   }
 
   next();
@@ -165,14 +190,17 @@ export const requestSizeLimit = (limit: string = '10mb'): RequestHandler => {
     const maxSize = parseSize(limit);
 
     if (contentLength > maxSize) {
-      logger.warn(
-        { ip: req.ip, path: req.path, contentLength, maxSize },
-        'Request size exceeds limit',
-      );
-      return res.status(413).json({
+      logger.warn('Request size exceeds limit', {
+        ip: req.ip,
+        path: req.path,
+        contentLength,
+        maxSize,
+      });
+      res.status(413).json({
         error: 'Payload Too Large',
         message: `Request size exceeds limit of ${limit}`,
       });
+      return;
     }
 
     next();
@@ -193,7 +221,7 @@ function parseSize(size: string): number {
     throw new Error(`Invalid size format: ${size}`);
   }
 
-  const [, value, unit] = match;
+  const [, value = '0', unit = ''] = match;
   const multiplier = units[unit];
 
   if (!multiplier) {
@@ -208,7 +236,7 @@ export const auditLog: RequestHandler = (req: Request, res: Response, next: Next
   const startTime = Date.now();
 
   // Log request
-  logger.info({
+  logger.info('Audit request', {
     type: 'audit',
     event: 'request',
     ip: req.ip,
@@ -221,7 +249,7 @@ export const auditLog: RequestHandler = (req: Request, res: Response, next: Next
   // Log response
   res.on('finish', () => {
     const duration = Date.now() - startTime;
-    logger.info({
+    logger.info('Audit response', {
       type: 'audit',
       event: 'response',
       ip: req.ip,
@@ -1,25 +1,15 @@
 #!/usr/bin/env node
 
-import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import {
-  CallToolRequestSchema,
-  ReadResourceRequestSchema,
-  ListToolsRequestSchema,
-  ListResourceTemplatesRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import dotenv from 'dotenv';
 import { logger } from './utils/logger';
-import { tools, resourceTemplates } from './tools/definitions';
-import { handleError } from './middleware/error-handler';
 import { wsManager } from './core/websocket';
 import { cacheManager } from './core/cache';
 import { StateSetMCPClient } from './services/mcp-client';
-import { handleToolCall } from './tools/dispatcher';
 import { Config } from './types/mcp-api';
-
-import { resourceHandlers } from './core/resource-registry';
+import { createMcpServer } from './core/mcp-server';
+import { HttpTransportServer } from './core/http-transport';
 
 // Main Function
 async function main(): Promise<void> {
@@ -32,6 +22,10 @@ async function main(): Promise<void> {
         REQUESTS_PER_HOUR: z.coerce.number().positive().default(1000),
         API_TIMEOUT_MS: z.coerce.number().positive().default(10000),
         WEBSOCKET_PORT: z.coerce.number().positive().default(8081),
+        MCP_TRANSPORT: z.enum(['stdio', 'http']).default('stdio'),
+        MCP_HTTP_HOST: z.string().default('0.0.0.0'),
+        MCP_HTTP_PORT: z.coerce.number().positive().default(3000),
+        MCP_HTTP_PATH: z.string().startsWith('/').default('/mcp'),
       })
       .parse(process.env);
 
@@ -54,59 +48,24 @@ async function main(): Promise<void> {
       });
     }
 
-    const server = new Server(
-      { name: 'stateset-mcp-server', version: '1.0.0' },
-      {
-        capabilities: {
-          resources: {},
-          tools: {},
-        },
-      },
-    );
-
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      try {
-        return await handleToolCall(client, request);
-      } catch (error) {
-        // Use the error handler for better error messages
-        const apiError = handleError(error, { operation: request.params.name });
-        throw new Error(apiError.message);
-      }
-    });
-
-    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-      const uri = new URL(request.params.uri);
-      const path = uri.pathname.replace(/^\//, '');
-      const handler = resourceHandlers.get(uri.protocol);
-
-      if (!handler) {
-        throw new Error(`Unsupported URI: ${request.params.uri}`);
-      }
-
-      const data = await handler(client, path);
-      return {
-        contents: [
-          {
-            uri: request.params.uri,
-            mimeType: 'application/json',
-            text: JSON.stringify(data, null, 2),
-          },
-        ],
-      };
-    });
-
-    server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools,
-    }));
+    // All sessions share one client, and with it the rate limiter, circuit breaker and cache
+    let closeTransport: () => Promise<void>;
 
-    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
-      templates: resourceTemplates,
-    }));
-
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
+    if (env.MCP_TRANSPORT === 'http') {
+      const httpTransport = new HttpTransportServer(() => createMcpServer(client), {
+        host: env.MCP_HTTP_HOST,
+        port: env.MCP_HTTP_PORT,
+        path: env.MCP_HTTP_PATH,
+      });
+      await httpTransport.start();
+      closeTransport = () => httpTransport.stop();
+    } else {
+      const server = createMcpServer(client);
+      await server.connect(new StdioServerTransport());
+      closeTransport = () => server.close();
+    }
 
-    logger.info('Server started successfully');
+    logger.info('Server started successfully', { transport: env.MCP_TRANSPORT });
 
     // Graceful shutdown handling
     let isShuttingDown = false;
@@ -133,7 +92,7 @@ async function main(): Promise<void> {
 
         // Close server transport
         logger.info('Closing server transport...');
-        await server.close();
+        await closeTransport();
 
         logger.info('Graceful shutdown completed');
         process.exit(0);
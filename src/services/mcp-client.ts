@@ -2,6 +2,7 @@ import axios, { AxiosInstance, AxiosError } from 'axios';
 import { z } from 'zod';
 import * as schemas from '../tools/schemas';
 import { logger } from '../utils/logger';
+import { roundToCents } from '../utils/records';
 import { RateLimiter } from '../core/server-rate-limiter';
 import {
   createOperationTimeoutConfig,
@@ -10,7 +11,14 @@ import {
 } from '../config/timeouts';
 import { CircuitBreaker, CircuitState } from '../core/circuit-breaker';
 import { cacheManager, CacheStats } from '../core/cache';
-import { Config, RateLimiterMetrics, StateSetResponse } from '../types/mcp-api';
+import { getAbortSignal } from '../core/request-context';
+import {
+  CartItem,
+  CartResponse,
+  Config,
+  RateLimiterMetrics,
+  StateSetResponse,
+} from '../types/mcp-api';
 
 type CreateRMAArgs = z.infer<typeof schemas.CreateRMAArgsSchema>;
 type UpdateRMAArgs = z.infer<typeof schemas.UpdateRMAArgsSchema>;
@@ -19,10 +27,18 @@ type DeleteRMAArgs = z.infer<typeof schemas.DeleteRMAArgsSchema>;
 type CreateOrderArgs = z.infer<typeof schemas.CreateOrderArgsSchema>;
 type UpdateOrderArgs = z.infer<typeof schemas.UpdateOrderArgsSchema>;
 type DeleteOrderArgs = z.infer<typeof schemas.DeleteOrderArgsSchema>;
+type CancelOrderArgs = z.infer<typeof schemas.CancelOrderArgsSchema>;
+type ArchiveOrderArgs = z.infer<typeof schemas.ArchiveOrderArgsSchema>;
+type OrderStatus = z.infer<typeof schemas.UpdateOrderStatusArgsSchema>['status'];
+type AddOrderItemArgs = z.infer<typeof schemas.AddOrderItemArgsSchema>;
+type UpdateOrderItemArgs = z.infer<typeof schemas.UpdateOrderItemArgsSchema>;
 
 type CreateWarrantyArgs = z.infer<typeof schemas.CreateWarrantyArgsSchema>;
 type UpdateWarrantyArgs = z.infer<typeof schemas.UpdateWarrantyArgsSchema>;
 type DeleteWarrantyArgs = z.infer<typeof schemas.DeleteWarrantyArgsSchema>;
+type ExtendWarrantyArgs = z.infer<typeof schemas.ExtendWarrantyArgsSchema>;
+type CreateWarrantyClaimArgs = z.infer<typeof schemas.CreateWarrantyClaimArgsSchema>;
+type ApproveWarrantyClaimArgs = z.infer<typeof schemas.ApproveWarrantyClaimArgsSchema>;
 
 type CreateShipmentArgs = z.infer<typeof schemas.CreateShipmentArgsSchema>;
 type UpdateShipmentArgs = z.infer<typeof schemas.UpdateShipmentArgsSchema>;
@@ -31,10 +47,13 @@ type DeleteShipmentArgs = z.infer<typeof schemas.DeleteShipmentArgsSchema>;
 type CreateBillOfMaterialsArgs = z.infer<typeof schemas.CreateBillOfMaterialsArgsSchema>;
 type UpdateBillOfMaterialsArgs = z.infer<typeof schemas.UpdateBillOfMaterialsArgsSchema>;
 type DeleteBillOfMaterialsArgs = z.infer<typeof schemas.DeleteBillOfMaterialsArgsSchema>;
+type AddBOMComponentArgs = z.infer<typeof schemas.AddBOMComponentArgsSchema>;
 
 type CreateWorkOrderArgs = z.infer<typeof schemas.CreateWorkOrderArgsSchema>;
 type UpdateWorkOrderArgs = z.infer<typeof schemas.UpdateWorkOrderArgsSchema>;
+type ScheduleWorkOrderArgs = z.infer<typeof schemas.ScheduleWorkOrderArgsSchema>;
 type DeleteWorkOrderArgs = z.infer<typeof schemas.DeleteWorkOrderArgsSchema>;
+type WorkOrderStatus = z.infer<typeof schemas.UpdateWorkOrderStatusArgsSchema>['status'];
 
 type CreateManufacturerOrderArgs = z.infer<typeof schemas.CreateManufacturerOrderArgsSchema>;
 type UpdateManufacturerOrderArgs = z.infer<typeof schemas.UpdateManufacturerOrderArgsSchema>;
@@ -43,10 +62,13 @@ type DeleteManufacturerOrderArgs = z.infer<typeof schemas.DeleteManufacturerOrde
 type CreatePurchaseOrderArgs = z.infer<typeof schemas.CreatePurchaseOrderArgsSchema>;
 type UpdatePurchaseOrderArgs = z.infer<typeof schemas.UpdatePurchaseOrderArgsSchema>;
 type DeletePurchaseOrderArgs = z.infer<typeof schemas.DeletePurchaseOrderArgsSchema>;
+type ReceivePurchaseOrderArgs = z.infer<typeof schemas.ReceivePurchaseOrderArgsSchema>;
 
 type CreateASNArgs = z.infer<typeof schemas.CreateASNArgsSchema>;
 type UpdateASNArgs = z.infer<typeof schemas.UpdateASNArgsSchema>;
 type DeleteASNArgs = z.infer<typeof schemas.DeleteASNArgsSchema>;
+type MarkASNInTransitArgs = z.infer<typeof schemas.MarkASNInTransitArgsSchema>;
+type MarkASNDeliveredArgs = z.infer<typeof schemas.MarkASNDeliveredArgsSchema>;
 
 type CreateInvoiceArgs = z.infer<typeof schemas.CreateInvoiceArgsSchema>;
 type UpdateInvoiceArgs = z.infer<typeof schemas.UpdateInvoiceArgsSchema>;
@@ -55,6 +77,7 @@ type DeleteInvoiceArgs = z.infer<typeof schemas.DeleteInvoiceArgsSchema>;
 type CreatePaymentArgs = z.infer<typeof schemas.CreatePaymentArgsSchema>;
 type UpdatePaymentArgs = z.infer<typeof schemas.UpdatePaymentArgsSchema>;
 type DeletePaymentArgs = z.infer<typeof schemas.DeletePaymentArgsSchema>;
+type RefundPaymentArgs = z.infer<typeof schemas.RefundPaymentArgsSchema>;
 
 type CreateSalesOrderArgs = z.infer<typeof schemas.CreateSalesOrderArgsSchema>;
 type UpdateSalesOrderArgs = z.infer<typeof schemas.UpdateSalesOrderArgsSchema>;
@@ -68,6 +91,9 @@ type CreateItemReceiptArgs = z.infer<typeof schemas.CreateItemReceiptArgsSchema>
 type UpdateItemReceiptArgs = z.infer<typeof schemas.UpdateItemReceiptArgsSchema>;
 type DeleteItemReceiptArgs = z.infer<typeof schemas.DeleteItemReceiptArgsSchema>;
 
+type CreateSupplierArgs = z.infer<typeof schemas.CreateSupplierArgsSchema>;
+type UpdateSupplierArgs = z.infer<typeof schemas.UpdateSupplierArgsSchema>;
+
 type CreateCashSaleArgs = z.infer<typeof schemas.CreateCashSaleArgsSchema>;
 type UpdateCashSaleArgs = z.infer<typeof schemas.UpdateCashSaleArgsSchema>;
 type DeleteCashSaleArgs = z.infer<typeof schemas.DeleteCashSaleArgsSchema>;
@@ -79,12 +105,34 @@ type DeleteCustomerArgs = z.infer<typeof schemas.DeleteCustomerArgsSchema>;
 type CreateProductArgs = z.infer<typeof schemas.CreateProductArgsSchema>;
 type UpdateProductArgs = z.infer<typeof schemas.UpdateProductArgsSchema>;
 type DeleteProductArgs = z.infer<typeof schemas.DeleteProductArgsSchema>;
+type CreateProductVariantArgs = z.infer<typeof schemas.CreateProductVariantArgsSchema>;
+type UpdateProductVariantPriceArgs = z.infer<typeof schemas.UpdateProductVariantPriceArgsSchema>;
 
 type CreateInventoryArgs = z.infer<typeof schemas.CreateInventoryArgsSchema>;
 type UpdateInventoryArgs = z.infer<typeof schemas.UpdateInventoryArgsSchema>;
 type DeleteInventoryArgs = z.infer<typeof schemas.DeleteInventoryArgsSchema>;
+type ReserveInventoryArgs = z.infer<typeof schemas.ReserveInventoryArgsSchema>;
+type ReleaseInventoryArgs = z.infer<typeof schemas.ReleaseInventoryArgsSchema>;
+
+type CreateCartArgs = z.infer<typeof schemas.CreateCartArgsSchema>;
+type AddCartItemArgs = z.infer<typeof schemas.AddCartItemArgsSchema>;
+type UpdateCartItemArgs = z.infer<typeof schemas.UpdateCartItemArgsSchema>;
+type RemoveCartItemArgs = z.infer<typeof schemas.RemoveCartItemArgsSchema>;
+type ListCartsArgs = z.infer<typeof schemas.ListCartsArgsSchema>;
+
+type CreateCheckoutArgs = z.infer<typeof schemas.CreateCheckoutArgsSchema>;
+type UpdateCheckoutArgs = z.infer<typeof schemas.UpdateCheckoutArgsSchema>;
 
 type ListArgs = z.infer<typeof schemas.ListArgsSchema>;
+type DateRangeArgs = { from_date?: string; to_date?: string };
+type ProcurementListArgs = ListArgs &
+  DateRangeArgs & { purchase_order_id?: string; supplier_id?: string; location_id?: number };
+type ShipmentListArgs = ListArgs & DateRangeArgs & { tracking_number?: string; status?: string };
+
+interface RequestConfig {
+  timeout: number;
+  signal?: AbortSignal;
+}
 
 // Main Client
 export class StateSetMCPClient {
@@ -151,21 +199,24 @@ export class StateSetMCPClient {
   }
 
   /**
-   * Execute an API call with circuit breaker protection and rate limiting
+   * Execute an API call with circuit breaker protection and rate limiting.
+   * The current request's cancellation signal is passed to axios and aborts
+   * queued calls before they are sent.
    */
   private async executeWithProtection<T>(
-    fn: (config: { timeout: number }) => Promise<T>,
+    fn: (config: RequestConfig) => Promise<T>,
     operationName: string,
   ): Promise<T> {
-    const requestConfig = this.getRequestConfig(operationName);
+    const signal = getAbortSignal();
+    const requestConfig: RequestConfig = { ...this.getRequestConfig(operationName), signal };
     logger.debug('Executing operation with timeout', {
       operationName,
       timeoutMs: requestConfig.timeout,
     });
 
     return this.circuitBreaker.execute(async () => {
-      return this.rateLimiter.enqueue(() => fn(requestConfig), operationName);
-    });
+      return this.rateLimiter.enqueue(() => fn(requestConfig), operationName, { signal });
+    }, signal);
   }
 
   /**
@@ -248,16 +299,30 @@ export class StateSetMCPClient {
     });
   }
 
-  async updateRMA(args: UpdateRMAArgs): Promise<StateSetResponse> {
+  async updateRMA(
+    args: UpdateRMAArgs & {
+      dispositions?: {
+        item_id: string;
+        disposition: string;
+        quantity: number;
+        inventory_id?: string;
+        location_id?: number;
+      }[];
+      inventory_adjustments?: { inventory_id: string; location_id: number; quantity: number }[];
+    },
+  ): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.patch(`/rmas/${args.rma_id}`, args, config),
       'updateRMA',
     );
+    cacheManager.delete('rmas', `rma:${args.rma_id}`);
     const rma = response.data;
     return this.enrichResponse({
       id: rma.id,
       order_id: rma.order_id,
       status: rma.status,
+      dispositions: rma.dispositions,
+      inventory_adjustments: rma.inventory_adjustments,
       created_at: rma.created_at,
       updated_at: rma.updated_at,
       url: `${this.baseUrl}/dashboard/rmas/${rma.id}`,
@@ -289,6 +354,84 @@ export class StateSetMCPClient {
     return this.enrichResponse(response.data);
   }
 
+  async updateOrderTotals(
+    orderId: string,
+    totals: { subtotal: number; tax_amount: number; total_amount: number },
+  ): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.patch(`/orders/${orderId}`, totals, config),
+      'updateOrderTotals',
+    );
+    cacheManager.delete('orders', `order:${orderId}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async updateOrderStatus(orderId: string, status: OrderStatus): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.put(`/orders/${orderId}/status`, { status }, config),
+      'updateOrderStatus',
+    );
+    // Lifecycle checks read the status through getOrder
+    cacheManager.delete('orders', `order:${orderId}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async cancelOrder(args: CancelOrderArgs): Promise<StateSetResponse> {
+    const { order_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/orders/${order_id}/cancel`, data, config),
+      'cancelOrder',
+    );
+    cacheManager.delete('orders', `order:${order_id}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async archiveOrder(args: ArchiveOrderArgs): Promise<StateSetResponse> {
+    const { order_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/orders/${order_id}/archive`, data, config),
+      'archiveOrder',
+    );
+    cacheManager.delete('orders', `order:${order_id}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async getOrderItems(
+    orderId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/orders/${orderId}/items`, config),
+      'getOrderItems',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
+  async addOrderItem(args: AddOrderItemArgs): Promise<StateSetResponse> {
+    const { order_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/orders/${order_id}/items`, data, config),
+      'addOrderItem',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async updateOrderItem(args: UpdateOrderItemArgs): Promise<StateSetResponse> {
+    const { order_id, item_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.patch(`/orders/${order_id}/items/${item_id}`, data, config),
+      'updateOrderItem',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async removeOrderItem(orderId: string, itemId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.delete(`/orders/${orderId}/items/${itemId}`, config),
+      'removeOrderItem',
+    );
+    return this.enrichResponse(response.data);
+  }
+
   async createWarranty(args: CreateWarrantyArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/warranties', args, config),
@@ -314,6 +457,45 @@ export class StateSetMCPClient {
     return this.enrichResponse(response.data);
   }
 
+  async extendWarranty(args: ExtendWarrantyArgs): Promise<StateSetResponse> {
+    const { warranty_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/warranties/${warranty_id}/extend`, data, config),
+      'extendWarranty',
+    );
+    // Claim eligibility reads the coverage dates through getWarranty
+    cacheManager.delete('warranties', `warranty:${warranty_id}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async createWarrantyClaim(args: CreateWarrantyClaimArgs): Promise<StateSetResponse> {
+    const { warranty_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/warranties/${warranty_id}/claims`, data, config),
+      'createWarrantyClaim',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async listWarrantyClaims(
+    warrantyId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/warranties/${warrantyId}/claims`, config),
+      'listWarrantyClaims',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
+  async approveWarrantyClaim(args: ApproveWarrantyClaimArgs): Promise<StateSetResponse> {
+    const { claim_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/warranty-claims/${claim_id}/approve`, data, config),
+      'approveWarrantyClaim',
+    );
+    return this.enrichResponse(response.data);
+  }
+
   async createShipment(args: CreateShipmentArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/shipments', args, config),
@@ -336,9 +518,39 @@ export class StateSetMCPClient {
       (config) => this.apiClient.patch(`/shipments/${args.shipment_id}`, args, config),
       'updateShipment',
     );
+    cacheManager.delete('shipments', `shipment:${args.shipment_id}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async markShipmentShipped(shipmentId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/shipments/${shipmentId}/ship`, {}, config),
+      'markShipmentShipped',
+    );
+    // Lifecycle checks read the status through getShipment
+    cacheManager.delete('shipments', `shipment:${shipmentId}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async markShipmentDelivered(shipmentId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/shipments/${shipmentId}/deliver`, {}, config),
+      'markShipmentDelivered',
+    );
+    cacheManager.delete('shipments', `shipment:${shipmentId}`);
     return this.enrichResponse(response.data);
   }
 
+  async getShipmentTracking(
+    shipmentId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/shipments/${shipmentId}/tracking`, config),
+      'getShipmentTracking',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
   async getRMA(rmaId: string): Promise<StateSetResponse> {
     return this.getCached(
       `rma:${rmaId}`,
@@ -354,6 +566,9 @@ export class StateSetMCPClient {
           order_id: rma.order_id,
           customer_email: rma.customer_email,
           status: rma.status,
+          // Returns workflow progress, read back when a failed restock is retried
+          dispositions: rma.dispositions,
+          inventory_adjustments: rma.inventory_adjustments,
           created_at: rma.created_at,
           updated_at: rma.updated_at,
           url: `${this.baseUrl}/dashboard/rmas/${rma.id}`,
@@ -363,6 +578,16 @@ export class StateSetMCPClient {
     );
   }
 
+  async getRMAItems(
+    rmaId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/rmas/${rmaId}/items`, config),
+      'getRMAItems',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
   async getOrder(orderId: string): Promise<StateSetResponse> {
     return this.getCached(
       `order:${orderId}`,
@@ -476,6 +701,25 @@ export class StateSetMCPClient {
     return this.enrichResponse(response.data);
   }
 
+  async refundPayment(args: RefundPaymentArgs): Promise<StateSetResponse> {
+    const { payment_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/payments/${payment_id}/refund`, data, config),
+      'refundPayment',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async listPaymentRefunds(
+    paymentId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/payments/${paymentId}/refunds`, config),
+      'listPaymentRefunds',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
   async createBillOfMaterials(args: CreateBillOfMaterialsArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/bill-of-materials', args, config),
@@ -493,6 +737,37 @@ export class StateSetMCPClient {
     return this.enrichResponse(response.data);
   }
 
+  async getBOMComponents(
+    bomId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/bill-of-materials/${bomId}/components`, config),
+      'getBOMComponents',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
+  async addBOMComponent(args: AddBOMComponentArgs): Promise<StateSetResponse> {
+    const { bill_of_materials_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) =>
+        this.apiClient.post(`/bill-of-materials/${bill_of_materials_id}/components`, data, config),
+      'addBOMComponent',
+    );
+    cacheManager.delete('bom', `bom:${bill_of_materials_id}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async removeBOMComponent(bomId: string, componentId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) =>
+        this.apiClient.delete(`/bill-of-materials/${bomId}/components/${componentId}`, config),
+      'removeBOMComponent',
+    );
+    cacheManager.delete('bom', `bom:${bomId}`);
+    return this.enrichResponse(response.data);
+  }
+
   async createWorkOrder(args: CreateWorkOrderArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/work-orders', args, config),
@@ -506,6 +781,32 @@ export class StateSetMCPClient {
       (config) => this.apiClient.patch(`/work-orders/${args.work_order_id}`, args, config),
       'updateWorkOrder',
     );
+    cacheManager.delete('workorders', `workorder:${args.work_order_id}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async updateWorkOrderStatus(
+    workOrderId: string,
+    status: WorkOrderStatus,
+    details: { reason?: string; notes?: string; performed_by?: string } = {},
+  ): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) =>
+        this.apiClient.put(`/work-orders/${workOrderId}/status`, { ...details, status }, config),
+      'updateWorkOrderStatus',
+    );
+    // Lifecycle checks read the status through getWorkOrder
+    cacheManager.delete('workorders', `workorder:${workOrderId}`);
+    return this.enrichResponse(response.data);
+  }
+
+  async scheduleWorkOrder(args: ScheduleWorkOrderArgs): Promise<StateSetResponse> {
+    const { work_order_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/work-orders/${work_order_id}/schedule`, data, config),
+      'scheduleWorkOrder',
+    );
+    cacheManager.delete('workorders', `workorder:${work_order_id}`);
     return this.enrichResponse(response.data);
   }
 
@@ -559,7 +860,7 @@ export class StateSetMCPClient {
   }
 
   async listPurchaseOrders(
-    args: ListArgs = {},
+    args: ProcurementListArgs = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/purchase-orders', { ...config, params: args }),
@@ -568,6 +869,33 @@ export class StateSetMCPClient {
     return this.enrichListResponse(response.data);
   }
 
+  async approvePurchaseOrder(purchaseOrderId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/purchase-orders/${purchaseOrderId}/approve`, {}, config),
+      'approvePurchaseOrder',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async cancelPurchaseOrder(purchaseOrderId: string, reason?: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) =>
+        this.apiClient.post(`/purchase-orders/${purchaseOrderId}/cancel`, { reason }, config),
+      'cancelPurchaseOrder',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async receivePurchaseOrder(args: ReceivePurchaseOrderArgs): Promise<StateSetResponse> {
+    const { purchase_order_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) =>
+        this.apiClient.post(`/purchase-orders/${purchase_order_id}/receive`, data, config),
+      'receivePurchaseOrder',
+    );
+    return this.enrichResponse(response.data);
+  }
+
   async createASN(args: CreateASNArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/asns', args, config),
@@ -601,7 +929,7 @@ export class StateSetMCPClient {
   }
 
   async listASNs(
-    args: ListArgs = {},
+    args: ProcurementListArgs = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/asns', { ...config, params: args }),
@@ -610,6 +938,32 @@ export class StateSetMCPClient {
     return this.enrichListResponse(response.data);
   }
 
+  async markASNInTransit(args: MarkASNInTransitArgs): Promise<StateSetResponse> {
+    const { asn_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/asns/${asn_id}/in-transit`, data, config),
+      'markASNInTransit',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async markASNDelivered(args: MarkASNDeliveredArgs): Promise<StateSetResponse> {
+    const { asn_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/asns/${asn_id}/delivered`, data, config),
+      'markASNDelivered',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async cancelASN(asnId: string, reason?: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/asns/${asnId}/cancel`, { reason }, config),
+      'cancelASN',
+    );
+    return this.enrichResponse(response.data);
+  }
+
   async createInvoice(args: CreateInvoiceArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/invoices', args, config),
@@ -675,7 +1029,7 @@ export class StateSetMCPClient {
   }
 
   async listSalesOrders(
-    args: ListArgs = {},
+    args: ListArgs & { location_id?: number } = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/sales-orders', { ...config, params: args }),
@@ -760,7 +1114,7 @@ export class StateSetMCPClient {
   }
 
   async listItemReceipts(
-    args: ListArgs = {},
+    args: ProcurementListArgs = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/item-receipts', { ...config, params: args }),
@@ -769,6 +1123,48 @@ export class StateSetMCPClient {
     return this.enrichListResponse(response.data);
   }
 
+  async createSupplier(args: CreateSupplierArgs): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post('/suppliers', args, config),
+      'createSupplier',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async updateSupplier(args: UpdateSupplierArgs): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.patch(`/suppliers/${args.supplier_id}`, args, config),
+      'updateSupplier',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async getSupplier(supplierId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/suppliers/${supplierId}`, config),
+      'getSupplier',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async deleteSupplier(supplierId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.delete(`/suppliers/${supplierId}`, config),
+      'deleteSupplier',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async listSuppliers(
+    args: ListArgs = {},
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get('/suppliers', { ...config, params: args }),
+      'listSuppliers',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
   async createCashSale(args: CreateCashSaleArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/cash-sales', args, config),
@@ -843,6 +1239,48 @@ export class StateSetMCPClient {
     return this.enrichResponse(response.data);
   }
 
+  async getCustomerAddresses(
+    customerId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/customers/${customerId}/addresses`, config),
+      'getCustomerAddresses',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
+  async addCustomerAddress(
+    customerId: string,
+    address: Record<string, unknown>,
+  ): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/customers/${customerId}/addresses`, address, config),
+      'addCustomerAddress',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async updateCustomerAddress(
+    customerId: string,
+    addressId: string,
+    address: Record<string, unknown>,
+  ): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) =>
+        this.apiClient.patch(`/customers/${customerId}/addresses/${addressId}`, address, config),
+      'updateCustomerAddress',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async deleteCustomerAddress(customerId: string, addressId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.delete(`/customers/${customerId}/addresses/${addressId}`, config),
+      'deleteCustomerAddress',
+    );
+    return this.enrichResponse(response.data);
+  }
+
   async listCustomers(
     args: ListArgs = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
@@ -858,6 +1296,7 @@ export class StateSetMCPClient {
       (config) => this.apiClient.delete(`/rmas/${args.rma_id}`, config),
       'deleteRMA',
     );
+    cacheManager.delete('rmas', `rma:${args.rma_id}`);
     return this.enrichResponse(response.data);
   }
 
@@ -882,6 +1321,7 @@ export class StateSetMCPClient {
       (config) => this.apiClient.delete(`/shipments/${args.shipment_id}`, config),
       'deleteShipment',
     );
+    cacheManager.delete('shipments', `shipment:${args.shipment_id}`);
     return this.enrichResponse(response.data);
   }
 
@@ -937,7 +1377,7 @@ export class StateSetMCPClient {
   }
 
   async listOrders(
-    args: ListArgs = {},
+    args: ListArgs & DateRangeArgs = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/orders', { ...config, params: args }),
@@ -957,7 +1397,7 @@ export class StateSetMCPClient {
   }
 
   async listShipments(
-    args: ListArgs = {},
+    args: ShipmentListArgs = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/shipments', { ...config, params: args }),
@@ -997,7 +1437,7 @@ export class StateSetMCPClient {
   }
 
   async listInvoices(
-    args: ListArgs = {},
+    args: ProcurementListArgs & { order_id?: string } = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/invoices', { ...config, params: args }),
@@ -1007,7 +1447,7 @@ export class StateSetMCPClient {
   }
 
   async listPayments(
-    args: ListArgs = {},
+    args: ListArgs & { order_id?: string } = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/payments', { ...config, params: args }),
@@ -1058,6 +1498,42 @@ export class StateSetMCPClient {
     return this.enrichListResponse(response.data);
   }
 
+  async getProductVariants(
+    productId: string,
+  ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/products/${productId}/variants`, config),
+      'getProductVariants',
+    );
+    return this.enrichListResponse(response.data);
+  }
+
+  async createProductVariant(args: CreateProductVariantArgs): Promise<StateSetResponse> {
+    const { product_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/products/${product_id}/variants`, data, config),
+      'createProductVariant',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async updateProductVariantPrice(args: UpdateProductVariantPriceArgs): Promise<StateSetResponse> {
+    const { variant_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.patch(`/product-variants/${variant_id}`, data, config),
+      'updateProductVariantPrice',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async deleteProductVariant(variantId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.delete(`/product-variants/${variantId}`, config),
+      'deleteProductVariant',
+    );
+    return this.enrichResponse(response.data);
+  }
+
   async createInventory(args: CreateInventoryArgs): Promise<StateSetResponse> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.post('/inventory', args, config),
@@ -1091,7 +1567,7 @@ export class StateSetMCPClient {
   }
 
   async listInventories(
-    args: ListArgs = {},
+    args: ListArgs & { location_id?: number } = {},
   ): Promise<{ items: StateSetResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
     const response = await this.executeWithProtection(
       (config) => this.apiClient.get('/inventory', { ...config, params: args }),
@@ -1100,6 +1576,190 @@ export class StateSetMCPClient {
     return this.enrichListResponse(response.data);
   }
 
+  async reserveInventory(args: ReserveInventoryArgs): Promise<StateSetResponse> {
+    const { inventory_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/inventory/${inventory_id}/reserve`, data, config),
+      'reserveInventory',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async releaseInventory(args: ReleaseInventoryArgs): Promise<StateSetResponse> {
+    const { inventory_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/inventory/${inventory_id}/release`, data, config),
+      'releaseInventory',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  /**
+   * Adds quantity (negative to remove) to the on-hand stock, relative to the
+   * current level so concurrent changes aren't overwritten
+   */
+  async adjustInventory(args: {
+    inventory_id: string;
+    location_id: number;
+    quantity: number;
+    reason: string;
+    reference_id?: string;
+  }): Promise<StateSetResponse> {
+    const { inventory_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/inventory/${inventory_id}/adjust`, data, config),
+      'adjustInventory',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  // Cart operations
+  async createCart(args: CreateCartArgs): Promise<CartResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post('/carts', args, config),
+      'createCart',
+    );
+    return this.enrichResponse(this.withCartTotals(response.data));
+  }
+
+  async getCart(cartId: string): Promise<CartResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/carts/${cartId}`, config),
+      'getCart',
+    );
+    return this.enrichResponse(this.withCartTotals(response.data));
+  }
+
+  async deleteCart(cartId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.delete(`/carts/${cartId}`, config),
+      'deleteCart',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async addCartItem(args: AddCartItemArgs): Promise<CartResponse> {
+    const { cart_id, ...item } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/carts/${cart_id}/items`, item, config),
+      'addCartItem',
+    );
+    return this.enrichResponse(this.withCartTotals(response.data));
+  }
+
+  async updateCartItem(args: UpdateCartItemArgs): Promise<CartResponse> {
+    const { cart_id, item_id, quantity } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.patch(`/carts/${cart_id}/items/${item_id}`, { quantity }, config),
+      'updateCartItem',
+    );
+    return this.enrichResponse(this.withCartTotals(response.data));
+  }
+
+  async removeCartItem(args: RemoveCartItemArgs): Promise<CartResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.delete(`/carts/${args.cart_id}/items/${args.item_id}`, config),
+      'removeCartItem',
+    );
+    return this.enrichResponse(this.withCartTotals(response.data));
+  }
+
+  async clearCart(cartId: string): Promise<CartResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.delete(`/carts/${cartId}/items`, config),
+      'clearCart',
+    );
+    return this.enrichResponse(this.withCartTotals(response.data));
+  }
+
+  async listCarts(
+    args: ListCartsArgs & DateRangeArgs = {},
+  ): Promise<{ items: CartResponse[]; metadata: { apiMetrics: RateLimiterMetrics } }> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get('/carts', { ...config, params: args }),
+      'listCarts',
+    );
+    return this.enrichListResponse(
+      response.data.map((cart: Record<string, any>) => this.withCartTotals(cart)),
+    );
+  }
+
+  // Checkout operations
+  async createCheckout(args: CreateCheckoutArgs): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post('/checkout', args, config),
+      'createCheckout',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async getCheckout(checkoutId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.get(`/checkout/${checkoutId}`, config),
+      'getCheckout',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async updateCheckout(args: UpdateCheckoutArgs): Promise<StateSetResponse> {
+    const { checkout_id, ...data } = args;
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.put(`/checkout/${checkout_id}`, data, config),
+      'updateCheckout',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async completeCheckout(checkoutId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/checkout/${checkoutId}/complete`, {}, config),
+      'completeCheckout',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  async cancelCheckout(checkoutId: string): Promise<StateSetResponse> {
+    const response = await this.executeWithProtection(
+      (config) => this.apiClient.post(`/checkout/${checkoutId}/cancel`, {}, config),
+      'cancelCheckout',
+    );
+    return this.enrichResponse(response.data);
+  }
+
+  /**
+   * Adds line totals, item count and subtotal to a cart. Amounts are rounded
+   * to cents so totals don't pick up floating point noise.
+   */
+  private withCartTotals(cart: Record<string, any>): CartResponse {
+    const items: CartItem[] = (Array.isArray(cart.items) ? cart.items : []).map(
+      (item: Record<string, any>) => {
+        const quantity = Number(item.quantity) || 0;
+        const unitPrice = Number(item.unit_price ?? item.price) || 0;
+        return {
+          ...item,
+          id: item.id,
+          product_variant_id: item.product_variant_id,
+          quantity,
+          unit_price: unitPrice,
+          line_total: roundToCents(quantity * unitPrice),
+        };
+      },
+    );
+
+    return {
+      ...cart,
+      id: cart.id,
+      status: cart.status,
+      created_at: cart.created_at,
+      updated_at: cart.updated_at,
+      customer_id: cart.customer_id,
+      url: `${this.baseUrl}/dashboard/carts/${cart.id}`,
+      items,
+      item_count: items.reduce((count, item) => count + item.quantity, 0),
+      subtotal: roundToCents(items.reduce((sum, item) => sum + item.line_total, 0)),
+    };
+  }
+
   getApiMetrics(): { apiMetrics: RateLimiterMetrics } {
     return { apiMetrics: this.rateLimiter.getMetrics() };
   }
@@ -1221,6 +1881,10 @@ export class StateSetMCPClient {
       }
     }, operationName);
 
+    // List endpoints get the same envelope as the typed list methods
+    if (Array.isArray(response.data)) {
+      return this.enrichListResponse(response.data) as T;
+    }
     return this.enrichResponse(response.data) as T;
   }
 }
@@ -462,11 +462,15 @@ export class StateSetClient {
     };
   }
 
-  async updateRMA(): Promise<never> {
-    throw new StateSetApiError(
-      'Updating returns is not supported. Use stateset_approve_return or stateset_restock_return instead.',
-      405,
-    );
+  async updateRMA(args: any): Promise<StateSetResponse> {
+    const { rma_id, ...data } = args;
+    const response = await this.request<StateSetResponse>('PATCH', `/returns/${rma_id}`, data, {
+      requestId: this.generateRequestId(),
+      operation: 'updateRMA',
+      priority: Priority.NORMAL,
+    });
+
+    return response.data;
   }
 
   async getRMA(rmaId: string): Promise<StateSetResponse> {
@@ -638,8 +642,14 @@ export class StateSetClient {
   // Add all missing methods
 
   // Delete methods
-  async deleteRMA(): Promise<never> {
-    throw new StateSetApiError('Deleting returns is not supported by the StateSet API', 405);
+  async deleteRMA(rmaId: string): Promise<StateSetResponse> {
+    const response = await this.request<StateSetResponse>(
+      'DELETE',
+      `/returns/${rmaId}`,
+      undefined,
+      { requestId: this.generateRequestId(), operation: 'deleteRMA', priority: Priority.NORMAL },
+    );
+    return response.data;
   }
 
   async deleteOrder(orderId: string): Promise<StateSetResponse> {
@@ -856,15 +866,33 @@ export class StateSetClient {
     return response.data;
   }
 
-  async updateShipment(): Promise<never> {
-    throw new StateSetApiError(
-      'Updating shipments is not supported. Use mark shipment operations instead.',
-      405,
+  async updateShipment(args: any): Promise<StateSetResponse> {
+    const { shipment_id, ...data } = args;
+    const response = await this.request<StateSetResponse>(
+      'PATCH',
+      `/shipments/${shipment_id}`,
+      data,
+      {
+        requestId: this.generateRequestId(),
+        operation: 'updateShipment',
+        priority: Priority.NORMAL,
+      },
     );
+    return response.data;
   }
 
-  async deleteShipment(): Promise<never> {
-    throw new StateSetApiError('Deleting shipments is not supported by the StateSet API.', 405);
+  async deleteShipment(shipmentId: string): Promise<StateSetResponse> {
+    const response = await this.request<StateSetResponse>(
+      'DELETE',
+      `/shipments/${shipmentId}`,
+      undefined,
+      {
+        requestId: this.generateRequestId(),
+        operation: 'deleteShipment',
+        priority: Priority.NORMAL,
+      },
+    );
+    return response.data;
   }
 
   async markShipmentShipped(shipmentId: string): Promise<StateSetResponse> {
@@ -0,0 +1,543 @@
+import { z } from 'zod';
+import { APIError, InvalidAddressError, NotFoundError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import * as schemas from './schemas';
+
+type AddCustomerAddressArgs = z.infer<typeof schemas.AddCustomerAddressArgsSchema>;
+type UpdateCustomerAddressArgs = z.infer<typeof schemas.UpdateCustomerAddressArgsSchema>;
+type SetDefaultCustomerAddressArgs = z.infer<typeof schemas.SetDefaultCustomerAddressArgsSchema>;
+export type AddressType = SetDefaultCustomerAddressArgs['address_type'];
+export type AddressRole = Exclude<AddressType, 'both'>;
+
+export type Address = z.infer<typeof schemas.AddressSchema>;
+
+const regionNames = new Intl.DisplayNames(['en'], { type: 'region' });
+
+// Names and ISO 3166 alpha-3 codes that aren't the English region name
+const countryAliases: Record<string, string> = {
+  usa: 'US',
+  'u.s.': 'US',
+  'u.s.a.': 'US',
+  'united states of america': 'US',
+  america: 'US',
+  uk: 'GB',
+  'u.k.': 'GB',
+  'great britain': 'GB',
+  england: 'GB',
+  scotland: 'GB',
+  wales: 'GB',
+  'northern ireland': 'GB',
+  deutschland: 'DE',
+  holland: 'NL',
+  can: 'CA',
+  mex: 'MX',
+  gbr: 'GB',
+  irl: 'IE',
+  fra: 'FR',
+  deu: 'DE',
+  nld: 'NL',
+  bel: 'BE',
+  che: 'CH',
+  aut: 'AT',
+  esp: 'ES',
+  prt: 'PT',
+  ita: 'IT',
+  swe: 'SE',
+  nor: 'NO',
+  dnk: 'DK',
+  fin: 'FI',
+  pol: 'PL',
+  aus: 'AU',
+  nzl: 'NZ',
+  jpn: 'JP',
+  chn: 'CN',
+  ind: 'IN',
+  bra: 'BR',
+};
+
+// Region codes for groupings and pseudo-regions rather than countries
+const nonCountryRegions = new Set(['EU', 'EZ', 'QO', 'UN', 'XA', 'XB', 'ZZ']);
+
+// Replaces deprecated codes such as UK with their current ISO code
+function canonicalizeRegion(code: string): string {
+  return new Intl.Locale(`und-${code}`).region ?? code;
+}
+
+function isCountryCode(code: string): boolean {
+  return !nonCountryRegions.has(code) && regionNames.of(code) !== code;
+}
+
+let countriesByName: Map<string, string> | undefined;
+
+// English region names to their alpha-2 codes, built on first use
+function getCountriesByName(): Map<string, string> {
+  if (!countriesByName) {
+    countriesByName = new Map();
+    const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+    for (const first of letters) {
+      for (const second of letters) {
+        const code = first + second;
+        if (canonicalizeRegion(code) === code && isCountryCode(code)) {
+          countriesByName.set(String(regionNames.of(code)).toLowerCase(), code);
+        }
+      }
+    }
+  }
+  return countriesByName;
+}
+
+/**
+ * ISO 3166 alpha-2 code for a country code, alpha-3 code or English name, or
+ * undefined when the country isn't recognized
+ */
+export function normalizeCountry(value: string): string | undefined {
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  if (/^[a-z]{2}$/i.test(trimmed)) {
+    const code = canonicalizeRegion(trimmed.toUpperCase());
+    return isCountryCode(code) ? code : undefined;
+  }
+  const key = trimmed.toLowerCase();
+  return countryAliases[key] ?? getCountriesByName().get(key);
+}
+
+const subdivisions: Record<string, Record<string, string>> = {
+  US: {
+    AL: 'Alabama',
+    AK: 'Alaska',
+    AZ: 'Arizona',
+    AR: 'Arkansas',
+    CA: 'California',
+    CO: 'Colorado',
+    CT: 'Connecticut',
+    DE: 'Delaware',
+    DC: 'District of Columbia',
+    FL: 'Florida',
+    GA: 'Georgia',
+    HI: 'Hawaii',
+    ID: 'Idaho',
+    IL: 'Illinois',
+    IN: 'Indiana',
+    IA: 'Iowa',
+    KS: 'Kansas',
+    KY: 'Kentucky',
+    LA: 'Louisiana',
+    ME: 'Maine',
+    MD: 'Maryland',
+    MA: 'Massachusetts',
+    MI: 'Michigan',
+    MN: 'Minnesota',
+    MS: 'Mississippi',
+    MO: 'Missouri',
+    MT: 'Montana',
+    NE: 'Nebraska',
+    NV: 'Nevada',
+    NH: 'New Hampshire',
+    NJ: 'New Jersey',
+    NM: 'New Mexico',
+    NY: 'New York',
+    NC: 'North Carolina',
+    ND: 'North Dakota',
+    OH: 'Ohio',
+    OK: 'Oklahoma',
+    OR: 'Oregon',
+    PA: 'Pennsylvania',
+    RI: 'Rhode Island',
+    SC: 'South Carolina',
+    SD: 'South Dakota',
+    TN: 'Tennessee',
+    TX: 'Texas',
+    UT: 'Utah',
+    VT: 'Vermont',
+    VA: 'Virginia',
+    WA: 'Washington',
+    WV: 'West Virginia',
+    WI: 'Wisconsin',
+    WY: 'Wyoming',
+    AS: 'American Samoa',
+    GU: 'Guam',
+    MP: 'Northern Mariana Islands',
+    PR: 'Puerto Rico',
+    VI: 'U.S. Virgin Islands',
+    AA: 'Armed Forces Americas',
+    AE: 'Armed Forces Europe',
+    AP: 'Armed Forces Pacific',
+  },
+  CA: {
+    AB: 'Alberta',
+    BC: 'British Columbia',
+    MB: 'Manitoba',
+    NB: 'New Brunswick',
+    NL: 'Newfoundland and Labrador',
+    NS: 'Nova Scotia',
+    NT: 'Northwest Territories',
+    NU: 'Nunavut',
+    ON: 'Ontario',
+    PE: 'Prince Edward Island',
+    QC: 'Quebec',
+    SK: 'Saskatchewan',
+    YT: 'Yukon',
+  },
+  AU: {
+    ACT: 'Australian Capital Territory',
+    NSW: 'New South Wales',
+    NT: 'Northern Territory',
+    QLD: 'Queensland',
+    SA: 'South Australia',
+    TAS: 'Tasmania',
+    VIC: 'Victoria',
+    WA: 'Western Australia',
+  },
+};
+
+/**
+ * The state or province abbreviation for countries whose subdivisions are
+ * known, undefined when it isn't one of them. Other countries' states are
+ * only trimmed.
+ */
+export function normalizeState(value: string, country: string): string | undefined {
+  const trimmed = value.trim().replace(/\s+/g, ' ');
+  const known = subdivisions[country];
+  if (!known) return trimmed;
+
+  const code = trimmed.replace(/\./g, '').toUpperCase();
+  if (known[code]) return code;
+  const name = trimmed.toLowerCase();
+  return Object.keys(known).find((abbreviation) => known[abbreviation]?.toLowerCase() === name);
+}
+
+interface PostalCodeRule {
+  /** Matched against the code in upper case without spaces or hyphens */
+  pattern: RegExp;
+  format?: (compact: string) => string;
+  example: string;
+}
+
+const fiveDigits: PostalCodeRule = { pattern: /^\d{5}$/, example: '12345' };
+const fourDigits: PostalCodeRule = { pattern: /^\d{4}$/, example: '1234' };
+
+const postalCodeRules: Record<string, PostalCodeRule> = {
+  US: {
+    pattern: /^\d{5}(\d{4})?$/,
+    format: (code) => (code.length === 9 ? `${code.slice(0, 5)}-${code.slice(5)}` : code),
+    example: '94105 or 94105-1234',
+  },
+  CA: {
+    pattern: /^[A-Z]\d[A-Z]\d[A-Z]\d$/,
+    format: (code) => `${code.slice(0, 3)} ${code.slice(3)}`,
+    example: 'K1A 0B1',
+  },
+  GB: {
+    pattern: /^[A-Z]{1,2}\d[A-Z\d]?\d[A-Z]{2}$/,
+    format: (code) => `${code.slice(0, -3)} ${code.slice(-3)}`,
+    example: 'SW1A 1AA',
+  },
+  IE: {
+    pattern: /^[A-Z]\d[\dW][A-Z\d]{4}$/,
+    format: (code) => `${code.slice(0, 3)} ${code.slice(3)}`,
+    example: 'D02 X285',
+  },
+  NL: {
+    pattern: /^\d{4}[A-Z]{2}$/,
+    format: (code) => `${code.slice(0, 4)} ${code.slice(4)}`,
+    example: '1012 AB',
+  },
+  SE: {
+    ...fiveDigits,
+    format: (code) => `${code.slice(0, 3)} ${code.slice(3)}`,
+    example: '114 55',
+  },
+  PL: {
+    ...fiveDigits,
+    format: (code) => `${code.slice(0, 2)}-${code.slice(2)}`,
+    example: '00-950',
+  },
+  JP: {
+    pattern: /^\d{7}$/,
+    format: (code) => `${code.slice(0, 3)}-${code.slice(3)}`,
+    example: '100-0001',
+  },
+  BR: {
+    pattern: /^\d{8}$/,
+    format: (code) => `${code.slice(0, 5)}-${code.slice(5)}`,
+    example: '01310-100',
+  },
+  IN: { pattern: /^\d{6}$/, example: '110001' },
+  DE: fiveDigits,
+  FR: fiveDigits,
+  ES: fiveDigits,
+  IT: fiveDigits,
+  MX: fiveDigits,
+  FI: fiveDigits,
+  AU: fourDigits,
+  NZ: fourDigits,
+  AT: fourDigits,
+  BE: fourDigits,
+  CH: fourDigits,
+  DK: fourDigits,
+  NO: fourDigits,
+};
+
+/**
+ * The postal code in the country's standard format, or undefined when it
+ * doesn't match the country's rule. Countries without a rule keep the code
+ * as given, in upper case.
+ */
+export function normalizePostalCode(value: string, country: string): string | undefined {
+  const rule = postalCodeRules[country];
+  if (!rule) return value.trim().replace(/\s+/g, ' ').toUpperCase();
+
+  const compact = value.toUpperCase().replace(/[\s-]/g, '');
+  if (!rule.pattern.test(compact)) return undefined;
+  return rule.format ? rule.format(compact) : compact;
+}
+
+/**
+ * Validates the address and returns it with the country as its ISO alpha-2
+ * code, the state abbreviated and the postal code in the country's format.
+ * Throws an InvalidAddressError listing every problem found.
+ */
+export function normalizeAddress<T extends Address>(address: T): T {
+  const problems: string[] = [];
+  const street = address.street.trim().replace(/\s+/g, ' ');
+  const city = address.city.trim().replace(/\s+/g, ' ');
+  if (!street) problems.push('street is empty');
+  if (!city) problems.push('city is empty');
+
+  const country = normalizeCountry(address.country);
+  if (!country) {
+    throw new InvalidAddressError([...problems, `unknown country '${address.country}'`]);
+  }
+
+  const state = normalizeState(address.state, country);
+  if (!state) {
+    problems.push(`'${address.state}' is not a state or province of ${country}`);
+  }
+  const postalCode = normalizePostalCode(address.postal_code, country);
+  if (!postalCode) {
+    const example = postalCodeRules[country]?.example;
+    problems.push(
+      `'${address.postal_code}' is not a valid ${country} postal code (e.g. ${example})`,
+    );
+  }
+  if (problems.length > 0) throw new InvalidAddressError(problems);
+
+  return {
+    ...address,
+    street,
+    city,
+    state: state ?? address.state,
+    postal_code: postalCode ?? address.postal_code,
+    country,
+  };
+}
+
+function getAddressType(address: StateSetResponse): AddressType {
+  const type = address.address_type;
+  return type === 'shipping' || type === 'billing' ? type : 'both';
+}
+
+function rolesFor(type: AddressType): AddressRole[] {
+  return type === 'both' ? ['shipping', 'billing'] : [type];
+}
+
+function defaultFlag(role: AddressRole): 'is_default_shipping' | 'is_default_billing' {
+  return role === 'shipping' ? 'is_default_shipping' : 'is_default_billing';
+}
+
+/**
+ * The customer's default shipping or billing address: the one marked as the
+ * default for that role, else an is_default address of a matching type
+ */
+export function getDefaultAddress(
+  addresses: StateSetResponse[],
+  role: AddressRole,
+): StateSetResponse | undefined {
+  return (
+    addresses.find((address) => address[defaultFlag(role)] === true) ??
+    addresses.find(
+      (address) =>
+        address.is_default === true &&
+        address[defaultFlag(role)] !== false &&
+        rolesFor(getAddressType(address)).includes(role),
+    )
+  );
+}
+
+/**
+ * Unsets the default flag for each role on every address except the new default
+ */
+async function clearDefaults(
+  client: StateSetMCPClient,
+  customerId: string,
+  addresses: StateSetResponse[],
+  roles: AddressRole[],
+  keepAddressId: string,
+): Promise<void> {
+  for (const address of addresses) {
+    if (String(address.id) === keepAddressId) continue;
+    const changes = Object.fromEntries(
+      roles
+        .filter((role) => getDefaultAddress([address], role) !== undefined)
+        .map((role) => [defaultFlag(role), false]),
+    );
+    if (Object.keys(changes).length > 0) {
+      await client.updateCustomerAddress(customerId, String(address.id), changes);
+    }
+  }
+}
+
+async function findAddress(
+  client: StateSetMCPClient,
+  customerId: string,
+  addressId: string,
+): Promise<{ address: StateSetResponse; addresses: StateSetResponse[] }> {
+  const addresses = (await client.getCustomerAddresses(customerId)).items;
+  const address = addresses.find((item) => String(item.id) === addressId);
+  if (!address) throw new NotFoundError('Address', addressId);
+  return { address, addresses };
+}
+
+/**
+ * Adds a normalized address. It becomes the default for its type when
+ * is_default is set, or when the customer has no default of that type yet.
+ */
+export async function addCustomerAddress(
+  client: StateSetMCPClient,
+  args: AddCustomerAddressArgs,
+): Promise<StateSetResponse> {
+  const { is_default, address_type = 'both', ...address } = args.address;
+  const normalized = normalizeAddress(address);
+  const addresses = (await client.getCustomerAddresses(args.customer_id)).items;
+  const roles = rolesFor(address_type).filter((role) =>
+    is_default === undefined ? !getDefaultAddress(addresses, role) : is_default,
+  );
+
+  const result = await client.addCustomerAddress(args.customer_id, {
+    ...normalized,
+    address_type,
+    is_default_shipping: roles.includes('shipping'),
+    is_default_billing: roles.includes('billing'),
+  });
+  await clearDefaults(client, args.customer_id, addresses, roles, String(result.id));
+  return result;
+}
+
+/**
+ * Applies the changes to the saved address and normalizes the result
+ */
+export async function updateCustomerAddress(
+  client: StateSetMCPClient,
+  args: UpdateCustomerAddressArgs,
+): Promise<StateSetResponse> {
+  const { address } = await findAddress(client, args.customer_id, args.address_id);
+  const { address_type, ...changes } = args.address;
+  const field = (name: keyof Address) => String(changes[name] ?? address[name] ?? '');
+  const merged: Address = {
+    street: field('street'),
+    city: field('city'),
+    state: field('state'),
+    postal_code: field('postal_code'),
+    country: field('country'),
+  };
+
+  return client.updateCustomerAddress(args.customer_id, args.address_id, {
+    ...normalizeAddress(merged),
+    ...(address_type ? { address_type } : {}),
+  });
+}
+
+/**
+ * Makes the address the customer's default for shipping, billing or both,
+ * replacing the previous default
+ */
+export async function setDefaultCustomerAddress(
+  client: StateSetMCPClient,
+  args: SetDefaultCustomerAddressArgs,
+): Promise<StateSetResponse> {
+  const { address, addresses } = await findAddress(client, args.customer_id, args.address_id);
+  const roles = rolesFor(args.address_type);
+  const addressType = getAddressType(address);
+  if (!roles.every((role) => rolesFor(addressType).includes(role))) {
+    throw new APIError(
+      `Address ${args.address_id} is a ${addressType} address, not a ${args.address_type} one`,
+      400,
+      'VALIDATION_ERROR',
+    );
+  }
+
+  const result = await client.updateCustomerAddress(
+    args.customer_id,
+    args.address_id,
+    Object.fromEntries(roles.map((role) => [defaultFlag(role), true])),
+  );
+  await clearDefaults(client, args.customer_id, addresses, roles, args.address_id);
+  return result;
+}
+
+/**
+ * The saved address as an order address, or undefined when it's missing
+ * fields an order address needs
+ */
+function toAddress(address: StateSetResponse): Address | undefined {
+  const parsed = schemas.AddressSchema.safeParse(address);
+  if (parsed.success) return parsed.data;
+  logger.warn('Skipping incomplete default address', {
+    addressId: address.id,
+    problems: parsed.error.issues.map((issue) => issue.message),
+  });
+  return undefined;
+}
+
+/**
+ * Fills in the shipping and billing addresses that weren't given from the
+ * customer's defaults. Failing to read the address book doesn't block the
+ * order; the addresses are left out instead.
+ */
+export async function withDefaultAddresses<
+  T extends { shipping_address?: Address; billing_address?: Address },
+>(client: StateSetMCPClient, customerId: string | undefined, args: T): Promise<T> {
+  if (!customerId || (args.shipping_address && args.billing_address)) return args;
+
+  let addresses: StateSetResponse[];
+  try {
+    addresses = (await client.getCustomerAddresses(customerId)).items;
+  } catch (error) {
+    logger.warn('Could not read the customer address book', {
+      customerId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return args;
+  }
+
+  const shipping = getDefaultAddress(addresses, 'shipping');
+  const billing = getDefaultAddress(addresses, 'billing');
+  return {
+    ...args,
+    shipping_address: args.shipping_address ?? (shipping ? toAddress(shipping) : undefined),
+    billing_address: args.billing_address ?? (billing ? toAddress(billing) : undefined),
+  };
+}
+
+/**
+ * withDefaultAddresses for a checkout, using the cart's customer. Failing to
+ * read the cart doesn't block the checkout either.
+ */
+export async function withCartDefaultAddresses<
+  T extends { shipping_address?: Address; billing_address?: Address },
+>(client: StateSetMCPClient, cartId: string, args: T): Promise<T> {
+  if (args.shipping_address && args.billing_address) return args;
+
+  let customerId: string | undefined;
+  try {
+    customerId = (await client.getCart(cartId)).customer_id;
+  } catch (error) {
+    logger.warn('Could not read the cart to find its customer', {
+      cartId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return args;
+  }
+  return withDefaultAddresses(client, customerId, args);
+}
@@ -0,0 +1,591 @@
+import { z } from 'zod';
+import { cacheManager } from '../core/cache';
+import { APIError } from '../middleware/error-handler';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { PAGE_SIZE, fetchAllPages, toNumber, type Paged } from '../utils/records';
+import { getOnHand } from './inventory-reservations';
+import { getPromisedDate } from './shipment-tracking';
+import * as schemas from './schemas';
+
+type GetDashboardMetricsArgs = z.infer<typeof schemas.GetDashboardMetricsArgsSchema>;
+type GetSalesTrendsArgs = z.infer<typeof schemas.GetSalesTrendsArgsSchema>;
+type GetSalesMetricsArgs = z.infer<typeof schemas.GetSalesMetricsArgsSchema>;
+type GetInventoryMetricsArgs = z.infer<typeof schemas.GetInventoryMetricsArgsSchema>;
+type GetShipmentMetricsArgs = z.infer<typeof schemas.GetShipmentMetricsArgsSchema>;
+type GetCartMetricsArgs = z.infer<typeof schemas.GetCartMetricsArgsSchema>;
+type PeriodArgs = { from_date?: string; to_date?: string };
+type Period = { from: number; to: number };
+export type TrendInterval = GetSalesTrendsArgs['interval'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PERIOD_DAYS = 30;
+const CACHE_NAMESPACE = 'analytics';
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// Open carts with items and no activity for this long count as abandoned
+const ABANDONED_AFTER_MS = 60 * 60 * 1000;
+
+const cancelledOrderStatuses = ['cancelled', 'canceled'];
+const shippedOrderStatuses = ['shipped', 'delivered', 'returned', 'archived'];
+const inTransitShipmentStatuses = ['shipped', 'in_transit', 'out_for_delivery'];
+const convertedCartStatuses = ['completed', 'converted', 'checked_out', 'ordered'];
+
+export interface MetricsPeriod {
+  from_date: string;
+  to_date: string;
+}
+
+interface Sample {
+  /** Records the metrics were computed from */
+  records: number;
+  /** True when paging stopped at the limit and later records were left out */
+  truncated: boolean;
+}
+
+export interface SalesMetrics extends Sample {
+  period: MetricsPeriod;
+  order_count: number;
+  orders_by_status: Record<string, number>;
+  /** Total of orders that weren't cancelled */
+  revenue: number;
+  average_order_value: number | null;
+  /** Share of orders that weren't cancelled that have shipped */
+  fill_rate: number | null;
+}
+
+export interface SalesTrendBucket {
+  /** First day of the bucket (YYYY-MM-DD); weeks start on Monday */
+  start: string;
+  order_count: number;
+  revenue: number;
+  average_order_value: number | null;
+}
+
+export interface SalesTrends extends Sample {
+  period: MetricsPeriod;
+  interval: TrendInterval;
+  buckets: SalesTrendBucket[];
+}
+
+export interface InventoryMetrics extends Sample {
+  period: MetricsPeriod;
+  location_id?: number;
+  sku_count: number;
+  total_units: number;
+  /** On-hand units at unit cost, for records that have one */
+  inventory_value: number;
+  out_of_stock: number;
+  /** In stock, but at or below the record's reorder point */
+  low_stock: number;
+  /** Units on the period's orders that weren't cancelled */
+  units_sold: number;
+  /** Units sold over on-hand units, annualized from the period */
+  stock_turns: number | null;
+}
+
+export interface ShipmentMetrics extends Sample {
+  period: MetricsPeriod;
+  shipment_count: number;
+  shipments_by_status: Record<string, number>;
+  in_transit: number;
+  delivered: number;
+  /** Share of delivered shipments with a promised date that arrived by it */
+  on_time_rate: number | null;
+  on_time: number;
+  late: number;
+  average_transit_days: number | null;
+}
+
+export interface CartMetrics extends Sample {
+  period: MetricsPeriod;
+  cart_count: number;
+  converted: number;
+  abandoned: number;
+  /** Carts that are empty or still in use */
+  open: number;
+  /** Abandoned carts over abandoned and converted ones */
+  abandonment_rate: number | null;
+  /** Average subtotal of carts with items */
+  average_cart_value: number | null;
+  abandoned_value: number;
+}
+
+export interface DashboardMetrics {
+  period: MetricsPeriod;
+  orders: Pick<SalesMetrics, 'order_count' | 'revenue' | 'average_order_value' | 'fill_rate'>;
+  inventory_value: number;
+  low_stock: number;
+  shipments_in_transit: number;
+  on_time_rate: number | null;
+  cart_abandonment_rate: number | null;
+  truncated: boolean;
+}
+
+function toTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? round(part / whole, 4) : null;
+}
+
+function toDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function getStatus(record: StateSetResponse): string {
+  return String(record.status ?? 'unknown').toLowerCase();
+}
+
+function countByStatus(records: StateSetResponse[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const record of records) {
+    const status = getStatus(record);
+    counts[status] = (counts[status] ?? 0) + 1;
+  }
+  return counts;
+}
+
+function getOrderTotal(order: StateSetResponse): number {
+  return toNumber(order.total_amount ?? order.total) ?? 0;
+}
+
+function isCancelled(order: StateSetResponse): boolean {
+  return cancelledOrderStatuses.includes(getStatus(order));
+}
+
+/**
+ * The requested period as times, defaulting to the 30 days up to to_date or now
+ */
+export function resolvePeriod(args: PeriodArgs, now: number = Date.now()): Period {
+  const to = toTime(args.to_date) ?? now;
+  const from = toTime(args.from_date) ?? to - DEFAULT_PERIOD_DAYS * DAY_MS;
+  if (from > to) {
+    throw new APIError('from_date must not be after to_date', 400, 'VALIDATION_ERROR');
+  }
+  return { from, to };
+}
+
+function toMetricsPeriod(period: Period): MetricsPeriod {
+  return {
+    from_date: new Date(period.from).toISOString(),
+    to_date: new Date(period.to).toISOString(),
+  };
+}
+
+/**
+ * Fetches every page, keeping records created in the period since the API may
+ * ignore the date filters
+ */
+async function fetchPeriod(
+  resource: string,
+  fetchPage: (page: number) => Promise<{ items: StateSetResponse[] }>,
+  period?: Period,
+): Promise<Paged> {
+  const { items, truncated } = await fetchAllPages(resource, fetchPage);
+  if (!period) return { items, truncated };
+  return {
+    items: items.filter((item) => {
+      const created = toTime(item.created_at);
+      return created !== undefined && created >= period.from && created <= period.to;
+    }),
+    truncated,
+  };
+}
+
+/**
+ * Returns the cached result for the metric and period, computing and caching
+ * it for 5 minutes on a miss
+ */
+async function cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
+  const hit = await cacheManager.get<T>(CACHE_NAMESPACE, key);
+  if (hit !== undefined) return hit;
+  const value = await compute();
+  cacheManager.set(CACHE_NAMESPACE, key, value, CACHE_TTL_MS);
+  return value;
+}
+
+function cacheKey(metric: string, args: PeriodArgs, ...extra: unknown[]): string {
+  return [metric, args.from_date ?? '', args.to_date ?? '', ...extra].join(':');
+}
+
+function fetchOrders(client: StateSetMCPClient, period: Period): Promise<Paged> {
+  const dates = toMetricsPeriod(period);
+  return fetchPeriod(
+    'orders',
+    (page) => client.listOrders({ ...dates, page, per_page: PAGE_SIZE }),
+    period,
+  );
+}
+
+function fetchInventories(client: StateSetMCPClient, locationId?: number): Promise<Paged> {
+  return fetchPeriod('inventory', (page) =>
+    client.listInventories({ location_id: locationId, page, per_page: PAGE_SIZE }),
+  );
+}
+
+function fetchShipments(client: StateSetMCPClient, period: Period): Promise<Paged> {
+  const dates = toMetricsPeriod(period);
+  return fetchPeriod(
+    'shipments',
+    (page) => client.listShipments({ ...dates, page, per_page: PAGE_SIZE }),
+    period,
+  );
+}
+
+function fetchCarts(client: StateSetMCPClient, period: Period): Promise<Paged> {
+  const dates = toMetricsPeriod(period);
+  return fetchPeriod(
+    'carts',
+    (page) => client.listCarts({ ...dates, page, per_page: PAGE_SIZE }),
+    period,
+  );
+}
+
+function toSample(...fetched: Paged[]): Sample {
+  return {
+    records: fetched.reduce((total, { items }) => total + items.length, 0),
+    truncated: fetched.some(({ truncated }) => truncated),
+  };
+}
+
+// ==================================
+// CALCULATIONS
+// ==================================
+
+export function summarizeSales(
+  orders: StateSetResponse[],
+  period: MetricsPeriod,
+  sample: Sample,
+): SalesMetrics {
+  const placed = orders.filter((order) => !isCancelled(order));
+  const revenue = round(
+    placed.reduce((total, order) => total + getOrderTotal(order), 0),
+    2,
+  );
+  const shipped = placed.filter((order) => shippedOrderStatuses.includes(getStatus(order)));
+
+  return {
+    period,
+    order_count: orders.length,
+    orders_by_status: countByStatus(orders),
+    revenue,
+    average_order_value: placed.length > 0 ? round(revenue / placed.length, 2) : null,
+    fill_rate: ratio(shipped.length, placed.length),
+    ...sample,
+  };
+}
+
+/**
+ * UTC start of the daily, weekly (Monday) or monthly bucket the time falls in
+ */
+export function getBucketStart(time: number, interval: TrendInterval): number {
+  const date = new Date(time);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  switch (interval) {
+    case 'daily':
+      return day;
+    case 'weekly':
+      return day - ((date.getUTCDay() + 6) % 7) * DAY_MS;
+    case 'monthly':
+      return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+}
+
+function nextBucketStart(start: number, interval: TrendInterval): number {
+  if (interval === 'daily') return start + DAY_MS;
+  if (interval === 'weekly') return start + 7 * DAY_MS;
+  const date = new Date(start);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
+
+/**
+ * Orders and revenue per bucket, oldest first. Buckets without orders are
+ * included so the series has no gaps.
+ */
+export function summarizeSalesTrends(
+  orders: StateSetResponse[],
+  period: Period,
+  interval: TrendInterval,
+  sample: Sample,
+): SalesTrends {
+  const buckets = new Map<number, { order_count: number; revenue: number }>();
+  for (
+    let start = getBucketStart(period.from, interval);
+    start <= period.to;
+    start = nextBucketStart(start, interval)
+  ) {
+    buckets.set(start, { order_count: 0, revenue: 0 });
+  }
+
+  for (const order of orders.filter((order) => !isCancelled(order))) {
+    const created = toTime(order.created_at);
+    const bucket =
+      created === undefined ? undefined : buckets.get(getBucketStart(created, interval));
+    if (!bucket) continue;
+    bucket.order_count++;
+    bucket.revenue += getOrderTotal(order);
+  }
+
+  return {
+    period: toMetricsPeriod(period),
+    interval,
+    buckets: [...buckets.entries()].map(([start, bucket]) => ({
+      start: toDate(start),
+      order_count: bucket.order_count,
+      revenue: round(bucket.revenue, 2),
+      average_order_value:
+        bucket.order_count > 0 ? round(bucket.revenue / bucket.order_count, 2) : null,
+    })),
+    ...sample,
+  };
+}
+
+export function summarizeInventory(
+  inventories: StateSetResponse[],
+  orders: StateSetResponse[],
+  period: Period,
+  sample: Sample,
+): Omit<InventoryMetrics, 'location_id'> {
+  let totalUnits = 0;
+  let inventoryValue = 0;
+  let outOfStock = 0;
+  let lowStock = 0;
+  for (const inventory of inventories) {
+    const onHand = getOnHand(inventory) ?? 0;
+    totalUnits += Math.max(onHand, 0);
+    inventoryValue += Math.max(onHand, 0) * (toNumber(inventory.unit_cost ?? inventory.cost) ?? 0);
+
+    const reorderPoint = toNumber(inventory.reorder_point);
+    if (onHand <= 0) {
+      outOfStock++;
+    } else if (reorderPoint !== undefined && onHand <= reorderPoint) {
+      lowStock++;
+    }
+  }
+
+  // Orders listed without their items don't count towards units sold
+  const unitsSold = orders
+    .filter((order) => !isCancelled(order))
+    .flatMap((order) => (Array.isArray(order.items) ? order.items : []))
+    .reduce((total: number, item: StateSetResponse) => total + (toNumber(item.quantity) ?? 0), 0);
+  const periodDays = Math.max((period.to - period.from) / DAY_MS, 1);
+
+  return {
+    period: toMetricsPeriod(period),
+    sku_count: inventories.length,
+    total_units: totalUnits,
+    inventory_value: round(inventoryValue, 2),
+    out_of_stock: outOfStock,
+    low_stock: lowStock,
+    units_sold: unitsSold,
+    stock_turns: totalUnits > 0 ? round((unitsSold / totalUnits) * (365 / periodDays), 2) : null,
+    ...sample,
+  };
+}
+
+export function summarizeShipments(
+  shipments: StateSetResponse[],
+  period: MetricsPeriod,
+  sample: Sample,
+): ShipmentMetrics {
+  let delivered = 0;
+  let onTime = 0;
+  let late = 0;
+  const transitDays: number[] = [];
+
+  for (const shipment of shipments) {
+    if (getStatus(shipment) !== 'delivered') continue;
+    delivered++;
+
+    const deliveredAt = toTime(
+      shipment.delivered_at ?? shipment.delivered_date ?? shipment.actual_delivery_date,
+    );
+    if (deliveredAt === undefined) continue;
+    const promised = getPromisedDate(shipment);
+    if (promised) {
+      if (toDate(deliveredAt) <= promised) {
+        onTime++;
+      } else {
+        late++;
+      }
+    }
+    const shippedAt = toTime(shipment.shipped_at ?? shipment.ship_date);
+    if (shippedAt !== undefined && shippedAt <= deliveredAt) {
+      transitDays.push((deliveredAt - shippedAt) / DAY_MS);
+    }
+  }
+
+  return {
+    period,
+    shipment_count: shipments.length,
+    shipments_by_status: countByStatus(shipments),
+    in_transit: shipments.filter((shipment) =>
+      inTransitShipmentStatuses.includes(getStatus(shipment)),
+    ).length,
+    delivered,
+    on_time_rate: ratio(onTime, onTime + late),
+    on_time: onTime,
+    late,
+    average_transit_days:
+      transitDays.length > 0
+        ? round(transitDays.reduce((total, days) => total + days, 0) / transitDays.length, 1)
+        : null,
+    ...sample,
+  };
+}
+
+export function summarizeCarts(
+  carts: StateSetResponse[],
+  period: MetricsPeriod,
+  sample: Sample,
+  asOf: number = Date.now(),
+): CartMetrics {
+  let converted = 0;
+  let abandoned = 0;
+  let abandonedValue = 0;
+  const values: number[] = [];
+
+  for (const cart of carts) {
+    const status = getStatus(cart);
+    const itemCount = toNumber(cart.item_count) ?? 0;
+    const subtotal = toNumber(cart.subtotal) ?? 0;
+    if (itemCount > 0) values.push(subtotal);
+
+    if (convertedCartStatuses.includes(status)) {
+      converted++;
+      continue;
+    }
+    const lastActivity = toTime(cart.updated_at ?? cart.created_at) ?? asOf;
+    if (status === 'abandoned' || (itemCount > 0 && asOf - lastActivity >= ABANDONED_AFTER_MS)) {
+      abandoned++;
+      abandonedValue += subtotal;
+    }
+  }
+
+  return {
+    period,
+    cart_count: carts.length,
+    converted,
+    abandoned,
+    open: carts.length - converted - abandoned,
+    abandonment_rate: ratio(abandoned, abandoned + converted),
+    average_cart_value:
+      values.length > 0
+        ? round(values.reduce((total, value) => total + value, 0) / values.length, 2)
+        : null,
+    abandoned_value: round(abandonedValue, 2),
+    ...sample,
+  };
+}
+
+// ==================================
+// METRICS
+// ==================================
+
+export async function getSalesMetrics(
+  client: StateSetMCPClient,
+  args: GetSalesMetricsArgs,
+): Promise<SalesMetrics> {
+  return cached(cacheKey('sales', args), async () => {
+    const period = resolvePeriod(args);
+    const orders = await fetchOrders(client, period);
+    return summarizeSales(orders.items, toMetricsPeriod(period), toSample(orders));
+  });
+}
+
+export async function getSalesTrends(
+  client: StateSetMCPClient,
+  args: GetSalesTrendsArgs,
+): Promise<SalesTrends> {
+  return cached(cacheKey('sales_trends', args, args.interval), async () => {
+    const period = resolvePeriod(args);
+    const orders = await fetchOrders(client, period);
+    return summarizeSalesTrends(orders.items, period, args.interval, toSample(orders));
+  });
+}
+
+export async function getInventoryMetrics(
+  client: StateSetMCPClient,
+  args: GetInventoryMetricsArgs,
+): Promise<InventoryMetrics> {
+  return cached(cacheKey('inventory', args, args.location_id ?? ''), async () => {
+    const period = resolvePeriod(args);
+    const [inventories, orders] = await Promise.all([
+      fetchInventories(client, args.location_id),
+      fetchOrders(client, period),
+    ]);
+    return {
+      location_id: args.location_id,
+      ...summarizeInventory(inventories.items, orders.items, period, toSample(inventories, orders)),
+    };
+  });
+}
+
+export async function getShipmentMetrics(
+  client: StateSetMCPClient,
+  args: GetShipmentMetricsArgs,
+): Promise<ShipmentMetrics> {
+  return cached(cacheKey('shipments', args), async () => {
+    const period = resolvePeriod(args);
+    const shipments = await fetchShipments(client, period);
+    return summarizeShipments(shipments.items, toMetricsPeriod(period), toSample(shipments));
+  });
+}
+
+export async function getCartMetrics(
+  client: StateSetMCPClient,
+  args: GetCartMetricsArgs,
+): Promise<CartMetrics> {
+  return cached(cacheKey('carts', args), async () => {
+    const period = resolvePeriod(args);
+    const carts = await fetchCarts(client, period);
+    return summarizeCarts(carts.items, toMetricsPeriod(period), toSample(carts));
+  });
+}
+
+/**
+ * Headline figures from the sales, inventory, shipment and cart metrics for
+ * the same period, fetching each resource once
+ */
+export async function getDashboardMetrics(
+  client: StateSetMCPClient,
+  args: GetDashboardMetricsArgs,
+): Promise<DashboardMetrics> {
+  return cached(cacheKey('dashboard', args), async () => {
+    const period = resolvePeriod(args);
+    const dates = toMetricsPeriod(period);
+    const [orders, inventories, shipments, carts] = await Promise.all([
+      fetchOrders(client, period),
+      fetchInventories(client),
+      fetchShipments(client, period),
+      fetchCarts(client, period),
+    ]);
+
+    const sales = summarizeSales(orders.items, dates, toSample(orders));
+    const inventory = summarizeInventory(inventories.items, orders.items, period, toSample());
+    const shipping = summarizeShipments(shipments.items, dates, toSample());
+    return {
+      period: dates,
+      orders: {
+        order_count: sales.order_count,
+        revenue: sales.revenue,
+        average_order_value: sales.average_order_value,
+        fill_rate: sales.fill_rate,
+      },
+      inventory_value: inventory.inventory_value,
+      low_stock: inventory.low_stock,
+      shipments_in_transit: shipping.in_transit,
+      on_time_rate: shipping.on_time_rate,
+      cart_abandonment_rate: summarizeCarts(carts.items, dates, toSample()).abandonment_rate,
+      truncated: toSample(orders, inventories, shipments, carts).truncated,
+    };
+  });
+}
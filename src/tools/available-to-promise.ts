@@ -0,0 +1,288 @@
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import {
+  PAGE_SIZE,
+  fetchAllPages,
+  filterByReference,
+  toNumber,
+  type Paged,
+} from '../utils/records';
+import { getOnHand, getReserved, getSku } from './inventory-reservations';
+
+const closedPurchaseOrderStatuses = ['draft', 'received', 'closed', 'completed', 'cancelled'];
+const closedAsnStatuses = ['delivered', 'received', 'cancelled'];
+const closedSalesOrderStatuses = [
+  'draft',
+  'shipped',
+  'fulfilled',
+  'delivered',
+  'completed',
+  'closed',
+  'cancelled',
+];
+
+export interface AtpProjectionPoint {
+  date: string;
+  inbound: number;
+  committed: number;
+  /** Projected available-to-promise after the day's movements */
+  available: number;
+}
+
+export interface SkuAvailability {
+  sku: string;
+  on_hand: number;
+  reserved: number;
+  /** Dated inbound quantity on open purchase orders and ASNs */
+  inbound: number;
+  /** Quantity on open sales orders, including the part already reserved */
+  committed: number;
+  available_now: number;
+  projection: AtpProjectionPoint[];
+  /** Earliest date the requested quantity can be promised; null when supply never covers it */
+  available_from?: string | null;
+}
+
+export interface AvailableToPromiseResult {
+  as_of: string;
+  quantity?: number;
+  skus: SkuAvailability[];
+  /** True when paging stopped before the last record of a type */
+  truncated: boolean;
+}
+
+export interface AtpDocuments {
+  inventories: StateSetResponse[];
+  purchaseOrders: StateSetResponse[];
+  asns: StateSetResponse[];
+  salesOrders: StateSetResponse[];
+  /** Set when paging stopped before the last record of a type */
+  truncated?: boolean;
+}
+
+export interface AtpOptions {
+  skus?: string[];
+  quantity?: number;
+  /** Defaults to now */
+  asOf?: number;
+}
+
+interface SkuEvents {
+  onHand: number;
+  reserved: number;
+  /** date → quantity */
+  inbound: Map<string, number>;
+  committed: Map<string, number>;
+}
+
+/**
+ * YYYY-MM-DD of a date value, moved forward to today when it's in the past
+ */
+function toDate(value: unknown, today: string): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const time = new Date(value).getTime();
+  if (Number.isNaN(time)) return undefined;
+  const date = new Date(time).toISOString().slice(0, 10);
+  return date < today ? today : date;
+}
+
+function getLines(document: StateSetResponse): Record<string, unknown>[] {
+  const lines = document.items ?? document.line_items ?? document.lines;
+  return Array.isArray(lines) ? lines : [];
+}
+
+function isOpen(document: StateSetResponse, closedStatuses: string[]): boolean {
+  return !closedStatuses.includes(String(document.status ?? '').toLowerCase());
+}
+
+function addTo(map: Map<string, number>, key: string, quantity: number): void {
+  map.set(key, (map.get(key) ?? 0) + quantity);
+}
+
+/**
+ * Projects available-to-promise per SKU and date:
+ *
+ *   on hand - reserved + inbound to date - unreserved committed to date
+ *
+ * Inbound comes from open ASNs (dated by their estimated delivery) and the
+ * rest of each open purchase order (dated by its expected date). Inbound
+ * without a date is never promised. Sales orders without a date are committed
+ * today, and overdue dates are moved to today. Reservations are taken to hold
+ * stock for the earliest open sales orders, so reserved order quantities
+ * aren't subtracted twice.
+ */
+export function projectAvailableToPromise(
+  documents: AtpDocuments,
+  options: AtpOptions = {},
+): AvailableToPromiseResult {
+  const today = new Date(options.asOf ?? Date.now()).toISOString().slice(0, 10);
+  const wanted = options.skus ? new Set(options.skus) : undefined;
+  const skus = new Map<string, SkuEvents>();
+
+  const eventsFor = (sku: string): SkuEvents | undefined => {
+    if (wanted && !wanted.has(sku)) return undefined;
+    let events = skus.get(sku);
+    if (!events) {
+      events = { onHand: 0, reserved: 0, inbound: new Map(), committed: new Map() };
+      skus.set(sku, events);
+    }
+    return events;
+  };
+
+  for (const inventory of documents.inventories) {
+    const sku = getSku(inventory);
+    const events = sku ? eventsFor(sku) : undefined;
+    if (!events) continue;
+    events.onHand += getOnHand(inventory) ?? 0;
+    events.reserved += getReserved(inventory);
+  }
+
+  // Quantities already announced on an ASN, per purchase order and SKU
+  const announced = new Map<string, number>();
+  for (const asn of documents.asns.filter((asn) => isOpen(asn, closedAsnStatuses))) {
+    const date = toDate(asn.estimated_delivery ?? asn.expected_delivery_date, today);
+    for (const line of getLines(asn)) {
+      const sku = getSku(line);
+      const quantity = toNumber(line.quantity) ?? 0;
+      if (!sku) continue;
+      if (asn.purchase_order_id !== undefined) {
+        addTo(announced, `${asn.purchase_order_id}:${sku}`, quantity);
+      }
+      const events = eventsFor(sku);
+      if (events && date) addTo(events.inbound, date, quantity);
+    }
+  }
+
+  for (const purchaseOrder of documents.purchaseOrders.filter((po) =>
+    isOpen(po, closedPurchaseOrderStatuses),
+  )) {
+    const date = toDate(
+      purchaseOrder.expected_delivery_date ?? purchaseOrder.expected_date ?? purchaseOrder.due_date,
+      today,
+    );
+    for (const line of getLines(purchaseOrder)) {
+      const sku = getSku(line);
+      const events = sku ? eventsFor(sku) : undefined;
+      if (!sku || !events || !date) continue;
+      const outstanding =
+        (toNumber(line.quantity) ?? 0) -
+        (toNumber(line.quantity_received) ?? 0) -
+        (announced.get(`${purchaseOrder.id}:${sku}`) ?? 0);
+      if (outstanding > 0) addTo(events.inbound, date, outstanding);
+    }
+  }
+
+  for (const salesOrder of documents.salesOrders.filter((so) =>
+    isOpen(so, closedSalesOrderStatuses),
+  )) {
+    const date =
+      toDate(
+        salesOrder.requested_ship_date ?? salesOrder.ship_date ?? salesOrder.due_date,
+        today,
+      ) ?? today;
+    for (const line of getLines(salesOrder)) {
+      const sku = getSku(line);
+      const events = sku ? eventsFor(sku) : undefined;
+      if (!events) continue;
+      const outstanding = (toNumber(line.quantity) ?? 0) - (toNumber(line.quantity_shipped) ?? 0);
+      if (outstanding > 0) addTo(events.committed, date, outstanding);
+    }
+  }
+
+  return {
+    as_of: today,
+    quantity: options.quantity,
+    skus: [...skus.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([sku, events]) => projectSku(sku, events, today, options.quantity)),
+    truncated: documents.truncated ?? false,
+  };
+}
+
+function projectSku(
+  sku: string,
+  events: SkuEvents,
+  today: string,
+  quantity: number | undefined,
+): SkuAvailability {
+  const dates = [...new Set([today, ...events.inbound.keys(), ...events.committed.keys()])].sort();
+
+  let available = events.onHand - events.reserved;
+  let unclaimedReservations = events.reserved;
+  const projection: AtpProjectionPoint[] = [];
+  for (const date of dates) {
+    const inbound = events.inbound.get(date) ?? 0;
+    const committed = events.committed.get(date) ?? 0;
+    const reserved = Math.min(committed, unclaimedReservations);
+    unclaimedReservations -= reserved;
+    available += inbound - (committed - reserved);
+    projection.push({ date, inbound, committed, available });
+  }
+
+  const sum = (map: Map<string, number>) => [...map.values()].reduce((a, b) => a + b, 0);
+  const result: SkuAvailability = {
+    sku,
+    on_hand: events.onHand,
+    reserved: events.reserved,
+    inbound: sum(events.inbound),
+    committed: sum(events.committed),
+    available_now: projection[0]?.available ?? available,
+    projection,
+  };
+
+  if (quantity !== undefined) {
+    // Later commitments can consume stock promised today, so the quantity must
+    // stay available from the promised date onwards
+    let availableFrom: string | null = null;
+    for (let i = projection.length - 1; i >= 0; i--) {
+      const point = projection[i];
+      if (!point || point.available < quantity) break;
+      availableFrom = point.date;
+    }
+    result.available_from = availableFrom;
+  }
+  return result;
+}
+
+/**
+ * Loads inventory, purchase orders, ASNs and sales orders and projects
+ * available-to-promise. With a location, every document type is requested for
+ * it, keeping only the records at that location.
+ */
+export async function getAvailableToPromise(
+  client: StateSetMCPClient,
+  args: { skus?: string[]; location_id?: number; quantity?: number },
+): Promise<AvailableToPromiseResult> {
+  const filter = { location_id: args.location_id, per_page: PAGE_SIZE };
+  const fetchAtLocation = async (
+    resource: string,
+    fetchPage: (page: number) => Promise<{ items: StateSetResponse[] }>,
+  ): Promise<Paged> => {
+    const { items, truncated } = await fetchAllPages(resource, fetchPage);
+    if (args.location_id === undefined) return { items, truncated };
+    const locationId = String(args.location_id);
+    return {
+      items: filterByReference(items, locationId, (record) => record.location_id),
+      truncated,
+    };
+  };
+  const [inventories, purchaseOrders, asns, salesOrders] = await Promise.all([
+    fetchAtLocation('inventory', (page) => client.listInventories({ ...filter, page })),
+    fetchAtLocation('purchase_orders', (page) => client.listPurchaseOrders({ ...filter, page })),
+    fetchAtLocation('asns', (page) => client.listASNs({ ...filter, page })),
+    fetchAtLocation('sales_orders', (page) => client.listSalesOrders({ ...filter, page })),
+  ]);
+
+  return projectAvailableToPromise(
+    {
+      inventories: inventories.items,
+      purchaseOrders: purchaseOrders.items,
+      asns: asns.items,
+      salesOrders: salesOrders.items,
+      truncated: [inventories, purchaseOrders, asns, salesOrders].some(
+        ({ truncated }) => truncated,
+      ),
+    },
+    { skus: args.skus, quantity: args.quantity },
+  );
+}
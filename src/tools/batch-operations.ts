@@ -10,6 +10,8 @@ export interface BatchClient {
   updateOrder(data: any): Promise<any>;
   deleteOrder(args: any): Promise<any>;
   createRMA(data: any): Promise<any>;
+  updateRMA(data: any): Promise<any>;
+  deleteRMA(args: any): Promise<any>;
   createProduct(data: any): Promise<any>;
   updateProduct(data: any): Promise<any>;
   deleteProduct(args: any): Promise<any>;
@@ -59,6 +61,13 @@ export const BatchOperationSchema = z.object({
     .optional(),
 });
 
+export interface BatchProgress {
+  total: number;
+  completed: number;
+  success: number;
+  failed: number;
+}
+
 export interface BatchResult {
   success: number;
   failed: number;
@@ -81,6 +90,8 @@ export async function executeBatchOperations(
     parallel?: boolean;
     stopOnError?: boolean;
     chunkSize?: number;
+    /** Called after each chunk completes */
+    onProgress?: (progress: BatchProgress) => void | Promise<void>;
   } = {},
 ): Promise<BatchResult> {
   const startTime = Date.now();
@@ -88,7 +99,19 @@ export async function executeBatchOperations(
   let success = 0;
   let failed = 0;
 
-  const { parallel = false, stopOnError = false, chunkSize = 10 } = options;
+  const { parallel = false, stopOnError = false, chunkSize = 10, onProgress } = options;
+
+  const reportProgress = async (completed: number): Promise<void> => {
+    if (!onProgress) return;
+    try {
+      await onProgress({ total: operations.length, completed, success, failed });
+    } catch (error) {
+      // Progress is best effort; a closed session must not abort the batch
+      logger.warn('Failed to report batch progress', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
 
   try {
     if (parallel) {
@@ -123,6 +146,7 @@ export async function executeBatchOperations(
         });
 
         await Promise.all(chunkPromises);
+        await reportProgress(Math.min(i + chunkSize, operations.length));
       }
     } else {
       // Sequential processing
@@ -137,6 +161,7 @@ export async function executeBatchOperations(
           failed++;
 
           if (stopOnError) {
+            await reportProgress(i + 1);
             break;
           }
         }
@@ -148,6 +173,10 @@ export async function executeBatchOperations(
           success,
           failed,
         });
+
+        if ((i + 1) % chunkSize === 0 || i === operations.length - 1) {
+          await reportProgress(i + 1);
+        }
       }
     }
 
@@ -203,13 +232,9 @@ async function executeOperation(client: BatchClient, operation: any): Promise<an
         case 'create':
           return client.createRMA(data);
         case 'update':
-          // RMA update is not supported - use approve/restock instead
-          throw new Error(
-            'RMA update is not supported. Use approve_return or restock_return instead.',
-          );
+          return client.updateRMA(data);
         case 'delete':
-          // RMA deletion is not supported by the API
-          throw new Error('RMA deletion is not supported');
+          return client.deleteRMA({ rma_id: data.rma_id });
         default:
           throw new Error(`Unknown operation type: ${type}`);
       }
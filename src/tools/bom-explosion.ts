@@ -0,0 +1,225 @@
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { PAGE_SIZE, fetchAllPages, roundToCents, toNumber } from '../utils/records';
+import * as schemas from './schemas';
+
+type ExplodeBOMArgs = z.infer<typeof schemas.ExplodeBOMArgsSchema>;
+
+const inactiveBOMStatuses = ['inactive', 'obsolete', 'archived', 'superseded', 'draft'];
+
+export interface ExplodedComponent {
+  component_id: string;
+  name?: string;
+  sku?: string;
+  unit_of_measure?: string;
+  /** Quantity needed for the build before scrap */
+  quantity: number;
+  /** Quantity to issue once each level's scrap allowance is added */
+  required_quantity: number;
+  /** Product price; undefined when the component has none */
+  unit_price?: number;
+  total_cost?: number;
+}
+
+export interface BOMExplosion {
+  bill_of_materials_id: string;
+  quantity: number;
+  /** Depth of the deepest sub-assembly, 1 when no component has its own BOM */
+  levels: number;
+  /** Leaf components, totalled across every assembly they appear in */
+  components: ExplodedComponent[];
+  material_cost: number;
+  /** Components left out of material_cost because they have no price */
+  unpriced: string[];
+  /** BOM ids from the top-level BOM down to the BOM that repeats. Cyclic components aren't expanded. */
+  cycles: string[][];
+  /** True when paging stopped before the last BOM, so some sub-assemblies may not be expanded */
+  truncated: boolean;
+}
+
+export interface BOMDocuments {
+  /** Components of each BOM, by BOM id */
+  components: Map<string, StateSetResponse[]>;
+  /** The BOM each assembled product is built from, by product id */
+  bomsByProduct: Map<string, string>;
+  /** Set when paging stopped before the last BOM */
+  truncated?: boolean;
+}
+
+// Keeps fractional quantities while hiding floating point noise
+function roundQuantity(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function getComponentId(component: StateSetResponse): string {
+  return String(component.component_id ?? component.product_id ?? component.id);
+}
+
+/**
+ * Expands the BOM into its leaf components for a build quantity. Components
+ * built from their own BOM are expanded in turn, and each level's scrap_percent
+ * is added to the quantities needed below it.
+ */
+export function explodeBOM(
+  bomId: string,
+  quantity: number,
+  documents: BOMDocuments,
+): Omit<BOMExplosion, 'material_cost' | 'unpriced' | 'truncated'> {
+  const leaves = new Map<string, ExplodedComponent>();
+  const cycles: string[][] = [];
+  let levels = 1;
+
+  const expand = (id: string, net: number, required: number, path: string[]): void => {
+    levels = Math.max(levels, path.length);
+    for (const component of documents.components.get(id) ?? []) {
+      const componentId = getComponentId(component);
+      const perAssembly = toNumber(component.quantity) ?? 0;
+      const scrap = toNumber(component.scrap_percent) ?? 0;
+      const componentNet = net * perAssembly;
+      const componentRequired = required * perAssembly * (1 + scrap / 100);
+
+      const childBomId = documents.bomsByProduct.get(componentId);
+      if (childBomId !== undefined) {
+        if (path.includes(childBomId)) {
+          cycles.push([...path, childBomId]);
+        } else {
+          expand(childBomId, componentNet, componentRequired, [...path, childBomId]);
+        }
+        continue;
+      }
+
+      const leaf = leaves.get(componentId) ?? {
+        component_id: componentId,
+        name: component.name,
+        sku: component.sku,
+        unit_of_measure: component.unit_of_measure,
+        quantity: 0,
+        required_quantity: 0,
+      };
+      leaf.quantity += componentNet;
+      leaf.required_quantity += componentRequired;
+      leaves.set(componentId, leaf);
+    }
+  };
+  expand(bomId, quantity, quantity, [bomId]);
+
+  const components = [...leaves.values()].map((leaf) => ({
+    ...leaf,
+    quantity: roundQuantity(leaf.quantity),
+    required_quantity: roundQuantity(leaf.required_quantity),
+  }));
+  return { bill_of_materials_id: bomId, quantity, levels, components, cycles };
+}
+
+/**
+ * 2 for a BOM marked active, 0 for one marked inactive and 1 when it says
+ * neither
+ */
+function rankBOM(bom: StateSetResponse): number {
+  const status = String(bom.status ?? '').toLowerCase();
+  if (status === 'active' || bom.is_active === true) return 2;
+  if (inactiveBOMStatuses.includes(status) || bom.is_active === false) return 0;
+  return 1;
+}
+
+/**
+ * The BOM each product is built from. When a product has several, the active
+ * one is used, else the first listed that isn't inactive.
+ */
+export function getBOMsByProduct(boms: StateSetResponse[]): Map<string, string> {
+  const chosen = new Map<string, StateSetResponse>();
+  for (const bom of boms) {
+    const productId = bom.product_id ?? bom.item_id;
+    if (productId === undefined) continue;
+    const current = chosen.get(String(productId));
+    if (!current || rankBOM(bom) > rankBOM(current)) {
+      chosen.set(String(productId), bom);
+    }
+  }
+  return new Map([...chosen].map(([productId, bom]) => [productId, String(bom.id)]));
+}
+
+/**
+ * Fetches the components of the BOM and of every sub-assembly BOM below it.
+ * A component is a sub-assembly when a BOM is for its product.
+ */
+async function fetchBOMDocuments(client: StateSetMCPClient, bomId: string): Promise<BOMDocuments> {
+  const { items: boms, truncated } = await fetchAllPages('bill_of_materials', (page) =>
+    client.listBillOfMaterials({ page, per_page: PAGE_SIZE }),
+  );
+  const bomsByProduct = getBOMsByProduct(boms);
+
+  const components = new Map<string, StateSetResponse[]>();
+  const pending = [bomId];
+  while (pending.length > 0) {
+    const ids = pending.splice(0).filter((id) => !components.has(id));
+    const pages = await Promise.all(ids.map((id) => client.getBOMComponents(id)));
+    for (const [index, id] of ids.entries()) {
+      const items = pages[index]?.items ?? [];
+      components.set(id, items);
+      for (const component of items) {
+        const childBomId = bomsByProduct.get(getComponentId(component));
+        if (childBomId !== undefined && !components.has(childBomId)) {
+          pending.push(childBomId);
+        }
+      }
+    }
+  }
+
+  return { components, bomsByProduct, truncated };
+}
+
+/**
+ * Explodes the BOM for the build quantity and rolls up the material cost of
+ * its leaf components from their product prices
+ */
+export async function getBOMExplosion(
+  client: StateSetMCPClient,
+  args: ExplodeBOMArgs,
+): Promise<BOMExplosion> {
+  const documents = await fetchBOMDocuments(client, args.bill_of_materials_id);
+  const explosion = explodeBOM(args.bill_of_materials_id, args.quantity, documents);
+  if (explosion.cycles.length > 0) {
+    logger.warn('Bill of materials contains a cycle', {
+      bomId: args.bill_of_materials_id,
+      cycles: explosion.cycles,
+    });
+  }
+
+  const prices = await Promise.all(
+    explosion.components.map(async (component) => {
+      try {
+        return toNumber((await client.getProduct(component.component_id)).price);
+      } catch (error) {
+        logger.debug('Could not price BOM component', {
+          componentId: component.component_id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      }
+    }),
+  );
+
+  const unpriced: string[] = [];
+  let materialCost = 0;
+  const components = explosion.components.map((component, index) => {
+    const unitPrice = prices[index];
+    if (unitPrice === undefined) {
+      unpriced.push(component.component_id);
+      return component;
+    }
+    const totalCost = roundToCents(component.required_quantity * unitPrice);
+    materialCost += totalCost;
+    return { ...component, unit_price: unitPrice, total_cost: totalCost };
+  });
+
+  return {
+    ...explosion,
+    components,
+    material_cost: roundToCents(materialCost),
+    unpriced,
+    truncated: documents.truncated ?? false,
+  };
+}
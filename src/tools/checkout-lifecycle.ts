@@ -0,0 +1,105 @@
+import { StateMachine } from '../core/state-machine';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+
+export const checkoutStates = [
+  'open',
+  'customer_set',
+  'shipping_set',
+  'payment_set',
+  'completed',
+  'cancelled',
+] as const;
+
+export type CheckoutState = (typeof checkoutStates)[number];
+
+export type CheckoutAction =
+  | 'set_customer'
+  | 'set_shipping'
+  | 'set_payment'
+  | 'apply_coupon'
+  | 'update'
+  | 'complete'
+  | 'cancel';
+
+const activeStates: CheckoutState[] = ['open', 'customer_set', 'shipping_set', 'payment_set'];
+
+/**
+ * open → customer_set → shipping_set → payment_set → completed, with
+ * cancellation possible until the checkout completes. Earlier steps can be
+ * edited again without moving the checkout back.
+ */
+export const checkoutStateMachine = new StateMachine<CheckoutState, CheckoutAction>({
+  resourceType: 'checkout',
+  states: checkoutStates,
+  transitions: [
+    { action: 'set_customer', from: ['open'], to: 'customer_set' },
+    { action: 'set_customer', from: ['customer_set', 'shipping_set', 'payment_set'] },
+    { action: 'set_shipping', from: ['customer_set'], to: 'shipping_set' },
+    { action: 'set_shipping', from: ['shipping_set', 'payment_set'] },
+    { action: 'set_payment', from: ['shipping_set'], to: 'payment_set' },
+    { action: 'set_payment', from: ['payment_set'] },
+    { action: 'apply_coupon', from: activeStates },
+    { action: 'update', from: activeStates },
+    { action: 'complete', from: ['payment_set'], to: 'completed' },
+    { action: 'cancel', from: activeStates, to: 'cancelled' },
+  ],
+  actionTools: {
+    set_customer: 'stateset_update_checkout_customer',
+    set_shipping: 'stateset_update_checkout_shipping',
+    set_payment: 'stateset_update_checkout_payment',
+    apply_coupon: 'stateset_apply_checkout_coupon',
+    update: 'stateset_update_checkout',
+    complete: 'stateset_complete_checkout',
+    cancel: 'stateset_cancel_checkout',
+  },
+});
+
+/**
+ * Steps a stateset_update_checkout call performs, in lifecycle order
+ */
+export function getCheckoutUpdateActions(args: Record<string, unknown>): CheckoutAction[] {
+  const actions: CheckoutAction[] = [];
+  if (args.shipping_address !== undefined || args.shipping_method !== undefined) {
+    actions.push('set_shipping');
+  }
+  if (args.billing_address !== undefined || args.payment_method !== undefined) {
+    actions.push('set_payment');
+  }
+  return actions.length > 0 ? actions : ['update'];
+}
+
+/**
+ * Fetches the checkout and checks that the actions can be applied in order,
+ * so out-of-order calls are rejected before the change is sent. Checkouts in a
+ * state this server doesn't know are left for the API to validate.
+ */
+export async function assertCheckoutTransition(
+  client: StateSetMCPClient,
+  checkoutId: string,
+  actions: CheckoutAction[],
+): Promise<void> {
+  const checkout = await client.getCheckout(checkoutId);
+  if (!checkoutStateMachine.isState(checkout.status)) {
+    logger.debug('Skipping checkout state validation for unknown status', {
+      checkoutId,
+      status: checkout.status,
+    });
+    return;
+  }
+
+  let state = checkout.status;
+  for (const action of actions) {
+    state = checkoutStateMachine.transition(checkoutId, state, action);
+  }
+}
+
+/**
+ * Tools that can be called next for a checkout in the given status
+ */
+export function getCheckoutNextSteps(status: unknown): string[] | undefined {
+  if (!checkoutStateMachine.isState(status)) return undefined;
+  return checkoutStateMachine
+    .availableActions(status)
+    .map((action) => checkoutStateMachine.getActionTool(action));
+}
@@ -0,0 +1,196 @@
+import type { ElicitRequestFormParams, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { config } from '@config/index';
+import { getToolAnnotations, getToolTitle } from '../core/tool-classification';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import { toolHandlers } from './registry';
+
+export type ElicitInput = (params: ElicitRequestFormParams) => Promise<ElicitResult>;
+
+export interface ConfirmationThresholds {
+  refundThreshold: number;
+  batchDeleteThreshold: number;
+}
+
+/**
+ * When a tool needs confirmation, and how to describe the call
+ */
+interface ConfirmationRule {
+  /** Defaults to always */
+  applies?: (args: Record<string, any>, thresholds: ConfirmationThresholds) => boolean;
+  /** Extra detail for the confirmation message */
+  describe?: (args: Record<string, any>) => string;
+}
+
+const refundRule: ConfirmationRule = {
+  // Without a valid amount the refund size is unknown, so ask
+  applies: (args, { refundThreshold }) =>
+    typeof args.refund_amount !== 'number' || args.refund_amount > refundThreshold,
+  describe: (args) =>
+    typeof args.refund_amount === 'number'
+      ? `Refund amount: ${args.refund_amount}`
+      : 'Refund amount not given',
+};
+
+const confirmationRules = new Map<string, ConfirmationRule>([
+  ['stateset_refund_payment', refundRule],
+  // The refund defaults to the value of the returned items
+  ['stateset_process_return', refundRule],
+  [
+    'stateset_batch_operations',
+    {
+      applies: (args, { batchDeleteThreshold }) => countDeletes(args) > batchDeleteThreshold,
+      describe: (args) => `${countDeletes(args)} delete operations`,
+    },
+  ],
+  [
+    'stateset_bulk_reprice_variants',
+    {
+      // Previews don't change any prices
+      applies: (args) => args.apply === true,
+      describe: (args) => `Pricing rule: ${JSON.stringify(args.rule)}`,
+    },
+  ],
+  ['stateset_clear_cache', { describe: (args) => `Namespace: ${args.namespace ?? 'all'}` }],
+]);
+
+function countDeletes(args: Record<string, any>): number {
+  const operations: Array<{ type?: string }> = Array.isArray(args.operations)
+    ? args.operations
+    : [];
+  return operations.filter((operation) => operation.type === 'delete').length;
+}
+
+/**
+ * Gets the confirmation rule for a tool. Tools without an explicit rule need
+ * confirmation when their annotations mark them as destructive.
+ */
+function getConfirmationRule(toolName: string): ConfirmationRule | undefined {
+  const rule = confirmationRules.get(toolName);
+  if (rule) return rule;
+  return getToolAnnotations(toolName).destructiveHint ? {} : undefined;
+}
+
+/**
+ * Checks whether a tool call must be confirmed by the user before it runs
+ */
+export function requiresConfirmation(
+  toolName: string,
+  args: Record<string, any>,
+  thresholds: ConfirmationThresholds = config.confirmation,
+): boolean {
+  if (!config.confirmation.enabled) return false;
+
+  const rule = getConfirmationRule(toolName);
+  if (!rule) return false;
+  return rule.applies ? rule.applies(args, thresholds) : true;
+}
+
+/**
+ * Fetches the record a tool acts on through the matching get tool, e.g.
+ * stateset_get_order for stateset_delete_order
+ */
+async function fetchTarget(
+  client: StateSetMCPClient,
+  toolName: string,
+  args: Record<string, any>,
+): Promise<Record<string, unknown> | undefined> {
+  const resource = toolName.replace(/^stateset_[a-z]+_/, '');
+  const getHandler = toolHandlers.get(`stateset_get_${resource}`);
+  if (!getHandler) return undefined;
+
+  try {
+    return await getHandler(client, args);
+  } catch (error) {
+    logger.warn('Could not fetch confirmation target', {
+      tool: toolName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+// Top-level scalar fields only, so the prompt stays readable
+function summarizeTarget(target: Record<string, unknown>): string {
+  return Object.entries(target)
+    .filter(([key, value]) => key !== 'metadata' && value !== null && typeof value !== 'object')
+    .slice(0, 12)
+    .map(([key, value]) => `  ${key}: ${value}`)
+    .join('\n');
+}
+
+/**
+ * Builds the elicitation request shown to the user
+ */
+export async function buildConfirmationRequest(
+  client: StateSetMCPClient,
+  toolName: string,
+  args: Record<string, any>,
+): Promise<ElicitRequestFormParams> {
+  const rule = getConfirmationRule(toolName);
+  const lines = [`Confirm "${getToolTitle(toolName)}" (${toolName}).`];
+
+  const detail = rule?.describe?.(args);
+  if (detail) {
+    lines.push(detail);
+  }
+
+  const target = await fetchTarget(client, toolName, args);
+  if (target) {
+    lines.push('', 'Target:', summarizeTarget(target));
+  }
+
+  return {
+    mode: 'form',
+    message: lines.join('\n'),
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: {
+          type: 'boolean',
+          title: 'Confirm',
+          description: 'Run this operation',
+        },
+      },
+      required: ['confirm'],
+    },
+  };
+}
+
+/**
+ * Asks the user to confirm a tool call. Returns the reason when the call
+ * must not run, or undefined when it was confirmed. Clients that can't elicit
+ * run the call with a logged warning unless elicitation is required.
+ */
+export async function confirmToolCall(
+  client: StateSetMCPClient,
+  toolName: string,
+  args: Record<string, any>,
+  elicitInput: ElicitInput | undefined,
+  requireElicitation: boolean = config.confirmation.requireElicitation,
+): Promise<string | undefined> {
+  if (!elicitInput) {
+    if (requireElicitation) {
+      return (
+        `${toolName} requires user confirmation, but the client does not support elicitation. ` +
+        'Set CONFIRMATION_REQUIRE_ELICITATION=false to run it without confirmation.'
+      );
+    }
+    logger.warn('Running tool without confirmation; the client does not support elicitation', {
+      tool: toolName,
+    });
+    return undefined;
+  }
+
+  const result = await elicitInput(await buildConfirmationRequest(client, toolName, args));
+
+  if (result.action === 'accept' && result.content?.confirm === true) {
+    logger.info('Tool call confirmed by user', { tool: toolName });
+    return undefined;
+  }
+
+  logger.info('Tool call not confirmed by user', { tool: toolName, action: result.action });
+  return result.action === 'cancel'
+    ? `${toolName} was cancelled by the user`
+    : `${toolName} was declined by the user`;
+}
@@ -4,6 +4,8 @@ import { zodToJsonSchema } from 'zod-to-json-schema';
 import * as schemas from './schemas';
 import { batchTools } from './batch-operations';
 import { searchTools } from './search-tools';
+import { getToolOutputSchema } from './output-schemas';
+import { getToolAnnotations, getToolTitle } from '../core/tool-classification';
 
 type ToolDefinition = Omit<Tool, 'inputSchema'> & { inputSchema?: any };
 
@@ -48,7 +50,7 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_create_order',
     description:
-      "Creates a new customer order with line items, shipping, and billing information. Use this to record a new purchase. The order will be created in 'pending' status. Returns the order ID and a dashboard URL for tracking. Required: customer_id and at least one item with product_id and quantity.",
+      "Creates a new customer order with line items, shipping, and billing information. Use this to record a new purchase. The order will be created in 'pending' status. Returns the order ID and a dashboard URL for tracking. Required: customer_id and at least one item with product_id and quantity. Addresses left out are taken from the customer's default shipping and billing addresses.",
     inputSchema: schemas.CreateOrderArgsSchema.shape as any,
   },
   {
@@ -254,19 +256,25 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_approve_return',
     description:
-      'Approves a pending return (RMA) for processing. This is the first step after receiving a return request. After approval, use stateset_restock_return to add items back to inventory. Requires the rma_id.',
-    inputSchema: schemas.GetRMAArgsSchema.shape as any,
+      'Approves a pending return (RMA) for processing. This is the first step after receiving a return request. After approval, use stateset_restock_return to add items back to inventory. Only pending returns can be approved. Requires the rma_id.',
+    inputSchema: schemas.ApproveReturnArgsSchema.shape as any,
   },
   {
     name: 'stateset_restock_return',
     description:
-      'Restocks inventory from an approved return. Adds the returned items back to available inventory. Only use after the return has been approved with stateset_approve_return and items have been inspected. Requires the rma_id.',
-    inputSchema: schemas.GetRMAArgsSchema.shape as any,
+      "Dispositions the items of an approved return after inspection. Each line is restocked, refurbished, scrapped or returned to the vendor (default: restock every item in full). Restocked and refurbished units are added to the on-hand quantity of the line's inventory_id at its location_id (or the top-level location_id); scrapped and return-to-vendor units are not. All lines are checked before any inventory changes, and the dispositions and each inventory adjustment are recorded on the return as they're made, so a retry resumes from the recorded dispositions without adding stock twice; lines passed on a retry are ignored, with a warning. Fails if the API doesn't store that progress on the return. Returns the dispositions and inventory adjustments.",
+    inputSchema: schemas.RestockReturnArgsSchema.shape as any,
+  },
+  {
+    name: 'stateset_process_return',
+    description:
+      "Processes a return end to end: approve → restock (with per-line dispositions) → refund via the payments API, then marks the return refunded. The refund defaults to the returned lines at their item prices, against the first captured order payment with enough left to refund unless payment_id is given, which must be for the return's order, and can't exceed the payment's captured amount. Returns in a status other than pending, approved, restocked or refunded (e.g. cancelled) are refused. Returns a result for each step; steps already done are skipped, restocking resumes from the progress recorded on the return, a refund already made for the return isn't repeated, and steps after a failure aren't attempted, so a failed run can be retried.",
+    inputSchema: schemas.ProcessReturnArgsSchema.shape as any,
   },
   {
     name: 'stateset_mark_shipment_shipped',
     description:
-      "Updates a shipment status to 'shipped'. Use when the package has been handed off to the carrier and is in transit. The tracking number should already be set on the shipment. Requires the shipment_id.",
+      "Updates a shipment status to 'shipped'. Use when the package has been handed off to the carrier and is in transit. Only pending shipments can be shipped, and the tracking number must already be set on the shipment. Requires the shipment_id.",
     inputSchema: schemas.GetShipmentArgsSchema.shape as any,
   },
   {
@@ -282,19 +290,19 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_cancel_order',
     description:
-      'Cancels an order. Use when a customer requests cancellation or order cannot be fulfilled. The order must not already be shipped. Optionally provide a reason for the cancellation.',
+      'Cancels an order. Use when a customer requests cancellation or order cannot be fulfilled. Only pending or processing orders can be cancelled. Requires a reason_code (customer_request, out_of_stock, payment_failed, fraud_suspected, duplicate_order, other); optionally add a free-text reason.',
     inputSchema: schemas.CancelOrderArgsSchema.shape as any,
   },
   {
     name: 'stateset_archive_order',
     description:
-      'Archives a completed or cancelled order. Use to move old orders out of active view while retaining them for historical reference. Archived orders can still be retrieved but won\'t appear in default listings.',
+      'Archives a delivered, cancelled or returned order. Use to move old orders out of active view while retaining them for historical reference. Archived orders can still be retrieved but won\'t appear in default listings. Requires a reason_code (fulfilled, cancelled, returned, duplicate_order, test_order, other).',
     inputSchema: schemas.ArchiveOrderArgsSchema.shape as any,
   },
   {
     name: 'stateset_update_order_status',
     description:
-      'Updates the status of an order. Valid statuses: pending, processing, shipped, delivered, cancelled, returned. Use this for manual status transitions in the order lifecycle.',
+      'Updates the status of an order. Valid statuses: pending, processing, shipped, delivered, cancelled, returned. Transitions follow the order lifecycle: pending → processing → shipped → delivered, returned once shipped, cancelled before shipping. Invalid transitions are rejected with the allowed next steps.',
     inputSchema: schemas.UpdateOrderStatusArgsSchema.shape as any,
   },
   {
@@ -306,9 +314,21 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_add_order_item',
     description:
-      'Adds a new item to an existing order. Only works for orders in pending or processing status. Specify the product, quantity, and optionally the unit price.',
+      'Adds a new item to an existing order. Only works for orders in pending or processing status. Specify the product, quantity, and optionally the unit price (defaults to the product price) and tax rate as a fraction (e.g. 0.08). Order subtotal, tax and total are recalculated from the items.',
     inputSchema: schemas.AddOrderItemArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_update_order_item',
+    description:
+      'Changes the quantity, and optionally the unit price or tax rate, of an item on a pending or processing order. Order totals are recalculated from the items.',
+    inputSchema: schemas.UpdateOrderItemArgsSchema.shape as any,
+  },
+  {
+    name: 'stateset_remove_order_item',
+    description:
+      'Removes an item from a pending or processing order. Order totals are recalculated from the remaining items.',
+    inputSchema: schemas.RemoveOrderItemArgsSchema.shape as any,
+  },
 
   // =======================
   // INVENTORY WORKFLOW OPERATIONS
@@ -316,7 +336,7 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_reserve_inventory',
     description:
-      'Reserves inventory for a specific purpose (order, transfer, or work order). Reserved inventory is not available for other allocations. Use before committing to fulfillment.',
+      'Reserves inventory for a specific purpose (order, transfer, or work order). Reserved inventory is not available for other allocations. Use before committing to fulfillment. Rejects reservations larger than the unreserved quantity; availability_check is best_effort (with a warning) when the API reports no reserved quantity and only reservations made through this server could be counted.',
     inputSchema: schemas.ReserveInventoryArgsSchema.shape as any,
   },
   {
@@ -328,9 +348,15 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_get_low_stock',
     description:
-      'Retrieves inventory items below a specified threshold. Use for reorder point monitoring and stock alerts. Can filter by location.',
+      "Retrieves inventory items below a specified threshold. Use for reorder point monitoring and stock alerts. Can filter by location. Items whose reserved quantity the API doesn't report are marked availability_check best_effort. Items without an on-hand quantity are listed under skipped. Sets truncated when paging stops early.",
     inputSchema: schemas.GetLowStockArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_get_available_to_promise',
+    description:
+      'Projects available-to-promise per SKU by date from on-hand stock, open reservations, inbound purchase orders and ASNs, and committed sales orders. Reservations are taken to hold stock for open sales orders, so reserved order quantities count once. A location_id limits stock and documents to that location. Pass a quantity to get the earliest date it can be promised. Sets truncated when paging stops early. Use before quoting delivery dates.',
+    inputSchema: schemas.GetAvailableToPromiseArgsSchema.shape as any,
+  },
 
   // =======================
   // SHIPMENT WORKFLOW OPERATIONS
@@ -338,9 +364,15 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_track_shipment',
     description:
-      'Tracks a shipment by ID or tracking number. Returns current location, status, and delivery estimates. Use for customer inquiries and delivery monitoring.',
+      'Tracks a shipment by ID or tracking number. Returns the shipment with its tracking-event timeline (carrier, normalized status, location, timestamp) fetched from the carrier tracking API, the latest event, and whether it is past its promised delivery date. Use for customer inquiries and delivery monitoring.',
     inputSchema: schemas.TrackShipmentArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_list_delayed_shipments',
+    description:
+      'Lists shipments that are not yet delivered and are past their promised delivery date, most overdue first, with days_late and the latest tracking event fetched from the carrier tracking API for each. Checks up to 2,000 shipments per open status and sets truncated when it stops early. Optionally filter by carrier or check as of a given date-time.',
+    inputSchema: schemas.ListDelayedShipmentsArgsSchema.shape as any,
+  },
 
   // =======================
   // WARRANTY WORKFLOW OPERATIONS
@@ -354,7 +386,7 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_create_warranty_claim',
     description:
-      'Creates a warranty claim against an active warranty. Specify the claim reason and optionally an estimated claim amount. Returns a claim ID for tracking.',
+      'Creates a warranty claim against an active warranty after checking eligibility: warranty status, the coverage window on the incident date, the serial number against robot and component serials, and open claims for the same serial (flagged as possible duplicates). Ineligible claims are rejected with the failed checks. Returns the claim with its eligibility reasoning.',
     inputSchema: schemas.CreateWarrantyClaimArgsSchema.shape as any,
   },
   {
@@ -382,13 +414,13 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_start_work_order',
     description:
-      'Starts work on a work order. Changes status from assigned to in-progress. Use when beginning actual production or service work.',
+      'Starts or resumes work on a work order. Moves a pending, scheduled or on-hold work order to in-progress. Use when beginning actual production or service work.',
     inputSchema: schemas.StartWorkOrderArgsSchema.shape as any,
   },
   {
     name: 'stateset_hold_work_order',
     description:
-      'Places a work order on hold. Use when work cannot continue due to missing materials, pending decisions, or other blockers. Requires a reason.',
+      'Places an in-progress work order on hold. Use when work cannot continue due to missing materials, pending decisions, or other blockers. Requires a reason.',
     inputSchema: schemas.HoldWorkOrderArgsSchema.shape as any,
   },
   {
@@ -397,6 +429,12 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
       'Cancels a work order. Use when the work is no longer needed or the associated order has been cancelled.',
     inputSchema: schemas.CancelWorkOrderArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_get_work_order_timeline',
+    description:
+      'Gets the status transitions made to a work order through this server: the action, previous and new status, who performed it, any reason or notes, and when.',
+    inputSchema: schemas.GetWorkOrderTimelineArgsSchema.shape as any,
+  },
 
   // =======================
   // PRODUCT VARIANT OPERATIONS
@@ -425,6 +463,12 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
       'Deletes a product variant. WARNING: This may affect existing orders referencing this variant. Consider deactivating instead.',
     inputSchema: schemas.DeleteProductVariantArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_bulk_reprice_variants',
+    description:
+      'Reprices all variants of the given products or category with one rule: percentage change, fixed delta, round to .99, or cost plus a markup. Returns a preview of each price change by default; set apply to true to update the prices. Variants without a price (or cost, for cost plus) are skipped. A category search pages through up to 2,000 products and sets truncated when it stops early.',
+    inputSchema: schemas.BulkRepriceVariantsArgsSchema.shape as any,
+  },
 
   // =======================
   // CART OPERATIONS
@@ -484,7 +528,7 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_create_checkout',
     description:
-      'Initializes a checkout session from a cart. Specify shipping and payment methods. Returns a checkout ID for further processing.',
+      "Initializes a checkout session from a cart. Specify shipping and payment methods. Shipping and billing addresses default to the cart customer's saved defaults. Returns a checkout ID for further processing.",
     inputSchema: schemas.CreateCheckoutArgsSchema.shape as any,
   },
   {
@@ -518,15 +562,21 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_refund_payment',
     description:
-      'Processes a refund for a payment. Specify the amount to refund and the reason. Partial refunds are supported.',
+      'Processes a refund for a payment. Specify the amount to refund and the reason. Partial refunds are supported, but a refund can never exceed the captured amount minus earlier refunds. Returns the refund with the refundable_amount left.',
     inputSchema: schemas.RefundPaymentArgsSchema.shape as any,
   },
   {
     name: 'stateset_get_payments_by_order',
     description:
-      'Retrieves all payments associated with an order. Use to review payment history, check payment status, or reconcile transactions.',
+      'Retrieves the payments associated with an order, paging through up to 2,000 and setting truncated when it stops early. Use to review payment history, check payment status, or reconcile transactions.',
     inputSchema: schemas.GetPaymentsByOrderArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_order_balance',
+    description:
+      "Reconciles an order's total against its payments, refunds and invoices. Returns amounts captured, refunded and invoiced, the balance_due (negative when overpaid) and a status of unpaid, partially_paid, paid or overpaid. Sets truncated when paging stops before the last payment or invoice. Use to answer what a customer still owes on an order.",
+    inputSchema: schemas.OrderBalanceArgsSchema.shape as any,
+  },
 
   // =======================
   // CUSTOMER WORKFLOW OPERATIONS
@@ -534,15 +584,32 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_get_customer_addresses',
     description:
-      'Retrieves all addresses for a customer. Returns shipping and billing addresses with their types and default settings.',
+      'Retrieves all addresses for a customer. Returns shipping and billing addresses with their types and default settings (is_default_shipping, is_default_billing).',
     inputSchema: schemas.GetCustomerAddressesArgsSchema.shape as any,
   },
   {
     name: 'stateset_add_customer_address',
     description:
-      'Adds a new address to a customer\'s address book. Can specify address type (shipping, billing, or both) and set as default.',
+      "Adds a new address to a customer's address book. The address is validated and normalized: the country becomes its ISO code, US/Canadian/Australian states are abbreviated and postal codes are checked and formatted for the country. Specify the address type (shipping, billing, or both) and is_default; the first address of a type becomes its default automatically.",
     inputSchema: schemas.AddCustomerAddressArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_update_customer_address',
+    description:
+      'Updates fields of a saved customer address. The merged address is validated and normalized the same way as when it was added.',
+    inputSchema: schemas.UpdateCustomerAddressArgsSchema.shape as any,
+  },
+  {
+    name: 'stateset_delete_customer_address',
+    description: "Removes an address from a customer's address book.",
+    inputSchema: schemas.DeleteCustomerAddressArgsSchema.shape as any,
+  },
+  {
+    name: 'stateset_set_default_customer_address',
+    description:
+      "Makes a saved address the customer's default shipping address, billing address, or both, replacing the previous default. Orders and checkouts created without addresses use these defaults.",
+    inputSchema: schemas.SetDefaultCustomerAddressArgsSchema.shape as any,
+  },
 
   // =======================
   // PURCHASE ORDER WORKFLOW OPERATIONS
@@ -565,6 +632,12 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
       'Records receipt of items from a purchase order. Specify quantities received for each item. Updates inventory automatically.',
     inputSchema: schemas.ReceivePurchaseOrderArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_match_purchase_order',
+    description:
+      "Three-way match of a purchase order against its ASNs, item receipts and supplier invoice. Reports each line's ordered, shipped, received and invoiced quantities, over/under-receipts, over/under-invoicing and price variances beyond the given tolerances. Pass invoice_id to match a specific invoice, which must belong to the PO; otherwise all invoices for the PO are used.",
+    inputSchema: schemas.MatchPurchaseOrderArgsSchema.shape as any,
+  },
 
   // =======================
   // ASN WORKFLOW OPERATIONS
@@ -600,7 +673,7 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_add_bom_component',
     description:
-      'Adds a component to a Bill of Materials. Specify component ID, quantity, and optionally unit of measure and sequence.',
+      'Adds a component to a Bill of Materials. Specify component ID, quantity, and optionally unit of measure, sequence and scrap_percent (the expected loss, added to the quantity when the BOM is exploded).',
     inputSchema: schemas.AddBOMComponentArgsSchema.shape as any,
   },
   {
@@ -609,6 +682,12 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
       'Removes a component from a Bill of Materials. Use when a component is no longer needed in the product structure.',
     inputSchema: schemas.RemoveBOMComponentArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_explode_bom',
+    description:
+      'Expands a Bill of Materials through every nested sub-assembly BOM for a build quantity. Returns the flattened leaf components with their quantities before and after scrap, and the material cost rolled up from product prices. Reports any BOM cycles instead of expanding them. When a product has several BOMs, the active one is expanded. Sets truncated when paging through BOMs stops early.',
+    inputSchema: schemas.ExplodeBOMArgsSchema.shape as any,
+  },
 
   // =======================
   // ANALYTICS OPERATIONS
@@ -616,31 +695,31 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_get_dashboard_metrics',
     description:
-      'Retrieves key dashboard metrics: total orders, total revenue, inventory value, and shipments in transit. Use for executive dashboards.',
+      'Retrieves key dashboard metrics for a period (default the last 30 days): orders, revenue, average order value, fill rate, inventory value, shipments in transit, on-time delivery rate and cart abandonment rate. Use for executive dashboards.',
     inputSchema: schemas.GetDashboardMetricsArgsSchema.shape as any,
   },
   {
     name: 'stateset_get_sales_trends',
     description:
-      'Retrieves sales trends over time. Specify date range and interval (daily, weekly, monthly). Returns time-series sales data.',
+      'Retrieves sales trends over time. Specify date range (default the last 30 days) and interval (daily, weekly, monthly). Returns order count, revenue and average order value per interval.',
     inputSchema: schemas.GetSalesTrendsArgsSchema.shape as any,
   },
   {
     name: 'stateset_get_sales_metrics',
     description:
-      'Retrieves sales metrics: total sales, average order value, and orders by status. Optionally filter by date range.',
+      'Retrieves sales metrics: revenue, average order value, orders by status, and fill rate (share of orders that have shipped). Optionally filter by date range (default the last 30 days).',
     inputSchema: schemas.GetSalesMetricsArgsSchema.shape as any,
   },
   {
     name: 'stateset_get_inventory_metrics',
     description:
-      'Retrieves inventory metrics: total value, stock levels, and turnover rates. Can filter by location.',
+      'Retrieves inventory metrics: total value, stock levels, out-of-stock and low-stock counts, and annualized stock turns from units sold in the date range (default the last 30 days). Can filter by location.',
     inputSchema: schemas.GetInventoryMetricsArgsSchema.shape as any,
   },
   {
     name: 'stateset_get_shipment_metrics',
     description:
-      'Retrieves shipment metrics: shipments by status and delivery performance. Use for logistics monitoring.',
+      'Retrieves shipment metrics: shipments by status, shipments in transit, on-time delivery rate against promised dates, and average transit days. Use for logistics monitoring.',
     inputSchema: schemas.GetShipmentMetricsArgsSchema.shape as any,
   },
   {
@@ -683,6 +762,12 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
       'Lists all suppliers with pagination. Use to browse the supplier base or find suppliers for new purchase orders.',
     inputSchema: schemas.ListArgsSchema.shape as any,
   },
+  {
+    name: 'stateset_supplier_scorecard',
+    description:
+      "Scores a supplier on its purchase orders: on-time delivery rate against each PO's expected date, fill rate (received vs ordered quantity), and lead time in days with its standard deviation. Optionally limit to POs ordered between from_date and to_date.",
+    inputSchema: schemas.SupplierScorecardArgsSchema.shape as any,
+  },
 
   // ===================
   // DELETE OPERATIONS
@@ -1428,7 +1513,7 @@ const toolDefinitions: (ToolDefinition | Tool)[] = [
   {
     name: 'stateset_schedule_work_order',
     description:
-      'Schedules a work order for production. Set start/end times and optionally assign to a work center.',
+      'Schedules a work order for production. Set start/end times and optionally assign to a work center. Only pending or on-hold work orders can be scheduled; the move is recorded on the work order timeline.',
     inputSchema: schemas.ScheduleWorkOrderArgsSchema.shape as any,
   },
   {
@@ -1465,7 +1550,10 @@ export const tools: Tool[] = toolDefinitions.map(
   ({ inputSchema, ...tool }): Tool =>
     ({
       ...tool,
+      title: getToolTitle(tool.name),
       inputSchema: normalizeInputSchema(inputSchema),
+      outputSchema: normalizeInputSchema(getToolOutputSchema(tool.name)),
+      annotations: getToolAnnotations(tool.name),
     }) as Tool,
 );
 
@@ -1,13 +1,38 @@
-import { CallToolRequest } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequest,
+  CallToolResult,
+  ServerNotification,
+} from '@modelcontextprotocol/sdk/types.js';
 import { logger } from '../utils/logger';
 import { sanitizeToolArguments } from '../utils/validation';
 import { toolRateLimiter } from '../core/server-rate-limiter';
+import { CancellationError, throwIfCancelled } from '../core/cancellation';
+import {
+  createRequestContext,
+  runWithContextAsync,
+  type LogForwarder,
+} from '../core/request-context';
 import { StateSetMCPClient } from '../services/mcp-client';
-import { toolHandlers } from './registry';
+import { toolHandlers, ToolCallContext } from './registry';
+import { confirmToolCall, requiresConfirmation, type ElicitInput } from './confirmation';
+
+/**
+ * The parts of the MCP request handler extra the dispatcher uses
+ */
+export interface ToolCallExtra {
+  signal?: AbortSignal;
+  sessionId?: string;
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+  /** Sends log records written by the handler to the calling session */
+  forwardLog?: LogForwarder;
+  /** Only set when the client supports elicitation */
+  elicitInput?: ElicitInput;
+}
 
 export async function handleToolCall(
   client: StateSetMCPClient,
   request: CallToolRequest,
+  extra: ToolCallExtra = {},
 ): Promise<any> {
   const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
@@ -48,9 +73,38 @@ export async function handleToolCall(
     throw new Error(`Unknown tool: ${safeRequest.params.name}`);
   }
 
+  // The client may have cancelled while the call was rate limited
+  throwIfCancelled(extra.signal, safeRequest.params.name);
+
+  const context = createToolCallContext(request, extra);
+  const requestContext = createRequestContext({
+    toolName: safeRequest.params.name,
+    toolCategory,
+    sessionId: extra.sessionId,
+    signal: extra.signal,
+    forwardLog: extra.forwardLog,
+  });
+
   try {
-    return await handler(client, safeRequest.params.arguments);
+    return await runWithContextAsync(requestContext, async () => {
+      const { name, arguments: args } = safeRequest.params;
+      if (requiresConfirmation(name, args)) {
+        const refusal = await confirmToolCall(client, name, args, extra.elicitInput);
+        if (refusal) {
+          return toolError(refusal);
+        }
+      }
+      return handler(client, args, context);
+    });
   } catch (error) {
+    if (error instanceof CancellationError) {
+      logger.info('Tool call cancelled', {
+        requestId,
+        tool: safeRequest.params.name,
+        reason: error.reason,
+      });
+      throw error;
+    }
     logger.error('Tool execution failed', {
       requestId,
       tool: safeRequest.params.name,
@@ -59,3 +113,55 @@ export async function handleToolCall(
     throw error;
   }
 }
+
+function createToolCallContext(request: CallToolRequest, extra: ToolCallExtra): ToolCallContext {
+  const progressToken = request.params._meta?.progressToken;
+  const { sendNotification } = extra;
+
+  if (progressToken === undefined || !sendNotification) {
+    return {};
+  }
+
+  return {
+    reportProgress: ({ progress, total, message, meta }) =>
+      sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, total, message, _meta: meta },
+      }),
+  };
+}
+
+function toolError(message: string): CallToolResult {
+  return { content: [{ type: 'text', text: message }], isError: true };
+}
+
+/**
+ * Wraps a handler result as a CallToolResult. Objects are returned as
+ * structuredContent, with a JSON text block for clients that only read content.
+ */
+export function toCallToolResult(result: unknown): CallToolResult {
+  if (isCallToolResult(result)) {
+    return result;
+  }
+
+  if (result === null || typeof result !== 'object') {
+    return { content: [{ type: 'text', text: JSON.stringify(result ?? null) }] };
+  }
+
+  const structuredContent = Array.isArray(result)
+    ? { items: result }
+    : (result as Record<string, unknown>);
+
+  return {
+    content: [{ type: 'text', text: JSON.stringify(structuredContent, null, 2) }],
+    structuredContent,
+  };
+}
+
+function isCallToolResult(result: unknown): result is CallToolResult {
+  return (
+    typeof result === 'object' &&
+    result !== null &&
+    Array.isArray((result as { content?: unknown }).content)
+  );
+}
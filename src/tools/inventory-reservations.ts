@@ -0,0 +1,250 @@
+import { z } from 'zod';
+import { InsufficientInventoryError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { PAGE_SIZE, fetchAllPages, toNumber } from '../utils/records';
+import * as schemas from './schemas';
+
+type ReserveInventoryArgs = z.infer<typeof schemas.ReserveInventoryArgsSchema>;
+type ReleaseInventoryArgs = z.infer<typeof schemas.ReleaseInventoryArgsSchema>;
+type GetLowStockArgs = z.infer<typeof schemas.GetLowStockArgsSchema>;
+
+const DEFAULT_LOW_STOCK_THRESHOLD = 10;
+
+const BEST_EFFORT_WARNING =
+  'The API did not report a reserved quantity, so only reservations made through this server ' +
+  'since it started were counted. Reservations made elsewhere, before a restart or on another ' +
+  'server instance are missing, so the availability check is best-effort.';
+
+/**
+ * How the unreserved quantity was checked: against the API's reserved
+ * quantity, against this server's ledger when the API doesn't report one, or
+ * not at all when the record has no on-hand quantity
+ */
+export type AvailabilityCheck = 'api' | 'best_effort' | 'skipped';
+
+export interface InventoryReservation {
+  inventory_id: string;
+  location_id: number;
+  quantity: number;
+  reference_id: string;
+  reference_type: ReserveInventoryArgs['reference_type'];
+  reserved_at: string;
+}
+
+/**
+ * Open reservations made through this server, per inventory record. Releases
+ * consume the oldest matching reservations first. The ledger lives in process
+ * memory, so it is empty after a restart and isn't shared between server
+ * instances.
+ */
+export class InventoryReservationLedger {
+  private reservations: Map<string, InventoryReservation[]> = new Map();
+
+  reserve(reservation: InventoryReservation): void {
+    const reservations = this.reservations.get(reservation.inventory_id) ?? [];
+    reservations.push(reservation);
+    this.reservations.set(reservation.inventory_id, reservations);
+  }
+
+  /**
+   * Returns the quantity released from the ledger, which is less than
+   * requested when the rest was reserved elsewhere
+   */
+  release(inventoryId: string, locationId: number, quantity: number, referenceId?: string): number {
+    const reservations = this.reservations.get(inventoryId) ?? [];
+    let remaining = quantity;
+
+    for (const reservation of reservations) {
+      if (remaining === 0) break;
+      if (reservation.location_id !== locationId) continue;
+      if (referenceId !== undefined && reservation.reference_id !== referenceId) continue;
+
+      const released = Math.min(reservation.quantity, remaining);
+      reservation.quantity -= released;
+      remaining -= released;
+    }
+
+    const open = reservations.filter((reservation) => reservation.quantity > 0);
+    if (open.length > 0) {
+      this.reservations.set(inventoryId, open);
+    } else {
+      this.reservations.delete(inventoryId);
+    }
+    return quantity - remaining;
+  }
+
+  openQuantity(inventoryId: string): number {
+    return (this.reservations.get(inventoryId) ?? []).reduce(
+      (sum, reservation) => sum + reservation.quantity,
+      0,
+    );
+  }
+
+  list(inventoryId: string): InventoryReservation[] {
+    return (this.reservations.get(inventoryId) ?? []).map((reservation) => ({ ...reservation }));
+  }
+
+  clear(): void {
+    this.reservations.clear();
+  }
+}
+
+export const reservationLedger = new InventoryReservationLedger();
+
+/**
+ * SKU of an inventory record or a document line
+ */
+export function getSku(record: Record<string, unknown>): string | undefined {
+  const sku = record.sku ?? record.item_number ?? record.item_id;
+  return typeof sku === 'string' ? sku : undefined;
+}
+
+export function getOnHand(inventory: StateSetResponse): number | undefined {
+  return toNumber(inventory.quantity_on_hand ?? inventory.on_hand ?? inventory.quantity);
+}
+
+/**
+ * Reserved quantity reported by the API, or the ledger's open reservations
+ * when the record doesn't carry one
+ */
+export function getReservedQuantity(inventory: StateSetResponse): {
+  reserved: number;
+  fromApi: boolean;
+} {
+  const reported = toNumber(inventory.quantity_reserved ?? inventory.reserved);
+  return reported !== undefined
+    ? { reserved: reported, fromApi: true }
+    : { reserved: reservationLedger.openQuantity(String(inventory.id)), fromApi: false };
+}
+
+export function getReserved(inventory: StateSetResponse): number {
+  return getReservedQuantity(inventory).reserved;
+}
+
+/**
+ * Reserves inventory after checking that enough of it is unreserved, and
+ * records the reservation in the ledger. The result reports how the check was
+ * made, with a warning when it could only use the ledger.
+ */
+export async function reserveInventory(
+  client: StateSetMCPClient,
+  args: ReserveInventoryArgs,
+): Promise<StateSetResponse & { availability_check: AvailabilityCheck; warning?: string }> {
+  const inventory = await client.getInventory(args.inventory_id);
+  const onHand = getOnHand(inventory);
+  const { reserved, fromApi } = getReservedQuantity(inventory);
+  let check: AvailabilityCheck = 'skipped';
+  if (onHand !== undefined) {
+    check = fromApi ? 'api' : 'best_effort';
+    const available = onHand - reserved;
+    if (args.quantity > available) {
+      throw new InsufficientInventoryError(
+        args.inventory_id,
+        args.quantity,
+        Math.max(available, 0),
+      );
+    }
+  }
+
+  const result = await client.reserveInventory(args);
+  reservationLedger.reserve({
+    inventory_id: args.inventory_id,
+    location_id: args.location_id,
+    quantity: args.quantity,
+    reference_id: args.reference_id,
+    reference_type: args.reference_type,
+    reserved_at: new Date().toISOString(),
+  });
+  return check === 'best_effort'
+    ? { ...result, availability_check: check, warning: BEST_EFFORT_WARNING }
+    : { ...result, availability_check: check };
+}
+
+export async function releaseInventory(
+  client: StateSetMCPClient,
+  args: ReleaseInventoryArgs,
+): Promise<StateSetResponse> {
+  const result = await client.releaseInventory(args);
+  const released = reservationLedger.release(
+    args.inventory_id,
+    args.location_id,
+    args.quantity,
+    args.reference_id,
+  );
+  if (released < args.quantity) {
+    logger.debug('Released more inventory than the ledger tracked', {
+      inventoryId: args.inventory_id,
+      requested: args.quantity,
+      released,
+    });
+  }
+  return result;
+}
+
+/**
+ * Inventory records whose unreserved quantity is at or below the threshold:
+ * the given one, else each record's reorder_point, else 10. Lowest first.
+ * Records whose reserved quantity came from the ledger are marked best-effort;
+ * records without an on-hand quantity can't be checked and are listed as skipped.
+ */
+export async function getLowStock(
+  client: StateSetMCPClient,
+  args: GetLowStockArgs,
+): Promise<{
+  items: StateSetResponse[];
+  metadata: StateSetResponse['metadata'];
+  truncated: boolean;
+  /** IDs of records without an on-hand quantity */
+  skipped?: string[];
+  warning?: string;
+}> {
+  let metadata: StateSetResponse['metadata'];
+  const { items: inventories, truncated } = await fetchAllPages('inventory', async (page) => {
+    const result = await client.listInventories({
+      location_id: args.location_id,
+      page,
+      per_page: PAGE_SIZE,
+    });
+    metadata = result.metadata;
+    return result;
+  });
+
+  const atLocation = inventories.filter(
+    (inventory) =>
+      args.location_id === undefined ||
+      inventory.location_id === undefined ||
+      inventory.location_id === args.location_id,
+  );
+  const skipped = atLocation
+    .filter((inventory) => getOnHand(inventory) === undefined)
+    .map((inventory) => String(inventory.id));
+
+  const items = atLocation
+    .flatMap((inventory) => {
+      const onHand = getOnHand(inventory);
+      if (onHand === undefined) return [];
+      const { reserved, fromApi } = getReservedQuantity(inventory);
+      const check: AvailabilityCheck = fromApi ? 'api' : 'best_effort';
+      return {
+        ...inventory,
+        available: onHand - reserved,
+        availability_check: check,
+        threshold:
+          args.threshold ?? toNumber(inventory.reorder_point) ?? DEFAULT_LOW_STOCK_THRESHOLD,
+      };
+    })
+    .filter((inventory) => inventory.available <= inventory.threshold)
+    .sort((a, b) => a.available - b.available);
+
+  return {
+    items,
+    metadata,
+    truncated,
+    ...(skipped.length > 0 && { skipped }),
+    ...(items.some((item) => item.availability_check === 'best_effort') && {
+      warning: BEST_EFFORT_WARNING,
+    }),
+  };
+}
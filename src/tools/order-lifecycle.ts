@@ -0,0 +1,232 @@
+import { z } from 'zod';
+import { StateMachine } from '../core/state-machine';
+import { APIError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { roundToCents, toNumber } from '../utils/records';
+import * as schemas from './schemas';
+
+type CancelOrderArgs = z.infer<typeof schemas.CancelOrderArgsSchema>;
+type ArchiveOrderArgs = z.infer<typeof schemas.ArchiveOrderArgsSchema>;
+type AddOrderItemArgs = z.infer<typeof schemas.AddOrderItemArgsSchema>;
+type UpdateOrderItemArgs = z.infer<typeof schemas.UpdateOrderItemArgsSchema>;
+type RemoveOrderItemArgs = z.infer<typeof schemas.RemoveOrderItemArgsSchema>;
+
+export const orderStates = [
+  'pending',
+  'processing',
+  'shipped',
+  'delivered',
+  'cancelled',
+  'returned',
+  'archived',
+] as const;
+
+export type OrderState = (typeof orderStates)[number];
+
+export type OrderAction =
+  | 'edit_items'
+  | 'process'
+  | 'ship'
+  | 'deliver'
+  | 'return'
+  | 'cancel'
+  | 'archive';
+
+/**
+ * pending → processing → shipped → delivered, with returns once shipped.
+ * Items can be changed and the order cancelled until it ships; finished
+ * orders can be archived.
+ */
+export const orderStateMachine = new StateMachine<OrderState, OrderAction>({
+  resourceType: 'order',
+  states: orderStates,
+  transitions: [
+    { action: 'edit_items', from: ['pending', 'processing'] },
+    { action: 'process', from: ['pending'], to: 'processing' },
+    { action: 'ship', from: ['processing'], to: 'shipped' },
+    { action: 'deliver', from: ['shipped'], to: 'delivered' },
+    { action: 'return', from: ['shipped', 'delivered'], to: 'returned' },
+    { action: 'cancel', from: ['pending', 'processing'], to: 'cancelled' },
+    { action: 'archive', from: ['delivered', 'cancelled', 'returned'], to: 'archived' },
+  ],
+  actionTools: {
+    edit_items: 'stateset_add_order_item',
+    process: 'stateset_update_order_status',
+    ship: 'stateset_update_order_status',
+    deliver: 'stateset_update_order_status',
+    return: 'stateset_update_order_status',
+    cancel: 'stateset_cancel_order',
+    archive: 'stateset_archive_order',
+  },
+});
+
+export interface OrderTotals {
+  item_count: number;
+  subtotal: number;
+  tax_amount: number;
+  total_amount: number;
+}
+
+/**
+ * Totals from each item's quantity, unit_price and tax_rate (a fraction, e.g.
+ * 0.08). Tax is rounded per line, the way it is shown on the order.
+ */
+export function calculateOrderTotals(items: StateSetResponse[]): OrderTotals {
+  let itemCount = 0;
+  let subtotal = 0;
+  let taxAmount = 0;
+
+  for (const item of items) {
+    const quantity = toNumber(item.quantity) ?? 0;
+    const lineTotal = roundToCents(quantity * (toNumber(item.unit_price ?? item.price) ?? 0));
+    itemCount += quantity;
+    subtotal += lineTotal;
+    taxAmount += roundToCents(lineTotal * (toNumber(item.tax_rate) ?? 0));
+  }
+
+  return {
+    item_count: itemCount,
+    subtotal: roundToCents(subtotal),
+    tax_amount: roundToCents(taxAmount),
+    total_amount: roundToCents(subtotal + taxAmount),
+  };
+}
+
+/**
+ * The order's current status, or undefined for statuses this server doesn't
+ * know so the API can validate them
+ */
+async function getOrderState(
+  client: StateSetMCPClient,
+  orderId: string,
+): Promise<OrderState | undefined> {
+  const order = await client.getOrder(orderId);
+  if (orderStateMachine.isState(order.status)) return order.status;
+  logger.debug('Skipping order state validation for unknown status', {
+    orderId,
+    status: order.status,
+  });
+  return undefined;
+}
+
+/**
+ * Throws InvalidStateTransitionError unless the action is allowed from the
+ * order's current status
+ */
+async function assertOrderTransition(
+  client: StateSetMCPClient,
+  orderId: string,
+  action: OrderAction,
+): Promise<void> {
+  const state = await getOrderState(client, orderId);
+  if (state) {
+    orderStateMachine.transition(orderId, state, action);
+  }
+}
+
+/**
+ * Applies an item change to an order that can still be edited, then
+ * recalculates the order totals from its items
+ */
+async function changeOrderItems(
+  client: StateSetMCPClient,
+  orderId: string,
+  change: () => Promise<StateSetResponse>,
+): Promise<StateSetResponse> {
+  await assertOrderTransition(client, orderId, 'edit_items');
+  await change();
+
+  const { items } = await client.getOrderItems(orderId);
+  const totals = calculateOrderTotals(items);
+  const order = await client.updateOrderTotals(orderId, {
+    subtotal: totals.subtotal,
+    tax_amount: totals.tax_amount,
+    total_amount: totals.total_amount,
+  });
+  logger.info('Order totals recalculated', { orderId, ...totals });
+  return { ...order, ...totals, items };
+}
+
+/**
+ * Adds an item, priced from the product when no unit_price is given
+ */
+export async function addOrderItem(
+  client: StateSetMCPClient,
+  args: AddOrderItemArgs,
+): Promise<StateSetResponse> {
+  return changeOrderItems(client, args.order_id, async () => {
+    let unitPrice = args.unit_price;
+    if (unitPrice === undefined) {
+      unitPrice = toNumber((await client.getProduct(args.product_id)).price);
+      if (unitPrice === undefined) {
+        throw new APIError(
+          `Product ${args.product_id} has no price; provide a unit_price`,
+          400,
+          'VALIDATION_ERROR',
+        );
+      }
+    }
+    return client.addOrderItem({ ...args, unit_price: unitPrice });
+  });
+}
+
+export async function updateOrderItem(
+  client: StateSetMCPClient,
+  args: UpdateOrderItemArgs,
+): Promise<StateSetResponse> {
+  return changeOrderItems(client, args.order_id, () => client.updateOrderItem(args));
+}
+
+export async function removeOrderItem(
+  client: StateSetMCPClient,
+  args: RemoveOrderItemArgs,
+): Promise<StateSetResponse> {
+  return changeOrderItems(client, args.order_id, () =>
+    client.removeOrderItem(args.order_id, args.item_id),
+  );
+}
+
+export async function cancelOrder(
+  client: StateSetMCPClient,
+  args: CancelOrderArgs,
+): Promise<StateSetResponse> {
+  await assertOrderTransition(client, args.order_id, 'cancel');
+  return client.cancelOrder(args);
+}
+
+export async function archiveOrder(
+  client: StateSetMCPClient,
+  args: ArchiveOrderArgs,
+): Promise<StateSetResponse> {
+  await assertOrderTransition(client, args.order_id, 'archive');
+  return client.archiveOrder(args);
+}
+
+/**
+ * Moves an order straight to a status, as long as one of the lifecycle
+ * actions allows it from the current status
+ */
+export async function setOrderStatus(
+  client: StateSetMCPClient,
+  orderId: string,
+  status: Exclude<OrderState, 'archived'>,
+): Promise<StateSetResponse> {
+  const state = await getOrderState(client, orderId);
+  if (state) {
+    orderStateMachine.transitionTo(orderId, state, status);
+  }
+  return client.updateOrderStatus(orderId, status);
+}
+
+/**
+ * Tools that can be called next for an order in the given status
+ */
+export function getOrderNextSteps(status: unknown): string[] | undefined {
+  if (!orderStateMachine.isState(status)) return undefined;
+  const tools = orderStateMachine
+    .availableActions(status)
+    .map((action) => orderStateMachine.getActionTool(action));
+  return [...new Set(tools)];
+}
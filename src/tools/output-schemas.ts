@@ -0,0 +1,599 @@
+import { z } from 'zod';
+
+// ==================================
+// RESPONSE ENVELOPES
+// ==================================
+
+export const ApiMetricsSchema = z
+  .object({
+    totalRequests: z.number().describe('Requests tracked by the API rate limiter'),
+    requestsInLastHour: z.number(),
+    averageRequestTime: z.number().describe('Average request duration in milliseconds'),
+    queueLength: z.number().describe('Requests waiting in the API rate-limiter queue'),
+    lastRequestTime: z.string(),
+  })
+  .describe('API rate-limiter metrics at the time of the response');
+
+export const ResponseMetadataSchema = z
+  .object({
+    apiMetrics: ApiMetricsSchema,
+  })
+  .passthrough();
+
+/**
+ * A single StateSet record, as returned by enrichResponse
+ */
+export const StateSetResponseSchema = z
+  .object({
+    id: z.string().optional(),
+    status: z.string().optional(),
+    created_at: z.string().optional(),
+    updated_at: z.string().optional(),
+    url: z.string().optional().describe('Dashboard URL for the record'),
+    items: z.array(z.unknown()).optional().describe('Records, when the endpoint returns a list'),
+    metadata: ResponseMetadataSchema,
+  })
+  .passthrough();
+
+/**
+ * A page of StateSet records, as returned by enrichListResponse
+ */
+export const StateSetListResponseSchema = z
+  .object({
+    items: z.array(z.record(z.unknown())),
+    metadata: ResponseMetadataSchema,
+  })
+  .passthrough();
+
+/**
+ * A cart with the line totals computed by StateSetMCPClient
+ */
+export const CartOutputSchema = StateSetResponseSchema.extend({
+  customer_id: z.string().optional(),
+  items: z.array(
+    z
+      .object({
+        id: z.string().optional(),
+        product_variant_id: z.string().optional(),
+        quantity: z.number(),
+        unit_price: z.number(),
+        line_total: z.number().describe('quantity × unit_price'),
+      })
+      .passthrough(),
+  ),
+  item_count: z.number().describe('Sum of item quantities'),
+  subtotal: z.number().describe('Sum of line totals'),
+});
+
+// ==================================
+// TOOL-SPECIFIC OUTPUTS
+// ==================================
+
+const ComponentStatusSchema = z.object({ status: z.string() }).passthrough();
+
+export const HealthCheckOutputSchema = z.object({
+  status: z.enum(['healthy', 'degraded', 'unhealthy']),
+  timestamp: z.string(),
+  version: z.string(),
+  uptime: z.number(),
+  components: z.object({
+    api: ComponentStatusSchema,
+    rateLimiter: ComponentStatusSchema,
+    circuitBreaker: ComponentStatusSchema,
+  }),
+});
+
+export const ApiMetricsOutputSchema = z.object({
+  apiMetrics: ApiMetricsSchema,
+});
+
+export const ToolRateLimitsOutputSchema = z.object({
+  metrics: z.record(z.unknown()).describe('Token bucket state, for one category or all'),
+  limits: z.record(z.object({ requestsPerMinute: z.number(), burstSize: z.number() })),
+  description: z.string(),
+});
+
+export const TimeoutConfigOutputSchema = z.object({
+  timeouts: z.record(z.number()).describe('Timeout in milliseconds per operation type'),
+  description: z.string(),
+  examples: z.record(z.string()),
+});
+
+export const CacheStatsOutputSchema = z
+  .record(z.unknown())
+  .describe('Cache statistics, keyed by namespace unless a namespace was requested');
+
+export const ClearCacheOutputSchema = z.object({
+  success: z.boolean(),
+  message: z.string(),
+});
+
+export const WebSocketStatsOutputSchema = z.object({
+  connections: z.number(),
+  channels: z.number(),
+  subscriptions: z.record(z.number()),
+  description: z.string(),
+  availableChannels: z.array(z.string()),
+});
+
+export const BatchResultOutputSchema = z.object({
+  success: z.number().describe('Operations that succeeded'),
+  failed: z.number().describe('Operations that failed'),
+  results: z.array(
+    z.object({
+      index: z.number(),
+      success: z.boolean(),
+      data: z.unknown().optional(),
+      error: z.string().optional(),
+    }),
+  ),
+  duration: z.number().describe('Total duration in milliseconds'),
+});
+
+export const FullTextSearchOutputSchema = z
+  .record(z.union([StateSetListResponseSchema, z.object({ error: z.string() })]))
+  .describe('Search results keyed by resource type');
+
+export const ExportSearchResultsOutputSchema = z.object({
+  message: z.string(),
+  search_id: z.string().optional(),
+  format: z.string().optional(),
+  file_path: z.string().optional(),
+});
+
+export const SavedSearchOutputSchema = z.object({
+  action: z.string(),
+  message: z.string(),
+  config: z.unknown().optional(),
+});
+
+const MatchExceptionSchema = z.enum([
+  'over_received',
+  'under_received',
+  'shipped_received_mismatch',
+  'over_invoiced',
+  'under_invoiced',
+  'price_variance',
+  'not_on_purchase_order',
+]);
+
+export const ThreeWayMatchOutputSchema = z.object({
+  purchase_order_id: z.string(),
+  matched: z.boolean().describe('True when no line has an exception'),
+  documents: z.object({
+    asn_ids: z.array(z.string()),
+    item_receipt_ids: z.array(z.string()),
+    invoice_ids: z.array(z.string()),
+  }),
+  lines: z.array(
+    z.object({
+      item_id: z.string(),
+      ordered_quantity: z.number(),
+      shipped_quantity: z.number().describe('Quantity on ASNs'),
+      received_quantity: z.number().describe('Quantity on item receipts'),
+      invoiced_quantity: z.number(),
+      po_unit_price: z.number().optional(),
+      invoice_unit_price: z.number().optional(),
+      receipt_variance: z.number().describe('received - ordered'),
+      invoice_quantity_variance: z.number().describe('invoiced - received'),
+      price_variance_amount: z.number().describe('(invoice price - PO price) × invoiced quantity'),
+      exceptions: z.array(MatchExceptionSchema),
+    }),
+  ),
+  totals: z.object({
+    ordered_amount: z.number(),
+    received_amount: z.number().describe('Received quantities at the PO price'),
+    invoiced_amount: z.number(),
+    price_variance_amount: z.number(),
+  }),
+  exception_counts: z.record(z.number()),
+  truncated: z.boolean().describe('true when paging stopped before the last document'),
+});
+
+export const SupplierScorecardOutputSchema = z.object({
+  supplier_id: z.string(),
+  supplier_name: z.string().optional(),
+  period: z.object({ from_date: z.string().optional(), to_date: z.string().optional() }),
+  purchase_orders: z.number().describe('Purchase orders in the period, excluding cancelled ones'),
+  purchase_orders_due: z
+    .number()
+    .describe('Purchase orders that have been received or are past their expected date'),
+  on_time_delivery: z.object({
+    rate: z.number().nullable().describe('0-1, null when no due PO has an expected date'),
+    on_time: z.number(),
+    late: z.number(),
+  }),
+  fill_rate: z.object({
+    rate: z.number().nullable().describe('0-1, received over ordered quantity of due POs'),
+    ordered_quantity: z.number(),
+    received_quantity: z.number(),
+  }),
+  lead_time: z.object({
+    average_days: z.number().nullable(),
+    std_dev_days: z.number().nullable(),
+    min_days: z.number().nullable(),
+    max_days: z.number().nullable(),
+    average_delay_days: z
+      .number()
+      .nullable()
+      .describe('Days delivered after the expected date; negative when early'),
+    samples: z.number(),
+  }),
+  truncated: z.boolean().describe('true when paging stopped before the last document'),
+});
+
+export const AvailableToPromiseOutputSchema = z.object({
+  as_of: z.string().describe('Projection start date (YYYY-MM-DD)'),
+  quantity: z.number().optional(),
+  skus: z.array(
+    z.object({
+      sku: z.string(),
+      on_hand: z.number(),
+      reserved: z.number(),
+      inbound: z.number().describe('Dated inbound quantity on open purchase orders and ASNs'),
+      committed: z
+        .number()
+        .describe('Quantity on open sales orders, including the part already reserved'),
+      available_now: z.number(),
+      projection: z.array(
+        z.object({
+          date: z.string(),
+          inbound: z.number(),
+          committed: z.number(),
+          available: z.number().describe('Available-to-promise after the day'),
+        }),
+      ),
+      available_from: z
+        .string()
+        .nullable()
+        .optional()
+        .describe('Earliest date the quantity can be promised; null when it never can'),
+    }),
+  ),
+  truncated: z.boolean().describe('true when paging stopped before the last record'),
+});
+
+/**
+ * A warranty claim with the eligibility checks it passed
+ */
+export const WarrantyClaimOutputSchema = StateSetResponseSchema.extend({
+  eligibility: z.object({
+    eligible: z.boolean(),
+    checks: z.array(
+      z.object({
+        check: z.enum(['warranty_status', 'coverage_window', 'serial_number', 'duplicate_claim']),
+        result: z.enum(['pass', 'fail', 'flag']).describe('flag: reported but not blocking'),
+        reason: z.string(),
+      }),
+    ),
+    coverage: z.object({ start_date: z.string().optional(), end_date: z.string().optional() }),
+    serial_number: z.string().optional(),
+    duplicate_claim_ids: z.array(z.string()),
+  }),
+});
+
+export const OrderBalanceOutputSchema = z.object({
+  order_id: z.string(),
+  currency: z.string().optional(),
+  order_total: z.number(),
+  invoiced: z.number().describe('Total of invoices that are not void or draft'),
+  captured: z.number(),
+  refunded: z.number(),
+  net_paid: z.number().describe('Captured less refunded'),
+  balance_due: z.number().describe('Still owed by the customer; negative when overpaid'),
+  status: z.enum(['unpaid', 'partially_paid', 'paid', 'overpaid']),
+  payments: z.array(
+    z.object({
+      payment_id: z.string(),
+      status: z.string().optional(),
+      amount: z.number(),
+      captured: z.number(),
+      refunded: z.number(),
+    }),
+  ),
+  invoices: z.array(
+    z.object({ invoice_id: z.string(), status: z.string().optional(), amount: z.number() }),
+  ),
+  truncated: z.boolean().describe('true when paging stopped before the last payment or invoice'),
+});
+
+export const ProcessReturnOutputSchema = z.object({
+  rma_id: z.string(),
+  status: z.string().optional().describe('Return status after the last step'),
+  completed: z.boolean().describe('true when every step completed or had already been done'),
+  steps: z.array(
+    z.object({
+      step: z.enum(['approve', 'restock', 'refund']),
+      status: z.enum(['completed', 'skipped', 'failed']),
+      result: z.record(z.unknown()).optional().describe('The return after the step'),
+      reason: z.string().optional().describe('Why the step was skipped'),
+      error: z.string().optional(),
+    }),
+  ),
+});
+
+const TrackingEventSchema = z.object({
+  carrier: z.string().optional(),
+  status: z.enum([
+    'label_created',
+    'shipped',
+    'in_transit',
+    'out_for_delivery',
+    'delivered',
+    'exception',
+    'unknown',
+  ]),
+  location: z.string().optional(),
+  timestamp: z.string(),
+  description: z.string().optional().describe("The carrier's own wording"),
+});
+
+/**
+ * A shipment with its tracking-event timeline
+ */
+export const ShipmentTrackingOutputSchema = StateSetResponseSchema.extend({
+  promised_date: z.string().optional().describe('Promised delivery date (YYYY-MM-DD)'),
+  delayed: z.boolean(),
+  days_late: z.number(),
+  latest_event: TrackingEventSchema.optional(),
+  events: z.array(TrackingEventSchema).describe('Oldest first'),
+});
+
+export const BulkRepriceOutputSchema = z.object({
+  applied: z.boolean().describe('false for a preview'),
+  rule: z.record(z.unknown()),
+  products: z.number(),
+  variants: z.number(),
+  changes: z.array(
+    z.object({
+      variant_id: z.string(),
+      product_id: z.string(),
+      sku: z.string().optional(),
+      name: z.string().optional(),
+      current_price: z.number(),
+      new_price: z.number(),
+      difference: z.number(),
+      difference_percent: z.number().nullable(),
+      status: z.enum(['updated', 'failed']).optional().describe('Set once applied'),
+      error: z.string().optional(),
+    }),
+  ),
+  unchanged: z.number().describe('Variants the rule leaves at their current price'),
+  skipped: z.array(
+    z.object({
+      variant_id: z.string(),
+      product_id: z.string(),
+      sku: z.string().optional(),
+      reason: z.string(),
+    }),
+  ),
+  truncated: z
+    .boolean()
+    .optional()
+    .describe('true when the category search stopped before the last product'),
+  updated: z.number().optional(),
+  failed: z.number().optional(),
+});
+
+export const BOMExplosionOutputSchema = z.object({
+  bill_of_materials_id: z.string(),
+  quantity: z.number().describe('Build quantity'),
+  levels: z.number().describe('Depth of the deepest sub-assembly'),
+  components: z.array(
+    z.object({
+      component_id: z.string(),
+      name: z.string().optional(),
+      sku: z.string().optional(),
+      unit_of_measure: z.string().optional(),
+      quantity: z.number().describe('Quantity before scrap'),
+      required_quantity: z.number().describe('Quantity with scrap added at every level'),
+      unit_price: z.number().optional(),
+      total_cost: z.number().optional(),
+    }),
+  ),
+  material_cost: z.number(),
+  unpriced: z.array(z.string()).describe('Components left out of material_cost'),
+  cycles: z
+    .array(z.array(z.string()))
+    .describe('BOM ids from the top-level BOM down to the BOM that repeats'),
+  truncated: z
+    .boolean()
+    .describe('true when paging stopped before the last BOM, so sub-assemblies may be missed'),
+});
+
+const MetricsPeriodSchema = z.object({ from_date: z.string(), to_date: z.string() });
+
+const metricsSampleShape = {
+  records: z.number().describe('Records the metrics were computed from'),
+  truncated: z.boolean().describe('true when paging stopped before the last record'),
+};
+
+const rate = () => z.number().nullable().describe('Fraction between 0 and 1');
+
+export const SalesMetricsOutputSchema = z.object({
+  period: MetricsPeriodSchema,
+  order_count: z.number(),
+  orders_by_status: z.record(z.number()),
+  revenue: z.number().describe('Total of orders that were not cancelled'),
+  average_order_value: z.number().nullable(),
+  fill_rate: rate(),
+  ...metricsSampleShape,
+});
+
+export const SalesTrendsOutputSchema = z.object({
+  period: MetricsPeriodSchema,
+  interval: z.enum(['daily', 'weekly', 'monthly']),
+  buckets: z
+    .array(
+      z.object({
+        start: z.string().describe('First day of the bucket (YYYY-MM-DD)'),
+        order_count: z.number(),
+        revenue: z.number(),
+        average_order_value: z.number().nullable(),
+      }),
+    )
+    .describe('Oldest first'),
+  ...metricsSampleShape,
+});
+
+export const InventoryMetricsOutputSchema = z.object({
+  period: MetricsPeriodSchema,
+  location_id: z.number().optional(),
+  sku_count: z.number(),
+  total_units: z.number(),
+  inventory_value: z.number(),
+  out_of_stock: z.number(),
+  low_stock: z.number(),
+  units_sold: z.number(),
+  stock_turns: z.number().nullable().describe('Annualized'),
+  ...metricsSampleShape,
+});
+
+export const ShipmentMetricsOutputSchema = z.object({
+  period: MetricsPeriodSchema,
+  shipment_count: z.number(),
+  shipments_by_status: z.record(z.number()),
+  in_transit: z.number(),
+  delivered: z.number(),
+  on_time_rate: rate(),
+  on_time: z.number(),
+  late: z.number(),
+  average_transit_days: z.number().nullable(),
+  ...metricsSampleShape,
+});
+
+export const CartMetricsOutputSchema = z.object({
+  period: MetricsPeriodSchema,
+  cart_count: z.number(),
+  converted: z.number(),
+  abandoned: z.number(),
+  open: z.number(),
+  abandonment_rate: rate(),
+  average_cart_value: z.number().nullable(),
+  abandoned_value: z.number(),
+  ...metricsSampleShape,
+});
+
+export const DashboardMetricsOutputSchema = z.object({
+  period: MetricsPeriodSchema,
+  orders: z.object({
+    order_count: z.number(),
+    revenue: z.number(),
+    average_order_value: z.number().nullable(),
+    fill_rate: rate(),
+  }),
+  inventory_value: z.number(),
+  low_stock: z.number(),
+  shipments_in_transit: z.number(),
+  on_time_rate: rate(),
+  cart_abandonment_rate: rate(),
+  truncated: z.boolean(),
+});
+
+export const WorkOrderTimelineOutputSchema = z.object({
+  work_order_id: z.string(),
+  transitions: z
+    .array(
+      z.object({
+        action: z.string(),
+        from: z.string().describe('Status before the transition'),
+        to: z.string().describe('Status after the transition'),
+        performed_by: z.string().optional(),
+        assigned_to: z.string().optional(),
+        reason: z.string().optional(),
+        notes: z.string().optional(),
+        timestamp: z.string(),
+      }),
+    )
+    .describe('Oldest first'),
+});
+
+// ==================================
+// TOOL LOOKUP
+// ==================================
+
+const listTools = [
+  'stateset_list_rmas',
+  'stateset_list_orders',
+  'stateset_get_order_items',
+  'stateset_list_warranties',
+  'stateset_list_shipments',
+  'stateset_list_bill_of_materials',
+  'stateset_get_bom_components',
+  'stateset_get_customer_addresses',
+  'stateset_list_work_orders',
+  'stateset_list_manufacturer_orders',
+  'stateset_list_purchase_orders',
+  'stateset_list_asns',
+  'stateset_list_invoices',
+  'stateset_list_payments',
+  'stateset_list_sales_orders',
+  'stateset_list_fulfillment_orders',
+  'stateset_list_item_receipts',
+  'stateset_list_cash_sales',
+  'stateset_list_products',
+  'stateset_list_inventories',
+  'stateset_list_customers',
+  'stateset_list_carts',
+  'stateset_list_suppliers',
+  'stateset_get_low_stock',
+  'stateset_list_delayed_shipments',
+  'stateset_get_payments_by_order',
+  'stateset_get_product_variants',
+  'stateset_advanced_search',
+  'stateset_search_orders_by_date',
+  'stateset_search_products_with_inventory',
+  'stateset_search_customer_analytics',
+];
+
+const cartTools = [
+  'stateset_create_cart',
+  'stateset_get_cart',
+  'stateset_add_cart_item',
+  'stateset_update_cart_item',
+  'stateset_remove_cart_item',
+  'stateset_clear_cart',
+];
+
+const toolOutputSchemas = new Map<string, z.ZodTypeAny>([
+  ...listTools.map((name): [string, z.ZodTypeAny] => [name, StateSetListResponseSchema]),
+  ['stateset_health_check', HealthCheckOutputSchema],
+  ['stateset_get_api_metrics', ApiMetricsOutputSchema],
+  ['stateset_tool_rate_limits', ToolRateLimitsOutputSchema],
+  ['stateset_timeout_config', TimeoutConfigOutputSchema],
+  ['stateset_cache_stats', CacheStatsOutputSchema],
+  ['stateset_clear_cache', ClearCacheOutputSchema],
+  ['stateset_websocket_stats', WebSocketStatsOutputSchema],
+  ['stateset_batch_operations', BatchResultOutputSchema],
+  ['stateset_batch_create_orders', BatchResultOutputSchema],
+  ['stateset_batch_update_inventory', BatchResultOutputSchema],
+  ['stateset_csv_import', BatchResultOutputSchema],
+  ['stateset_full_text_search', FullTextSearchOutputSchema],
+  ['stateset_export_search_results', ExportSearchResultsOutputSchema],
+  ['stateset_saved_search', SavedSearchOutputSchema],
+  ['stateset_get_work_order_timeline', WorkOrderTimelineOutputSchema],
+  ['stateset_match_purchase_order', ThreeWayMatchOutputSchema],
+  ['stateset_supplier_scorecard', SupplierScorecardOutputSchema],
+  ['stateset_get_available_to_promise', AvailableToPromiseOutputSchema],
+  ['stateset_create_warranty_claim', WarrantyClaimOutputSchema],
+  ['stateset_track_shipment', ShipmentTrackingOutputSchema],
+  ['stateset_order_balance', OrderBalanceOutputSchema],
+  ['stateset_process_return', ProcessReturnOutputSchema],
+  ['stateset_bulk_reprice_variants', BulkRepriceOutputSchema],
+  ['stateset_explode_bom', BOMExplosionOutputSchema],
+  ['stateset_get_dashboard_metrics', DashboardMetricsOutputSchema],
+  ['stateset_get_sales_trends', SalesTrendsOutputSchema],
+  ['stateset_get_sales_metrics', SalesMetricsOutputSchema],
+  ['stateset_get_inventory_metrics', InventoryMetricsOutputSchema],
+  ['stateset_get_shipment_metrics', ShipmentMetricsOutputSchema],
+  ['stateset_get_cart_metrics', CartMetricsOutputSchema],
+  ...cartTools.map((name): [string, z.ZodTypeAny] => [name, CartOutputSchema]),
+]);
+
+/**
+ * Gets the output schema for a tool. Tools without a specific schema return
+ * a single StateSet record.
+ */
+export function getToolOutputSchema(toolName: string): z.ZodTypeAny {
+  return toolOutputSchemas.get(toolName) ?? StateSetResponseSchema;
+}
@@ -0,0 +1,233 @@
+import { z } from 'zod';
+import { RefundExceedsCapturedError } from '../middleware/error-handler';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import {
+  PAGE_SIZE,
+  fetchAllPages,
+  filterByReference,
+  roundToCents,
+  toNumber,
+} from '../utils/records';
+import * as schemas from './schemas';
+
+type RefundPaymentArgs = z.infer<typeof schemas.RefundPaymentArgsSchema>;
+
+// Differences below half a cent are rounding noise
+const TOLERANCE = 0.005;
+
+const capturedPaymentStatuses = [
+  'captured',
+  'succeeded',
+  'paid',
+  'completed',
+  'settled',
+  'partially_refunded',
+  'refunded',
+];
+const failedRefundStatuses = ['failed', 'cancelled', 'canceled', 'rejected'];
+const voidInvoiceStatuses = ['void', 'voided', 'cancelled', 'canceled', 'draft'];
+
+export type PaymentStatus = 'unpaid' | 'partially_paid' | 'paid' | 'overpaid';
+
+export interface PaymentSummary {
+  payment_id: string;
+  status?: string;
+  amount: number;
+  captured: number;
+  refunded: number;
+}
+
+export interface InvoiceSummary {
+  invoice_id: string;
+  status?: string;
+  amount: number;
+}
+
+export interface OrderBalance {
+  order_id: string;
+  currency?: string;
+  order_total: number;
+  /** Total of invoices that aren't void or draft */
+  invoiced: number;
+  captured: number;
+  refunded: number;
+  net_paid: number;
+  /** What the customer still owes; negative when the order is overpaid */
+  balance_due: number;
+  status: PaymentStatus;
+  payments: PaymentSummary[];
+  invoices: InvoiceSummary[];
+  /** True when paging stopped before the last payment or invoice */
+  truncated: boolean;
+}
+
+function sum(values: number[]): number {
+  return roundToCents(values.reduce((total, value) => total + value, 0));
+}
+
+function hasStatus(record: StateSetResponse, statuses: string[]): boolean {
+  return statuses.includes(String(record.status ?? '').toLowerCase());
+}
+
+/**
+ * Amount captured on a payment: its captured amount when the API reports one,
+ * otherwise the full amount once the payment is captured
+ */
+export function getCapturedAmount(payment: StateSetResponse): number {
+  const captured = toNumber(payment.captured_amount ?? payment.amount_captured);
+  if (captured !== undefined) return captured;
+  return hasStatus(payment, capturedPaymentStatuses) ? (toNumber(payment.amount) ?? 0) : 0;
+}
+
+/**
+ * Amount already refunded: the larger of the payment's own refunded total
+ * and the sum of its refunds that haven't failed, as either may lag
+ */
+export function getRefundedAmount(payment: StateSetResponse, refunds: StateSetResponse[]): number {
+  const listed = sum(
+    refunds
+      .filter((refund) => !hasStatus(refund, failedRefundStatuses))
+      .map((refund) => toNumber(refund.amount ?? refund.refund_amount) ?? 0),
+  );
+  const reported = toNumber(payment.refunded_amount ?? payment.amount_refunded) ?? 0;
+  return Math.max(listed, reported);
+}
+
+/**
+ * Refunds a payment, rejecting refunds larger than the captured amount less
+ * earlier refunds with a RefundExceedsCapturedError
+ */
+export async function refundPayment(
+  client: StateSetMCPClient,
+  args: RefundPaymentArgs,
+): Promise<StateSetResponse> {
+  const [payment, refunds] = await Promise.all([
+    client.getPayment(args.payment_id),
+    client.listPaymentRefunds(args.payment_id),
+  ]);
+  const refundable = roundToCents(
+    getCapturedAmount(payment) - getRefundedAmount(payment, refunds.items),
+  );
+  if (args.refund_amount > refundable + TOLERANCE) {
+    throw new RefundExceedsCapturedError(args.payment_id, args.refund_amount, refundable);
+  }
+
+  const refund = await client.refundPayment(args);
+  return { ...refund, refundable_amount: roundToCents(refundable - args.refund_amount) };
+}
+
+function getOrderReference(record: StateSetResponse): unknown {
+  return record.order_id;
+}
+
+/**
+ * Every page of payments for the order
+ */
+export async function getPaymentsByOrder(
+  client: StateSetMCPClient,
+  orderId: string,
+): Promise<{
+  items: StateSetResponse[];
+  metadata: StateSetResponse['metadata'];
+  truncated: boolean;
+}> {
+  let metadata: StateSetResponse['metadata'];
+  const { items, truncated } = await fetchAllPages('payments', async (page) => {
+    const result = await client.listPayments({ order_id: orderId, page, per_page: PAGE_SIZE });
+    metadata = result.metadata;
+    return result;
+  });
+  return { items: filterByReference(items, orderId, getOrderReference), metadata, truncated };
+}
+
+function getPaymentStatus(orderTotal: number, netPaid: number): PaymentStatus {
+  const balance = orderTotal - netPaid;
+  if (Math.abs(balance) < TOLERANCE) return 'paid';
+  if (balance < 0) return 'overpaid';
+  return netPaid > TOLERANCE ? 'partially_paid' : 'unpaid';
+}
+
+/**
+ * Reconciles the order total against the amounts captured and refunded on
+ * its payments, and the invoices raised for it
+ */
+export function reconcileOrderBalance(documents: {
+  order: StateSetResponse;
+  payments: { payment: StateSetResponse; refunds: StateSetResponse[] }[];
+  invoices: StateSetResponse[];
+  /** Set when paging stopped before the last payment or invoice */
+  truncated?: boolean;
+}): OrderBalance {
+  const { order } = documents;
+  const payments = documents.payments.map(
+    ({ payment, refunds }): PaymentSummary => ({
+      payment_id: String(payment.id),
+      status: payment.status,
+      amount: toNumber(payment.amount) ?? 0,
+      captured: getCapturedAmount(payment),
+      refunded: getRefundedAmount(payment, refunds),
+    }),
+  );
+  const invoices = documents.invoices.map(
+    (invoice): InvoiceSummary => ({
+      invoice_id: String(invoice.id),
+      status: invoice.status,
+      amount: toNumber(invoice.total_amount ?? invoice.total ?? invoice.amount) ?? 0,
+    }),
+  );
+
+  const orderTotal = toNumber(order.total_amount ?? order.total) ?? 0;
+  const captured = sum(payments.map((payment) => payment.captured));
+  const refunded = sum(payments.map((payment) => payment.refunded));
+  const netPaid = roundToCents(captured - refunded);
+
+  return {
+    order_id: String(order.id),
+    currency: order.currency,
+    order_total: orderTotal,
+    invoiced: sum(
+      invoices
+        .filter((invoice) => !voidInvoiceStatuses.includes(String(invoice.status).toLowerCase()))
+        .map((invoice) => invoice.amount),
+    ),
+    captured,
+    refunded,
+    net_paid: netPaid,
+    balance_due: roundToCents(orderTotal - netPaid),
+    status: getPaymentStatus(orderTotal, netPaid),
+    payments,
+    invoices,
+    truncated: documents.truncated ?? false,
+  };
+}
+
+/**
+ * Fetches the order, its payments with their refunds, and its invoices, and
+ * reconciles them
+ */
+export async function getOrderBalance(
+  client: StateSetMCPClient,
+  orderId: string,
+): Promise<OrderBalance> {
+  const [order, payments, invoices] = await Promise.all([
+    client.getOrder(orderId),
+    getPaymentsByOrder(client, orderId),
+    fetchAllPages('invoices', (page) =>
+      client.listInvoices({ order_id: orderId, page, per_page: PAGE_SIZE }),
+    ),
+  ]);
+  const paymentRefunds = await Promise.all(
+    payments.items.map(async (payment) => ({
+      payment,
+      refunds: (await client.listPaymentRefunds(String(payment.id))).items,
+    })),
+  );
+
+  return reconcileOrderBalance({
+    order,
+    payments: paymentRefunds,
+    invoices: filterByReference(invoices.items, orderId, getOrderReference),
+    truncated: payments.truncated || invoices.truncated,
+  });
+}
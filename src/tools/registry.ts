@@ -1,13 +1,78 @@
 import { StateSetMCPClient } from '../services/mcp-client';
 import { broadcastResourceUpdate } from '../utils/broadcast';
 import * as schemas from './schemas';
-import { executeBatchOperations } from './batch-operations';
+import { executeBatchOperations, type BatchProgress } from './batch-operations';
 import { buildSearchQuery } from './search-tools';
+import {
+  assertCheckoutTransition,
+  getCheckoutNextSteps,
+  getCheckoutUpdateActions,
+} from './checkout-lifecycle';
+import {
+  getWorkOrderNextSteps,
+  scheduleWorkOrder,
+  setWorkOrderStatus,
+  transitionWorkOrder,
+  workOrderTimeline,
+} from './work-order-lifecycle';
+import {
+  addOrderItem,
+  archiveOrder,
+  cancelOrder,
+  getOrderNextSteps,
+  removeOrderItem,
+  setOrderStatus,
+  updateOrderItem,
+} from './order-lifecycle';
+import { listDelayedShipments, trackShipment, transitionShipment } from './shipment-tracking';
+import { getOrderBalance, getPaymentsByOrder, refundPayment } from './payment-reconciliation';
+import { runThreeWayMatch } from './three-way-match';
+import { getBOMExplosion } from './bom-explosion';
+import {
+  getCartMetrics,
+  getDashboardMetrics,
+  getInventoryMetrics,
+  getSalesMetrics,
+  getSalesTrends,
+  getShipmentMetrics,
+} from './analytics';
+import { getSupplierScorecard } from './supplier-scorecard';
+import { getLowStock, releaseInventory, reserveInventory } from './inventory-reservations';
+import { getAvailableToPromise } from './available-to-promise';
+import { createWarrantyClaim } from './warranty-eligibility';
+import { bulkRepriceVariants } from './variant-repricing';
+import { approveReturn, processReturn, restockReturn } from './return-processing';
+import {
+  addCustomerAddress,
+  setDefaultCustomerAddress,
+  updateCustomerAddress,
+  withCartDefaultAddresses,
+  withDefaultAddresses,
+} from './address-book';
 import { wsManager } from '../core/websocket';
 import { toolRateLimiter } from '../core/server-rate-limiter';
 import { logger } from '../utils/logger';
 
-export type ToolHandler = (client: StateSetMCPClient, args: any) => Promise<any>;
+export interface ToolProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Per-call capabilities supplied by the dispatcher
+ */
+export interface ToolCallContext {
+  /** Only set when the caller supplied a progressToken */
+  reportProgress?: (update: ToolProgress) => Promise<void>;
+}
+
+export type ToolHandler = (
+  client: StateSetMCPClient,
+  args: any,
+  context?: ToolCallContext,
+) => Promise<any>;
 
 export const toolHandlers = new Map<string, ToolHandler>();
 
@@ -39,7 +104,9 @@ toolHandlers.set('stateset_list_rmas', async (client, args) => {
 
 // Order operations
 toolHandlers.set('stateset_create_order', async (client, args) => {
-  const result = await client.createOrder(schemas.CreateOrderArgsSchema.parse(args) as any);
+  const parsedArgs = schemas.CreateOrderArgsSchema.parse(args);
+  const orderArgs = await withDefaultAddresses(client, parsedArgs.customer_id, parsedArgs);
+  const result = await client.createOrder(orderArgs as any);
   broadcastResourceUpdate('orders', result.id, 'created', result);
   return result;
 });
@@ -59,7 +126,9 @@ toolHandlers.set('stateset_delete_order', async (client, args) => {
 });
 
 toolHandlers.set('stateset_get_order', async (client, args) => {
-  return await client.getOrder(schemas.GetOrderArgsSchema.parse(args).order_id);
+  const order = await client.getOrder(schemas.GetOrderArgsSchema.parse(args).order_id);
+  const nextSteps = getOrderNextSteps(order.status);
+  return nextSteps ? { ...order, next_steps: nextSteps } : order;
 });
 
 toolHandlers.set('stateset_list_orders', async (client, args) => {
@@ -156,7 +225,11 @@ toolHandlers.set('stateset_delete_work_order', async (client, args) => {
 });
 
 toolHandlers.set('stateset_get_work_order', async (client, args) => {
-  return await client.getWorkOrder(schemas.GetWorkOrderArgsSchema.parse(args).work_order_id);
+  const workOrder = await client.getWorkOrder(
+    schemas.GetWorkOrderArgsSchema.parse(args).work_order_id,
+  );
+  const nextSteps = getWorkOrderNextSteps(workOrder.status);
+  return nextSteps ? { ...workOrder, next_steps: nextSteps } : workOrder;
 });
 
 toolHandlers.set('stateset_list_work_orders', async (client, args) => {
@@ -445,21 +518,10 @@ toolHandlers.set('stateset_tool_rate_limits', async (_client, args) => {
     ? toolRateLimiter.getMetrics(parsedArgs.category as any)
     : toolRateLimiter.getMetrics();
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          {
-            metrics,
-            limits: toolRateLimiter.getLimits(),
-            description:
-              'Per-tool rate limits by category. Tokens refill continuously based on requestsPerMinute.',
-          },
-          null,
-          2,
-        ),
-      },
-    ],
+    metrics,
+    limits: toolRateLimiter.getLimits(),
+    description:
+      'Per-tool rate limits by category. Tokens refill continuously based on requestsPerMinute.',
   };
 });
 
@@ -467,58 +529,62 @@ toolHandlers.set('stateset_tool_rate_limits', async (_client, args) => {
 toolHandlers.set('stateset_timeout_config', async (client, _args) => {
   const timeouts = client.getTimeoutConfig();
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          {
-            timeouts,
-            description:
-              'Per-operation timeout configuration in milliseconds. Batch operations have longest timeouts, read operations have shortest.',
-            examples: {
-              'getOrder (read)': `${timeouts.read}ms`,
-              'createOrder (create)': `${timeouts.create}ms`,
-              'batchCreateOrders (batch)': `${timeouts.batch}ms`,
-              'searchOrders (search)': `${timeouts.search}ms`,
-            },
-          },
-          null,
-          2,
-        ),
-      },
-    ],
+    timeouts,
+    description:
+      'Per-operation timeout configuration in milliseconds. Batch operations have longest timeouts, read operations have shortest.',
+    examples: {
+      'getOrder (read)': `${timeouts.read}ms`,
+      'createOrder (create)': `${timeouts.create}ms`,
+      'batchCreateOrders (batch)': `${timeouts.batch}ms`,
+      'searchOrders (search)': `${timeouts.search}ms`,
+    },
   };
 });
 
 // Health Check
 toolHandlers.set('stateset_health_check', async (client, args) => {
   const healthResult = await client.healthCheck(args.include_details || false);
-  return {
-    content: [{ type: 'text', text: JSON.stringify(healthResult, null, 2) }],
-  };
+  return healthResult;
 });
 
 // Batch Operations
-toolHandlers.set('stateset_batch_operations', async (client, args) => {
-  const result = await executeBatchOperations(client, args.operations, args.options);
-  return {
-    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-  };
+function batchProgressReporter(
+  context?: ToolCallContext,
+): ((progress: BatchProgress) => Promise<void>) | undefined {
+  const reportProgress = context?.reportProgress;
+  if (!reportProgress) return undefined;
+
+  return ({ total, completed, success, failed }) =>
+    reportProgress({
+      progress: completed,
+      total,
+      message: `${completed}/${total} operations processed (${success} succeeded, ${failed} failed)`,
+      meta: { success, failed },
+    });
+}
+
+toolHandlers.set('stateset_batch_operations', async (client, args, context) => {
+  const result = await executeBatchOperations(client, args.operations, {
+    ...args.options,
+    onProgress: batchProgressReporter(context),
+  });
+  return result;
 });
 
-toolHandlers.set('stateset_batch_create_orders', async (client, args) => {
+toolHandlers.set('stateset_batch_create_orders', async (client, args, context) => {
   const operations = args.orders.map((order: any) => ({
     type: 'create',
     resource: 'orders',
     data: order,
   }));
-  const result = await executeBatchOperations(client, operations, args.options);
-  return {
-    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-  };
+  const result = await executeBatchOperations(client, operations, {
+    ...args.options,
+    onProgress: batchProgressReporter(context),
+  });
+  return result;
 });
 
-toolHandlers.set('stateset_csv_import', async (client, args) => {
+toolHandlers.set('stateset_csv_import', async (client, args, context) => {
   // Parse CSV content and create operations
   const rows = args.content.split('\n').filter((row: string) => row.trim());
   const headers = rows[0]?.split(',').map((h: string) => h.trim()) || [];
@@ -534,27 +600,17 @@ toolHandlers.set('stateset_csv_import', async (client, args) => {
       data,
     };
   });
-  const result = await executeBatchOperations(client, operations, args.options);
-  return {
-    content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-  };
+  const result = await executeBatchOperations(client, operations, {
+    ...args.options,
+    onProgress: batchProgressReporter(context),
+  });
+  return result;
 });
 
 // Cache Operations
 toolHandlers.set('stateset_cache_stats', async (client, args) => {
   const stats = client.getCacheStats();
-  return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          args.namespace ? (stats as any)[args.namespace] || {} : stats,
-          null,
-          2,
-        ),
-      },
-    ],
-  };
+  return args.namespace ? (stats as any)[args.namespace] || {} : stats;
 });
 
 toolHandlers.set('stateset_clear_cache', async (client, args) => {
@@ -574,26 +630,14 @@ toolHandlers.set('stateset_clear_cache', async (client, args) => {
       'products',
       'inventory',
       'customers',
+      'analytics',
     ].forEach((ns) => {
       client.invalidateCache(ns);
     });
   }
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          {
-            success: true,
-            message: args.namespace
-              ? `Cache namespace '${args.namespace}' cleared`
-              : 'All caches cleared',
-          },
-          null,
-          2,
-        ),
-      },
-    ],
+    success: true,
+    message: args.namespace ? `Cache namespace '${args.namespace}' cleared` : 'All caches cleared',
   };
 });
 
@@ -601,33 +645,26 @@ toolHandlers.set('stateset_clear_cache', async (client, args) => {
 toolHandlers.set('stateset_websocket_stats', async (_client, _args) => {
   const stats = wsManager.getStats();
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          {
-            ...stats,
-            description:
-              "WebSocket server statistics for real-time updates. Clients can subscribe to channels like 'orders', 'rmas', 'shipments' etc. to receive live updates.",
-            availableChannels: [
-              'orders',
-              'rmas',
-              'warranties',
-              'shipments',
-              'invoices',
-              'products',
-              'inventory',
-              'customers',
-              'work_orders',
-              'manufacturer_orders',
-              'purchase_orders',
-              'asns',
-            ],
-          },
-          null,
-          2,
-        ),
-      },
+    ...stats,
+    description:
+      "WebSocket server statistics for real-time updates. Clients can subscribe to channels like 'orders', 'rmas', 'shipments' etc. to receive live updates.",
+    availableChannels: [
+      'orders',
+      'rmas',
+      'warranties',
+      'shipments',
+      'invoices',
+      'payments',
+      'products',
+      'inventory',
+      'customers',
+      'work_orders',
+      'bill_of_materials',
+      'manufacturer_orders',
+      'purchase_orders',
+      'asns',
+      'suppliers',
+      'carts',
     ],
   };
 });
@@ -657,9 +694,7 @@ toolHandlers.set('stateset_advanced_search', async (client, args) => {
   }
 
   const results = await listFn();
-  return {
-    content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-  };
+  return results;
 });
 
 toolHandlers.set('stateset_search_orders_by_date', async (client, args) => {
@@ -688,9 +723,7 @@ toolHandlers.set('stateset_search_orders_by_date', async (client, args) => {
   const searchQuery = buildSearchQuery(filters, sort, 1, 100);
   const results = await client.listOrders(searchQuery);
 
-  return {
-    content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-  };
+  return results;
 });
 
 toolHandlers.set('stateset_search_products_with_inventory', async (client, args) => {
@@ -718,9 +751,7 @@ toolHandlers.set('stateset_search_products_with_inventory', async (client, args)
   const searchQuery = buildSearchQuery(filters, [], 1, 100);
   const results = await client.listProducts(searchQuery);
 
-  return {
-    content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-  };
+  return results;
 });
 
 toolHandlers.set('stateset_search_customer_analytics', async (client, args) => {
@@ -745,9 +776,7 @@ toolHandlers.set('stateset_search_customer_analytics', async (client, args) => {
   const searchQuery = buildSearchQuery(filters, [], 1, 100);
   const results = await client.listCustomers(searchQuery);
 
-  return {
-    content: [{ type: 'text', text: JSON.stringify(results, null, 2) }],
-  };
+  return results;
 });
 
 toolHandlers.set('stateset_full_text_search', async (client, args) => {
@@ -799,51 +828,27 @@ toolHandlers.set('stateset_full_text_search', async (client, args) => {
     {} as Record<string, any>,
   );
 
-  return {
-    content: [{ type: 'text', text: JSON.stringify(searchResults, null, 2) }],
-  };
+  return searchResults;
 });
 
 toolHandlers.set('stateset_export_search_results', async (_client, args) => {
   // Export functionality would typically write to a file
   // For MCP, we return the formatted data
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          {
-            message:
-              'Export search results requires a search_id from a previous search. Use the advanced_search tool first.',
-            search_id: args.search_id,
-            format: args.format,
-            file_path: args.file_path,
-          },
-          null,
-          2,
-        ),
-      },
-    ],
+    message:
+      'Export search results requires a search_id from a previous search. Use the advanced_search tool first.',
+    search_id: args.search_id,
+    format: args.format,
+    file_path: args.file_path,
   };
 });
 
 toolHandlers.set('stateset_saved_search', async (_client, args) => {
   // Saved search management - would typically require persistence
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify(
-          {
-            action: args.action,
-            message: `Saved search action '${args.action}' acknowledged. This feature requires server-side persistence configuration.`,
-            config: args.search_config,
-          },
-          null,
-          2,
-        ),
-      },
-    ],
+    action: args.action,
+    message: `Saved search action '${args.action}' acknowledged. This feature requires server-side persistence configuration.`,
+    config: args.search_config,
   };
 });
 
@@ -930,30 +935,124 @@ toolHandlers.set('stateset_get_returns_report', async (client, args) => {
   return await client.request('GET', '/reports/returns', parsedArgs);
 });
 
+// ==================================
+// CART OPERATIONS
+// ==================================
+toolHandlers.set('stateset_create_cart', async (client, args) => {
+  const result = await client.createCart(schemas.CreateCartArgsSchema.parse(args));
+  broadcastResourceUpdate('carts', result.id, 'created', result);
+  return result;
+});
+
+toolHandlers.set('stateset_get_cart', async (client, args) => {
+  return await client.getCart(schemas.GetCartArgsSchema.parse(args).cart_id);
+});
+
+toolHandlers.set('stateset_delete_cart', async (client, args) => {
+  const { cart_id } = schemas.DeleteCartArgsSchema.parse(args);
+  const result = await client.deleteCart(cart_id);
+  broadcastResourceUpdate('carts', cart_id, 'deleted', { id: cart_id });
+  return result;
+});
+
+toolHandlers.set('stateset_add_cart_item', async (client, args) => {
+  const parsedArgs = schemas.AddCartItemArgsSchema.parse(args);
+  const result = await client.addCartItem(parsedArgs);
+  broadcastResourceUpdate('carts', parsedArgs.cart_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_update_cart_item', async (client, args) => {
+  const parsedArgs = schemas.UpdateCartItemArgsSchema.parse(args);
+  const result = await client.updateCartItem(parsedArgs);
+  broadcastResourceUpdate('carts', parsedArgs.cart_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_remove_cart_item', async (client, args) => {
+  const parsedArgs = schemas.RemoveCartItemArgsSchema.parse(args);
+  const result = await client.removeCartItem(parsedArgs);
+  broadcastResourceUpdate('carts', parsedArgs.cart_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_clear_cart', async (client, args) => {
+  const { cart_id } = schemas.ClearCartArgsSchema.parse(args);
+  const result = await client.clearCart(cart_id);
+  broadcastResourceUpdate('carts', cart_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_list_carts', async (client, args) => {
+  return await client.listCarts(schemas.ListCartsArgsSchema.parse(args));
+});
+
+// ==================================
+// CHECKOUT OPERATIONS
+// ==================================
+toolHandlers.set('stateset_create_checkout', async (client, args) => {
+  const parsedArgs = schemas.CreateCheckoutArgsSchema.parse(args);
+  return await client.createCheckout(
+    await withCartDefaultAddresses(client, parsedArgs.cart_id, parsedArgs),
+  );
+});
+
+toolHandlers.set('stateset_get_checkout', async (client, args) => {
+  const checkout = await client.getCheckout(schemas.GetCheckoutArgsSchema.parse(args).checkout_id);
+  const nextSteps = getCheckoutNextSteps(checkout.status);
+  return nextSteps ? { ...checkout, next_steps: nextSteps } : checkout;
+});
+
+toolHandlers.set('stateset_update_checkout', async (client, args) => {
+  const parsedArgs = schemas.UpdateCheckoutArgsSchema.parse(args);
+  await assertCheckoutTransition(
+    client,
+    parsedArgs.checkout_id,
+    getCheckoutUpdateActions(parsedArgs),
+  );
+  return await client.updateCheckout(parsedArgs);
+});
+
+toolHandlers.set('stateset_complete_checkout', async (client, args) => {
+  const { checkout_id } = schemas.CompleteCheckoutArgsSchema.parse(args);
+  await assertCheckoutTransition(client, checkout_id, ['complete']);
+  return await client.completeCheckout(checkout_id);
+});
+
+toolHandlers.set('stateset_cancel_checkout', async (client, args) => {
+  const { checkout_id } = schemas.CancelCheckoutArgsSchema.parse(args);
+  await assertCheckoutTransition(client, checkout_id, ['cancel']);
+  return await client.cancelCheckout(checkout_id);
+});
+
 // ==================================
 // CHECKOUT EXTENDED OPERATIONS
 // ==================================
 toolHandlers.set('stateset_update_checkout_customer', async (client, args) => {
   const parsedArgs = schemas.UpdateCheckoutCustomerArgsSchema.parse(args);
   const { checkout_id, ...data } = parsedArgs;
+  await assertCheckoutTransition(client, checkout_id, ['set_customer']);
   return await client.request('PUT', `/checkout/${checkout_id}/customer`, data);
 });
 
 toolHandlers.set('stateset_update_checkout_shipping', async (client, args) => {
   const parsedArgs = schemas.UpdateCheckoutShippingArgsSchema.parse(args);
   const { checkout_id, ...data } = parsedArgs;
+  await assertCheckoutTransition(client, checkout_id, ['set_shipping']);
   return await client.request('PUT', `/checkout/${checkout_id}/shipping`, data);
 });
 
 toolHandlers.set('stateset_update_checkout_payment', async (client, args) => {
   const parsedArgs = schemas.UpdateCheckoutPaymentArgsSchema.parse(args);
   const { checkout_id, ...data } = parsedArgs;
+  await assertCheckoutTransition(client, checkout_id, ['set_payment']);
   return await client.request('PUT', `/checkout/${checkout_id}/payment`, data);
 });
 
 toolHandlers.set('stateset_apply_checkout_coupon', async (client, args) => {
   const parsedArgs = schemas.ApplyCheckoutCouponArgsSchema.parse(args);
   const { checkout_id, ...data } = parsedArgs;
+  await assertCheckoutTransition(client, checkout_id, ['apply_coupon']);
   return await client.request('POST', `/checkout/${checkout_id}/apply-coupon`, data);
 });
 
@@ -1118,19 +1217,481 @@ toolHandlers.set('stateset_get_production_metrics', async (client, args) => {
   return await client.request('GET', '/manufacturing/production-metrics', parsedArgs);
 });
 
+// ==================================
+// ANALYTICS OPERATIONS
+// ==================================
+toolHandlers.set('stateset_get_dashboard_metrics', async (client, args) => {
+  return await getDashboardMetrics(client, schemas.GetDashboardMetricsArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_get_sales_trends', async (client, args) => {
+  return await getSalesTrends(client, schemas.GetSalesTrendsArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_get_sales_metrics', async (client, args) => {
+  return await getSalesMetrics(client, schemas.GetSalesMetricsArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_get_inventory_metrics', async (client, args) => {
+  return await getInventoryMetrics(client, schemas.GetInventoryMetricsArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_get_shipment_metrics', async (client, args) => {
+  return await getShipmentMetrics(client, schemas.GetShipmentMetricsArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_get_cart_metrics', async (client, args) => {
+  return await getCartMetrics(client, schemas.GetCartMetricsArgsSchema.parse(args));
+});
+
+// ==================================
+// BOM WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_get_bom_components', async (client, args) => {
+  return await client.getBOMComponents(
+    schemas.GetBOMComponentsArgsSchema.parse(args).bill_of_materials_id,
+  );
+});
+
+toolHandlers.set('stateset_add_bom_component', async (client, args) => {
+  const parsedArgs = schemas.AddBOMComponentArgsSchema.parse(args);
+  const result = await client.addBOMComponent(parsedArgs);
+  broadcastResourceUpdate('bill_of_materials', parsedArgs.bill_of_materials_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_remove_bom_component', async (client, args) => {
+  const { bill_of_materials_id, component_id } = schemas.RemoveBOMComponentArgsSchema.parse(args);
+  const result = await client.removeBOMComponent(bill_of_materials_id, component_id);
+  broadcastResourceUpdate('bill_of_materials', bill_of_materials_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_explode_bom', async (client, args) => {
+  return await getBOMExplosion(client, schemas.ExplodeBOMArgsSchema.parse(args));
+});
+
+// ==================================
+// PURCHASE ORDER WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_approve_purchase_order', async (client, args) => {
+  const { purchase_order_id } = schemas.ApprovePurchaseOrderArgsSchema.parse(args);
+  const result = await client.approvePurchaseOrder(purchase_order_id);
+  broadcastResourceUpdate('purchase_orders', purchase_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_cancel_purchase_order', async (client, args) => {
+  const { purchase_order_id, reason } = schemas.CancelPurchaseOrderArgsSchema.parse(args);
+  const result = await client.cancelPurchaseOrder(purchase_order_id, reason);
+  broadcastResourceUpdate('purchase_orders', purchase_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_receive_purchase_order', async (client, args) => {
+  const parsedArgs = schemas.ReceivePurchaseOrderArgsSchema.parse(args);
+  const result = await client.receivePurchaseOrder(parsedArgs);
+  broadcastResourceUpdate('purchase_orders', parsedArgs.purchase_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_match_purchase_order', async (client, args) => {
+  const parsedArgs = schemas.MatchPurchaseOrderArgsSchema.parse(args);
+  return await runThreeWayMatch(client, parsedArgs.purchase_order_id, {
+    invoiceId: parsedArgs.invoice_id,
+    tolerances: {
+      quantityPercent: parsedArgs.quantity_tolerance_percent ?? 0,
+      pricePercent: parsedArgs.price_tolerance_percent ?? 0,
+    },
+  });
+});
+
+// ==================================
+// ASN WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_mark_asn_in_transit', async (client, args) => {
+  const parsedArgs = schemas.MarkASNInTransitArgsSchema.parse(args);
+  const result = await client.markASNInTransit(parsedArgs);
+  broadcastResourceUpdate('asns', parsedArgs.asn_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_mark_asn_delivered', async (client, args) => {
+  const parsedArgs = schemas.MarkASNDeliveredArgsSchema.parse(args);
+  const result = await client.markASNDelivered(parsedArgs);
+  broadcastResourceUpdate('asns', parsedArgs.asn_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_cancel_asn', async (client, args) => {
+  const { asn_id, reason } = schemas.CancelASNArgsSchema.parse(args);
+  const result = await client.cancelASN(asn_id, reason);
+  broadcastResourceUpdate('asns', asn_id, 'updated', result);
+  return result;
+});
+
+// ==================================
+// SHIPMENT WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_mark_shipment_shipped', async (client, args) => {
+  const { shipment_id } = schemas.GetShipmentArgsSchema.parse(args);
+  const result = await transitionShipment(client, shipment_id, 'ship');
+  broadcastResourceUpdate('shipments', shipment_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_mark_shipment_delivered', async (client, args) => {
+  const { shipment_id } = schemas.GetShipmentArgsSchema.parse(args);
+  const result = await transitionShipment(client, shipment_id, 'deliver');
+  broadcastResourceUpdate('shipments', shipment_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_track_shipment', async (client, args) => {
+  return await trackShipment(client, schemas.TrackShipmentArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_list_delayed_shipments', async (client, args) => {
+  return await listDelayedShipments(client, schemas.ListDelayedShipmentsArgsSchema.parse(args));
+});
+
+// ==================================
+// ORDER WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_get_order_items', async (client, args) => {
+  return await client.getOrderItems(schemas.GetOrderItemsArgsSchema.parse(args).order_id);
+});
+
+toolHandlers.set('stateset_add_order_item', async (client, args) => {
+  const parsedArgs = schemas.AddOrderItemArgsSchema.parse(args);
+  const result = await addOrderItem(client, parsedArgs);
+  broadcastResourceUpdate('orders', parsedArgs.order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_update_order_item', async (client, args) => {
+  const parsedArgs = schemas.UpdateOrderItemArgsSchema.parse(args);
+  const result = await updateOrderItem(client, parsedArgs);
+  broadcastResourceUpdate('orders', parsedArgs.order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_remove_order_item', async (client, args) => {
+  const parsedArgs = schemas.RemoveOrderItemArgsSchema.parse(args);
+  const result = await removeOrderItem(client, parsedArgs);
+  broadcastResourceUpdate('orders', parsedArgs.order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_cancel_order', async (client, args) => {
+  const parsedArgs = schemas.CancelOrderArgsSchema.parse(args);
+  const result = await cancelOrder(client, parsedArgs);
+  broadcastResourceUpdate('orders', parsedArgs.order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_archive_order', async (client, args) => {
+  const parsedArgs = schemas.ArchiveOrderArgsSchema.parse(args);
+  const result = await archiveOrder(client, parsedArgs);
+  broadcastResourceUpdate('orders', parsedArgs.order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_update_order_status', async (client, args) => {
+  const { order_id, status } = schemas.UpdateOrderStatusArgsSchema.parse(args);
+  const result = await setOrderStatus(client, order_id, status);
+  broadcastResourceUpdate('orders', order_id, 'updated', result);
+  return result;
+});
+
+// ==================================
+// RETURN WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_approve_return', async (client, args) => {
+  const parsedArgs = schemas.ApproveReturnArgsSchema.parse(args);
+  const result = await approveReturn(client, parsedArgs);
+  broadcastResourceUpdate('rmas', parsedArgs.rma_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_restock_return', async (client, args) => {
+  const parsedArgs = schemas.RestockReturnArgsSchema.parse(args);
+  const result = await restockReturn(client, parsedArgs);
+  broadcastResourceUpdate('rmas', parsedArgs.rma_id, 'updated', result);
+  for (const adjustment of result.inventory_adjustments) {
+    broadcastResourceUpdate('inventory', adjustment.inventory_id, 'updated', adjustment);
+  }
+  return result;
+});
+
+toolHandlers.set('stateset_process_return', async (client, args) => {
+  const parsedArgs = schemas.ProcessReturnArgsSchema.parse(args);
+  const result = await processReturn(client, parsedArgs);
+  broadcastResourceUpdate('rmas', parsedArgs.rma_id, 'updated', result);
+  for (const step of result.steps) {
+    if (step.status !== 'completed') continue;
+    for (const adjustment of step.result?.inventory_adjustments ?? []) {
+      broadcastResourceUpdate('inventory', adjustment.inventory_id, 'updated', adjustment);
+    }
+    const refund = step.result?.refund;
+    if (refund) {
+      broadcastResourceUpdate('payments', refund.payment_id, 'updated', refund);
+    }
+  }
+  return result;
+});
+
+// ==================================
+// PAYMENT WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_refund_payment', async (client, args) => {
+  const parsedArgs = schemas.RefundPaymentArgsSchema.parse(args);
+  const result = await refundPayment(client, parsedArgs);
+  broadcastResourceUpdate('payments', parsedArgs.payment_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_get_payments_by_order', async (client, args) => {
+  return await getPaymentsByOrder(
+    client,
+    schemas.GetPaymentsByOrderArgsSchema.parse(args).order_id,
+  );
+});
+
+toolHandlers.set('stateset_order_balance', async (client, args) => {
+  return await getOrderBalance(client, schemas.OrderBalanceArgsSchema.parse(args).order_id);
+});
+
+// ==================================
+// CUSTOMER WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_get_customer_addresses', async (client, args) => {
+  return await client.getCustomerAddresses(
+    schemas.GetCustomerAddressesArgsSchema.parse(args).customer_id,
+  );
+});
+
+toolHandlers.set('stateset_add_customer_address', async (client, args) => {
+  const parsedArgs = schemas.AddCustomerAddressArgsSchema.parse(args);
+  const result = await addCustomerAddress(client, parsedArgs);
+  broadcastResourceUpdate('customers', parsedArgs.customer_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_update_customer_address', async (client, args) => {
+  const parsedArgs = schemas.UpdateCustomerAddressArgsSchema.parse(args);
+  const result = await updateCustomerAddress(client, parsedArgs);
+  broadcastResourceUpdate('customers', parsedArgs.customer_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_delete_customer_address', async (client, args) => {
+  const { customer_id, address_id } = schemas.DeleteCustomerAddressArgsSchema.parse(args);
+  const result = await client.deleteCustomerAddress(customer_id, address_id);
+  broadcastResourceUpdate('customers', customer_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_set_default_customer_address', async (client, args) => {
+  const parsedArgs = schemas.SetDefaultCustomerAddressArgsSchema.parse(args);
+  const result = await setDefaultCustomerAddress(client, parsedArgs);
+  broadcastResourceUpdate('customers', parsedArgs.customer_id, 'updated', result);
+  return result;
+});
+
+// ==================================
+// INVENTORY WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_reserve_inventory', async (client, args) => {
+  const parsedArgs = schemas.ReserveInventoryArgsSchema.parse(args);
+  const result = await reserveInventory(client, parsedArgs);
+  broadcastResourceUpdate('inventory', parsedArgs.inventory_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_release_inventory', async (client, args) => {
+  const parsedArgs = schemas.ReleaseInventoryArgsSchema.parse(args);
+  const result = await releaseInventory(client, parsedArgs);
+  broadcastResourceUpdate('inventory', parsedArgs.inventory_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_get_low_stock', async (client, args) => {
+  return await getLowStock(client, schemas.GetLowStockArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_get_available_to_promise', async (client, args) => {
+  return await getAvailableToPromise(client, schemas.GetAvailableToPromiseArgsSchema.parse(args));
+});
+
+// ==================================
+// PRODUCT VARIANT OPERATIONS
+// ==================================
+toolHandlers.set('stateset_get_product_variants', async (client, args) => {
+  return await client.getProductVariants(
+    schemas.GetProductVariantsArgsSchema.parse(args).product_id,
+  );
+});
+
+toolHandlers.set('stateset_create_product_variant', async (client, args) => {
+  const parsedArgs = schemas.CreateProductVariantArgsSchema.parse(args);
+  const result = await client.createProductVariant(parsedArgs);
+  broadcastResourceUpdate('products', parsedArgs.product_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_update_product_variant_price', async (client, args) => {
+  const parsedArgs = schemas.UpdateProductVariantPriceArgsSchema.parse(args);
+  const result = await client.updateProductVariantPrice(parsedArgs);
+  // A variant ID isn't a product ID, so only broadcast when the API names the product
+  if (result.product_id) {
+    broadcastResourceUpdate('products', result.product_id, 'updated', result);
+  }
+  return result;
+});
+
+toolHandlers.set('stateset_delete_product_variant', async (client, args) => {
+  const { variant_id } = schemas.DeleteProductVariantArgsSchema.parse(args);
+  const result = await client.deleteProductVariant(variant_id);
+  if (result.product_id) {
+    broadcastResourceUpdate('products', result.product_id, 'updated', result);
+  }
+  return result;
+});
+
+toolHandlers.set('stateset_bulk_reprice_variants', async (client, args, context) => {
+  const result = await bulkRepriceVariants(
+    client,
+    schemas.BulkRepriceVariantsArgsSchema.parse(args),
+    { onProgress: batchProgressReporter(context) },
+  );
+  for (const change of result.changes.filter((change) => change.status === 'updated')) {
+    broadcastResourceUpdate('products', change.product_id, 'updated', change);
+  }
+  return result;
+});
+
+// ==================================
+// WARRANTY WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_extend_warranty', async (client, args) => {
+  const parsedArgs = schemas.ExtendWarrantyArgsSchema.parse(args);
+  const result = await client.extendWarranty(parsedArgs);
+  broadcastResourceUpdate('warranties', parsedArgs.warranty_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_create_warranty_claim', async (client, args) => {
+  const parsedArgs = schemas.CreateWarrantyClaimArgsSchema.parse(args);
+  const result = await createWarrantyClaim(client, parsedArgs);
+  broadcastResourceUpdate('warranties', parsedArgs.warranty_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_approve_warranty_claim', async (client, args) => {
+  const parsedArgs = schemas.ApproveWarrantyClaimArgsSchema.parse(args);
+  const result = await client.approveWarrantyClaim(parsedArgs);
+  // A claim ID isn't a warranty ID, so only broadcast when the API names the warranty
+  if (result.warranty_id) {
+    broadcastResourceUpdate('warranties', result.warranty_id, 'updated', result);
+  }
+  return result;
+});
+
+// ==================================
+// SUPPLIER OPERATIONS
+// ==================================
+toolHandlers.set('stateset_create_supplier', async (client, args) => {
+  const result = await client.createSupplier(schemas.CreateSupplierArgsSchema.parse(args));
+  broadcastResourceUpdate('suppliers', result.id, 'created', result);
+  return result;
+});
+
+toolHandlers.set('stateset_update_supplier', async (client, args) => {
+  const parsedArgs = schemas.UpdateSupplierArgsSchema.parse(args);
+  const result = await client.updateSupplier(parsedArgs);
+  broadcastResourceUpdate('suppliers', parsedArgs.supplier_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_get_supplier', async (client, args) => {
+  return await client.getSupplier(schemas.GetSupplierArgsSchema.parse(args).supplier_id);
+});
+
+toolHandlers.set('stateset_delete_supplier', async (client, args) => {
+  const { supplier_id } = schemas.DeleteSupplierArgsSchema.parse(args);
+  const result = await client.deleteSupplier(supplier_id);
+  broadcastResourceUpdate('suppliers', supplier_id, 'deleted', result);
+  return result;
+});
+
+toolHandlers.set('stateset_list_suppliers', async (client, args) => {
+  return await client.listSuppliers(schemas.ListArgsSchema.parse(args));
+});
+
+toolHandlers.set('stateset_supplier_scorecard', async (client, args) => {
+  const { supplier_id, from_date, to_date } = schemas.SupplierScorecardArgsSchema.parse(args);
+  return await getSupplierScorecard(client, supplier_id, { fromDate: from_date, toDate: to_date });
+});
+
+// ==================================
+// WORK ORDER WORKFLOW OPERATIONS
+// ==================================
+toolHandlers.set('stateset_assign_work_order', async (client, args) => {
+  const { work_order_id, ...details } = schemas.AssignWorkOrderArgsSchema.parse(args);
+  const result = await transitionWorkOrder(client, work_order_id, 'assign', details);
+  broadcastResourceUpdate('work_orders', work_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_start_work_order', async (client, args) => {
+  const { work_order_id, ...details } = schemas.StartWorkOrderArgsSchema.parse(args);
+  const result = await transitionWorkOrder(client, work_order_id, 'start', details);
+  broadcastResourceUpdate('work_orders', work_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_hold_work_order', async (client, args) => {
+  const { work_order_id, ...details } = schemas.HoldWorkOrderArgsSchema.parse(args);
+  const result = await transitionWorkOrder(client, work_order_id, 'hold', details);
+  broadcastResourceUpdate('work_orders', work_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_complete_work_order', async (client, args) => {
+  const { work_order_id, ...details } = schemas.CompleteWorkOrderArgsSchema.parse(args);
+  const result = await transitionWorkOrder(client, work_order_id, 'complete', details);
+  broadcastResourceUpdate('work_orders', work_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_cancel_work_order', async (client, args) => {
+  const { work_order_id, ...details } = schemas.CancelWorkOrderArgsSchema.parse(args);
+  const result = await transitionWorkOrder(client, work_order_id, 'cancel', details);
+  broadcastResourceUpdate('work_orders', work_order_id, 'updated', result);
+  return result;
+});
+
+toolHandlers.set('stateset_get_work_order_timeline', async (_client, args) => {
+  const { work_order_id } = schemas.GetWorkOrderTimelineArgsSchema.parse(args);
+  return { work_order_id, transitions: workOrderTimeline.get(work_order_id) };
+});
+
 // ==================================
 // WORK ORDER EXTENDED OPERATIONS
 // ==================================
 toolHandlers.set('stateset_update_work_order_status', async (client, args) => {
-  const parsedArgs = schemas.UpdateWorkOrderStatusArgsSchema.parse(args);
-  const { work_order_id, ...data } = parsedArgs;
-  return await client.request('PUT', `/work-orders/${work_order_id}/status`, data);
+  const { work_order_id, status, ...details } = schemas.UpdateWorkOrderStatusArgsSchema.parse(args);
+  const result = await setWorkOrderStatus(client, work_order_id, status, details);
+  broadcastResourceUpdate('work_orders', work_order_id, 'updated', result);
+  return result;
 });
 
 toolHandlers.set('stateset_schedule_work_order', async (client, args) => {
   const parsedArgs = schemas.ScheduleWorkOrderArgsSchema.parse(args);
-  const { work_order_id, ...data } = parsedArgs;
-  return await client.request('POST', `/work-orders/${work_order_id}/schedule`, data);
+  const result = await scheduleWorkOrder(client, parsedArgs);
+  broadcastResourceUpdate('work_orders', parsedArgs.work_order_id, 'updated', result);
+  return result;
 });
 
 toolHandlers.set('stateset_update_work_order_task', async (client, args) => {
@@ -0,0 +1,528 @@
+import { z } from 'zod';
+import { StateMachine } from '../core/state-machine';
+import { APIError, InvalidStateTransitionError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { roundToCents, toNumber } from '../utils/records';
+import {
+  getCapturedAmount,
+  getPaymentsByOrder,
+  getRefundedAmount,
+  refundPayment,
+} from './payment-reconciliation';
+import * as schemas from './schemas';
+
+type ApproveReturnArgs = z.infer<typeof schemas.ApproveReturnArgsSchema>;
+type RestockReturnArgs = z.infer<typeof schemas.RestockReturnArgsSchema>;
+type ProcessReturnArgs = z.infer<typeof schemas.ProcessReturnArgsSchema>;
+export type ReturnDisposition = z.infer<typeof schemas.ReturnDispositionSchema>;
+
+export const returnStates = ['pending', 'approved', 'restocked', 'refunded'] as const;
+
+export type ReturnState = (typeof returnStates)[number];
+
+export type ReturnAction = 'approve' | 'restock' | 'refund';
+
+/**
+ * pending → approved → restocked → refunded. Restocking records the
+ * disposition of every returned line, including lines that aren't put back
+ * in stock.
+ */
+export const returnStateMachine = new StateMachine<ReturnState, ReturnAction>({
+  resourceType: 'return',
+  states: returnStates,
+  transitions: [
+    { action: 'approve', from: ['pending'], to: 'approved' },
+    { action: 'restock', from: ['approved'], to: 'restocked' },
+    { action: 'refund', from: ['restocked'], to: 'refunded' },
+  ],
+  actionTools: {
+    approve: 'stateset_approve_return',
+    restock: 'stateset_restock_return',
+    refund: 'stateset_process_return',
+  },
+});
+
+// Inventory adjustment reason for dispositions that put units back on hand.
+// Scrapped and return-to-vendor units never re-enter stock.
+const stockReasons: Partial<Record<ReturnDisposition, string>> = {
+  restock: 'return_restock',
+  refurbish: 'return_refurbish',
+};
+
+export interface DispositionLine {
+  item_id: string;
+  disposition: ReturnDisposition;
+  quantity: number;
+  /** Set for dispositions that put units back on hand */
+  inventory_id?: string;
+  location_id?: number;
+}
+
+export interface InventoryAdjustment {
+  inventory_id: string;
+  location_id: number;
+  quantity: number;
+}
+
+export interface RestockResult extends StateSetResponse {
+  dispositions: DispositionLine[];
+  inventory_adjustments: InventoryAdjustment[];
+  /** Set when lines were passed but the dispositions recorded earlier were used */
+  warning?: string;
+}
+
+export interface ReturnStepResult {
+  step: ReturnAction;
+  status: 'completed' | 'skipped' | 'failed';
+  result?: StateSetResponse;
+  /** Why the step was skipped */
+  reason?: string;
+  error?: string;
+}
+
+export interface ProcessReturnResult {
+  rma_id: string;
+  status: unknown;
+  /** True when every step completed or had already been done */
+  completed: boolean;
+  steps: ReturnStepResult[];
+}
+
+// Differences below half a cent are rounding noise
+const TOLERANCE = 0.005;
+
+function getAdjustmentKey(line: { inventory_id?: string; location_id?: number }): string {
+  return `${line.inventory_id}:${line.location_id}`;
+}
+
+/**
+ * Tag added to the refund reason so a retried refund can find the refund an
+ * earlier attempt made
+ */
+function getRefundTag(rmaId: string): string {
+  return `(return ${rmaId})`;
+}
+
+/**
+ * The return's current status, or undefined for statuses this server doesn't
+ * know
+ */
+function getReturnState(rma: StateSetResponse): ReturnState | undefined {
+  return returnStateMachine.isState(rma.status) ? rma.status : undefined;
+}
+
+/**
+ * Throws unless the action is allowed from the return's status. Unknown
+ * statuses, such as cancelled or rejected, are refused: approving, restocking
+ * or refunding moves stock and money, so it must not happen on a guess.
+ */
+function assertReturnTransition(rma: StateSetResponse, action: ReturnAction): void {
+  const state = getReturnState(rma);
+  if (!state) {
+    throw new InvalidStateTransitionError('return', String(rma.id), String(rma.status), action, []);
+  }
+  returnStateMachine.transition(String(rma.id), state, action);
+}
+
+/**
+ * Records restock progress on the return. Retries rely on reading it back, so
+ * an API response without the field is an error rather than a silent gap.
+ */
+async function recordProgress(
+  client: StateSetMCPClient,
+  rmaId: string,
+  progress: { dispositions: DispositionLine[] } | { inventory_adjustments: InventoryAdjustment[] },
+): Promise<void> {
+  const updated = await client.updateRMA({ rma_id: rmaId, ...progress });
+  const missing = Object.keys(progress).filter((field) => !Array.isArray(updated[field]));
+  if (missing.length > 0) {
+    throw new APIError(
+      `Return ${rmaId} did not store ${missing.join(', ')}, so a retry could not resume ` +
+        'the restock safely; check the return and inventory before retrying',
+      502,
+      'EXTERNAL_API_ERROR',
+    );
+  }
+}
+
+function findItem(items: StateSetResponse[], itemId: string): StateSetResponse | undefined {
+  return items.find((candidate) => String(candidate.id) === itemId);
+}
+
+/**
+ * Total quantity requested per return item across every line naming it. A
+ * line without a quantity takes the item's whole returned quantity.
+ */
+function getRequestedQuantities(
+  items: StateSetResponse[],
+  lines: { item_id: string; quantity?: number }[],
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const line of lines) {
+    const item = findItem(items, line.item_id);
+    if (!item) continue;
+    const quantity = line.quantity ?? toNumber(item.quantity) ?? 0;
+    totals.set(line.item_id, (totals.get(line.item_id) ?? 0) + quantity);
+  }
+  return totals;
+}
+
+/**
+ * Matches each requested line to its return item, defaulting to restocking
+ * every item in full. Throws one validation error listing every line that
+ * can't be dispositioned, before any inventory is changed.
+ */
+export function resolveDispositionLines(
+  items: StateSetResponse[],
+  args: Pick<RestockReturnArgs, 'location_id' | 'lines'>,
+): DispositionLine[] {
+  const requested =
+    args.lines ??
+    items.map((item) => ({
+      item_id: String(item.id),
+      disposition: 'restock' as const,
+      quantity: undefined,
+      inventory_id: undefined,
+      location_id: undefined,
+    }));
+
+  const totals = getRequestedQuantities(items, requested);
+  const overRequested = new Set<string>();
+  const problems: string[] = [];
+  const lines: DispositionLine[] = [];
+  for (const line of requested) {
+    const item = findItem(items, line.item_id);
+    if (!item) {
+      problems.push(`item ${line.item_id} is not on the return`);
+      continue;
+    }
+    const returned = toNumber(item.quantity) ?? 0;
+    const quantity = line.quantity ?? returned;
+    const total = totals.get(line.item_id) ?? quantity;
+    if (total > returned) {
+      // Lines splitting one item between dispositions are checked together
+      if (!overRequested.has(line.item_id)) {
+        overRequested.add(line.item_id);
+        problems.push(`item ${line.item_id} has ${returned} returned, not ${total}`);
+      }
+      continue;
+    }
+
+    if (!stockReasons[line.disposition]) {
+      lines.push({ item_id: line.item_id, disposition: line.disposition, quantity });
+      continue;
+    }
+    const inventoryId = line.inventory_id ?? item.inventory_id;
+    const locationId = toNumber(line.location_id ?? args.location_id ?? item.location_id);
+    if (inventoryId === undefined || locationId === undefined) {
+      problems.push(
+        `item ${line.item_id} needs an inventory_id and location_id to ${line.disposition}`,
+      );
+      continue;
+    }
+    lines.push({
+      item_id: line.item_id,
+      disposition: line.disposition,
+      quantity,
+      inventory_id: String(inventoryId),
+      location_id: locationId,
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new APIError(
+      `Cannot disposition return: ${problems.join('; ')}`,
+      400,
+      'VALIDATION_ERROR',
+    );
+  }
+  return lines;
+}
+
+/**
+ * Adds the units put back in stock to each inventory record, once per record
+ * and location. Each adjustment is recorded on the return as soon as it's
+ * made, and adjustments already recorded by an earlier attempt are skipped.
+ * Adjustments reference the return, so one made just before a failure to
+ * record it can be traced in the inventory history.
+ */
+async function adjustInventory(
+  client: StateSetMCPClient,
+  rmaId: string,
+  lines: DispositionLine[],
+  recorded: InventoryAdjustment[],
+): Promise<InventoryAdjustment[]> {
+  const totals = new Map<string, { line: DispositionLine; quantity: number; reasons: string[] }>();
+  for (const line of lines) {
+    const reason = stockReasons[line.disposition];
+    if (!reason || line.quantity === 0) continue;
+    const key = getAdjustmentKey(line);
+    const total = totals.get(key) ?? { line, quantity: 0, reasons: [] };
+    total.quantity += line.quantity;
+    if (!total.reasons.includes(reason)) total.reasons.push(reason);
+    totals.set(key, total);
+  }
+
+  const adjustments = [...recorded];
+  const applied = new Set(recorded.map(getAdjustmentKey));
+  for (const [key, { line, quantity, reasons }] of totals) {
+    if (applied.has(key)) continue;
+    const adjustment = {
+      inventory_id: String(line.inventory_id),
+      location_id: Number(line.location_id),
+      quantity,
+    };
+    await client.adjustInventory({
+      ...adjustment,
+      reason: reasons.join(','),
+      reference_id: rmaId,
+    });
+    adjustments.push(adjustment);
+    await recordProgress(client, rmaId, { inventory_adjustments: adjustments });
+  }
+  return adjustments;
+}
+
+export async function approveReturn(
+  client: StateSetMCPClient,
+  args: ApproveReturnArgs,
+): Promise<StateSetResponse> {
+  assertReturnTransition(await client.getRMA(args.rma_id), 'approve');
+  return client.updateRMA({ rma_id: args.rma_id, status: 'approved', notes: args.notes });
+}
+
+/**
+ * Dispositions each returned line, adds restocked and refurbished units back
+ * on hand and marks the return restocked. The dispositions are recorded on the
+ * return before inventory changes, so a retry after a failure reuses them and
+ * only makes the adjustments that are still missing.
+ */
+export async function restockReturn(
+  client: StateSetMCPClient,
+  args: RestockReturnArgs,
+): Promise<RestockResult> {
+  const rma = await client.getRMA(args.rma_id);
+  assertReturnTransition(rma, 'restock');
+
+  let lines: DispositionLine[] | undefined = Array.isArray(rma.dispositions)
+    ? rma.dispositions
+    : undefined;
+  let warning: string | undefined;
+  if (lines) {
+    logger.info('Resuming return restock with its recorded dispositions', { rmaId: args.rma_id });
+    if (args.lines) {
+      warning =
+        'The return already has dispositions from an earlier attempt, so they were used ' +
+        'and the lines passed were ignored';
+    }
+  } else {
+    lines = resolveDispositionLines((await client.getRMAItems(args.rma_id)).items, args);
+    await recordProgress(client, args.rma_id, { dispositions: lines });
+  }
+
+  const recorded: InventoryAdjustment[] = Array.isArray(rma.inventory_adjustments)
+    ? rma.inventory_adjustments
+    : [];
+  const adjustments = await adjustInventory(client, args.rma_id, lines, recorded);
+  const updated = await client.updateRMA({ rma_id: args.rma_id, status: 'restocked' });
+  logger.info('Return restocked', { rmaId: args.rma_id, lines: lines.length, adjustments });
+  return {
+    ...updated,
+    dispositions: lines,
+    inventory_adjustments: adjustments,
+    ...(warning && { warning }),
+  };
+}
+
+/**
+ * Value of the returned lines at their item prices. Every line is refunded,
+ * whatever its disposition.
+ */
+function getRefundAmount(items: StateSetResponse[], args: ProcessReturnArgs): number {
+  const lines =
+    args.lines ?? items.map((item) => ({ item_id: String(item.id), quantity: undefined }));
+  for (const line of lines) {
+    const item = findItem(items, line.item_id);
+    if (!item || toNumber(item.unit_price ?? item.price) === undefined) {
+      throw new APIError(
+        `Return item ${line.item_id} has no price; provide a refund_amount`,
+        400,
+        'VALIDATION_ERROR',
+      );
+    }
+  }
+
+  let amount = 0;
+  for (const [itemId, quantity] of getRequestedQuantities(items, lines)) {
+    const item = findItem(items, itemId);
+    const returned = toNumber(item?.quantity) ?? 0;
+    if (quantity > returned) {
+      throw new APIError(
+        `Cannot refund return: item ${itemId} has ${returned} returned, not ${quantity}`,
+        400,
+        'VALIDATION_ERROR',
+      );
+    }
+    amount += quantity * (toNumber(item?.unit_price ?? item?.price) ?? 0);
+  }
+  return roundToCents(amount);
+}
+
+/**
+ * The refund an earlier attempt made for this return, found by the tag in its
+ * reason
+ */
+function findReturnRefund(
+  rmaId: string,
+  payments: { payment: StateSetResponse; refunds: StateSetResponse[] }[],
+): { payment_id: string; refund: StateSetResponse } | undefined {
+  const tag = getRefundTag(rmaId);
+  for (const { payment, refunds } of payments) {
+    const refund = refunds.find((candidate) =>
+      String(candidate.refund_reason ?? candidate.reason ?? '').includes(tag),
+    );
+    if (refund) return { payment_id: String(payment.id), refund };
+  }
+  return undefined;
+}
+
+/**
+ * The payment to refund the return against, which must be for the return's
+ * order
+ */
+async function getPaymentForReturn(
+  client: StateSetMCPClient,
+  paymentId: string,
+  rma: StateSetResponse,
+): Promise<StateSetResponse> {
+  const payment = await client.getPayment(paymentId);
+  if (
+    payment.order_id !== undefined &&
+    rma.order_id !== undefined &&
+    String(payment.order_id) !== String(rma.order_id)
+  ) {
+    throw new APIError(
+      `Payment ${paymentId} is for order ${payment.order_id}, not order ${rma.order_id} ` +
+        `of return ${rma.id}`,
+      400,
+      'VALIDATION_ERROR',
+    );
+  }
+  return payment;
+}
+
+/**
+ * Refunds the return against the given payment, or the first captured order
+ * payment with enough left to refund. A refund already made for the return is
+ * reused rather than repeated, so a retry after the status update failed only
+ * marks the return refunded.
+ */
+async function refundReturn(
+  client: StateSetMCPClient,
+  rma: StateSetResponse,
+  args: ProcessReturnArgs,
+): Promise<StateSetResponse> {
+  assertReturnTransition(rma, 'refund');
+  const refundAmount =
+    args.refund_amount ?? getRefundAmount((await client.getRMAItems(args.rma_id)).items, args);
+
+  const candidates =
+    args.payment_id !== undefined
+      ? [await getPaymentForReturn(client, args.payment_id, rma)]
+      : (await getPaymentsByOrder(client, String(rma.order_id))).items;
+  const payments = await Promise.all(
+    candidates.map(async (payment) => ({
+      payment,
+      refunds: (await client.listPaymentRefunds(String(payment.id))).items,
+    })),
+  );
+
+  const earlier = findReturnRefund(args.rma_id, payments);
+  if (earlier) {
+    logger.info('Return already refunded; marking it refunded', {
+      rmaId: args.rma_id,
+      paymentId: earlier.payment_id,
+    });
+    const updated = await client.updateRMA({ rma_id: args.rma_id, status: 'refunded' });
+    return { ...updated, refund: { payment_id: earlier.payment_id, ...earlier.refund } };
+  }
+
+  let paymentId = args.payment_id;
+  if (paymentId === undefined) {
+    const match = payments.find(
+      ({ payment, refunds }) =>
+        getCapturedAmount(payment) - getRefundedAmount(payment, refunds) + TOLERANCE >=
+        refundAmount,
+    );
+    if (!match) {
+      throw new APIError(
+        `Cannot refund ${refundAmount} for order ${rma.order_id}: no captured payment has that ` +
+          'much left to refund; provide a payment_id',
+        400,
+        'VALIDATION_ERROR',
+      );
+    }
+    paymentId = String(match.payment.id);
+  }
+
+  const refund = await refundPayment(client, {
+    payment_id: paymentId,
+    refund_amount: refundAmount,
+    refund_reason: `${args.refund_reason} ${getRefundTag(args.rma_id)}`,
+  });
+  const updated = await client.updateRMA({ rma_id: args.rma_id, status: 'refunded' });
+  return { ...updated, refund: { payment_id: paymentId, ...refund } };
+}
+
+/**
+ * Approves, restocks and refunds the return, reporting each step. Steps the
+ * return has already been through are skipped, and restocking and refunding
+ * pick up the progress of an earlier failed run, so it can be retried; steps
+ * after a failure aren't attempted.
+ */
+export async function processReturn(
+  client: StateSetMCPClient,
+  args: ProcessReturnArgs,
+): Promise<ProcessReturnResult> {
+  const steps: ReturnStepResult[] = [];
+  let rma = await client.getRMA(args.rma_id);
+
+  const run: [ReturnAction, () => Promise<StateSetResponse>][] = [
+    ['approve', () => approveReturn(client, args)],
+    ['restock', () => restockReturn(client, args)],
+    ['refund', async () => refundReturn(client, await client.getRMA(args.rma_id), args)],
+  ];
+
+  let failed = false;
+  for (const [step, perform] of run) {
+    if (failed) {
+      steps.push({ step, status: 'skipped', reason: 'An earlier step failed' });
+      continue;
+    }
+
+    const state = getReturnState(rma);
+    const target = returnStateMachine.targetState(step);
+    if (state && target && returnStates.indexOf(state) >= returnStates.indexOf(target)) {
+      steps.push({ step, status: 'skipped', reason: `Return is already ${state}` });
+      continue;
+    }
+
+    try {
+      const result = await perform();
+      steps.push({ step, status: 'completed', result });
+      rma = { ...rma, status: result.status ?? target };
+    } catch (error) {
+      failed = true;
+      steps.push({
+        step,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      });
+      logger.warn('Return processing step failed', { rmaId: args.rma_id, step });
+    }
+  }
+
+  return { rma_id: args.rma_id, status: rma.status, completed: !failed, steps };
+}
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 
 // Common schemas
-const AddressSchema = z.object({
+export const AddressSchema = z.object({
   street: z.string().min(1, 'Street is required'),
   city: z.string().min(1, 'City is required'),
   state: z.string().min(2, 'State is required'),
@@ -18,7 +18,7 @@ export const CreateRMAArgsSchema = z.object({
 
 export const UpdateRMAArgsSchema = z.object({
   rma_id: z.string().uuid('Return ID must be a valid UUID'),
-  status: z.enum(['approved', 'restocked']).optional(),
+  status: z.enum(['approved', 'restocked', 'refunded']).optional(),
   notes: z.string().optional(),
 });
 
@@ -446,6 +446,7 @@ export const UpdateWorkOrderArgsSchema = z.object({
       }),
     )
     .optional(),
+  assigned_to: z.string().optional(),
   notes: z.string().optional(),
 });
 
@@ -612,11 +613,28 @@ export const GetApiMetricsArgsSchema = z.object({});
 // ================================
 export const CancelOrderArgsSchema = z.object({
   order_id: z.string().min(1, 'Order ID is required'),
+  reason_code: z.enum([
+    'customer_request',
+    'out_of_stock',
+    'payment_failed',
+    'fraud_suspected',
+    'duplicate_order',
+    'other',
+  ]),
   reason: z.string().optional(),
 });
 
 export const ArchiveOrderArgsSchema = z.object({
   order_id: z.string().min(1, 'Order ID is required'),
+  reason_code: z.enum([
+    'fulfilled',
+    'cancelled',
+    'returned',
+    'duplicate_order',
+    'test_order',
+    'other',
+  ]),
+  reason: z.string().optional(),
 });
 
 export const UpdateOrderStatusArgsSchema = z.object({
@@ -633,6 +651,20 @@ export const AddOrderItemArgsSchema = z.object({
   product_id: z.string().min(1, 'Product ID is required'),
   quantity: z.number().int().positive('Quantity must be positive'),
   unit_price: z.number().positive('Unit price must be positive').optional(),
+  tax_rate: z.number().min(0).max(1, 'Tax rate is a fraction, e.g. 0.08 for 8%').optional(),
+});
+
+export const UpdateOrderItemArgsSchema = z.object({
+  order_id: z.string().min(1, 'Order ID is required'),
+  item_id: z.string().min(1, 'Item ID is required'),
+  quantity: z.number().int().positive('Quantity must be positive'),
+  unit_price: z.number().positive('Unit price must be positive').optional(),
+  tax_rate: z.number().min(0).max(1, 'Tax rate is a fraction, e.g. 0.08 for 8%').optional(),
+});
+
+export const RemoveOrderItemArgsSchema = z.object({
+  order_id: z.string().min(1, 'Order ID is required'),
+  item_id: z.string().min(1, 'Item ID is required'),
 });
 
 // ================================
@@ -650,6 +682,7 @@ export const ReleaseInventoryArgsSchema = z.object({
   inventory_id: z.string().uuid('Inventory ID must be a valid UUID'),
   location_id: z.number().int().positive('Location ID is required'),
   quantity: z.number().int().positive('Quantity must be positive'),
+  reference_id: z.string().optional(),
 });
 
 export const GetLowStockArgsSchema = z.object({
@@ -657,6 +690,12 @@ export const GetLowStockArgsSchema = z.object({
   location_id: z.number().int().positive().optional(),
 });
 
+export const GetAvailableToPromiseArgsSchema = z.object({
+  skus: z.array(z.string().min(1)).optional(),
+  location_id: z.number().int().positive().optional(),
+  quantity: z.number().positive('Quantity must be positive').optional(),
+});
+
 // ================================
 // SHIPMENT WORKFLOW SCHEMAS
 // ================================
@@ -665,6 +704,11 @@ export const TrackShipmentArgsSchema = z.object({
   tracking_number: z.string().min(1, 'Tracking number is required').optional(),
 });
 
+export const ListDelayedShipmentsArgsSchema = z.object({
+  as_of: z.string().datetime().optional(),
+  carrier: z.string().optional(),
+});
+
 // ================================
 // WARRANTY WORKFLOW SCHEMAS
 // ================================
@@ -677,6 +721,8 @@ export const CreateWarrantyClaimArgsSchema = z.object({
   warranty_id: z.string().min(1, 'Warranty ID is required'),
   claim_reason: z.string().min(1, 'Claim reason is required'),
   claim_amount: z.number().positive('Claim amount must be positive').optional(),
+  serial_number: z.string().min(1).optional(),
+  incident_date: z.string().datetime().optional(),
 });
 
 export const ApproveWarrantyClaimArgsSchema = z.object({
@@ -691,25 +737,34 @@ export const ApproveWarrantyClaimArgsSchema = z.object({
 export const AssignWorkOrderArgsSchema = z.object({
   work_order_id: z.string().min(1, 'Work Order ID is required'),
   assigned_to: z.string().min(1, 'Assignee is required'),
+  performed_by: z.string().optional(),
 });
 
 export const CompleteWorkOrderArgsSchema = z.object({
   work_order_id: z.string().min(1, 'Work Order ID is required'),
   notes: z.string().optional(),
+  performed_by: z.string().optional(),
 });
 
 export const StartWorkOrderArgsSchema = z.object({
   work_order_id: z.string().min(1, 'Work Order ID is required'),
+  performed_by: z.string().optional(),
 });
 
 export const HoldWorkOrderArgsSchema = z.object({
   work_order_id: z.string().min(1, 'Work Order ID is required'),
   reason: z.string().min(1, 'Hold reason is required'),
+  performed_by: z.string().optional(),
 });
 
 export const CancelWorkOrderArgsSchema = z.object({
   work_order_id: z.string().min(1, 'Work Order ID is required'),
   reason: z.string().optional(),
+  performed_by: z.string().optional(),
+});
+
+export const GetWorkOrderTimelineArgsSchema = z.object({
+  work_order_id: z.string().min(1, 'Work Order ID is required'),
 });
 
 // ================================
@@ -739,6 +794,24 @@ export const DeleteProductVariantArgsSchema = z.object({
   variant_id: z.string().min(1, 'Variant ID is required'),
 });
 
+export const BulkRepriceVariantsArgsSchema = z.object({
+  product_ids: z.array(z.string().min(1)).min(1).optional(),
+  category: z.string().min(1).optional(),
+  rule: z.discriminatedUnion('type', [
+    z.object({
+      type: z.literal('percentage'),
+      percent: z.number().gt(-100, 'Percent must be greater than -100'),
+    }),
+    z.object({ type: z.literal('fixed_delta'), amount: z.number() }),
+    z.object({ type: z.literal('round_to_99') }),
+    z.object({
+      type: z.literal('cost_plus'),
+      markup_percent: z.number().nonnegative('Markup must not be negative'),
+    }),
+  ]),
+  apply: z.boolean().default(false),
+});
+
 // ================================
 // CART SCHEMAS
 // ================================
@@ -788,6 +861,8 @@ export const CreateCheckoutArgsSchema = z.object({
   cart_id: z.string().min(1, 'Cart ID is required'),
   shipping_method: z.string().min(1, 'Shipping method is required'),
   payment_method: z.string().min(1, 'Payment method is required'),
+  shipping_address: AddressSchema.optional(),
+  billing_address: AddressSchema.optional(),
 });
 
 export const GetCheckoutArgsSchema = z.object({
@@ -839,6 +914,49 @@ export const GetPaymentsByOrderArgsSchema = z.object({
   order_id: z.string().min(1, 'Order ID is required'),
 });
 
+export const OrderBalanceArgsSchema = z.object({
+  order_id: z.string().min(1, 'Order ID is required'),
+});
+
+// ================================
+// RETURN WORKFLOW SCHEMAS
+// ================================
+export const ReturnDispositionSchema = z.enum([
+  'restock',
+  'refurbish',
+  'scrap',
+  'return_to_vendor',
+]);
+
+export const ApproveReturnArgsSchema = z.object({
+  rma_id: z.string().uuid('Return ID must be a valid UUID'),
+  notes: z.string().optional(),
+});
+
+export const RestockReturnArgsSchema = z.object({
+  rma_id: z.string().uuid('Return ID must be a valid UUID'),
+  location_id: z.number().int().positive().optional(),
+  lines: z
+    .array(
+      z.object({
+        item_id: z.string().min(1, 'Item ID is required'),
+        disposition: ReturnDispositionSchema.default('restock'),
+        quantity: z.number().int().positive('Quantity must be positive').optional(),
+        inventory_id: z.string().uuid('Inventory ID must be a valid UUID').optional(),
+        location_id: z.number().int().positive().optional(),
+      }),
+    )
+    .min(1, 'At least one line is required')
+    .optional(),
+});
+
+export const ProcessReturnArgsSchema = RestockReturnArgsSchema.extend({
+  notes: z.string().optional(),
+  payment_id: z.string().min(1).optional(),
+  refund_amount: z.number().positive('Refund amount must be positive').optional(),
+  refund_reason: z.string().min(1).default('Customer return'),
+});
+
 // ================================
 // CUSTOMER WORKFLOW SCHEMAS
 // ================================
@@ -846,19 +964,33 @@ export const GetCustomerAddressesArgsSchema = z.object({
   customer_id: z.string().min(1, 'Customer ID is required'),
 });
 
+const AddressTypeSchema = z.enum(['shipping', 'billing', 'both']);
+
 export const AddCustomerAddressArgsSchema = z.object({
   customer_id: z.string().min(1, 'Customer ID is required'),
-  address: z.object({
-    street: z.string().min(1, 'Street is required'),
-    city: z.string().min(1, 'City is required'),
-    state: z.string().min(2, 'State is required'),
-    postal_code: z.string().min(3, 'Postal code is required'),
-    country: z.string().min(2, 'Country is required'),
+  address: AddressSchema.extend({
     is_default: z.boolean().optional(),
-    address_type: z.enum(['shipping', 'billing', 'both']).optional(),
+    address_type: AddressTypeSchema.optional(),
   }),
 });
 
+export const UpdateCustomerAddressArgsSchema = z.object({
+  customer_id: z.string().min(1, 'Customer ID is required'),
+  address_id: z.string().min(1, 'Address ID is required'),
+  address: AddressSchema.partial().extend({ address_type: AddressTypeSchema.optional() }),
+});
+
+export const DeleteCustomerAddressArgsSchema = z.object({
+  customer_id: z.string().min(1, 'Customer ID is required'),
+  address_id: z.string().min(1, 'Address ID is required'),
+});
+
+export const SetDefaultCustomerAddressArgsSchema = z.object({
+  customer_id: z.string().min(1, 'Customer ID is required'),
+  address_id: z.string().min(1, 'Address ID is required'),
+  address_type: AddressTypeSchema,
+});
+
 // ================================
 // PURCHASE ORDER WORKFLOW SCHEMAS
 // ================================
@@ -884,6 +1016,13 @@ export const ReceivePurchaseOrderArgsSchema = z.object({
   notes: z.string().optional(),
 });
 
+export const MatchPurchaseOrderArgsSchema = z.object({
+  purchase_order_id: z.string().min(1, 'Purchase Order ID is required'),
+  invoice_id: z.string().optional(),
+  quantity_tolerance_percent: z.number().min(0).max(100).optional(),
+  price_tolerance_percent: z.number().min(0).max(100).optional(),
+});
+
 // ================================
 // ASN WORKFLOW SCHEMAS
 // ================================
@@ -917,6 +1056,11 @@ export const AddBOMComponentArgsSchema = z.object({
   quantity: z.number().positive('Quantity must be positive'),
   unit_of_measure: z.string().optional(),
   sequence: z.number().int().positive().optional(),
+  scrap_percent: z
+    .number()
+    .min(0, 'Scrap percent must not be negative')
+    .max(100, 'Scrap percent must not exceed 100')
+    .optional(),
 });
 
 export const RemoveBOMComponentArgsSchema = z.object({
@@ -924,10 +1068,18 @@ export const RemoveBOMComponentArgsSchema = z.object({
   component_id: z.string().min(1, 'Component ID is required'),
 });
 
+export const ExplodeBOMArgsSchema = z.object({
+  bill_of_materials_id: z.string().min(1, 'Bill of Materials ID is required'),
+  quantity: z.number().positive('Quantity must be positive').default(1),
+});
+
 // ================================
 // ANALYTICS SCHEMAS
 // ================================
-export const GetDashboardMetricsArgsSchema = z.object({});
+export const GetDashboardMetricsArgsSchema = z.object({
+  from_date: z.string().datetime().optional(),
+  to_date: z.string().datetime().optional(),
+});
 
 export const GetSalesTrendsArgsSchema = z.object({
   from_date: z.string().datetime().optional(),
@@ -942,6 +1094,8 @@ export const GetSalesMetricsArgsSchema = z.object({
 
 export const GetInventoryMetricsArgsSchema = z.object({
   location_id: z.number().int().positive().optional(),
+  from_date: z.string().datetime().optional(),
+  to_date: z.string().datetime().optional(),
 });
 
 export const GetShipmentMetricsArgsSchema = z.object({
@@ -1000,6 +1154,12 @@ export const DeleteSupplierArgsSchema = z.object({
   supplier_id: z.string().min(1, 'Supplier ID is required'),
 });
 
+export const SupplierScorecardArgsSchema = z.object({
+  supplier_id: z.string().min(1, 'Supplier ID is required'),
+  from_date: z.string().datetime().optional(),
+  to_date: z.string().datetime().optional(),
+});
+
 // ================================
 // USER SCHEMAS
 // ================================
@@ -1326,6 +1486,7 @@ export const GetProductionMetricsArgsSchema = z.object({
 export const UpdateWorkOrderStatusArgsSchema = z.object({
   work_order_id: z.string().min(1, 'Work Order ID is required'),
   status: z.enum(['pending', 'scheduled', 'in_progress', 'on_hold', 'completed', 'cancelled']),
+  performed_by: z.string().optional(),
 });
 
 export const ScheduleWorkOrderArgsSchema = z.object({
@@ -0,0 +1,412 @@
+import { z } from 'zod';
+import { StateMachine } from '../core/state-machine';
+import { APIError, NotFoundError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { PAGE_SIZE, fetchAllPages } from '../utils/records';
+import * as schemas from './schemas';
+
+type TrackShipmentArgs = z.infer<typeof schemas.TrackShipmentArgsSchema>;
+type ListDelayedShipmentsArgs = z.infer<typeof schemas.ListDelayedShipmentsArgsSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Tracking lookups for delayed shipments made at a time
+const TRACKING_CHUNK_SIZE = 10;
+
+export const shipmentStates = [
+  'pending',
+  'shipped',
+  'in_transit',
+  'out_for_delivery',
+  'delivered',
+] as const;
+
+export type ShipmentState = (typeof shipmentStates)[number];
+
+export type ShipmentAction = 'ship' | 'deliver';
+
+/**
+ * pending → shipped → delivered. The carrier may move a shipment through
+ * in_transit and out_for_delivery on the way.
+ */
+export const shipmentStateMachine = new StateMachine<ShipmentState, ShipmentAction>({
+  resourceType: 'shipment',
+  states: shipmentStates,
+  transitions: [
+    { action: 'ship', from: ['pending'], to: 'shipped' },
+    { action: 'deliver', from: ['shipped', 'in_transit', 'out_for_delivery'], to: 'delivered' },
+  ],
+  actionTools: {
+    ship: 'stateset_mark_shipment_shipped',
+    deliver: 'stateset_mark_shipment_delivered',
+  },
+});
+
+export type TrackingStatus =
+  | 'label_created'
+  | 'shipped'
+  | 'in_transit'
+  | 'out_for_delivery'
+  | 'delivered'
+  | 'exception'
+  | 'unknown';
+
+export interface TrackingEvent {
+  carrier?: string;
+  status: TrackingStatus;
+  location?: string;
+  timestamp: string;
+  /** The carrier's own wording for the event */
+  description?: string;
+}
+
+// Carrier status codes and phrases, lowercased with separators as underscores
+const trackingStatusAliases: Record<string, TrackingStatus> = {
+  label_created: 'label_created',
+  pre_transit: 'label_created',
+  information_received: 'label_created',
+  shipped: 'shipped',
+  picked_up: 'shipped',
+  accepted: 'shipped',
+  in_transit: 'in_transit',
+  transit: 'in_transit',
+  departed: 'in_transit',
+  arrived: 'in_transit',
+  out_for_delivery: 'out_for_delivery',
+  delivered: 'delivered',
+  exception: 'exception',
+  delayed: 'exception',
+  failure: 'exception',
+  delivery_failed: 'exception',
+  returned_to_sender: 'exception',
+};
+
+const closedShipmentStatuses = ['delivered', 'cancelled', 'returned'];
+// Statuses checked for delays, including carrier statuses a shipment may take on
+const openShipmentStatuses = [
+  'pending',
+  'label_created',
+  'shipped',
+  'in_transit',
+  'out_for_delivery',
+  'exception',
+];
+
+function normalizeStatus(value: unknown): TrackingStatus {
+  if (typeof value !== 'string') return 'unknown';
+  const key = value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+  return trackingStatusAliases[key] ?? 'unknown';
+}
+
+function normalizeLocation(value: unknown): string | undefined {
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (!value || typeof value !== 'object') return undefined;
+  const location = value as Record<string, unknown>;
+  const parts = [location.city, location.state, location.postal_code, location.country].filter(
+    (part): part is string => typeof part === 'string' && part.length > 0,
+  );
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function toTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Maps a carrier tracking event onto the common shape. Events without a
+ * usable timestamp can't be placed on the timeline and are dropped.
+ */
+export function normalizeTrackingEvent(
+  event: Record<string, unknown>,
+  carrier?: string,
+): TrackingEvent | undefined {
+  const time = toTime(event.timestamp ?? event.occurred_at ?? event.event_time ?? event.date);
+  if (time === undefined) return undefined;
+
+  const description = event.description ?? event.message;
+  const status = normalizeStatus(event.status ?? event.status_code ?? event.event);
+  return {
+    carrier: typeof event.carrier === 'string' ? event.carrier : carrier,
+    status: status === 'unknown' ? normalizeStatus(description) : status,
+    location: normalizeLocation(event.location ?? event.city),
+    timestamp: new Date(time).toISOString(),
+    description: typeof description === 'string' ? description : undefined,
+  };
+}
+
+const MAX_TRACKED_SHIPMENTS = 1000;
+const MAX_EVENTS_PER_SHIPMENT = 200;
+
+function eventKey(event: TrackingEvent): string {
+  return `${event.timestamp}|${event.status}|${event.location ?? ''}`;
+}
+
+/**
+ * Tracking events per shipment, oldest first. Events seen again on a later
+ * poll are merged rather than repeated, and the least recently updated
+ * shipments are dropped first once the limit is reached. The timeline lives in
+ * process memory; carrier events are fetched again from the API when needed,
+ * but the shipped/delivered markers added by this server are lost on restart.
+ */
+export class ShipmentTrackingTimeline {
+  private timelines: Map<string, TrackingEvent[]> = new Map();
+
+  record(shipmentId: string, events: TrackingEvent[]): void {
+    const timeline = new Map(
+      (this.timelines.get(shipmentId) ?? []).map((event) => [eventKey(event), event]),
+    );
+    for (const event of events) {
+      timeline.set(eventKey(event), event);
+    }
+    const merged = [...timeline.values()]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(-MAX_EVENTS_PER_SHIPMENT);
+
+    // Re-insert so the Map stays ordered by last change
+    this.timelines.delete(shipmentId);
+    this.timelines.set(shipmentId, merged);
+
+    if (this.timelines.size > MAX_TRACKED_SHIPMENTS) {
+      const oldest = this.timelines.keys().next().value;
+      if (oldest !== undefined) {
+        this.timelines.delete(oldest);
+      }
+    }
+  }
+
+  get(shipmentId: string): TrackingEvent[] {
+    return [...(this.timelines.get(shipmentId) ?? [])];
+  }
+
+  clear(): void {
+    this.timelines.clear();
+  }
+}
+
+export const shipmentTrackingTimeline = new ShipmentTrackingTimeline();
+
+function getCarrier(shipment: StateSetResponse): string | undefined {
+  const carrier = shipment.carrier ?? shipment.shipping_method;
+  return typeof carrier === 'string' ? carrier : undefined;
+}
+
+/**
+ * Checks the action against the shipment's status, applies it and records it
+ * on the tracking timeline. Shipments in a status this server doesn't know
+ * are left for the API to validate.
+ */
+export async function transitionShipment(
+  client: StateSetMCPClient,
+  shipmentId: string,
+  action: ShipmentAction,
+): Promise<StateSetResponse> {
+  const shipment = await client.getShipment(shipmentId);
+  if (shipmentStateMachine.isState(shipment.status)) {
+    shipmentStateMachine.transition(shipmentId, shipment.status, action);
+  } else {
+    logger.debug('Skipping shipment state validation for unknown status', {
+      shipmentId,
+      status: shipment.status,
+    });
+  }
+
+  if (action === 'ship' && !shipment.tracking_number) {
+    throw new APIError(
+      `Shipment ${shipmentId} has no tracking number; set one with stateset_update_shipment first`,
+      400,
+      'VALIDATION_ERROR',
+    );
+  }
+
+  const result =
+    action === 'ship'
+      ? await client.markShipmentShipped(shipmentId)
+      : await client.markShipmentDelivered(shipmentId);
+
+  shipmentTrackingTimeline.record(shipmentId, [
+    {
+      carrier: getCarrier(shipment),
+      status: action === 'ship' ? 'shipped' : 'delivered',
+      timestamp: new Date().toISOString(),
+      description: action === 'ship' ? 'Marked as shipped' : 'Marked as delivered',
+    },
+  ]);
+  return result;
+}
+
+async function findShipment(
+  client: StateSetMCPClient,
+  args: TrackShipmentArgs,
+): Promise<StateSetResponse> {
+  if (args.shipment_id) return client.getShipment(args.shipment_id);
+  if (!args.tracking_number) {
+    throw new APIError('Provide a shipment_id or tracking_number', 400, 'VALIDATION_ERROR');
+  }
+
+  const page = await client.listShipments({ tracking_number: args.tracking_number, per_page: 100 });
+  // The API may ignore the filter
+  const shipment = page.items.find((item) => item.tracking_number === args.tracking_number);
+  if (!shipment) throw new NotFoundError('Shipment', args.tracking_number);
+  return { ...shipment, metadata: page.metadata };
+}
+
+/**
+ * Date the shipment was promised to arrive by, from the first date field the
+ * shipment has
+ */
+export function getPromisedDate(shipment: StateSetResponse): string | undefined {
+  const time = toTime(
+    shipment.promised_delivery_date ??
+      shipment.promised_date ??
+      shipment.expected_delivery_date ??
+      shipment.estimated_delivery_date,
+  );
+  return time === undefined ? undefined : new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days between the promised date and asOf, when the shipment is still
+ * open after the promised date
+ */
+function getDaysLate(shipment: StateSetResponse, asOf: number): number | undefined {
+  const promised = getPromisedDate(shipment);
+  if (!promised || closedShipmentStatuses.includes(String(shipment.status).toLowerCase())) {
+    return undefined;
+  }
+  const days = Math.floor(
+    (Date.parse(new Date(asOf).toISOString().slice(0, 10)) - Date.parse(promised)) / DAY_MS,
+  );
+  return days > 0 ? days : undefined;
+}
+
+/**
+ * Fetches the carrier's tracking events for the shipment from the API and adds
+ * them to its timeline
+ */
+async function refreshTimeline(
+  client: StateSetMCPClient,
+  shipment: StateSetResponse,
+): Promise<TrackingEvent[]> {
+  const shipmentId = String(shipment.id);
+  const carrier = getCarrier(shipment);
+  const tracking = await client.getShipmentTracking(shipmentId);
+  const events = tracking.items
+    .map((event) => normalizeTrackingEvent(event, carrier))
+    .filter((event): event is TrackingEvent => event !== undefined);
+  shipmentTrackingTimeline.record(shipmentId, events);
+  return shipmentTrackingTimeline.get(shipmentId);
+}
+
+/**
+ * Fetches the carrier's tracking events for the shipment, adds them to its
+ * timeline and returns the shipment with the full timeline
+ */
+export async function trackShipment(
+  client: StateSetMCPClient,
+  args: TrackShipmentArgs,
+  options: { asOf?: number } = {},
+): Promise<StateSetResponse> {
+  const shipment = await findShipment(client, args);
+  const timeline = await refreshTimeline(client, shipment);
+  const daysLate = getDaysLate(shipment, options.asOf ?? Date.now());
+  return {
+    ...shipment,
+    promised_date: getPromisedDate(shipment),
+    delayed: daysLate !== undefined,
+    days_late: daysLate ?? 0,
+    latest_event: timeline[timeline.length - 1],
+    events: timeline,
+  };
+}
+
+/**
+ * Every page of shipments in each open status, once per shipment in case the
+ * API ignores the status filter
+ */
+async function listOpenShipments(client: StateSetMCPClient): Promise<{
+  items: StateSetResponse[];
+  metadata: StateSetResponse['metadata'];
+  truncated: boolean;
+}> {
+  let metadata: StateSetResponse['metadata'];
+  const pages = await Promise.all(
+    openShipmentStatuses.map((status) =>
+      fetchAllPages('shipments', async (page) => {
+        const result = await client.listShipments({ status, page, per_page: PAGE_SIZE });
+        metadata = result.metadata;
+        return result;
+      }),
+    ),
+  );
+
+  const shipments = new Map<string, StateSetResponse>();
+  for (const shipment of pages.flatMap(({ items }) => items)) {
+    shipments.set(String(shipment.id), shipment);
+  }
+  return {
+    items: [...shipments.values()],
+    metadata,
+    truncated: pages.some(({ truncated }) => truncated),
+  };
+}
+
+/**
+ * Open shipments past their promised date, most overdue first, with the latest
+ * tracking event fetched from the API for each, a few shipments at a time
+ */
+export async function listDelayedShipments(
+  client: StateSetMCPClient,
+  args: ListDelayedShipmentsArgs,
+): Promise<{
+  items: StateSetResponse[];
+  metadata: StateSetResponse['metadata'];
+  truncated: boolean;
+}> {
+  const asOf = toTime(args.as_of) ?? Date.now();
+  const shipments = await listOpenShipments(client);
+
+  const delayed = shipments.items
+    .filter((shipment) => !args.carrier || getCarrier(shipment) === args.carrier)
+    .map((shipment) => ({ shipment, daysLate: getDaysLate(shipment, asOf) }))
+    .filter(
+      (entry): entry is { shipment: StateSetResponse; daysLate: number } =>
+        entry.daysLate !== undefined,
+    )
+    .sort((a, b) => b.daysLate - a.daysLate);
+
+  const items: StateSetResponse[] = [];
+  for (let i = 0; i < delayed.length; i += TRACKING_CHUNK_SIZE) {
+    const chunk = delayed.slice(i, i + TRACKING_CHUNK_SIZE);
+    items.push(
+      ...(await Promise.all(
+        chunk.map(async ({ shipment, daysLate }) => {
+          const shipmentId = String(shipment.id);
+          // A failed tracking lookup shouldn't drop the shipment from the list
+          const timeline = await refreshTimeline(client, shipment).catch((error) => {
+            logger.warn('Could not fetch tracking for delayed shipment', {
+              shipmentId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            return shipmentTrackingTimeline.get(shipmentId);
+          });
+          return {
+            ...shipment,
+            promised_date: getPromisedDate(shipment),
+            days_late: daysLate,
+            latest_event: timeline[timeline.length - 1],
+          };
+        }),
+      )),
+    );
+  }
+
+  return { items, metadata: shipments.metadata, truncated: shipments.truncated };
+}
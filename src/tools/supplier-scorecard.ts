@@ -0,0 +1,261 @@
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { PAGE_SIZE, fetchAllPages } from '../utils/records';
+import { sumLines } from './three-way-match';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SupplierScorecard {
+  supplier_id: string;
+  supplier_name?: string;
+  period: { from_date?: string; to_date?: string };
+  /** Purchase orders in the period, excluding cancelled ones */
+  purchase_orders: number;
+  /** Purchase orders that have been received or are past their expected date */
+  purchase_orders_due: number;
+  on_time_delivery: {
+    rate: number | null;
+    on_time: number;
+    late: number;
+  };
+  fill_rate: {
+    rate: number | null;
+    ordered_quantity: number;
+    /** Capped at the ordered quantity per line, so over-receipts don't hide shortages */
+    received_quantity: number;
+  };
+  lead_time: {
+    average_days: number | null;
+    std_dev_days: number | null;
+    min_days: number | null;
+    max_days: number | null;
+    /** Average days delivered after the expected date; negative when early */
+    average_delay_days: number | null;
+    samples: number;
+  };
+  /** True when paging stopped before the last purchase order, ASN or receipt */
+  truncated: boolean;
+}
+
+export interface ScorecardDocuments {
+  supplierId: string;
+  supplier?: StateSetResponse;
+  purchaseOrders: StateSetResponse[];
+  asns: StateSetResponse[];
+  itemReceipts: StateSetResponse[];
+  /** Set when paging stopped before the last document */
+  truncated?: boolean;
+}
+
+export interface ScorecardOptions {
+  fromDate?: string;
+  toDate?: string;
+  /** Purchase orders expected before this time count as due; defaults to now */
+  asOf?: number;
+}
+
+function toTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function toDay(time: number): number {
+  return Math.floor(time / DAY_MS);
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? round(part / whole, 4) : null;
+}
+
+function orderedAt(purchaseOrder: StateSetResponse): number | undefined {
+  return toTime(purchaseOrder.order_date ?? purchaseOrder.created_at);
+}
+
+function expectedAt(purchaseOrder: StateSetResponse): number | undefined {
+  return toTime(
+    purchaseOrder.expected_delivery_date ?? purchaseOrder.expected_date ?? purchaseOrder.due_date,
+  );
+}
+
+function referencesPurchaseOrder(record: StateSetResponse, purchaseOrderId: string): boolean {
+  return (record.purchase_order_id ?? record.order_id) === purchaseOrderId;
+}
+
+/**
+ * When the goods arrived: the last item receipt, or the last ASN delivery
+ * when nothing was receipted
+ */
+function deliveredAt(receipts: StateSetResponse[], asns: StateSetResponse[]): number | undefined {
+  const receiptTimes = receipts
+    .map((receipt) => toTime(receipt.received_at ?? receipt.receipt_date ?? receipt.created_at))
+    .filter((time): time is number => time !== undefined);
+  const times =
+    receiptTimes.length > 0
+      ? receiptTimes
+      : asns
+          .map((asn) => toTime(asn.delivered_at ?? asn.delivery_date))
+          .filter((time): time is number => time !== undefined);
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+function inPeriod(purchaseOrder: StateSetResponse, options: ScorecardOptions): boolean {
+  const from = toTime(options.fromDate);
+  const to = toTime(options.toDate);
+  if (from === undefined && to === undefined) return true;
+
+  const ordered = orderedAt(purchaseOrder);
+  if (ordered === undefined) return false;
+  return (from === undefined || ordered >= from) && (to === undefined || ordered <= to);
+}
+
+/**
+ * Scores a supplier on its purchase orders. A purchase order is due once it
+ * has been receipted or its expected date has passed; due orders that
+ * haven't arrived count as late and unfilled.
+ */
+export function computeSupplierScorecard(
+  documents: ScorecardDocuments,
+  options: ScorecardOptions = {},
+): SupplierScorecard {
+  const asOf = options.asOf ?? Date.now();
+  const purchaseOrders = documents.purchaseOrders.filter(
+    (purchaseOrder) => purchaseOrder.status !== 'cancelled' && inPeriod(purchaseOrder, options),
+  );
+
+  let due = 0;
+  let onTime = 0;
+  let late = 0;
+  let orderedQuantity = 0;
+  let receivedQuantity = 0;
+  const leadTimes: number[] = [];
+  const delays: number[] = [];
+
+  for (const purchaseOrder of purchaseOrders) {
+    const id = String(purchaseOrder.id);
+    const receipts = documents.itemReceipts.filter((receipt) =>
+      referencesPurchaseOrder(receipt, id),
+    );
+    const asns = documents.asns.filter((asn) => referencesPurchaseOrder(asn, id));
+    const expected = expectedAt(purchaseOrder);
+    const delivered = deliveredAt(receipts, asns);
+
+    if (receipts.length === 0 && (expected === undefined || expected >= asOf)) continue;
+    due++;
+
+    const received = sumLines(receipts, 'received');
+    // Fill rate is measured against each PO line's ordered quantity, not the
+    // received progress some APIs keep on the line
+    for (const [itemId, ordered] of sumLines([purchaseOrder], 'ordered')) {
+      orderedQuantity += ordered.quantity;
+      receivedQuantity += Math.min(received.get(itemId)?.quantity ?? 0, ordered.quantity);
+    }
+
+    if (expected !== undefined) {
+      if (delivered !== undefined && toDay(delivered) <= toDay(expected)) {
+        onTime++;
+      } else {
+        late++;
+      }
+      if (delivered !== undefined) {
+        delays.push(toDay(delivered) - toDay(expected));
+      }
+    }
+
+    const ordered = orderedAt(purchaseOrder);
+    if (ordered !== undefined && delivered !== undefined) {
+      leadTimes.push((delivered - ordered) / DAY_MS);
+    }
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+  const averageLeadTime = average(leadTimes);
+  const leadTimeVariance =
+    averageLeadTime === null
+      ? null
+      : average(leadTimes.map((leadTime) => (leadTime - averageLeadTime) ** 2));
+  const averageDelay = average(delays);
+
+  return {
+    supplier_id: documents.supplierId,
+    supplier_name: documents.supplier?.name,
+    period: { from_date: options.fromDate, to_date: options.toDate },
+    purchase_orders: purchaseOrders.length,
+    purchase_orders_due: due,
+    on_time_delivery: {
+      rate: ratio(onTime, onTime + late),
+      on_time: onTime,
+      late,
+    },
+    fill_rate: {
+      rate: ratio(receivedQuantity, orderedQuantity),
+      ordered_quantity: orderedQuantity,
+      received_quantity: receivedQuantity,
+    },
+    lead_time: {
+      average_days: averageLeadTime === null ? null : round(averageLeadTime, 2),
+      std_dev_days: leadTimeVariance === null ? null : round(Math.sqrt(leadTimeVariance), 2),
+      min_days: leadTimes.length > 0 ? round(Math.min(...leadTimes), 2) : null,
+      max_days: leadTimes.length > 0 ? round(Math.max(...leadTimes), 2) : null,
+      average_delay_days: averageDelay === null ? null : round(averageDelay, 2),
+      samples: leadTimes.length,
+    },
+    truncated: documents.truncated ?? false,
+  };
+}
+
+/**
+ * Keeps purchase orders placed with the supplier, in case the API ignores the
+ * supplier_id filter. Orders without a supplier reference are trusted to the filter.
+ */
+function forSupplier(
+  purchaseOrders: StateSetResponse[],
+  supplierId: string,
+  supplier: StateSetResponse,
+): StateSetResponse[] {
+  return purchaseOrders.filter((purchaseOrder) => {
+    if (purchaseOrder.supplier_id !== undefined) return purchaseOrder.supplier_id === supplierId;
+    if (purchaseOrder.vendor_email !== undefined)
+      return purchaseOrder.vendor_email === supplier.email;
+    return true;
+  });
+}
+
+/**
+ * Loads the supplier's purchase orders, ASNs and item receipts and scores
+ * them. Purchase orders are requested for the period; ASNs and receipts from
+ * its start, since goods can arrive after it ends.
+ */
+export async function getSupplierScorecard(
+  client: StateSetMCPClient,
+  supplierId: string,
+  options: ScorecardOptions = {},
+): Promise<SupplierScorecard> {
+  const filter = { supplier_id: supplierId, from_date: options.fromDate, per_page: PAGE_SIZE };
+  const [supplier, purchaseOrders, asns, itemReceipts] = await Promise.all([
+    client.getSupplier(supplierId),
+    fetchAllPages('purchase_orders', (page) =>
+      client.listPurchaseOrders({ ...filter, to_date: options.toDate, page }),
+    ),
+    fetchAllPages('asns', (page) => client.listASNs({ ...filter, page })),
+    fetchAllPages('item_receipts', (page) => client.listItemReceipts({ ...filter, page })),
+  ]);
+
+  return computeSupplierScorecard(
+    {
+      supplierId,
+      supplier,
+      purchaseOrders: forSupplier(purchaseOrders.items, supplierId, supplier),
+      asns: asns.items,
+      itemReceipts: itemReceipts.items,
+      truncated: purchaseOrders.truncated || asns.truncated || itemReceipts.truncated,
+    },
+    options,
+  );
+}
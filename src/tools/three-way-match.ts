@@ -0,0 +1,317 @@
+import { APIError } from '../middleware/error-handler';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import {
+  PAGE_SIZE,
+  fetchAllPages,
+  filterByReference,
+  roundToCents,
+  toNumber,
+} from '../utils/records';
+
+export type MatchException =
+  | 'over_received'
+  | 'under_received'
+  | 'shipped_received_mismatch'
+  | 'over_invoiced'
+  | 'under_invoiced'
+  | 'price_variance'
+  | 'not_on_purchase_order';
+
+export interface MatchTolerances {
+  /** Allowed receipt/invoice quantity difference, as a percentage of the ordered quantity */
+  quantityPercent: number;
+  /** Allowed invoice price difference, as a percentage of the PO price */
+  pricePercent: number;
+}
+
+export interface MatchDocuments {
+  purchaseOrder: StateSetResponse;
+  asns: StateSetResponse[];
+  itemReceipts: StateSetResponse[];
+  invoices: StateSetResponse[];
+  /** Set when paging stopped before the last ASN, receipt or invoice */
+  truncated?: boolean;
+}
+
+export interface MatchLine {
+  item_id: string;
+  ordered_quantity: number;
+  shipped_quantity: number;
+  received_quantity: number;
+  invoiced_quantity: number;
+  po_unit_price?: number;
+  invoice_unit_price?: number;
+  /** received - ordered */
+  receipt_variance: number;
+  /** invoiced - received */
+  invoice_quantity_variance: number;
+  /** (invoice price - PO price) × invoiced quantity */
+  price_variance_amount: number;
+  exceptions: MatchException[];
+}
+
+export interface ThreeWayMatchResult {
+  purchase_order_id: string;
+  matched: boolean;
+  documents: {
+    asn_ids: string[];
+    item_receipt_ids: string[];
+    invoice_ids: string[];
+  };
+  lines: MatchLine[];
+  totals: {
+    ordered_amount: number;
+    received_amount: number;
+    invoiced_amount: number;
+    price_variance_amount: number;
+  };
+  exception_counts: Partial<Record<MatchException, number>>;
+  /** True when paging stopped before the last ASN, receipt or invoice */
+  truncated: boolean;
+}
+
+export interface LineTotals {
+  quantity: number;
+  amount: number;
+  /** Quantity of the lines that carried a price */
+  pricedQuantity: number;
+}
+
+function getLines(document: StateSetResponse): Record<string, unknown>[] {
+  const lines = document.items ?? document.line_items ?? document.lines;
+  return Array.isArray(lines) ? lines : [];
+}
+
+/**
+ * Line fields holding the quantity for each kind of document, in order of
+ * preference. PO lines may also carry quantity_received, which is progress
+ * against the order and not the ordered quantity.
+ */
+const quantityFields = {
+  ordered: ['quantity'],
+  shipped: ['quantity_shipped', 'quantity'],
+  received: ['quantity_received', 'quantity'],
+  invoiced: ['quantity'],
+} as const;
+
+export type LineQuantity = keyof typeof quantityFields;
+
+/**
+ * Sums quantities and amounts per item, reading the quantity field for the
+ * kind of document, e.g. quantity_received for receipts.
+ */
+export function sumLines(
+  documents: StateSetResponse[],
+  kind: LineQuantity,
+): Map<string, LineTotals> {
+  const totals = new Map<string, LineTotals>();
+  for (const document of documents) {
+    for (const line of getLines(document)) {
+      const itemId = line.item_id ?? line.sku ?? line.product_id;
+      if (typeof itemId !== 'string') continue;
+
+      const field = quantityFields[kind].find((name) => toNumber(line[name]) !== undefined);
+      const quantity = field ? (toNumber(line[field]) ?? 0) : 0;
+      const price = toNumber(line.price) ?? toNumber(line.unit_price);
+
+      const total = totals.get(itemId) ?? { quantity: 0, amount: 0, pricedQuantity: 0 };
+      total.quantity += quantity;
+      if (price !== undefined) {
+        total.amount += quantity * price;
+        total.pricedQuantity += quantity;
+      }
+      totals.set(itemId, total);
+    }
+  }
+  return totals;
+}
+
+function averagePrice(total: LineTotals | undefined): number | undefined {
+  if (!total || total.pricedQuantity === 0) return undefined;
+  return roundToCents(total.amount / total.pricedQuantity);
+}
+
+function exceedsTolerance(difference: number, base: number, percent: number): boolean {
+  return Math.abs(difference) > (Math.abs(base) * percent) / 100 + 1e-9;
+}
+
+/**
+ * Matches each PO line against the quantities shipped on ASNs, received on
+ * item receipts and billed on supplier invoices, flagging differences beyond
+ * the tolerances.
+ */
+export function matchPurchaseOrder(
+  documents: MatchDocuments,
+  tolerances: MatchTolerances,
+): ThreeWayMatchResult {
+  const ordered = sumLines([documents.purchaseOrder], 'ordered');
+  const shipped = sumLines(documents.asns, 'shipped');
+  const received = sumLines(documents.itemReceipts, 'received');
+  const invoiced = sumLines(documents.invoices, 'invoiced');
+  const hasAsns = documents.asns.length > 0;
+  const hasInvoices = documents.invoices.length > 0;
+
+  const itemIds = new Set([...ordered.keys(), ...received.keys(), ...invoiced.keys()]);
+  const lines: MatchLine[] = [];
+  const exceptionCounts: Partial<Record<MatchException, number>> = {};
+
+  for (const itemId of itemIds) {
+    const orderedQuantity = ordered.get(itemId)?.quantity ?? 0;
+    const shippedQuantity = shipped.get(itemId)?.quantity ?? 0;
+    const receivedQuantity = received.get(itemId)?.quantity ?? 0;
+    const invoicedQuantity = invoiced.get(itemId)?.quantity ?? 0;
+    const poPrice = averagePrice(ordered.get(itemId));
+    const invoicePrice = averagePrice(invoiced.get(itemId));
+
+    const receiptVariance = receivedQuantity - orderedQuantity;
+    const invoiceQuantityVariance = invoicedQuantity - receivedQuantity;
+    const priceVariance =
+      poPrice !== undefined && invoicePrice !== undefined ? invoicePrice - poPrice : 0;
+
+    const exceptions: MatchException[] = [];
+    if (!ordered.has(itemId)) {
+      exceptions.push('not_on_purchase_order');
+    } else if (exceedsTolerance(receiptVariance, orderedQuantity, tolerances.quantityPercent)) {
+      exceptions.push(receiptVariance > 0 ? 'over_received' : 'under_received');
+    }
+    if (hasAsns && shippedQuantity !== receivedQuantity) {
+      exceptions.push('shipped_received_mismatch');
+    }
+    if (
+      hasInvoices &&
+      exceedsTolerance(invoiceQuantityVariance, orderedQuantity, tolerances.quantityPercent)
+    ) {
+      exceptions.push(invoiceQuantityVariance > 0 ? 'over_invoiced' : 'under_invoiced');
+    }
+    if (
+      poPrice !== undefined &&
+      exceedsTolerance(priceVariance, poPrice, tolerances.pricePercent)
+    ) {
+      exceptions.push('price_variance');
+    }
+
+    for (const exception of exceptions) {
+      exceptionCounts[exception] = (exceptionCounts[exception] ?? 0) + 1;
+    }
+
+    lines.push({
+      item_id: itemId,
+      ordered_quantity: orderedQuantity,
+      shipped_quantity: shippedQuantity,
+      received_quantity: receivedQuantity,
+      invoiced_quantity: invoicedQuantity,
+      po_unit_price: poPrice,
+      invoice_unit_price: invoicePrice,
+      receipt_variance: receiptVariance,
+      invoice_quantity_variance: invoiceQuantityVariance,
+      price_variance_amount: roundToCents(priceVariance * invoicedQuantity),
+      exceptions,
+    });
+  }
+
+  const sumAmounts = (totals: Map<string, LineTotals>) =>
+    roundToCents([...totals.values()].reduce((sum, total) => sum + total.amount, 0));
+
+  return {
+    purchase_order_id: String(documents.purchaseOrder.id),
+    matched: lines.every((line) => line.exceptions.length === 0),
+    documents: {
+      asn_ids: documents.asns.map((asn) => String(asn.id)),
+      item_receipt_ids: documents.itemReceipts.map((receipt) => String(receipt.id)),
+      invoice_ids: documents.invoices.map((invoice) => String(invoice.id)),
+    },
+    lines,
+    totals: {
+      ordered_amount: sumAmounts(ordered),
+      // Received goods are valued at the PO price
+      received_amount: roundToCents(
+        lines.reduce((sum, line) => sum + line.received_quantity * (line.po_unit_price ?? 0), 0),
+      ),
+      invoiced_amount: sumAmounts(invoiced),
+      price_variance_amount: roundToCents(
+        lines.reduce((sum, line) => sum + line.price_variance_amount, 0),
+      ),
+    },
+    exception_counts: exceptionCounts,
+    truncated: documents.truncated ?? false,
+  };
+}
+
+function getPurchaseOrderReference(record: StateSetResponse): unknown {
+  return record.purchase_order_id ?? record.order_id;
+}
+
+/**
+ * Every page of a document type for the purchase order, keeping only the
+ * records that belong to it
+ */
+async function listForPurchaseOrder(
+  resource: string,
+  list: (filter: { purchase_order_id: string; page: number; per_page: number }) => Promise<{
+    items: StateSetResponse[];
+  }>,
+  purchaseOrderId: string,
+): Promise<{ items: StateSetResponse[]; truncated: boolean }> {
+  const { items, truncated } = await fetchAllPages(resource, (page) =>
+    list({ purchase_order_id: purchaseOrderId, page, per_page: PAGE_SIZE }),
+  );
+  return {
+    items: filterByReference(items, purchaseOrderId, getPurchaseOrderReference),
+    truncated,
+  };
+}
+
+async function getInvoiceForPurchaseOrder(
+  client: StateSetMCPClient,
+  invoiceId: string,
+  purchaseOrderId: string,
+): Promise<StateSetResponse> {
+  const invoice = await client.getInvoice(invoiceId);
+  const reference = getPurchaseOrderReference(invoice);
+  if (reference !== undefined && reference !== null && String(reference) !== purchaseOrderId) {
+    throw new APIError(
+      `Invoice ${invoiceId} is for purchase order ${reference}, not ${purchaseOrderId}`,
+      400,
+      'VALIDATION_ERROR',
+    );
+  }
+  return invoice;
+}
+
+/**
+ * Loads the purchase order with its ASNs, item receipts and supplier invoices,
+ * then matches them
+ */
+export async function runThreeWayMatch(
+  client: StateSetMCPClient,
+  purchaseOrderId: string,
+  options: { invoiceId?: string; tolerances: MatchTolerances },
+): Promise<ThreeWayMatchResult> {
+  const [purchaseOrder, asns, itemReceipts, invoices] = await Promise.all([
+    client.getPurchaseOrder(purchaseOrderId),
+    listForPurchaseOrder('asns', (filter) => client.listASNs(filter), purchaseOrderId),
+    listForPurchaseOrder(
+      'item_receipts',
+      (filter) => client.listItemReceipts(filter),
+      purchaseOrderId,
+    ),
+    options.invoiceId
+      ? getInvoiceForPurchaseOrder(client, options.invoiceId, purchaseOrderId).then((invoice) => ({
+          items: [invoice],
+          truncated: false,
+        }))
+      : listForPurchaseOrder('invoices', (filter) => client.listInvoices(filter), purchaseOrderId),
+  ]);
+
+  return matchPurchaseOrder(
+    {
+      purchaseOrder: { ...purchaseOrder, id: purchaseOrder.id ?? purchaseOrderId },
+      asns: asns.items,
+      itemReceipts: itemReceipts.items,
+      invoices: invoices.items,
+      truncated: asns.truncated || itemReceipts.truncated || invoices.truncated,
+    },
+    options.tolerances,
+  );
+}
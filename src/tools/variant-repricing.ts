@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { APIError } from '../middleware/error-handler';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import { PAGE_SIZE, fetchAllPages, roundToCents, toNumber } from '../utils/records';
+import type { BatchProgress } from './batch-operations';
+import * as schemas from './schemas';
+
+type BulkRepriceVariantsArgs = z.infer<typeof schemas.BulkRepriceVariantsArgsSchema>;
+export type RepriceRule = BulkRepriceVariantsArgs['rule'];
+
+const PROGRESS_INTERVAL = 10;
+
+export interface PriceChange {
+  variant_id: string;
+  product_id: string;
+  sku?: string;
+  name?: string;
+  current_price: number;
+  new_price: number;
+  difference: number;
+  /** null when the current price is zero */
+  difference_percent: number | null;
+  /** Set once the change is applied */
+  status?: 'updated' | 'failed';
+  error?: string;
+}
+
+export interface SkippedVariant {
+  variant_id: string;
+  product_id: string;
+  sku?: string;
+  reason: string;
+}
+
+export interface RepriceResult {
+  applied: boolean;
+  rule: RepriceRule;
+  products: number;
+  variants: number;
+  changes: PriceChange[];
+  /** Variants whose price the rule leaves as it is */
+  unchanged: number;
+  skipped: SkippedVariant[];
+  /** True when the category search stopped at the page limit before the last product */
+  truncated?: boolean;
+  updated?: number;
+  failed?: number;
+}
+
+export interface ProductVariants {
+  product: StateSetResponse;
+  variants: StateSetResponse[];
+}
+
+/**
+ * Applies a pricing rule to a variant. Returns the new price, or the reason
+ * the variant can't be repriced.
+ */
+export function applyPriceRule(
+  rule: RepriceRule,
+  variant: StateSetResponse,
+): { price: number } | { reason: string } {
+  const price = toNumber(variant.price);
+  let newPrice: number;
+
+  switch (rule.type) {
+    case 'cost_plus': {
+      const cost = toNumber(variant.cost ?? variant.cost_price ?? variant.unit_cost);
+      if (cost === undefined) return { reason: 'Variant has no cost' };
+      newPrice = roundToCents(cost * (1 + rule.markup_percent / 100));
+      break;
+    }
+    case 'percentage':
+      if (price === undefined) return { reason: 'Variant has no price' };
+      newPrice = roundToCents(price * (1 + rule.percent / 100));
+      break;
+    case 'fixed_delta':
+      if (price === undefined) return { reason: 'Variant has no price' };
+      newPrice = roundToCents(price + rule.amount);
+      break;
+    case 'round_to_99':
+      if (price === undefined) return { reason: 'Variant has no price' };
+      // Up to the next .99, e.g. 10.50 → 10.99; whole prices drop a cent, 10.00 → 9.99
+      newPrice = Math.max(roundToCents(Math.ceil(price) - 0.01), 0.99);
+      break;
+  }
+
+  return newPrice > 0 ? { price: newPrice } : { reason: `New price ${newPrice} is not positive` };
+}
+
+/**
+ * Works out the price changes a rule makes to the variants, without applying them
+ */
+export function planReprice(products: ProductVariants[], rule: RepriceRule): RepriceResult {
+  const changes: PriceChange[] = [];
+  const skipped: SkippedVariant[] = [];
+  let unchanged = 0;
+  let variants = 0;
+
+  for (const { product, variants: productVariants } of products) {
+    for (const variant of productVariants) {
+      variants++;
+      const ids = {
+        variant_id: String(variant.id),
+        product_id: String(variant.product_id ?? product.id),
+        sku: variant.sku,
+      };
+      const result = applyPriceRule(rule, variant);
+      if ('reason' in result) {
+        skipped.push({ ...ids, reason: result.reason });
+        continue;
+      }
+
+      const currentPrice = toNumber(variant.price) ?? 0;
+      if (result.price === currentPrice) {
+        unchanged++;
+        continue;
+      }
+      changes.push({
+        ...ids,
+        name: variant.name,
+        current_price: currentPrice,
+        new_price: result.price,
+        difference: roundToCents(result.price - currentPrice),
+        difference_percent:
+          currentPrice > 0
+            ? Math.round(((result.price - currentPrice) / currentPrice) * 10000) / 100
+            : null,
+      });
+    }
+  }
+
+  return {
+    applied: false,
+    rule,
+    products: products.length,
+    variants,
+    changes,
+    unchanged,
+    skipped,
+  };
+}
+
+function inCategory(product: StateSetResponse, category: string): boolean {
+  const categories = Array.isArray(product.categories) ? product.categories : [];
+  return (
+    product.category === category ||
+    product.category_id === category ||
+    categories.some((entry: unknown) =>
+      typeof entry === 'string'
+        ? entry === category
+        : (entry as StateSetResponse | null)?.id === category ||
+          (entry as StateSetResponse | null)?.name === category,
+    )
+  );
+}
+
+/**
+ * Products matching the filter. Without product_ids, the catalog is searched
+ * for the category up to the page limit.
+ */
+async function findProducts(
+  client: StateSetMCPClient,
+  args: BulkRepriceVariantsArgs,
+): Promise<{ products: StateSetResponse[]; truncated: boolean }> {
+  const { items, truncated } = args.product_ids
+    ? {
+        items: await Promise.all(args.product_ids.map((productId) => client.getProduct(productId))),
+        truncated: false,
+      }
+    : await fetchAllPages('products', (page) => client.listProducts({ page, per_page: PAGE_SIZE }));
+
+  const { category } = args;
+  return {
+    products: category ? items.filter((product) => inCategory(product, category)) : items,
+    truncated,
+  };
+}
+
+/**
+ * Reprices the variants of the matching products. Returns a preview of the
+ * changes unless apply is set, in which case each change is applied one by
+ * one and marked as updated or failed.
+ */
+export async function bulkRepriceVariants(
+  client: StateSetMCPClient,
+  args: BulkRepriceVariantsArgs,
+  options: { onProgress?: (progress: BatchProgress) => void | Promise<void> } = {},
+): Promise<RepriceResult> {
+  if (!args.product_ids && !args.category) {
+    throw new APIError(
+      'Provide product_ids or a category to choose the variants to reprice',
+      400,
+      'VALIDATION_ERROR',
+    );
+  }
+
+  const { products, truncated } = await findProducts(client, args);
+  const plan: RepriceResult = {
+    ...planReprice(
+      await Promise.all(
+        products.map(async (product) => ({
+          product,
+          variants: (await client.getProductVariants(String(product.id))).items,
+        })),
+      ),
+      args.rule,
+    ),
+    truncated,
+  };
+  if (!args.apply) return plan;
+
+  let updated = 0;
+  let failed = 0;
+  for (const [index, change] of plan.changes.entries()) {
+    try {
+      await client.updateProductVariantPrice({
+        variant_id: change.variant_id,
+        price: change.new_price,
+      });
+      change.status = 'updated';
+      updated++;
+    } catch (error) {
+      change.status = 'failed';
+      change.error = error instanceof Error ? error.message : String(error);
+      failed++;
+    }
+
+    const completed = index + 1;
+    if (
+      options.onProgress &&
+      (completed % PROGRESS_INTERVAL === 0 || completed === plan.changes.length)
+    ) {
+      try {
+        await options.onProgress({
+          total: plan.changes.length,
+          completed,
+          success: updated,
+          failed,
+        });
+      } catch (error) {
+        // Stopping halfway would leave the catalogue partly repriced
+        logger.warn('Failed to report repricing progress', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return { ...plan, applied: true, updated, failed };
+}
@@ -0,0 +1,343 @@
+import { z } from 'zod';
+import { WarrantyClaimIneligibleError } from '../middleware/error-handler';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import * as schemas from './schemas';
+
+type CreateWarrantyClaimArgs = z.infer<typeof schemas.CreateWarrantyClaimArgsSchema>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inactiveWarrantyStatuses = ['void', 'voided', 'cancelled', 'revoked', 'expired'];
+const closedClaimStatuses = ['rejected', 'denied', 'cancelled', 'closed', 'completed', 'paid'];
+
+export type EligibilityCheckName =
+  | 'warranty_status'
+  | 'coverage_window'
+  | 'serial_number'
+  | 'duplicate_claim';
+
+export interface EligibilityCheck {
+  check: EligibilityCheckName;
+  /** A failed check blocks the claim; a flagged one is reported but doesn't */
+  result: 'pass' | 'fail' | 'flag';
+  reason: string;
+}
+
+export interface WarrantyClaimEligibility {
+  eligible: boolean;
+  checks: EligibilityCheck[];
+  coverage: { start_date?: string; end_date?: string };
+  serial_number?: string;
+  duplicate_claim_ids: string[];
+}
+
+/**
+ * A robot or component serial record matching the claimed serial number
+ */
+export interface SerialRecord {
+  kind: 'robot' | 'component';
+  record: StateSetResponse;
+  /** For components, the serial number of the robot they're installed in */
+  robotSerialNumber?: string;
+}
+
+export interface EligibilityDocuments {
+  warranty: StateSetResponse;
+  claims: StateSetResponse[];
+  serials: SerialRecord[];
+}
+
+export interface EligibilityOptions {
+  /** Incident date when the claim doesn't give one; defaults to now */
+  asOf?: number;
+}
+
+function toTime(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? undefined : time;
+}
+
+function toDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function addMonths(time: number, months: number): number {
+  const date = new Date(time);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.getTime();
+}
+
+function getWarrantyItems(warranty: StateSetResponse): Record<string, unknown>[] {
+  return Array.isArray(warranty.items) ? warranty.items : [];
+}
+
+function getWarrantySerials(warranty: StateSetResponse): string[] {
+  return getWarrantyItems(warranty)
+    .map((item) => item.serial_number)
+    .filter((serial): serial is string => typeof serial === 'string');
+}
+
+/**
+ * The serial number the claim is for: the given one, or the warranty's only
+ * serial number
+ */
+export function getClaimSerialNumber(
+  warranty: StateSetResponse,
+  serialNumber?: string,
+): string | undefined {
+  const serials = getWarrantySerials(warranty);
+  return serialNumber ?? (serials.length === 1 ? serials[0] : undefined);
+}
+
+/**
+ * Coverage runs from start_date (or creation) to the warranty's end date, or
+ * else to the start plus the longest item warranty period. With a serial
+ * number, only the periods of items carrying it count.
+ */
+function getCoverage(
+  warranty: StateSetResponse,
+  serialNumber: string | undefined,
+): { start?: number; end?: number } {
+  const start = toTime(warranty.start_date ?? warranty.created_at);
+  const end = toTime(warranty.end_date ?? warranty.expiration_date ?? warranty.expires_at);
+  if (end !== undefined || start === undefined) return { start, end };
+
+  const items = getWarrantyItems(warranty);
+  const serialItems = items.filter((item) => item.serial_number === serialNumber);
+  const months = (serialItems.length > 0 ? serialItems : items)
+    .map((item) => Number(item.warranty_period_months))
+    .filter((period) => Number.isFinite(period) && period > 0);
+  return { start, end: months.length > 0 ? addMonths(start, Math.max(...months)) : undefined };
+}
+
+function checkStatus(warranty: StateSetResponse): EligibilityCheck {
+  const status = String(warranty.status ?? 'active');
+  return inactiveWarrantyStatuses.includes(status.toLowerCase())
+    ? { check: 'warranty_status', result: 'fail', reason: `Warranty is ${status}` }
+    : { check: 'warranty_status', result: 'pass', reason: `Warranty is ${status}` };
+}
+
+function checkCoverage(
+  coverage: { start?: number; end?: number },
+  incident: number,
+): EligibilityCheck {
+  const incidentDate = toDate(incident);
+  if (coverage.end === undefined) {
+    return {
+      check: 'coverage_window',
+      result: 'fail',
+      reason: 'Warranty has no end date or warranty period to check coverage against',
+    };
+  }
+  const endDate = toDate(coverage.end);
+  if (coverage.start !== undefined && incidentDate < toDate(coverage.start)) {
+    return {
+      check: 'coverage_window',
+      result: 'fail',
+      reason: `Incident on ${incidentDate} is before coverage started on ${toDate(coverage.start)}`,
+    };
+  }
+  if (incidentDate > endDate) {
+    const days = Math.round((incident - coverage.end) / DAY_MS);
+    return {
+      check: 'coverage_window',
+      result: 'fail',
+      reason: `Coverage ended on ${endDate}, ${days} day(s) before the incident on ${incidentDate}`,
+    };
+  }
+  return {
+    check: 'coverage_window',
+    result: 'pass',
+    reason: `Incident on ${incidentDate} is within coverage until ${endDate}`,
+  };
+}
+
+function describeSerial(serial: SerialRecord): string {
+  const { record } = serial;
+  if (serial.kind === 'robot') {
+    const details = [record.model, record.status].filter(Boolean).join(', ');
+    return `robot serial ${record.id}${details ? ` (${details})` : ''}`;
+  }
+  const installed = serial.robotSerialNumber
+    ? ` installed in robot ${serial.robotSerialNumber}`
+    : '';
+  return `${record.component_type ?? 'component'} component ${record.id}${installed}`;
+}
+
+function checkSerial(
+  warranty: StateSetResponse,
+  serialNumber: string | undefined,
+  serials: SerialRecord[],
+): EligibilityCheck {
+  const warrantySerials = getWarrantySerials(warranty);
+  if (serialNumber === undefined) {
+    return warrantySerials.length > 1
+      ? {
+          check: 'serial_number',
+          result: 'flag',
+          reason: `Warranty covers ${warrantySerials.length} serial numbers and the claim doesn't say which`,
+        }
+      : { check: 'serial_number', result: 'pass', reason: 'No serial number to verify' };
+  }
+
+  const matches = serials.filter((serial) => serial.record.serial_number === serialNumber);
+  if (matches.length === 0) {
+    return {
+      check: 'serial_number',
+      result: 'fail',
+      reason: `Serial number ${serialNumber} was not found in robot or component serials`,
+    };
+  }
+
+  // A component is covered through the robot it's installed in
+  const covered =
+    warrantySerials.length === 0 ||
+    warrantySerials.includes(serialNumber) ||
+    matches.some(
+      (match) =>
+        match.robotSerialNumber !== undefined && warrantySerials.includes(match.robotSerialNumber),
+    );
+  if (!covered) {
+    return {
+      check: 'serial_number',
+      result: 'fail',
+      reason: `Serial number ${serialNumber} is not covered by this warranty (covers ${warrantySerials.join(', ')})`,
+    };
+  }
+  return {
+    check: 'serial_number',
+    result: 'pass',
+    reason: `Serial number ${serialNumber} is ${matches.map(describeSerial).join(' and ')}`,
+  };
+}
+
+function findDuplicateClaims(
+  claims: StateSetResponse[],
+  serialNumber: string | undefined,
+): StateSetResponse[] {
+  return claims.filter(
+    (claim) =>
+      !closedClaimStatuses.includes(String(claim.status ?? '').toLowerCase()) &&
+      (serialNumber === undefined ||
+        claim.serial_number === undefined ||
+        claim.serial_number === serialNumber),
+  );
+}
+
+/**
+ * Checks a claim against the warranty's status, coverage window and serial
+ * numbers, and flags open claims for the same serial number. The claim is
+ * eligible unless a check fails.
+ */
+export function evaluateWarrantyClaim(
+  documents: EligibilityDocuments,
+  claim: { serial_number?: string; incident_date?: string },
+  options: EligibilityOptions = {},
+): WarrantyClaimEligibility {
+  const { warranty } = documents;
+  const serialNumber = getClaimSerialNumber(warranty, claim.serial_number);
+  const coverage = getCoverage(warranty, serialNumber);
+  const incident = toTime(claim.incident_date) ?? options.asOf ?? Date.now();
+  const duplicates = findDuplicateClaims(documents.claims, serialNumber);
+
+  const checks: EligibilityCheck[] = [
+    checkStatus(warranty),
+    checkCoverage(coverage, incident),
+    checkSerial(warranty, serialNumber, documents.serials),
+    duplicates.length > 0
+      ? {
+          check: 'duplicate_claim',
+          result: 'flag',
+          reason: `Open claim(s) ${duplicates.map((duplicate) => duplicate.id).join(', ')} already cover this ${serialNumber ? 'serial number' : 'warranty'}`,
+        }
+      : { check: 'duplicate_claim', result: 'pass', reason: 'No open claims for this warranty' },
+  ];
+
+  return {
+    eligible: checks.every((check) => check.result !== 'fail'),
+    checks,
+    coverage: {
+      start_date: coverage.start === undefined ? undefined : toDate(coverage.start),
+      end_date: coverage.end === undefined ? undefined : toDate(coverage.end),
+    },
+    serial_number: serialNumber,
+    duplicate_claim_ids: duplicates.map((duplicate) => String(duplicate.id)),
+  };
+}
+
+async function listSerials(
+  client: StateSetMCPClient,
+  path: string,
+  serialNumber: string,
+): Promise<StateSetResponse[]> {
+  const page = await client.request<{ items?: StateSetResponse[] }>('GET', path, {
+    serial_number: serialNumber,
+    per_page: 100,
+  });
+  // The API may ignore the filter
+  return (page.items ?? []).filter((record) => record.serial_number === serialNumber);
+}
+
+/**
+ * Robot and component serial records with the serial number, including the
+ * robot each component is installed in
+ */
+async function findSerials(
+  client: StateSetMCPClient,
+  serialNumber: string,
+): Promise<SerialRecord[]> {
+  const [robots, components] = await Promise.all([
+    listSerials(client, '/manufacturing/robot-serials', serialNumber),
+    listSerials(client, '/manufacturing/components', serialNumber),
+  ]);
+
+  const componentSerials = await Promise.all(
+    components.map(async (record): Promise<SerialRecord> => {
+      if (typeof record.robot_serial_id !== 'string') return { kind: 'component', record };
+      const robot = await client.request(
+        'GET',
+        `/manufacturing/robot-serials/${record.robot_serial_id}`,
+      );
+      return { kind: 'component', record, robotSerialNumber: robot.serial_number };
+    }),
+  );
+  return [
+    ...robots.map((record): SerialRecord => ({ kind: 'robot', record })),
+    ...componentSerials,
+  ];
+}
+
+/**
+ * Checks the claim's eligibility and creates it when eligible. The response
+ * carries the eligibility checks; ineligible claims fail with a
+ * WarrantyClaimIneligibleError listing the failed checks.
+ */
+export async function createWarrantyClaim(
+  client: StateSetMCPClient,
+  args: CreateWarrantyClaimArgs,
+  options: EligibilityOptions = {},
+): Promise<StateSetResponse & { eligibility: WarrantyClaimEligibility }> {
+  const [warranty, claims] = await Promise.all([
+    client.getWarranty(args.warranty_id),
+    client.listWarrantyClaims(args.warranty_id),
+  ]);
+  const serialNumber = getClaimSerialNumber(warranty, args.serial_number);
+  const serials = serialNumber ? await findSerials(client, serialNumber) : [];
+
+  const eligibility = evaluateWarrantyClaim(
+    { warranty, claims: claims.items, serials },
+    args,
+    options,
+  );
+  if (!eligibility.eligible) {
+    throw new WarrantyClaimIneligibleError(
+      args.warranty_id,
+      eligibility.checks.filter((check) => check.result === 'fail').map((check) => check.reason),
+    );
+  }
+
+  const claim = await client.createWarrantyClaim({ ...args, serial_number: serialNumber });
+  return { ...claim, eligibility };
+}
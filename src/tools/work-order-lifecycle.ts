@@ -0,0 +1,244 @@
+import { z } from 'zod';
+import { StateMachine } from '../core/state-machine';
+import { getRequestContext } from '../core/request-context';
+import { logger } from '../utils/logger';
+import type { StateSetMCPClient } from '../services/mcp-client';
+import type { StateSetResponse } from '../types/mcp-api';
+import * as schemas from './schemas';
+
+type ScheduleWorkOrderArgs = z.infer<typeof schemas.ScheduleWorkOrderArgsSchema>;
+
+export const workOrderStates = [
+  'pending',
+  'scheduled',
+  'in_progress',
+  'on_hold',
+  'completed',
+  'cancelled',
+] as const;
+
+export type WorkOrderState = (typeof workOrderStates)[number];
+
+export type WorkOrderAction =
+  | 'assign'
+  | 'schedule'
+  | 'reopen'
+  | 'start'
+  | 'hold'
+  | 'complete'
+  | 'cancel';
+
+const openStates: WorkOrderState[] = ['pending', 'scheduled', 'in_progress', 'on_hold'];
+
+/**
+ * pending/scheduled → in_progress ⇄ on_hold, then completed. Pending and held
+ * work orders can be scheduled, and scheduled or held ones reopened as
+ * pending. Work orders can be reassigned or cancelled until they complete.
+ */
+export const workOrderStateMachine = new StateMachine<WorkOrderState, WorkOrderAction>({
+  resourceType: 'work order',
+  states: workOrderStates,
+  transitions: [
+    { action: 'assign', from: openStates },
+    { action: 'schedule', from: ['pending', 'on_hold'], to: 'scheduled' },
+    { action: 'reopen', from: ['scheduled', 'on_hold'], to: 'pending' },
+    { action: 'start', from: ['pending', 'scheduled', 'on_hold'], to: 'in_progress' },
+    { action: 'hold', from: ['in_progress'], to: 'on_hold' },
+    { action: 'complete', from: ['in_progress'], to: 'completed' },
+    { action: 'cancel', from: openStates, to: 'cancelled' },
+  ],
+  actionTools: {
+    assign: 'stateset_assign_work_order',
+    schedule: 'stateset_schedule_work_order',
+    reopen: 'stateset_update_work_order_status',
+    start: 'stateset_start_work_order',
+    hold: 'stateset_hold_work_order',
+    complete: 'stateset_complete_work_order',
+    cancel: 'stateset_cancel_work_order',
+  },
+});
+
+export interface WorkOrderTransition {
+  action: WorkOrderAction;
+  from: string;
+  to: string;
+  /** performed_by from the tool call, or the calling client or session */
+  performed_by?: string;
+  assigned_to?: string;
+  reason?: string;
+  notes?: string;
+  timestamp: string;
+}
+
+export interface WorkOrderTransitionDetails {
+  performed_by?: string;
+  assigned_to?: string;
+  reason?: string;
+  notes?: string;
+}
+
+const MAX_TRACKED_WORK_ORDERS = 1000;
+const MAX_TRANSITIONS_PER_WORK_ORDER = 100;
+
+/**
+ * Transitions made through this server, per work order. Oldest work orders
+ * are dropped first once the limit is reached.
+ */
+export class WorkOrderTimeline {
+  private timelines: Map<string, WorkOrderTransition[]> = new Map();
+
+  record(workOrderId: string, transition: WorkOrderTransition): void {
+    const timeline = this.timelines.get(workOrderId) ?? [];
+    timeline.push(transition);
+    if (timeline.length > MAX_TRANSITIONS_PER_WORK_ORDER) {
+      timeline.shift();
+    }
+
+    // Re-insert so the Map stays ordered by last change
+    this.timelines.delete(workOrderId);
+    this.timelines.set(workOrderId, timeline);
+
+    if (this.timelines.size > MAX_TRACKED_WORK_ORDERS) {
+      const oldest = this.timelines.keys().next().value;
+      if (oldest !== undefined) {
+        this.timelines.delete(oldest);
+      }
+    }
+  }
+
+  get(workOrderId: string): WorkOrderTransition[] {
+    return [...(this.timelines.get(workOrderId) ?? [])];
+  }
+
+  clear(): void {
+    this.timelines.clear();
+  }
+}
+
+export const workOrderTimeline = new WorkOrderTimeline();
+
+function resolveActor(performedBy: string | undefined): string | undefined {
+  if (performedBy) return performedBy;
+  const context = getRequestContext();
+  return context?.clientId ?? context?.sessionId;
+}
+
+/**
+ * Reads the current status, bypassing validation for statuses this server
+ * doesn't know so the API can decide
+ */
+async function getWorkOrderState(
+  client: StateSetMCPClient,
+  workOrderId: string,
+): Promise<{ status: string; known: boolean }> {
+  const workOrder = await client.getWorkOrder(workOrderId);
+  const status = String(workOrder.status ?? 'unknown');
+  const known = workOrderStateMachine.isState(status);
+  if (!known) {
+    logger.debug('Skipping work order state validation for unknown status', {
+      workOrderId,
+      status,
+    });
+  }
+  return { status, known };
+}
+
+function recordTransition(
+  workOrderId: string,
+  action: WorkOrderAction,
+  from: string,
+  to: string,
+  details: WorkOrderTransitionDetails,
+): void {
+  const transition: WorkOrderTransition = {
+    action,
+    from,
+    to,
+    performed_by: resolveActor(details.performed_by),
+    assigned_to: details.assigned_to,
+    reason: details.reason,
+    notes: details.notes,
+    timestamp: new Date().toISOString(),
+  };
+  workOrderTimeline.record(workOrderId, transition);
+  logger.info('Work order transition', { workOrderId, ...transition });
+}
+
+/**
+ * Checks that the action is allowed from the work order's current status,
+ * applies it and records it on the timeline. Assignment updates the work
+ * order; every other action changes its status.
+ */
+export async function transitionWorkOrder(
+  client: StateSetMCPClient,
+  workOrderId: string,
+  action: WorkOrderAction,
+  details: WorkOrderTransitionDetails = {},
+): Promise<StateSetResponse> {
+  const { status: from, known } = await getWorkOrderState(client, workOrderId);
+  const to = known
+    ? workOrderStateMachine.transition(workOrderId, from as WorkOrderState, action)
+    : (workOrderStateMachine.targetState(action) ?? from);
+
+  const { assigned_to, ...statusDetails } = details;
+  const result =
+    action === 'assign'
+      ? await client.updateWorkOrder({ work_order_id: workOrderId, assigned_to })
+      : await client.updateWorkOrderStatus(workOrderId, to as WorkOrderState, statusDetails);
+
+  recordTransition(workOrderId, action, from, to, details);
+  return result;
+}
+
+/**
+ * Schedules the work order through the API's schedule endpoint, which also
+ * takes the start, end and work center. The move is checked against the
+ * current status and recorded like any other transition.
+ */
+export async function scheduleWorkOrder(
+  client: StateSetMCPClient,
+  args: ScheduleWorkOrderArgs,
+): Promise<StateSetResponse> {
+  const workOrderId = args.work_order_id;
+  const { status: from, known } = await getWorkOrderState(client, workOrderId);
+  const to = known
+    ? workOrderStateMachine.transition(workOrderId, from as WorkOrderState, 'schedule')
+    : 'scheduled';
+
+  const result = await client.scheduleWorkOrder(args);
+  recordTransition(workOrderId, 'schedule', from, to, {});
+  return result;
+}
+
+/**
+ * Moves a work order straight to a status, as long as one of the lifecycle
+ * actions allows it from the current status
+ */
+export async function setWorkOrderStatus(
+  client: StateSetMCPClient,
+  workOrderId: string,
+  status: WorkOrderState,
+  details: WorkOrderTransitionDetails = {},
+): Promise<StateSetResponse> {
+  const { status: from, known } = await getWorkOrderState(client, workOrderId);
+  const action = known
+    ? workOrderStateMachine.transitionTo(workOrderId, from as WorkOrderState, status)
+    : undefined;
+
+  const result = await client.updateWorkOrderStatus(workOrderId, status, details);
+
+  if (action) {
+    recordTransition(workOrderId, action, from, status, details);
+  }
+  return result;
+}
+
+/**
+ * Tools that can be called next for a work order in the given status
+ */
+export function getWorkOrderNextSteps(status: unknown): string[] | undefined {
+  if (!workOrderStateMachine.isState(status)) return undefined;
+  return workOrderStateMachine
+    .availableActions(status)
+    .map((action) => workOrderStateMachine.getActionTool(action));
+}
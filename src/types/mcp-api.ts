@@ -47,6 +47,25 @@ export interface StateSetResponse {
   [key: string]: any;
 }
 
+export interface CartItem {
+  id: string;
+  product_variant_id: string;
+  quantity: number;
+  unit_price: number;
+  /** quantity × unit_price, computed by the client */
+  line_total: number;
+  [key: string]: any;
+}
+
+export interface CartResponse extends StateSetResponse {
+  customer_id: string;
+  items: CartItem[];
+  /** Sum of item quantities */
+  item_count: number;
+  /** Sum of line totals */
+  subtotal: number;
+}
+
 export interface BillOfMaterialsItem {
   item_id: string;
   quantity: number;
@@ -1,4 +1,6 @@
 import { wsManager } from '../core/websocket';
+import { resourceSubscriptions } from '../core/resource-subscriptions';
+import { getResourceTypeByChannel } from '../core/resource-registry';
 import { logger } from './logger';
 
 export function broadcastResourceUpdate(
@@ -23,6 +25,12 @@ export function broadcastResourceUpdate(
     timestamp: new Date().toISOString(),
   });
 
+  // Notify MCP sessions subscribed to the matching stateset-*:// resource
+  const resourceTypeInfo = getResourceTypeByChannel(resourceType);
+  if (resourceTypeInfo) {
+    void resourceSubscriptions.notify(resourceTypeInfo.protocol, resourceId);
+  }
+
   logger.debug('Real-time update broadcasted', {
     resourceType,
     resourceId,
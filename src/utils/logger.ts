@@ -1,5 +1,6 @@
 import pino, { Logger as PinoLogger } from 'pino';
 import { config } from '@config/index';
+import { getRequestContext } from '../core/request-context';
 
 // Custom log levels
 const customLevels = {
@@ -86,35 +87,50 @@ class Logger {
 
   // Logging methods
   trace(msg: string, data?: any): void {
-    this.logger.trace({ ...this.context, ...data }, msg);
+    const fields = { ...this.context, ...data };
+    this.logger.trace(fields, msg);
+    this.forward('trace', msg, fields);
   }
 
   debug(msg: string, data?: any): void {
-    this.logger.debug({ ...this.context, ...data }, msg);
+    const fields = { ...this.context, ...data };
+    this.logger.debug(fields, msg);
+    this.forward('debug', msg, fields);
   }
 
   info(msg: string, data?: any): void {
-    this.logger.info({ ...this.context, ...data }, msg);
+    const fields = { ...this.context, ...data };
+    this.logger.info(fields, msg);
+    this.forward('info', msg, fields);
   }
 
   warn(msg: string, data?: any): void {
-    this.logger.warn({ ...this.context, ...data }, msg);
+    const fields = { ...this.context, ...data };
+    this.logger.warn(fields, msg);
+    this.forward('warn', msg, fields);
   }
 
   error(msg: string, error?: Error | any, data?: any): void {
-    if (error instanceof Error) {
-      this.logger.error({ ...this.context, ...data, error }, msg);
-    } else {
-      this.logger.error({ ...this.context, ...data, ...error }, msg);
-    }
+    const fields =
+      error instanceof Error
+        ? { ...this.context, ...data, error }
+        : { ...this.context, ...data, ...error };
+    this.logger.error(fields, msg);
+    this.forward('error', msg, fields);
   }
 
   fatal(msg: string, error?: Error | any, data?: any): void {
-    if (error instanceof Error) {
-      this.logger.fatal({ ...this.context, ...data, error }, msg);
-    } else {
-      this.logger.fatal({ ...this.context, ...data, ...error }, msg);
-    }
+    const fields =
+      error instanceof Error
+        ? { ...this.context, ...data, error }
+        : { ...this.context, ...data, ...error };
+    this.logger.fatal(fields, msg);
+    this.forward('fatal', msg, fields);
+  }
+
+  // Send the record to the MCP client whose request is being handled, if any
+  private forward(level: string, msg: string, fields: Record<string, unknown>): void {
+    getRequestContext()?.forwardLog?.(level, msg, fields);
   }
 
   // Metric logging
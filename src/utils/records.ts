@@ -0,0 +1,65 @@
+import type { StateSetResponse } from '../types/mcp-api';
+import { logger } from './logger';
+
+/** Page size used when paging through list endpoints */
+export const PAGE_SIZE = 100;
+/** Pages fetched before giving up and reporting the result as truncated */
+export const MAX_PAGES = 20;
+
+export interface Paged {
+  items: StateSetResponse[];
+  /** True when paging stopped at the limit and later records were left out */
+  truncated: boolean;
+}
+
+/**
+ * A number from an API field that may be a number or a numeric string
+ */
+export function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+export function roundToCents(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Fetches pages of PAGE_SIZE records until one comes back short. Stops after
+ * MAX_PAGES pages and reports the result as truncated.
+ */
+export async function fetchAllPages(
+  resource: string,
+  fetchPage: (page: number) => Promise<{ items: StateSetResponse[] }>,
+): Promise<Paged> {
+  const items: StateSetResponse[] = [];
+  for (let page = 1; page <= MAX_PAGES; page++) {
+    const { items: pageItems } = await fetchPage(page);
+    items.push(...pageItems);
+    if (pageItems.length < PAGE_SIZE) return { items, truncated: false };
+  }
+  logger.warn('Stopped paging at the page limit', { resource, records: items.length });
+  return { items, truncated: true };
+}
+
+/**
+ * Keeps the records whose reference matches the value, in case the API
+ * ignored the filter on it. Records without a reference are kept only when the
+ * filter evidently applied, i.e. no record references another value.
+ */
+export function filterByReference(
+  records: StateSetResponse[],
+  value: string,
+  getReference: (record: StateSetResponse) => unknown,
+): StateSetResponse[] {
+  const references = records.map((record) => {
+    const reference = getReference(record);
+    return reference === undefined || reference === null ? undefined : String(reference);
+  });
+  const filterApplied = references.every(
+    (reference) => reference === undefined || reference === value,
+  );
+  return records.filter((_record, index) =>
+    references[index] === undefined ? filterApplied : references[index] === value,
+  );
+}
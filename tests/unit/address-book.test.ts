@@ -0,0 +1,296 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import {
+  addCustomerAddress,
+  getDefaultAddress,
+  normalizeAddress,
+  normalizeCountry,
+  normalizePostalCode,
+  normalizeState,
+  setDefaultCustomerAddress,
+  updateCustomerAddress,
+  withCartDefaultAddresses,
+  withDefaultAddresses,
+} from '../../src/tools/address-book';
+
+const address = {
+  street: '1 Market St',
+  city: 'San Francisco',
+  state: 'CA',
+  postal_code: '94105',
+  country: 'US',
+};
+
+function saved(id: string, fields: Record<string, unknown> = {}) {
+  return { id, ...address, ...fields } as any;
+}
+
+describe('normalizeCountry', () => {
+  it('should accept codes, alpha-3 codes and English names', () => {
+    expect(normalizeCountry('us')).toBe('US');
+    expect(normalizeCountry('USA')).toBe('US');
+    expect(normalizeCountry('UK')).toBe('GB');
+    expect(normalizeCountry('United Kingdom')).toBe('GB');
+    expect(normalizeCountry(' great  britain ')).toBe('GB');
+    expect(normalizeCountry('Germany')).toBe('DE');
+  });
+
+  it('should not recognize unknown countries', () => {
+    expect(normalizeCountry('XX')).toBeUndefined();
+    expect(normalizeCountry('EU')).toBeUndefined();
+    expect(normalizeCountry('Atlantis')).toBeUndefined();
+  });
+});
+
+describe('normalizeState', () => {
+  it('should abbreviate known states and provinces', () => {
+    expect(normalizeState('california', 'US')).toBe('CA');
+    expect(normalizeState('n.y.', 'US')).toBe('NY');
+    expect(normalizeState('Quebec', 'CA')).toBe('QC');
+    expect(normalizeState('New South Wales', 'AU')).toBe('NSW');
+    expect(normalizeState('Ontario', 'US')).toBeUndefined();
+  });
+
+  it('should keep the state of other countries', () => {
+    expect(normalizeState(' Bavaria ', 'DE')).toBe('Bavaria');
+  });
+});
+
+describe('normalizePostalCode', () => {
+  it('should format postal codes for the country', () => {
+    expect(normalizePostalCode('941051234', 'US')).toBe('94105-1234');
+    expect(normalizePostalCode('k1a0b1', 'CA')).toBe('K1A 0B1');
+    expect(normalizePostalCode('sw1a1aa', 'GB')).toBe('SW1A 1AA');
+    expect(normalizePostalCode('1012ab', 'NL')).toBe('1012 AB');
+    expect(normalizePostalCode('1000001', 'JP')).toBe('100-0001');
+  });
+
+  it("should reject codes that don't match the country's format", () => {
+    expect(normalizePostalCode('9410', 'US')).toBeUndefined();
+    expect(normalizePostalCode('12345', 'CA')).toBeUndefined();
+  });
+
+  it('should keep codes of countries without a rule', () => {
+    expect(normalizePostalCode(' 00120 ', 'VA')).toBe('00120');
+  });
+});
+
+describe('normalizeAddress', () => {
+  it('should normalize every field', () => {
+    expect(
+      normalizeAddress({
+        street: ' 1  Market St ',
+        city: 'San Francisco',
+        state: 'California',
+        postal_code: '94105 1234',
+        country: 'United States',
+      }),
+    ).toEqual({ ...address, postal_code: '94105-1234' });
+  });
+
+  it('should report every problem at once', () => {
+    expect(() => normalizeAddress({ ...address, state: 'Ontario', postal_code: '9410' })).toThrow(
+      "Invalid address: 'Ontario' is not a state or province of US; '9410' is not a valid US postal code (e.g. 94105 or 94105-1234)",
+    );
+    expect(() => normalizeAddress({ ...address, country: 'Atlantis' })).toThrow(
+      "unknown country 'Atlantis'",
+    );
+  });
+});
+
+describe('getDefaultAddress', () => {
+  it('should prefer the address marked as the default for the role', () => {
+    const addresses = [
+      saved('addr-1', { is_default: true, address_type: 'both' }),
+      saved('addr-2', { is_default_shipping: true }),
+    ];
+
+    expect(getDefaultAddress(addresses, 'shipping')?.id).toBe('addr-2');
+    expect(getDefaultAddress(addresses, 'billing')?.id).toBe('addr-1');
+  });
+
+  it('should not use a default of the other type', () => {
+    const addresses = [saved('addr-1', { is_default: true, address_type: 'shipping' })];
+
+    expect(getDefaultAddress(addresses, 'billing')).toBeUndefined();
+  });
+});
+
+describe('address book', () => {
+  function mockClient(addresses: unknown[]) {
+    return {
+      getCustomerAddresses: jest.fn(async () => ({ items: addresses, metadata: {} })),
+      addCustomerAddress: jest.fn(async (_customerId: string, data: any) => ({
+        id: 'addr-new',
+        ...data,
+      })),
+      updateCustomerAddress: jest.fn(async (_customerId: string, addressId: string, data: any) => ({
+        id: addressId,
+        ...data,
+      })),
+    } as any;
+  }
+
+  it('should make the first address of a type its default', async () => {
+    const client = mockClient([saved('addr-1', { is_default_billing: true })]);
+
+    await addCustomerAddress(client, { customer_id: 'cust-1', address });
+
+    expect(client.addCustomerAddress).toHaveBeenCalledWith('cust-1', {
+      ...address,
+      address_type: 'both',
+      is_default_shipping: true,
+      is_default_billing: false,
+    });
+    expect(client.updateCustomerAddress).not.toHaveBeenCalled();
+  });
+
+  it('should clear the previous default when adding a new default', async () => {
+    const client = mockClient([saved('addr-1', { is_default_shipping: true })]);
+
+    await addCustomerAddress(client, {
+      customer_id: 'cust-1',
+      address: { ...address, address_type: 'shipping', is_default: true },
+    });
+
+    expect(client.updateCustomerAddress).toHaveBeenCalledWith('cust-1', 'addr-1', {
+      is_default_shipping: false,
+    });
+  });
+
+  it('should normalize the address merged with the changes', async () => {
+    const client = mockClient([saved('addr-1')]);
+
+    await updateCustomerAddress(client, {
+      customer_id: 'cust-1',
+      address_id: 'addr-1',
+      address: { postal_code: '941051234' },
+    });
+
+    expect(client.updateCustomerAddress).toHaveBeenCalledWith('cust-1', 'addr-1', {
+      ...address,
+      postal_code: '94105-1234',
+    });
+  });
+
+  it('should move the default to the chosen address', async () => {
+    const client = mockClient([
+      saved('addr-1', { is_default_shipping: true, is_default_billing: true }),
+      saved('addr-2'),
+    ]);
+
+    await setDefaultCustomerAddress(client, {
+      customer_id: 'cust-1',
+      address_id: 'addr-2',
+      address_type: 'billing',
+    });
+
+    expect(client.updateCustomerAddress.mock.calls).toEqual([
+      ['cust-1', 'addr-2', { is_default_billing: true }],
+      ['cust-1', 'addr-1', { is_default_billing: false }],
+    ]);
+  });
+
+  it('should not make a shipping address the billing default', async () => {
+    const client = mockClient([saved('addr-1', { address_type: 'shipping' })]);
+
+    await expect(
+      setDefaultCustomerAddress(client, {
+        customer_id: 'cust-1',
+        address_id: 'addr-1',
+        address_type: 'billing',
+      }),
+    ).rejects.toThrow('Address addr-1 is a shipping address, not a billing one');
+  });
+
+  it('should report an unknown address', async () => {
+    const client = mockClient([]);
+
+    await expect(
+      setDefaultCustomerAddress(client, {
+        customer_id: 'cust-1',
+        address_id: 'addr-9',
+        address_type: 'both',
+      }),
+    ).rejects.toThrow("Address with ID 'addr-9' not found");
+  });
+
+  it('should fill in only the missing addresses', async () => {
+    const billing = { ...address, street: '2 Main St' };
+    const client = mockClient([
+      saved('addr-1', { is_default_shipping: true }),
+      saved('addr-2', { ...billing, is_default_billing: true }),
+    ]);
+
+    const args = await withDefaultAddresses(client, 'cust-1', {
+      order_id: 'ord-1',
+      billing_address: { ...address, street: '3 Other St' },
+    });
+
+    expect(args).toEqual({
+      order_id: 'ord-1',
+      shipping_address: address,
+      billing_address: { ...address, street: '3 Other St' },
+    });
+  });
+
+  it('should leave the addresses out when the address book cannot be read', async () => {
+    const client = mockClient([]);
+    client.getCustomerAddresses.mockRejectedValue(new Error('Service unavailable'));
+
+    const args = await withDefaultAddresses(client, 'cust-1', { order_id: 'ord-1' } as any);
+
+    expect(args).toEqual({ order_id: 'ord-1' });
+  });
+
+  it('should skip a default address that is missing fields', async () => {
+    const client = mockClient([
+      { id: 'addr-1', street: '1 Main St', country: 'US', is_default_shipping: true } as any,
+      saved('addr-2', { is_default_billing: true }),
+    ]);
+
+    const args = await withDefaultAddresses(client, 'cust-1', { order_id: 'ord-1' } as any);
+
+    expect(args).toEqual({
+      order_id: 'ord-1',
+      shipping_address: undefined,
+      billing_address: address,
+    });
+  });
+
+  it("should fill in a checkout's addresses from the cart customer's defaults", async () => {
+    const client = mockClient([saved('addr-1', { is_default_shipping: true })]);
+    client.getCart = jest.fn(async () => ({ id: 'cart-1', customer_id: 'cust-1' }));
+
+    const args = await withCartDefaultAddresses(client, 'cart-1', { cart_id: 'cart-1' } as any);
+
+    expect(args).toMatchObject({ shipping_address: address });
+  });
+
+  it('should leave the checkout addresses out when the cart cannot be read', async () => {
+    const client = mockClient([]);
+    client.getCart = jest.fn(async () => {
+      throw new Error('Service unavailable');
+    });
+
+    const args = await withCartDefaultAddresses(client, 'cart-1', { cart_id: 'cart-1' } as any);
+
+    expect(args).toEqual({ cart_id: 'cart-1' });
+    expect(client.getCustomerAddresses).not.toHaveBeenCalled();
+  });
+});
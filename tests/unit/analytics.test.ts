@@ -0,0 +1,294 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => {
+  const mockLogger = {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    logCacheHit: jest.fn(),
+    logCacheMiss: jest.fn(),
+  };
+  return { createLogger: () => mockLogger, logger: mockLogger };
+});
+
+import { cacheManager } from '../../src/core/cache';
+import {
+  getBucketStart,
+  getDashboardMetrics,
+  getSalesMetrics,
+  resolvePeriod,
+  summarizeCarts,
+  summarizeInventory,
+  summarizeSales,
+  summarizeSalesTrends,
+  summarizeShipments,
+} from '../../src/tools/analytics';
+
+const period = { from_date: '2024-03-01T00:00:00.000Z', to_date: '2024-03-31T23:59:59.000Z' };
+const sample = { records: 0, truncated: false };
+
+function record(fields: Record<string, unknown>) {
+  return { id: 'rec', created_at: '2024-03-10T12:00:00Z', ...fields } as any;
+}
+
+describe('resolvePeriod', () => {
+  it('should default to the 30 days before now', () => {
+    const now = Date.parse('2024-03-31T00:00:00Z');
+
+    expect(resolvePeriod({}, now)).toEqual({ from: Date.parse('2024-03-01T00:00:00Z'), to: now });
+  });
+
+  it('should reject a period that ends before it starts', () => {
+    expect(() =>
+      resolvePeriod({ from_date: '2024-03-02T00:00:00Z', to_date: '2024-03-01T00:00:00Z' }),
+    ).toThrow('from_date must not be after to_date');
+  });
+});
+
+describe('summarizeSales', () => {
+  it('should leave cancelled orders out of revenue and the fill rate', () => {
+    const metrics = summarizeSales(
+      [
+        record({ status: 'delivered', total_amount: 100 }),
+        record({ status: 'pending', total_amount: '50.5' }),
+        record({ status: 'shipped', total: 30 }),
+        record({ status: 'cancelled', total_amount: 999 }),
+      ],
+      period,
+      sample,
+    );
+
+    expect(metrics).toMatchObject({
+      order_count: 4,
+      orders_by_status: { delivered: 1, pending: 1, shipped: 1, cancelled: 1 },
+      revenue: 180.5,
+      average_order_value: 60.17,
+      fill_rate: 0.6667,
+    });
+  });
+
+  it('should report no average without orders', () => {
+    expect(summarizeSales([], period, sample)).toMatchObject({
+      revenue: 0,
+      average_order_value: null,
+      fill_rate: null,
+    });
+  });
+});
+
+describe('summarizeSalesTrends', () => {
+  it('should start weeks on Monday', () => {
+    // 2024-03-13 is a Wednesday
+    const time = Date.parse('2024-03-13T15:00:00Z');
+
+    expect(getBucketStart(time, 'weekly')).toBe(Date.parse('2024-03-11T00:00:00Z'));
+    expect(getBucketStart(time, 'monthly')).toBe(Date.parse('2024-03-01T00:00:00Z'));
+  });
+
+  it('should bucket orders with no gaps in the series', () => {
+    const trends = summarizeSalesTrends(
+      [
+        record({ created_at: '2024-03-01T08:00:00Z', total_amount: 10 }),
+        record({ created_at: '2024-03-01T20:00:00Z', total_amount: 20 }),
+        record({ created_at: '2024-03-03T09:00:00Z', total_amount: 5 }),
+      ],
+      { from: Date.parse('2024-03-01T00:00:00Z'), to: Date.parse('2024-03-03T23:00:00Z') },
+      'daily',
+      sample,
+    );
+
+    expect(trends.buckets).toEqual([
+      { start: '2024-03-01', order_count: 2, revenue: 30, average_order_value: 15 },
+      { start: '2024-03-02', order_count: 0, revenue: 0, average_order_value: null },
+      { start: '2024-03-03', order_count: 1, revenue: 5, average_order_value: 5 },
+    ]);
+  });
+});
+
+describe('summarizeInventory', () => {
+  it('should value stock and annualize stock turns over the period', () => {
+    const metrics = summarizeInventory(
+      [
+        record({ quantity_on_hand: 40, unit_cost: 2.5, reorder_point: 50 }),
+        record({ quantity_on_hand: 60, cost: 1 }),
+        record({ quantity_on_hand: 0, reorder_point: 5 }),
+      ],
+      [
+        record({ status: 'delivered', items: [{ quantity: 3 }, { quantity: 2 }] }),
+        record({ status: 'cancelled', items: [{ quantity: 100 }] }),
+        record({ status: 'pending' }),
+      ],
+      { from: 0, to: 73 * 24 * 60 * 60 * 1000 },
+      sample,
+    );
+
+    expect(metrics).toMatchObject({
+      sku_count: 3,
+      total_units: 100,
+      inventory_value: 160,
+      out_of_stock: 1,
+      low_stock: 1,
+      units_sold: 5,
+      stock_turns: 0.25,
+    });
+  });
+});
+
+describe('summarizeShipments', () => {
+  it('should measure on-time delivery against the promised date', () => {
+    const metrics = summarizeShipments(
+      [
+        record({
+          status: 'delivered',
+          shipped_at: '2024-03-01T10:00:00Z',
+          delivered_at: '2024-03-04T10:00:00Z',
+          promised_delivery_date: '2024-03-04',
+        }),
+        record({
+          status: 'delivered',
+          shipped_at: '2024-03-01T10:00:00Z',
+          delivered_at: '2024-03-06T10:00:00Z',
+          promised_delivery_date: '2024-03-05',
+        }),
+        record({ status: 'delivered' }),
+        record({ status: 'in_transit' }),
+        record({ status: 'pending' }),
+      ],
+      period,
+      sample,
+    );
+
+    expect(metrics).toMatchObject({
+      shipment_count: 5,
+      in_transit: 1,
+      delivered: 3,
+      on_time_rate: 0.5,
+      on_time: 1,
+      late: 1,
+      average_transit_days: 4,
+    });
+  });
+});
+
+describe('summarizeCarts', () => {
+  it('should count idle carts with items as abandoned', () => {
+    const asOf = Date.parse('2024-03-10T12:00:00Z');
+    const metrics = summarizeCarts(
+      [
+        record({ status: 'completed', item_count: 2, subtotal: 40 }),
+        record({
+          status: 'active',
+          item_count: 1,
+          subtotal: 10,
+          updated_at: '2024-03-10T09:00:00Z',
+        }),
+        record({
+          status: 'active',
+          item_count: 1,
+          subtotal: 30,
+          updated_at: '2024-03-10T11:30:00Z',
+        }),
+        record({ status: 'abandoned', item_count: 0, subtotal: 0 }),
+        record({
+          status: 'active',
+          item_count: 0,
+          subtotal: 0,
+          updated_at: '2024-03-01T00:00:00Z',
+        }),
+      ],
+      period,
+      sample,
+      asOf,
+    );
+
+    expect(metrics).toMatchObject({
+      cart_count: 5,
+      converted: 1,
+      abandoned: 2,
+      open: 2,
+      abandonment_rate: 0.6667,
+      average_cart_value: 26.67,
+      abandoned_value: 10,
+    });
+  });
+});
+
+describe('metrics', () => {
+  beforeEach(() => {
+    cacheManager.clear('analytics');
+  });
+
+  function mockClient(orders: unknown[]) {
+    return {
+      listOrders: jest.fn(async () => ({ items: orders, metadata: {} })),
+      listInventories: jest.fn(async () => ({
+        items: [record({ quantity_on_hand: 10, unit_cost: 3, reorder_point: 10 })],
+        metadata: {},
+      })),
+      listShipments: jest.fn(async () => ({
+        items: [record({ status: 'shipped' })],
+        metadata: {},
+      })),
+      listCarts: jest.fn(async () => ({
+        items: [record({ status: 'completed', item_count: 1, subtotal: 5 })],
+        metadata: {},
+      })),
+    } as any;
+  }
+
+  it('should page through the orders and keep those in the period', async () => {
+    const fullPage = Array.from({ length: 100 }, () =>
+      record({ status: 'pending', total_amount: 1 }),
+    );
+    const client = mockClient([]);
+    client.listOrders
+      .mockResolvedValueOnce({ items: fullPage, metadata: {} })
+      .mockResolvedValueOnce({
+        items: [
+          record({ status: 'pending', total_amount: 1 }),
+          record({ status: 'pending', total_amount: 1000, created_at: '2023-01-01T00:00:00Z' }),
+        ],
+        metadata: {},
+      });
+
+    const metrics = await getSalesMetrics(client, period);
+
+    expect(client.listOrders).toHaveBeenCalledTimes(2);
+    expect(client.listOrders).toHaveBeenLastCalledWith({
+      from_date: period.from_date,
+      to_date: '2024-03-31T23:59:59.000Z',
+      page: 2,
+      per_page: 100,
+    });
+    expect(metrics).toMatchObject({ order_count: 101, revenue: 101, truncated: false });
+  });
+
+  it('should cache the metrics per period', async () => {
+    const client = mockClient([record({ status: 'pending', total_amount: 10 })]);
+
+    await getSalesMetrics(client, period);
+    await getSalesMetrics(client, period);
+    await getSalesMetrics(client, { ...period, from_date: '2024-03-15T00:00:00Z' });
+
+    expect(client.listOrders).toHaveBeenCalledTimes(2);
+  });
+
+  it('should build the dashboard from the other metrics', async () => {
+    const client = mockClient([record({ status: 'shipped', total_amount: 25, items: [] })]);
+
+    const dashboard = await getDashboardMetrics(client, period);
+
+    expect(dashboard).toEqual({
+      period,
+      orders: { order_count: 1, revenue: 25, average_order_value: 25, fill_rate: 1 },
+      inventory_value: 30,
+      low_stock: 1,
+      shipments_in_transit: 1,
+      on_time_rate: null,
+      cart_abandonment_rate: 0,
+      truncated: false,
+    });
+    expect(client.listOrders).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import {
+  getAvailableToPromise,
+  projectAvailableToPromise,
+} from '../../src/tools/available-to-promise';
+
+const asOf = new Date('2026-03-01T12:00:00Z').getTime();
+
+const documents = {
+  inventories: [
+    { id: 'inv-1', item_number: 'SKU-1', quantity_on_hand: 10, quantity_reserved: 2 },
+    { id: 'inv-2', item_number: 'SKU-1', quantity_on_hand: 5, quantity_reserved: 0 },
+  ] as any[],
+  purchaseOrders: [
+    {
+      id: 'po-1',
+      status: 'approved',
+      expected_delivery_date: '2026-03-10',
+      items: [{ item_id: 'SKU-1', quantity: 20, quantity_received: 5 }],
+    },
+    {
+      id: 'po-2',
+      status: 'cancelled',
+      expected_delivery_date: '2026-03-05',
+      items: [{ item_id: 'SKU-1', quantity: 100 }],
+    },
+  ] as any[],
+  asns: [
+    {
+      id: 'asn-1',
+      purchase_order_id: 'po-1',
+      status: 'in_transit',
+      estimated_delivery: '2026-03-04',
+      items: [{ item_id: 'SKU-1', quantity: 5 }],
+    },
+  ] as any[],
+  salesOrders: [
+    { id: 'so-1', status: 'confirmed', items: [{ item_id: 'SKU-1', quantity: 4 }] },
+    {
+      id: 'so-2',
+      status: 'confirmed',
+      requested_ship_date: '2026-03-06',
+      items: [{ item_id: 'SKU-1', quantity: 12 }],
+    },
+    {
+      id: 'so-3',
+      status: 'shipped',
+      requested_ship_date: '2026-03-02',
+      items: [{ item_id: 'SKU-1', quantity: 50 }],
+    },
+  ] as any[],
+};
+
+describe('projectAvailableToPromise', () => {
+  it('should project available-to-promise by date', () => {
+    const result = projectAvailableToPromise(documents, { asOf });
+    const [sku] = result.skus;
+
+    expect(result.as_of).toBe('2026-03-01');
+    expect(sku).toMatchObject({
+      sku: 'SKU-1',
+      on_hand: 15,
+      reserved: 2,
+      // The ASN quantity isn't counted again on its purchase order
+      inbound: 15,
+      committed: 16,
+      // The 2 reserved are held for the order due today
+      available_now: 11,
+    });
+    expect(sku?.projection).toEqual([
+      { date: '2026-03-01', inbound: 0, committed: 4, available: 11 },
+      { date: '2026-03-04', inbound: 5, committed: 0, available: 16 },
+      { date: '2026-03-06', inbound: 0, committed: 12, available: 4 },
+      { date: '2026-03-10', inbound: 10, committed: 0, available: 14 },
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should count reservations beyond open order demand once', () => {
+    const result = projectAvailableToPromise(
+      {
+        inventories: [
+          { id: 'inv-1', item_number: 'SKU-1', quantity_on_hand: 10, quantity_reserved: 6 } as any,
+        ],
+        purchaseOrders: [],
+        asns: [],
+        salesOrders: [
+          { id: 'so-1', status: 'confirmed', items: [{ sku: 'SKU-1', quantity: 4 }] } as any,
+        ],
+      },
+      { asOf },
+    );
+
+    expect(result.skus[0]).toMatchObject({ reserved: 6, committed: 4, available_now: 4 });
+  });
+
+  it('should find the earliest date a quantity can be promised', () => {
+    const promise = (quantity: number) =>
+      projectAvailableToPromise(documents, { asOf, quantity }).skus[0]?.available_from;
+
+    expect(promise(2)).toBe('2026-03-01');
+    // 16 are available on the 4th, but the order on the 6th takes them back
+    expect(promise(10)).toBe('2026-03-10');
+    expect(promise(15)).toBeNull();
+  });
+
+  it('should move overdue dates to today and limit the result to the given SKUs', () => {
+    const result = projectAvailableToPromise(
+      {
+        inventories: [{ id: 'inv-9', item_number: 'SKU-9', quantity_on_hand: 1 } as any],
+        purchaseOrders: [
+          {
+            id: 'po-9',
+            status: 'approved',
+            expected_delivery_date: '2026-02-01',
+            items: [{ item_id: 'SKU-2', quantity: 3 }],
+          } as any,
+        ],
+        asns: [],
+        salesOrders: [],
+      },
+      { asOf, skus: ['SKU-2'] },
+    );
+
+    expect(result.skus).toEqual([
+      {
+        sku: 'SKU-2',
+        on_hand: 0,
+        reserved: 0,
+        inbound: 3,
+        committed: 0,
+        available_now: 3,
+        projection: [{ date: '2026-03-01', inbound: 3, committed: 0, available: 3 }],
+      },
+    ]);
+  });
+});
+
+describe('getAvailableToPromise', () => {
+  it('should filter inventory by location', async () => {
+    const list = (items: unknown[]) => jest.fn(async () => ({ items, metadata: {} }));
+    const client = {
+      listInventories: list(documents.inventories),
+      listPurchaseOrders: list([]),
+      listASNs: list([]),
+      listSalesOrders: list([]),
+    } as any;
+
+    const result = await getAvailableToPromise(client, { location_id: 3, quantity: 5 });
+
+    expect(client.listInventories).toHaveBeenCalledWith({ location_id: 3, page: 1, per_page: 100 });
+    expect(result.skus[0]).toMatchObject({ sku: 'SKU-1', available_now: 13 });
+    expect(result.skus[0]?.available_from).toEqual(expect.any(String));
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should apply the location to orders and drop other locations', async () => {
+    const list = (items: unknown[]) => jest.fn(async () => ({ items, metadata: {} }));
+    const client = {
+      listInventories: list([
+        { id: 'inv-1', item_number: 'SKU-1', quantity_on_hand: 10, location_id: 3 },
+      ]),
+      listPurchaseOrders: list([]),
+      listASNs: list([]),
+      listSalesOrders: list([
+        {
+          id: 'so-1',
+          status: 'confirmed',
+          location_id: 3,
+          items: [{ item_id: 'SKU-1', quantity: 4 }],
+        },
+        {
+          id: 'so-2',
+          status: 'confirmed',
+          location_id: 7,
+          items: [{ item_id: 'SKU-1', quantity: 9 }],
+        },
+      ]),
+    } as any;
+
+    const result = await getAvailableToPromise(client, { location_id: 3 });
+
+    expect(client.listSalesOrders).toHaveBeenCalledWith({ location_id: 3, page: 1, per_page: 100 });
+    expect(result.skus[0]).toMatchObject({ sku: 'SKU-1', committed: 4, available_now: 6 });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { createLogger: () => mockLogger, logger: mockLogger };
+});
+
+jest.mock('../../src/core/metrics', () => ({
+  metrics: { increment: jest.fn(), observe: jest.fn() },
+}));
+
+jest.mock('../../src/core/websocket', () => ({
+  wsManager: { broadcast: jest.fn() },
+}));
+
+import { executeBatchOperations, type BatchProgress } from '../../src/tools/batch-operations';
+
+function createClient(): any {
+  return {
+    createOrder: jest.fn(async (data: any) => {
+      if (data.fail) throw new Error('Invalid order');
+      return { id: data.id };
+    }),
+  };
+}
+
+function orderOps(count: number, failing: number[] = []): any[] {
+  return Array.from({ length: count }, (_, i) => ({
+    type: 'create',
+    resource: 'order',
+    data: { id: `ord-${i}`, fail: failing.includes(i) },
+  }));
+}
+
+describe('executeBatchOperations progress', () => {
+  it('should report progress after each parallel chunk', async () => {
+    const progress: BatchProgress[] = [];
+
+    await executeBatchOperations(createClient(), orderOps(5, [3]), {
+      parallel: true,
+      chunkSize: 2,
+      onProgress: (update) => {
+        progress.push(update);
+      },
+    });
+
+    expect(progress).toEqual([
+      { total: 5, completed: 2, success: 2, failed: 0 },
+      { total: 5, completed: 4, success: 3, failed: 1 },
+      { total: 5, completed: 5, success: 4, failed: 1 },
+    ]);
+  });
+
+  it('should report progress every chunk when running sequentially', async () => {
+    const progress: BatchProgress[] = [];
+
+    await executeBatchOperations(createClient(), orderOps(5), {
+      chunkSize: 2,
+      onProgress: (update) => {
+        progress.push(update);
+      },
+    });
+
+    expect(progress.map((update) => update.completed)).toEqual([2, 4, 5]);
+  });
+
+  it('should report the final count when stopping on error', async () => {
+    const progress: BatchProgress[] = [];
+
+    await executeBatchOperations(createClient(), orderOps(5, [0]), {
+      stopOnError: true,
+      chunkSize: 10,
+      onProgress: (update) => {
+        progress.push(update);
+      },
+    });
+
+    expect(progress).toEqual([{ total: 5, completed: 1, success: 0, failed: 1 }]);
+  });
+
+  it('should keep going when progress reporting fails', async () => {
+    const result = await executeBatchOperations(createClient(), orderOps(3), {
+      chunkSize: 1,
+      onProgress: async () => {
+        throw new Error('Not connected');
+      },
+    });
+
+    expect(result.success).toBe(3);
+  });
+});
+
+describe('executeBatchOperations RMAs', () => {
+  it('should send RMA updates and deletes to the client', async () => {
+    const client = {
+      updateRMA: jest.fn(async (data: any) => ({ id: data.rma_id, status: data.status })),
+      deleteRMA: jest.fn(async (args: any) => ({ id: args.rma_id })),
+    } as any;
+
+    const result = await executeBatchOperations(client, [
+      { type: 'update', resource: 'rma', data: { rma_id: 'rma-1', status: 'approved' } },
+      { type: 'delete', resource: 'rma', data: { rma_id: 'rma-2', notes: 'duplicate' } },
+    ]);
+
+    expect(result.success).toBe(2);
+    expect(client.updateRMA).toHaveBeenCalledWith({ rma_id: 'rma-1', status: 'approved' });
+    expect(client.deleteRMA).toHaveBeenCalledWith({ rma_id: 'rma-2' });
+  });
+});
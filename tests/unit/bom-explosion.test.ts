@@ -0,0 +1,170 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import { explodeBOM, getBOMExplosion, getBOMsByProduct } from '../../src/tools/bom-explosion';
+
+function component(componentId: string, quantity: number, extra: Record<string, unknown> = {}) {
+  return { id: `line-${componentId}`, component_id: componentId, quantity, ...extra } as any;
+}
+
+// bike (bom-bike) = 2 wheels + 1 frame; wheel (bom-wheel) = 32 spokes (5% scrap) + 1 rim
+const documents = {
+  components: new Map([
+    [
+      'bom-bike',
+      [component('wheel', 2), component('frame', 1, { name: 'Frame', unit_of_measure: 'ea' })],
+    ],
+    ['bom-wheel', [component('spoke', 32, { scrap_percent: 5 }), component('rim', 1)]],
+  ]),
+  bomsByProduct: new Map([
+    ['bike', 'bom-bike'],
+    ['wheel', 'bom-wheel'],
+  ]),
+};
+
+describe('explodeBOM', () => {
+  it('should flatten nested BOMs for the build quantity with scrap added', () => {
+    const explosion = explodeBOM('bom-bike', 3, documents);
+
+    expect(explosion).toEqual({
+      bill_of_materials_id: 'bom-bike',
+      quantity: 3,
+      levels: 2,
+      components: [
+        { component_id: 'spoke', quantity: 192, required_quantity: 201.6 },
+        { component_id: 'rim', quantity: 6, required_quantity: 6 },
+        {
+          component_id: 'frame',
+          name: 'Frame',
+          unit_of_measure: 'ea',
+          quantity: 3,
+          required_quantity: 3,
+        },
+      ],
+      cycles: [],
+    });
+  });
+
+  it('should compound scrap across levels and total repeated components', () => {
+    const explosion = explodeBOM('bom-a', 1, {
+      components: new Map([
+        ['bom-a', [component('sub', 1, { scrap_percent: 10 }), component('screw', 4)]],
+        ['bom-sub', [component('screw', 10, { scrap_percent: 10 })]],
+      ]),
+      bomsByProduct: new Map([['sub', 'bom-sub']]),
+    });
+
+    expect(explosion.components).toEqual([
+      { component_id: 'screw', quantity: 14, required_quantity: 16.1 },
+    ]);
+  });
+
+  it('should report cycles without expanding them', () => {
+    const explosion = explodeBOM('bom-a', 1, {
+      components: new Map([
+        ['bom-a', [component('b', 1), component('bolt', 2)]],
+        ['bom-b', [component('a', 1), component('nut', 3)]],
+      ]),
+      bomsByProduct: new Map([
+        ['a', 'bom-a'],
+        ['b', 'bom-b'],
+      ]),
+    });
+
+    expect(explosion.cycles).toEqual([['bom-a', 'bom-b', 'bom-a']]);
+    expect(explosion.components.map((leaf) => [leaf.component_id, leaf.quantity])).toEqual([
+      ['nut', 3],
+      ['bolt', 2],
+    ]);
+  });
+});
+
+describe('getBOMExplosion', () => {
+  function mockClient() {
+    return {
+      listBillOfMaterials: jest.fn(async () => ({
+        items: [
+          { id: 'bom-bike', product_id: 'bike' },
+          { id: 'bom-wheel', product_id: 'wheel' },
+        ],
+        metadata: {},
+      })),
+      getBOMComponents: jest.fn(async (bomId: string) => ({
+        items: documents.components.get(bomId) ?? [],
+        metadata: {},
+      })),
+      getProduct: jest.fn(async (productId: string) => {
+        if (productId === 'frame') throw new Error('Product not found');
+        return { id: productId, price: productId === 'spoke' ? 0.25 : 12 };
+      }),
+    } as any;
+  }
+
+  it('should fetch each sub-assembly BOM and roll up the material cost', async () => {
+    const client = mockClient();
+
+    const explosion = await getBOMExplosion(client, {
+      bill_of_materials_id: 'bom-bike',
+      quantity: 1,
+    });
+
+    expect(client.getBOMComponents.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'bom-bike',
+      'bom-wheel',
+    ]);
+    expect(explosion.components).toEqual([
+      {
+        component_id: 'spoke',
+        quantity: 64,
+        required_quantity: 67.2,
+        unit_price: 0.25,
+        total_cost: 16.8,
+      },
+      { component_id: 'rim', quantity: 2, required_quantity: 2, unit_price: 12, total_cost: 24 },
+      {
+        component_id: 'frame',
+        name: 'Frame',
+        unit_of_measure: 'ea',
+        quantity: 1,
+        required_quantity: 1,
+      },
+    ]);
+    expect(explosion.material_cost).toBe(40.8);
+    expect(explosion.unpriced).toEqual(['frame']);
+    expect(client.listBillOfMaterials).toHaveBeenCalledWith({ page: 1, per_page: 100 });
+    expect(explosion.truncated).toBe(false);
+  });
+});
+
+describe('getBOMsByProduct', () => {
+  it("should use a product's active BOM over other revisions", () => {
+    const bomsByProduct = getBOMsByProduct([
+      { id: 'bom-wheel-v1', product_id: 'wheel', status: 'obsolete' },
+      { id: 'bom-wheel-v2', product_id: 'wheel', status: 'active' },
+      { id: 'bom-wheel-v3', product_id: 'wheel', status: 'draft' },
+      { id: 'bom-frame-a', product_id: 'frame' },
+      { id: 'bom-frame-b', product_id: 'frame' },
+    ] as any[]);
+
+    expect(bomsByProduct).toEqual(
+      new Map([
+        ['wheel', 'bom-wheel-v2'],
+        ['frame', 'bom-frame-a'],
+      ]),
+    );
+  });
+});
@@ -49,6 +49,22 @@ describe('CacheManager', () => {
     });
   });
 
+  describe('keys', () => {
+    it('should list unexpired keys without counting hits', async () => {
+      cacheManager.set(testNamespace, 'order:1', 'a');
+      cacheManager.set(testNamespace, 'order:2', 'b', 10);
+
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(cacheManager.keys(testNamespace)).toEqual(['order:1']);
+      expect((cacheManager.getStats(testNamespace) as any).hits).toBe(0);
+    });
+
+    it('should return no keys for unknown namespaces', () => {
+      expect(cacheManager.keys('never-created')).toEqual([]);
+    });
+  });
+
   describe('fetcher function', () => {
     it('should use fetcher when value is not cached', async () => {
       const fetcher = jest.fn().mockResolvedValue('fetched value');
@@ -0,0 +1,106 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { createLogger: () => mockLogger, logger: mockLogger };
+});
+
+import {
+  checkoutStateMachine,
+  assertCheckoutTransition,
+  getCheckoutNextSteps,
+  getCheckoutUpdateActions,
+} from '../../src/tools/checkout-lifecycle';
+import { InvalidStateTransitionError } from '../../src/middleware/error-handler';
+
+function clientWithStatus(status: string) {
+  return { getCheckout: jest.fn(async () => ({ id: 'chk-1', status })) } as any;
+}
+
+describe('checkoutStateMachine', () => {
+  it('should walk the lifecycle in order', () => {
+    let state = checkoutStateMachine.transition('chk-1', 'open', 'set_customer');
+    state = checkoutStateMachine.transition('chk-1', state, 'set_shipping');
+    state = checkoutStateMachine.transition('chk-1', state, 'set_payment');
+
+    expect(state).toBe('payment_set');
+    expect(checkoutStateMachine.transition('chk-1', state, 'complete')).toBe('completed');
+  });
+
+  it('should allow editing an earlier step without moving back', () => {
+    expect(checkoutStateMachine.transition('chk-1', 'payment_set', 'set_customer')).toBe(
+      'payment_set',
+    );
+  });
+
+  it('should reject skipped steps with the allowed next steps', () => {
+    expect(() => checkoutStateMachine.transition('chk-1', 'customer_set', 'complete')).toThrow(
+      "Cannot complete for checkout 'chk-1' in state 'customer_set'. Next steps: " +
+        'stateset_update_checkout_customer, stateset_update_checkout_shipping, ' +
+        'stateset_apply_checkout_coupon, stateset_update_checkout, stateset_cancel_checkout.',
+    );
+  });
+
+  it('should reject any change to a finished checkout', () => {
+    for (const state of ['completed', 'cancelled'] as const) {
+      expect(checkoutStateMachine.availableActions(state)).toEqual([]);
+      expect(() => checkoutStateMachine.transition('chk-1', state, 'cancel')).toThrow(
+        `No further changes are possible once it is ${state}`,
+      );
+    }
+  });
+});
+
+describe('getCheckoutUpdateActions', () => {
+  it('should map updated fields to lifecycle steps', () => {
+    expect(getCheckoutUpdateActions({ shipping_method: 'ground' })).toEqual(['set_shipping']);
+    expect(getCheckoutUpdateActions({ shipping_method: 'ground', payment_method: 'card' })).toEqual(
+      ['set_shipping', 'set_payment'],
+    );
+    expect(getCheckoutUpdateActions({})).toEqual(['update']);
+  });
+});
+
+describe('assertCheckoutTransition', () => {
+  it('should throw an InvalidStateTransitionError for out-of-order calls', async () => {
+    const client = clientWithStatus('open');
+
+    const error = await assertCheckoutTransition(client, 'chk-1', ['set_payment']).catch((e) => e);
+
+    expect(client.getCheckout).toHaveBeenCalledWith('chk-1');
+    expect(error).toBeInstanceOf(InvalidStateTransitionError);
+    expect(error.statusCode).toBe(409);
+    expect(error.code).toBe('INVALID_STATE_TRANSITION');
+    expect(error.suggestions[0].action).toBe('stateset_update_checkout_customer');
+  });
+
+  it('should apply several steps in order', async () => {
+    await expect(
+      assertCheckoutTransition(clientWithStatus('customer_set'), 'chk-1', [
+        'set_shipping',
+        'set_payment',
+      ]),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should leave unknown statuses to the API', async () => {
+    await expect(
+      assertCheckoutTransition(clientWithStatus('pending_review'), 'chk-1', ['complete']),
+    ).resolves.toBeUndefined();
+  });
+});
+
+describe('getCheckoutNextSteps', () => {
+  it('should list the tools that can be called next', () => {
+    expect(getCheckoutNextSteps('payment_set')).toEqual([
+      'stateset_update_checkout_customer',
+      'stateset_update_checkout_shipping',
+      'stateset_update_checkout_payment',
+      'stateset_apply_checkout_coupon',
+      'stateset_update_checkout',
+      'stateset_complete_checkout',
+      'stateset_cancel_checkout',
+    ]);
+    expect(getCheckoutNextSteps('unknown')).toBeUndefined();
+  });
+});
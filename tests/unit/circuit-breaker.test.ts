@@ -172,4 +172,28 @@ describe('CircuitBreaker', () => {
       expect(metrics.failureRate).toBeCloseTo(1 / 3, 2);
     });
   });
+
+  describe('cancellation', () => {
+    it('should not run the request when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const fn = jest.fn(async () => 'success');
+
+      await expect(circuitBreaker.execute(fn, controller.signal)).rejects.toThrow('cancelled');
+      expect(fn).not.toHaveBeenCalled();
+    });
+
+    it('should reject in-flight requests on abort without counting a failure', async () => {
+      const controller = new AbortController();
+      const pending = circuitBreaker.execute(
+        () => new Promise((resolve) => setTimeout(() => resolve('late'), 50)),
+        controller.signal
+      );
+
+      controller.abort('User cancelled');
+
+      await expect(pending).rejects.toThrow('User cancelled');
+      expect(circuitBreaker.getMetrics().failures).toBe(0);
+    });
+  });
 });
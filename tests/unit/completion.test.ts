@@ -0,0 +1,97 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { createLogger: () => mockLogger, logger: mockLogger };
+});
+
+const mockGetOrderByNumber = jest.fn<(client: any, args: any) => Promise<any>>();
+
+jest.mock('../../src/tools/registry', () => ({
+  toolHandlers: new Map([['stateset_get_order_by_number', mockGetOrderByNumber]]),
+}));
+
+import { complete } from '../../src/core/completion';
+import { cacheManager } from '../../src/core/cache';
+
+const client = {} as any;
+
+describe('complete', () => {
+  beforeEach(() => {
+    cacheManager.clear('orders');
+    cacheManager.clear('rmas');
+    mockGetOrderByNumber.mockReset();
+  });
+
+  it('should complete resource template IDs from recently fetched records', async () => {
+    cacheManager.set('orders', 'order:abc-111', { id: 'abc-111' });
+    cacheManager.set('orders', 'order:abc-222', { id: 'abc-222' });
+    cacheManager.set('orders', 'order:def-333', { id: 'def-333' });
+
+    const result = await complete(client, {
+      ref: { type: 'ref/resource', uri: 'stateset-order:///{orderId}' },
+      argument: { name: 'orderId', value: 'abc' },
+    });
+
+    expect(result.completion.values.sort()).toEqual(['abc-111', 'abc-222']);
+    expect(result.completion.hasMore).toBe(false);
+  });
+
+  it('should complete prompt ID arguments by argument name', async () => {
+    cacheManager.set('orders', 'order:ord-1', { id: 'ord-1' });
+
+    const result = await complete(client, {
+      ref: { type: 'ref/prompt', name: 'stateset_triage_return' },
+      argument: { name: 'order_id', value: '' },
+    });
+
+    expect(result.completion.values).toEqual(['ord-1']);
+  });
+
+  it('should complete enum arguments from the zod schema', async () => {
+    const result = await complete(client, {
+      ref: { type: 'ref/prompt', name: 'stateset_triage_return' },
+      argument: { name: 'rma_status', value: 'app' },
+    });
+
+    expect(result.completion.values).toEqual(['approved']);
+  });
+
+  it('should resolve order numbers when no recent ID matches', async () => {
+    mockGetOrderByNumber.mockResolvedValue({ id: 'uuid-for-1001', order_number: '1001' });
+
+    const result = await complete(client, {
+      ref: { type: 'ref/resource', uri: 'stateset-order:///{orderId}' },
+      argument: { name: 'orderId', value: '1001' },
+    });
+
+    expect(mockGetOrderByNumber).toHaveBeenCalledWith(client, { order_number: '1001' });
+    expect(result.completion.values).toEqual(['uuid-for-1001']);
+  });
+
+  it('should not look up short or unknown order numbers', async () => {
+    mockGetOrderByNumber.mockRejectedValue(new Error('Not found'));
+
+    const short = await complete(client, {
+      ref: { type: 'ref/resource', uri: 'stateset-order:///{orderId}' },
+      argument: { name: 'orderId', value: '10' },
+    });
+    const unknown = await complete(client, {
+      ref: { type: 'ref/resource', uri: 'stateset-order:///{orderId}' },
+      argument: { name: 'orderId', value: '99999' },
+    });
+
+    expect(short.completion.values).toEqual([]);
+    expect(unknown.completion.values).toEqual([]);
+    expect(mockGetOrderByNumber).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return nothing for unknown prompts and arguments', async () => {
+    const result = await complete(client, {
+      ref: { type: 'ref/prompt', name: 'no_such_prompt' },
+      argument: { name: 'order_id', value: '' },
+    });
+
+    expect(result.completion).toEqual({ values: [], total: 0, hasMore: false });
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('../../src/tools/registry', () => ({
+  toolHandlers: new Map([
+    ['stateset_get_order', (client: any, args: any) => client.getOrder(args.order_id)],
+  ]),
+}));
+
+import {
+  requiresConfirmation,
+  buildConfirmationRequest,
+  confirmToolCall,
+} from '../../src/tools/confirmation';
+import { logger } from '../../src/utils/logger';
+
+const thresholds = { refundThreshold: 500, batchDeleteThreshold: 10 };
+
+function deletes(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    type: 'delete',
+    resource: 'orders',
+    id: `ORD-${i}`,
+  }));
+}
+
+describe('requiresConfirmation', () => {
+  it('should require confirmation for destructive tools', () => {
+    expect(requiresConfirmation('stateset_delete_order', { order_id: 'ORD-1' }, thresholds)).toBe(
+      true,
+    );
+    expect(requiresConfirmation('stateset_cancel_purchase_order', {}, thresholds)).toBe(true);
+    expect(requiresConfirmation('stateset_clear_cache', {}, thresholds)).toBe(true);
+  });
+
+  it('should not require confirmation for reads and regular writes', () => {
+    expect(requiresConfirmation('stateset_get_order', { order_id: 'ORD-1' }, thresholds)).toBe(
+      false,
+    );
+    expect(requiresConfirmation('stateset_update_order', { order_id: 'ORD-1' }, thresholds)).toBe(
+      false,
+    );
+  });
+
+  it('should only require confirmation for refunds above the threshold', () => {
+    expect(
+      requiresConfirmation('stateset_refund_payment', { refund_amount: 500 }, thresholds),
+    ).toBe(false);
+    expect(
+      requiresConfirmation('stateset_refund_payment', { refund_amount: 500.01 }, thresholds),
+    ).toBe(true);
+    // Without an amount the refund size is unknown
+    expect(requiresConfirmation('stateset_refund_payment', {}, thresholds)).toBe(true);
+  });
+
+  it('should read the refund size from refund_amount, not amount', () => {
+    expect(requiresConfirmation('stateset_refund_payment', { amount: 10 }, thresholds)).toBe(true);
+    expect(
+      requiresConfirmation(
+        'stateset_refund_payment',
+        { amount: 900, refund_amount: 10 },
+        thresholds,
+      ),
+    ).toBe(false);
+  });
+
+  it('should confirm processing a return unless its refund is below the threshold', () => {
+    expect(requiresConfirmation('stateset_process_return', { refund_amount: 40 }, thresholds)).toBe(
+      false,
+    );
+    expect(requiresConfirmation('stateset_process_return', { rma_id: 'rma-1' }, thresholds)).toBe(
+      true,
+    );
+  });
+
+  it('should only require confirmation for batches with many deletes', () => {
+    const creates = Array.from({ length: 50 }, () => ({ type: 'create', resource: 'orders' }));
+
+    expect(
+      requiresConfirmation(
+        'stateset_batch_operations',
+        { operations: [...creates, ...deletes(10)] },
+        thresholds,
+      ),
+    ).toBe(false);
+    expect(
+      requiresConfirmation('stateset_batch_operations', { operations: deletes(11) }, thresholds),
+    ).toBe(true);
+  });
+
+  it('should only require confirmation for bulk repricing that applies the changes', () => {
+    const rule = { type: 'percentage', percent: 10 };
+
+    expect(requiresConfirmation('stateset_bulk_reprice_variants', { rule }, thresholds)).toBe(
+      false,
+    );
+    expect(
+      requiresConfirmation('stateset_bulk_reprice_variants', { rule, apply: true }, thresholds),
+    ).toBe(true);
+  });
+});
+
+describe('buildConfirmationRequest', () => {
+  it('should summarize the target fetched through the matching get tool', async () => {
+    const client = {
+      getOrder: jest.fn(async () => ({
+        id: 'ORD-1',
+        status: 'open',
+        total_amount: 129.5,
+        items: [{ sku: 'SKU-1' }],
+        metadata: { apiMetrics: {} },
+      })),
+    } as any;
+
+    const request = await buildConfirmationRequest(client, 'stateset_delete_order', {
+      order_id: 'ORD-1',
+    });
+
+    expect(client.getOrder).toHaveBeenCalledWith('ORD-1');
+    expect(request.message).toBe(
+      [
+        'Confirm "Delete order" (stateset_delete_order).',
+        '',
+        'Target:',
+        '  id: ORD-1',
+        '  status: open',
+        '  total_amount: 129.5',
+      ].join('\n'),
+    );
+    expect(request.requestedSchema.required).toEqual(['confirm']);
+  });
+
+  it('should still ask when the target cannot be fetched', async () => {
+    const client = {
+      getOrder: jest.fn(async () => {
+        throw new Error('Not found');
+      }),
+    } as any;
+
+    const request = await buildConfirmationRequest(client, 'stateset_delete_order', {
+      order_id: 'ORD-404',
+    });
+
+    expect(request.message).toBe('Confirm "Delete order" (stateset_delete_order).');
+  });
+
+  it('should describe batch deletes', async () => {
+    const request = await buildConfirmationRequest({} as any, 'stateset_batch_operations', {
+      operations: deletes(12),
+    });
+
+    expect(request.message).toContain('12 delete operations');
+  });
+
+  it('should show the refund amount being refunded', async () => {
+    const request = await buildConfirmationRequest({} as any, 'stateset_refund_payment', {
+      payment_id: 'pay-1',
+      refund_amount: 750,
+    });
+
+    expect(request.message).toContain('Refund amount: 750');
+  });
+});
+
+describe('confirmToolCall', () => {
+  const client = { getOrder: jest.fn(async () => ({ id: 'ORD-1' })) } as any;
+  const args = { order_id: 'ORD-1' };
+
+  function elicit(result: ElicitResult) {
+    return jest.fn(async () => result);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should allow the call when the user confirms', async () => {
+    const elicitInput = elicit({ action: 'accept', content: { confirm: true } });
+
+    await expect(
+      confirmToolCall(client, 'stateset_delete_order', args, elicitInput),
+    ).resolves.toBeUndefined();
+    expect(elicitInput).toHaveBeenCalledTimes(1);
+  });
+
+  it('should refuse the call when the user declines or unticks confirm', async () => {
+    await expect(
+      confirmToolCall(client, 'stateset_delete_order', args, elicit({ action: 'decline' })),
+    ).resolves.toBe('stateset_delete_order was declined by the user');
+    await expect(
+      confirmToolCall(
+        client,
+        'stateset_delete_order',
+        args,
+        elicit({ action: 'accept', content: { confirm: false } }),
+      ),
+    ).resolves.toBe('stateset_delete_order was declined by the user');
+    await expect(
+      confirmToolCall(client, 'stateset_delete_order', args, elicit({ action: 'cancel' })),
+    ).resolves.toBe('stateset_delete_order was cancelled by the user');
+  });
+
+  it('should run the call with a warning when the client cannot elicit', async () => {
+    await expect(
+      confirmToolCall(client, 'stateset_delete_order', args, undefined),
+    ).resolves.toBeUndefined();
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.stringContaining('does not support elicitation'),
+      { tool: 'stateset_delete_order' },
+    );
+    expect(client.getOrder).not.toHaveBeenCalled();
+  });
+
+  it('should refuse the call when elicitation is required and the client cannot elicit', async () => {
+    await expect(
+      confirmToolCall(client, 'stateset_delete_order', args, undefined, true),
+    ).resolves.toContain('does not support elicitation');
+    expect(client.getOrder).not.toHaveBeenCalled();
+  });
+});
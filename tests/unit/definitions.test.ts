@@ -1,4 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
+import { ToolSchema } from '@modelcontextprotocol/sdk/types.js';
 import { tools, resourceTemplates } from '../../src/tools/definitions';
 
 describe('Tool Definitions', () => {
@@ -34,6 +35,46 @@ describe('Tool Definitions', () => {
       const toolsWithSchema = tools.filter((t) => t.inputSchema !== undefined);
       expect(toolsWithSchema.length).toBeGreaterThan(50);
     });
+
+    it('should publish an object outputSchema for every tool', () => {
+      tools.forEach((tool) => {
+        expect(ToolSchema.safeParse(tool).success).toBe(true);
+        expect(tool.outputSchema?.type).toBe('object');
+      });
+    });
+
+    it('should annotate every tool with a title and behavior hints', () => {
+      tools.forEach((tool) => {
+        expect(tool.title).toBeDefined();
+        expect(tool.annotations).toEqual(
+          expect.objectContaining({
+            title: tool.title,
+            readOnlyHint: expect.any(Boolean),
+            destructiveHint: expect.any(Boolean),
+            idempotentHint: expect.any(Boolean),
+            openWorldHint: expect.any(Boolean),
+          }),
+        );
+      });
+    });
+
+    it('should never mark delete tools as read-only', () => {
+      tools
+        .filter((tool) => tool.name.startsWith('stateset_delete_'))
+        .forEach((tool) => {
+          expect(tool.annotations?.readOnlyHint).toBe(false);
+          expect(tool.annotations?.destructiveHint).toBe(true);
+        });
+    });
+
+    it('should describe the apiMetrics metadata in record and list outputs', () => {
+      const getOrder = tools.find((t) => t.name === 'stateset_get_order');
+      const listOrders = tools.find((t) => t.name === 'stateset_list_orders');
+
+      expect(getOrder?.outputSchema?.required).toEqual(['metadata']);
+      expect(listOrders?.outputSchema?.required).toEqual(['items', 'metadata']);
+      expect(JSON.stringify(listOrders?.outputSchema)).toContain('apiMetrics');
+    });
   });
 
   describe('RMA tools', () => {
@@ -29,6 +29,7 @@ jest.mock('../../src/tools/registry', () => {
   const toolHandlers = new Map([
     ['stateset_test_tool', mockHandler],
     ['stateset_health_check', (jest.fn() as any).mockResolvedValue({ status: 'healthy' })],
+    ['stateset_delete_order', (jest.fn() as any).mockResolvedValue({ deleted: true })],
   ]);
   return { toolHandlers };
 });
@@ -59,7 +60,7 @@ describe('Tool Dispatcher', () => {
 
       const result = await handleToolCall(mockClient, request);
 
-      expect(mockHandler).toHaveBeenCalledWith(mockClient, { test: 'value' });
+      expect(mockHandler).toHaveBeenCalledWith(mockClient, { test: 'value' }, {});
       expect(result).toEqual({ success: true });
     });
 
@@ -85,7 +86,7 @@ describe('Tool Dispatcher', () => {
 
       await handleToolCall(mockClient, request);
 
-      expect(mockHandler).toHaveBeenCalledWith(mockClient, {});
+      expect(mockHandler).toHaveBeenCalledWith(mockClient, {}, {});
     });
 
     it('should pass sanitized arguments to handler', async () => {
@@ -103,7 +104,7 @@ describe('Tool Dispatcher', () => {
       await handleToolCall(mockClient, request);
 
       expect(sanitizeToolArguments).toHaveBeenCalledWith({ raw: 'data' }, 'stateset_test_tool');
-      expect(mockHandler).toHaveBeenCalledWith(mockClient, { sanitized: true });
+      expect(mockHandler).toHaveBeenCalledWith(mockClient, { sanitized: true }, {});
     });
 
     it('should acquire rate limit before calling handler', async () => {
@@ -137,6 +138,133 @@ describe('Tool Dispatcher', () => {
       await expect(handleToolCall(mockClient, request)).rejects.toThrow('Handler failed');
     });
 
+    it('should report progress when the caller supplies a progress token', async () => {
+      const sendNotification = (jest.fn() as any).mockResolvedValue(undefined);
+      mockHandler.mockImplementation(async (_client: any, _args: any, context: any) => {
+        await context.reportProgress({ progress: 5, total: 10, message: 'halfway' });
+        return { success: true };
+      });
+
+      const request: CallToolRequest = {
+        method: 'tools/call',
+        params: {
+          name: 'stateset_test_tool',
+          arguments: {},
+          _meta: { progressToken: 'token-1' },
+        },
+      };
+
+      await handleToolCall(mockClient, request, { sendNotification });
+
+      expect(sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: expect.objectContaining({
+          progressToken: 'token-1',
+          progress: 5,
+          total: 10,
+          message: 'halfway',
+        }),
+      });
+    });
+
+    it('should not offer progress reporting without a progress token', async () => {
+      const request: CallToolRequest = {
+        method: 'tools/call',
+        params: { name: 'stateset_test_tool', arguments: {} },
+      };
+
+      await handleToolCall(mockClient, request, { sendNotification: jest.fn() as any });
+
+      expect(mockHandler.mock.calls[0][2].reportProgress).toBeUndefined();
+    });
+
+    it('should not call the handler when the request is already cancelled', async () => {
+      const controller = new AbortController();
+      controller.abort('User cancelled');
+
+      const request: CallToolRequest = {
+        method: 'tools/call',
+        params: { name: 'stateset_test_tool', arguments: {} },
+      };
+
+      await expect(
+        handleToolCall(mockClient, request, { signal: controller.signal })
+      ).rejects.toThrow("Operation 'stateset_test_tool' was cancelled: User cancelled");
+      expect(mockHandler).not.toHaveBeenCalled();
+    });
+
+    it('should expose the cancellation signal to client calls made by the handler', async () => {
+      const { getAbortSignal } = require('../../src/core/request-context');
+      const controller = new AbortController();
+      let handlerSignal: AbortSignal | undefined;
+      mockHandler.mockImplementation(async () => {
+        handlerSignal = getAbortSignal();
+        return { success: true };
+      });
+
+      const request: CallToolRequest = {
+        method: 'tools/call',
+        params: { name: 'stateset_test_tool', arguments: {} },
+      };
+
+      await handleToolCall(mockClient, request, { signal: controller.signal });
+
+      expect(handlerSignal).toBe(controller.signal);
+    });
+
+    it('should run destructive tools once the user confirms', async () => {
+      const { toolHandlers } = require('../../src/tools/registry');
+      const deleteHandler = toolHandlers.get('stateset_delete_order');
+      const elicitInput = (jest.fn() as any).mockResolvedValue({
+        action: 'accept',
+        content: { confirm: true },
+      });
+
+      const request: CallToolRequest = {
+        method: 'tools/call',
+        params: { name: 'stateset_delete_order', arguments: { order_id: 'ORD-1' } },
+      };
+
+      const result = await handleToolCall(mockClient, request, { elicitInput });
+
+      expect(elicitInput).toHaveBeenCalledTimes(1);
+      expect(deleteHandler).toHaveBeenCalled();
+      expect(result).toEqual({ deleted: true });
+    });
+
+    it('should return a tool error when the user declines a destructive tool', async () => {
+      const { toolHandlers } = require('../../src/tools/registry');
+      const deleteHandler = toolHandlers.get('stateset_delete_order');
+      const elicitInput = (jest.fn() as any).mockResolvedValue({ action: 'decline' });
+
+      const request: CallToolRequest = {
+        method: 'tools/call',
+        params: { name: 'stateset_delete_order', arguments: { order_id: 'ORD-1' } },
+      };
+
+      const result = await handleToolCall(mockClient, request, { elicitInput });
+
+      expect(deleteHandler).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        content: [{ type: 'text', text: 'stateset_delete_order was declined by the user' }],
+        isError: true,
+      });
+    });
+
+    it('should not ask for confirmation for regular tools', async () => {
+      const elicitInput = jest.fn() as any;
+
+      const request: CallToolRequest = {
+        method: 'tools/call',
+        params: { name: 'stateset_test_tool', arguments: {} },
+      };
+
+      await handleToolCall(mockClient, request, { elicitInput });
+
+      expect(elicitInput).not.toHaveBeenCalled();
+      expect(mockHandler).toHaveBeenCalled();
+    });
+
     it('should log tool execution details', async () => {
       const { logger } = require('../../src/utils/logger');
 
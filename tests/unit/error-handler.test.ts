@@ -1,6 +1,7 @@
 import { describe, it, expect, jest } from '@jest/globals';
 import { handleError, APIError } from '../../src/middleware/error-handler';
 import { AxiosError } from 'axios';
+import { CancellationError } from '../../src/core/cancellation';
 
 jest.mock('@utils/logger');
 
@@ -62,4 +63,12 @@ describe('Error Handler', () => {
     expect(result.statusCode).toBe(400);
     expect(result.code).toBe('BAD_REQUEST');
   });
+
+  it('should map cancelled requests to a REQUEST_CANCELLED error', () => {
+    const result = handleError(new CancellationError('getOrder', 'User cancelled'));
+
+    expect(result.statusCode).toBe(499);
+    expect(result.code).toBe('REQUEST_CANCELLED');
+    expect(result.message).toContain('User cancelled');
+  });
 });
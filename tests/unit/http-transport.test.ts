@@ -0,0 +1,157 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import type { AddressInfo } from 'net';
+import type { Server as NodeHttpServer } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+jest.mock('../../src/config', () => ({
+  config: {
+    security: {
+      apiKey: undefined,
+      allowedOrigins: ['*'],
+      ipWhitelist: [],
+      rateLimitWindowMs: 60000,
+      rateLimitMax: 1000,
+    },
+  },
+}));
+
+jest.mock('../../src/utils/logger', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { createLogger: () => mockLogger, logger: mockLogger };
+});
+
+jest.mock('../../src/core/health', () => ({
+  healthChecker: {
+    expressMiddleware: () => ({
+      health: (_req: any, res: any) => res.status(200).json({ status: 'healthy' }),
+      liveness: (_req: any, res: any) => res.status(200).json({ status: 'healthy' }),
+      readiness: (_req: any, res: any) => res.status(200).json({ status: 'healthy' }),
+    }),
+  },
+}));
+
+import { HttpTransportServer } from '../../src/core/http-transport';
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+const mcpHeaders = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream',
+};
+
+describe('HttpTransportServer', () => {
+  let transport: HttpTransportServer;
+  let listener: NodeHttpServer;
+  let baseUrl: string;
+  let serverFactory: jest.Mock<() => Server>;
+
+  beforeEach(async () => {
+    serverFactory = jest.fn(
+      () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } }),
+    );
+    transport = new HttpTransportServer(serverFactory, { host: '127.0.0.1', port: 0 });
+
+    await new Promise<void>((resolve) => {
+      listener = transport.getApp().listen(0, '127.0.0.1', () => resolve());
+    });
+    baseUrl = `http://127.0.0.1:${(listener.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+    await new Promise<void>((resolve) => {
+      listener.close(() => resolve());
+      listener.closeAllConnections();
+    });
+  });
+
+  it('should serve health probes', async () => {
+    const response = await fetch(`${baseUrl}/health/live`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'healthy' });
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+    expect(serverFactory).not.toHaveBeenCalled();
+  });
+
+  it('should create a session per initialize request', async () => {
+    const first = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    const second = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    await first.text();
+    await second.text();
+
+    expect(first.status).toBe(200);
+    expect(first.headers.get('mcp-session-id')).toBeTruthy();
+    expect(second.headers.get('mcp-session-id')).not.toBe(first.headers.get('mcp-session-id'));
+    expect(serverFactory).toHaveBeenCalledTimes(2);
+    expect(transport.getStats()).toEqual({
+      activeSessions: 2,
+      streamableHttpSessions: 2,
+      sseSessions: 0,
+    });
+  });
+
+  it('should return 404 for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, 'Mcp-Session-Id': 'does-not-exist' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should remove the session on DELETE', async () => {
+    const init = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest),
+    });
+    await init.text();
+    const sessionId = init.headers.get('mcp-session-id') as string;
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'Mcp-Session-Id': sessionId, 'Mcp-Protocol-Version': '2025-03-26' },
+    });
+
+    expect(response.status).toBe(200);
+    expect(transport.getStats().activeSessions).toBe(0);
+  });
+
+  it('should reject SSE messages for unknown sessions', async () => {
+    const response = await fetch(`${baseUrl}/messages?sessionId=unknown`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(404);
+  });
+});
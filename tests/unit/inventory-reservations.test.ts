@@ -0,0 +1,177 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import {
+  InventoryReservationLedger,
+  getLowStock,
+  getReserved,
+  releaseInventory,
+  reservationLedger,
+  reserveInventory,
+} from '../../src/tools/inventory-reservations';
+import { InsufficientInventoryError } from '../../src/middleware/error-handler';
+
+const inventoryId = '123e4567-e89b-12d3-a456-426614174000';
+
+function reservation(quantity: number, referenceId: string, locationId = 1) {
+  return {
+    inventory_id: inventoryId,
+    location_id: locationId,
+    quantity,
+    reference_id: referenceId,
+    reference_type: 'order' as const,
+    reserved_at: '2026-01-01T00:00:00Z',
+  };
+}
+
+describe('InventoryReservationLedger', () => {
+  it('should release the oldest reservations at the location first', () => {
+    const ledger = new InventoryReservationLedger();
+    ledger.reserve(reservation(3, 'order-1'));
+    ledger.reserve(reservation(4, 'order-2', 2));
+    ledger.reserve(reservation(5, 'order-3'));
+
+    expect(ledger.release(inventoryId, 1, 4)).toBe(4);
+    expect(ledger.list(inventoryId).map((r) => [r.reference_id, r.quantity])).toEqual([
+      ['order-2', 4],
+      ['order-3', 4],
+    ]);
+    expect(ledger.openQuantity(inventoryId)).toBe(8);
+  });
+
+  it('should only release the given reference and report what it released', () => {
+    const ledger = new InventoryReservationLedger();
+    ledger.reserve(reservation(3, 'order-1'));
+    ledger.reserve(reservation(5, 'order-2'));
+
+    expect(ledger.release(inventoryId, 1, 10, 'order-2')).toBe(5);
+    expect(ledger.openQuantity(inventoryId)).toBe(3);
+  });
+});
+
+describe('reserveInventory', () => {
+  beforeEach(() => reservationLedger.clear());
+
+  it('should reserve available inventory and record it in the ledger', async () => {
+    const client = {
+      getInventory: jest.fn(async () => ({ id: inventoryId, quantity_on_hand: 10 })),
+      reserveInventory: jest.fn(async () => ({ id: inventoryId })),
+    } as any;
+    const args = {
+      inventory_id: inventoryId,
+      location_id: 1,
+      quantity: 6,
+      reference_id: 'order-1',
+      reference_type: 'order' as const,
+    };
+
+    const result = await reserveInventory(client, args);
+
+    expect(client.reserveInventory).toHaveBeenCalledWith(args);
+    expect(result.availability_check).toBe('best_effort');
+    expect(result.warning).toContain('only reservations made through this server');
+    expect(getReserved({ id: inventoryId } as any)).toBe(6);
+    await expect(reserveInventory(client, { ...args, quantity: 5 })).rejects.toThrow(
+      InsufficientInventoryError,
+    );
+    expect(client.reserveInventory).toHaveBeenCalledTimes(1);
+  });
+
+  it('should check against the reserved quantity the API reports', async () => {
+    reservationLedger.reserve(reservation(6, 'order-1'));
+    const client = {
+      getInventory: jest.fn(async () => ({
+        id: inventoryId,
+        quantity_on_hand: 10,
+        quantity_reserved: 2,
+      })),
+      reserveInventory: jest.fn(async () => ({ id: inventoryId })),
+    } as any;
+
+    const result = await reserveInventory(client, {
+      inventory_id: inventoryId,
+      location_id: 1,
+      quantity: 8,
+      reference_id: 'order-2',
+      reference_type: 'order',
+    });
+
+    expect(result.availability_check).toBe('api');
+    expect(result.warning).toBeUndefined();
+  });
+
+  it('should release through the client and the ledger', async () => {
+    reservationLedger.reserve(reservation(6, 'order-1'));
+    const client = { releaseInventory: jest.fn(async () => ({ id: inventoryId })) } as any;
+
+    await releaseInventory(client, { inventory_id: inventoryId, location_id: 1, quantity: 4 });
+
+    expect(reservationLedger.openQuantity(inventoryId)).toBe(2);
+  });
+});
+
+describe('getLowStock', () => {
+  it('should return unreserved stock at or below the threshold, lowest first', async () => {
+    const client = {
+      listInventories: jest.fn(async () => ({
+        items: [
+          { id: 'a', quantity_on_hand: 20, quantity_reserved: 15 },
+          { id: 'b', quantity_on_hand: 50, reorder_point: 60 },
+          { id: 'c', quantity_on_hand: 40 },
+          { id: 'd', quantity_on_hand: 3, location_id: 2 },
+          { id: 'e', quantity_reserved: 1 },
+        ],
+        metadata: {},
+      })),
+    } as any;
+
+    const result = await getLowStock(client, { location_id: 1 });
+
+    expect(client.listInventories).toHaveBeenCalledWith({ location_id: 1, page: 1, per_page: 100 });
+    expect(result.items.map((item) => [item.id, item.available, item.threshold])).toEqual([
+      ['a', 5, 10],
+      ['b', 50, 60],
+    ]);
+    expect(result.items.map((item) => item.availability_check)).toEqual(['api', 'best_effort']);
+    expect(result.warning).toContain('best-effort');
+    // Without an on-hand quantity there's nothing to compare
+    expect(result.skipped).toEqual(['e']);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should page through inventory', async () => {
+    const fullPage = Array.from({ length: 100 }, (_value, index) => ({
+      id: `inv-${index}`,
+      quantity_on_hand: 100,
+      quantity_reserved: 0,
+    }));
+    const client = {
+      listInventories: jest
+        .fn(async () => ({
+          items: [{ id: 'low', quantity_on_hand: 1 }] as unknown[],
+          metadata: {},
+        }))
+        .mockResolvedValueOnce({ items: fullPage, metadata: {} }),
+    } as any;
+
+    const result = await getLowStock(client, { threshold: 5 });
+
+    expect(client.listInventories).toHaveBeenCalledTimes(2);
+    expect(result.items.map((item) => item.id)).toEqual(['low']);
+    expect(result.skipped).toBeUndefined();
+  });
+});
@@ -76,6 +76,7 @@ jest.mock('../../src/core/cache', () => ({
 // Import after mocks
 import { StateSetMCPClient } from '../../src/services/mcp-client';
 import { Config } from '../../src/types/mcp-api';
+import { createRequestContext, runWithContextAsync } from '../../src/core/request-context';
 
 describe('StateSetMCPClient', () => {
   let client: StateSetMCPClient;
@@ -169,6 +170,24 @@ describe('StateSetMCPClient', () => {
       expect(result).toHaveProperty('id');
     });
 
+    it('should pass the request cancellation signal to axios', async () => {
+      const controller = new AbortController();
+      const context = createRequestContext({ signal: controller.signal });
+
+      await runWithContextAsync(context, () =>
+        client.createOrder({
+          customer_id: '123e4567-e89b-12d3-a456-426614174000',
+          items: [{ product_id: 'prod-1', quantity: 1, unit_price: 100 }],
+        })
+      );
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/orders',
+        expect.any(Object),
+        expect.objectContaining({ signal: controller.signal })
+      );
+    });
+
     it('should list orders', async () => {
       mockAxiosInstance.get.mockResolvedValue({ data: [{ id: 'order-123' }] });
       const result = await client.listOrders({ page: 1, per_page: 10 });
@@ -210,6 +229,25 @@ describe('StateSetMCPClient', () => {
     });
   });
 
+  describe('Work Order Operations', () => {
+    it('should schedule a work order and drop its cached copy', async () => {
+      const { cacheManager } = require('../../src/core/cache');
+      mockAxiosInstance.post.mockResolvedValue({ data: { id: 'wo-1', status: 'scheduled' } });
+
+      await client.scheduleWorkOrder({
+        work_order_id: 'wo-1',
+        scheduled_start: '2026-03-01T08:00:00Z',
+      });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/work-orders/wo-1/schedule',
+        { scheduled_start: '2026-03-01T08:00:00Z' },
+        expect.anything(),
+      );
+      expect(cacheManager.delete).toHaveBeenCalledWith('workorders', 'workorder:wo-1');
+    });
+  });
+
   describe('Customer Operations', () => {
     beforeEach(() => {
       mockAxiosInstance.get.mockResolvedValue({ data: { id: 'cust-123' } });
@@ -261,6 +299,86 @@ describe('StateSetMCPClient', () => {
     });
   });
 
+  describe('Cart Operations', () => {
+    const cart = {
+      id: 'cart-1',
+      customer_id: 'cust-1',
+      status: 'active',
+      items: [
+        { id: 'item-1', product_variant_id: 'var-1', quantity: 3, unit_price: 19.99 },
+        { id: 'item-2', product_variant_id: 'var-2', quantity: 1, price: 0.1 },
+      ],
+    };
+
+    it('should compute line totals, item count and subtotal', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: cart });
+
+      const result = await client.getCart('cart-1');
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith('/carts/cart-1', expect.any(Object));
+      expect(result.items.map((item) => item.line_total)).toEqual([59.97, 0.1]);
+      expect(result.items[1]?.unit_price).toBe(0.1);
+      expect(result.item_count).toBe(4);
+      expect(result.subtotal).toBe(60.07);
+      expect(result.url).toBe('https://api.stateset.io/v1/dashboard/carts/cart-1');
+      expect(result.metadata).toHaveProperty('apiMetrics');
+    });
+
+    it('should treat a cart without items as empty', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: { id: 'cart-2', customer_id: 'cust-1' } });
+
+      const result = await client.createCart({ customer_id: 'cust-1' });
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/carts',
+        { customer_id: 'cust-1' },
+        expect.any(Object)
+      );
+      expect(result.items).toEqual([]);
+      expect(result.item_count).toBe(0);
+      expect(result.subtotal).toBe(0);
+    });
+
+    it('should send item changes to the cart item endpoints', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: cart });
+      mockAxiosInstance.patch.mockResolvedValue({ data: cart });
+      mockAxiosInstance.delete.mockResolvedValue({ data: cart });
+
+      await client.addCartItem({ cart_id: 'cart-1', product_variant_id: 'var-1', quantity: 2 });
+      await client.updateCartItem({ cart_id: 'cart-1', item_id: 'item-1', quantity: 5 });
+      await client.removeCartItem({ cart_id: 'cart-1', item_id: 'item-2' });
+      await client.clearCart('cart-1');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/carts/cart-1/items',
+        { product_variant_id: 'var-1', quantity: 2 },
+        expect.any(Object)
+      );
+      expect(mockAxiosInstance.patch).toHaveBeenCalledWith(
+        '/carts/cart-1/items/item-1',
+        { quantity: 5 },
+        expect.any(Object)
+      );
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith(
+        '/carts/cart-1/items/item-2',
+        expect.any(Object)
+      );
+      expect(mockAxiosInstance.delete).toHaveBeenCalledWith('/carts/cart-1/items', expect.any(Object));
+    });
+
+    it('should compute totals for every listed cart', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: [cart] });
+
+      const result = await client.listCarts({ customer_id: 'cust-1' });
+
+      expect(mockAxiosInstance.get).toHaveBeenCalledWith(
+        '/carts',
+        expect.objectContaining({ params: { customer_id: 'cust-1' } })
+      );
+      expect(result.items[0]?.subtotal).toBe(60.07);
+    });
+  });
+
   describe('Health and Metrics', () => {
     it('should get API metrics', () => {
       const metrics = client.getApiMetrics();
@@ -300,6 +418,26 @@ describe('StateSetMCPClient', () => {
     });
   });
 
+  describe('Generic requests', () => {
+    it('should wrap array responses in a list envelope', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: [{ id: 'user-1' }] });
+
+      const result: any = await client.request('GET', '/users');
+
+      expect(result.items).toEqual([{ id: 'user-1' }]);
+      expect(result.metadata).toHaveProperty('apiMetrics');
+    });
+
+    it('should enrich object responses', async () => {
+      mockAxiosInstance.get.mockResolvedValue({ data: { id: 'user-1' } });
+
+      const result: any = await client.request('GET', '/users/user-1');
+
+      expect(result.id).toBe('user-1');
+      expect(result.metadata).toHaveProperty('apiMetrics');
+    });
+  });
+
   describe('Error handling', () => {
     it('should handle API errors', async () => {
       const axiosError = {
@@ -0,0 +1,137 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { ServerNotification } from '@modelcontextprotocol/sdk/types.js';
+import { McpLoggingManager, DEFAULT_LOGGING_LEVEL } from '../../src/core/mcp-logging';
+import { createRequestContext, runWithContextAsync } from '../../src/core/request-context';
+import { createLogger } from '../../src/utils/logger';
+
+function createSession(): Server {
+  return {} as Server;
+}
+
+function createSender() {
+  return jest.fn(async (_notification: ServerNotification) => undefined);
+}
+
+describe('McpLoggingManager', () => {
+  it('should use the default level until the session sets one', () => {
+    const manager = new McpLoggingManager();
+    const server = createSession();
+
+    expect(manager.getLevel(server)).toBe(DEFAULT_LOGGING_LEVEL);
+    manager.setLevel(server, 'debug');
+    expect(manager.getLevel(server)).toBe('debug');
+
+    manager.removeServer(server);
+    expect(manager.getLevel(server)).toBe(DEFAULT_LOGGING_LEVEL);
+  });
+
+  it('should only forward records at or above the session level', () => {
+    const manager = new McpLoggingManager();
+    const server = createSession();
+    const send = createSender();
+    manager.setLevel(server, 'warning');
+
+    const forward = manager.createForwarder(server, send);
+    forward('debug', 'Cache miss', {});
+    forward('info', 'API request completed', {});
+    forward('warn', 'Retrying API request', { attempt: 1 });
+    forward('fatal', 'Out of memory', {});
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(send.mock.calls[0]?.[0]).toEqual({
+      method: 'notifications/message',
+      params: {
+        level: 'warning',
+        logger: undefined,
+        data: { message: 'Retrying API request', attempt: 1 },
+      },
+    });
+    expect(send.mock.calls[1]?.[0]).toMatchObject({ params: { level: 'critical' } });
+  });
+
+  it('should not forward metrics', () => {
+    const manager = new McpLoggingManager();
+    const server = createSession();
+    const send = createSender();
+    manager.setLevel(server, 'debug');
+
+    manager.createForwarder(server, send)('metric', 'Metric: api.duration', {});
+
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should keep levels separate per session', () => {
+    const manager = new McpLoggingManager();
+    const verbose = createSession();
+    const quiet = createSession();
+    const verboseSend = createSender();
+    const quietSend = createSender();
+    manager.setLevel(verbose, 'debug');
+    manager.setLevel(quiet, 'error');
+
+    manager.createForwarder(verbose, verboseSend)('info', 'Order created', {});
+    manager.createForwarder(quiet, quietSend)('info', 'Order created', {});
+
+    expect(verboseSend).toHaveBeenCalledTimes(1);
+    expect(quietSend).not.toHaveBeenCalled();
+  });
+
+  it('should mask sensitive fields and serialize errors', () => {
+    const manager = new McpLoggingManager();
+    const server = createSession();
+    const send = createSender();
+
+    manager.createForwarder(server, send)('error', 'API request failed', {
+      module: 'mcp-client',
+      api_key: 'sk_live_12345678',
+      request: { authorization: 'Bearer abc' },
+      error: new TypeError('socket hang up'),
+    });
+
+    expect(send.mock.calls[0]?.[0]).toEqual({
+      method: 'notifications/message',
+      params: {
+        level: 'error',
+        logger: 'mcp-client',
+        data: {
+          message: 'API request failed',
+          api_key: '***5678',
+          request: { authorization: '*** abc' },
+          error: { name: 'TypeError', message: 'socket hang up' },
+        },
+      },
+    });
+  });
+
+  it('should ignore delivery failures', async () => {
+    const manager = new McpLoggingManager();
+    const server = createSession();
+    const send = jest.fn(async (_notification: ServerNotification) => {
+      throw new Error('Not connected');
+    });
+
+    expect(() =>
+      manager.createForwarder(server, send)('error', 'Tool execution failed', {}),
+    ).not.toThrow();
+    await Promise.resolve();
+  });
+});
+
+describe('Logger forwarding', () => {
+  it('should forward records written inside a request context', async () => {
+    const forwardLog = jest.fn();
+    const logger = createLogger('test-module');
+
+    await runWithContextAsync(createRequestContext({ forwardLog }), async () => {
+      logger.warn('Inside request', { orderId: 'ORD-1' });
+    });
+    logger.warn('Outside request');
+
+    expect(forwardLog).toHaveBeenCalledTimes(1);
+    expect(forwardLog).toHaveBeenCalledWith('warn', 'Inside request', {
+      module: 'test-module',
+      orderId: 'ORD-1',
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import {
+  addOrderItem,
+  archiveOrder,
+  calculateOrderTotals,
+  getOrderNextSteps,
+  removeOrderItem,
+  setOrderStatus,
+  updateOrderItem,
+} from '../../src/tools/order-lifecycle';
+import { InvalidStateTransitionError } from '../../src/middleware/error-handler';
+
+describe('calculateOrderTotals', () => {
+  it('should total items from unit_price and tax_rate, rounding tax per line', () => {
+    expect(
+      calculateOrderTotals([
+        { id: 'i1', quantity: 3, unit_price: 19.99, tax_rate: 0.0825 },
+        { id: 'i2', quantity: 1, price: '5.5' },
+        { id: 'i3', quantity: 2, unit_price: 0.35, tax_rate: 0.07 },
+      ] as any[]),
+    ).toEqual({ item_count: 6, subtotal: 66.17, tax_amount: 5, total_amount: 71.17 });
+  });
+
+  it('should return zero totals for an order without items', () => {
+    expect(calculateOrderTotals([])).toEqual({
+      item_count: 0,
+      subtotal: 0,
+      tax_amount: 0,
+      total_amount: 0,
+    });
+  });
+});
+
+describe('order item changes', () => {
+  function mockClient(status: string, items: unknown[]) {
+    return {
+      getOrder: jest.fn(async () => ({ id: 'ord-1', status })),
+      getProduct: jest.fn(async () => ({ id: 'prod-1', price: 12.5 })),
+      addOrderItem: jest.fn(async () => ({ id: 'item-9' })),
+      updateOrderItem: jest.fn(async () => ({ id: 'item-1' })),
+      removeOrderItem: jest.fn(async () => ({ id: 'item-1' })),
+      getOrderItems: jest.fn(async () => ({ items, metadata: {} })),
+      updateOrderTotals: jest.fn(async (orderId: string, totals: object) => ({
+        id: orderId,
+        status,
+        ...totals,
+      })),
+    } as any;
+  }
+
+  it('should price new items from the product and recalculate totals', async () => {
+    const client = mockClient('pending', [{ id: 'item-9', quantity: 2, unit_price: 12.5 }]);
+
+    const order = await addOrderItem(client, {
+      order_id: 'ord-1',
+      product_id: 'prod-1',
+      quantity: 2,
+      tax_rate: 0.1,
+    });
+
+    expect(client.addOrderItem).toHaveBeenCalledWith({
+      order_id: 'ord-1',
+      product_id: 'prod-1',
+      quantity: 2,
+      tax_rate: 0.1,
+      unit_price: 12.5,
+    });
+    expect(client.updateOrderTotals).toHaveBeenCalledWith('ord-1', {
+      subtotal: 25,
+      tax_amount: 0,
+      total_amount: 25,
+    });
+    expect(order).toMatchObject({ id: 'ord-1', item_count: 2, subtotal: 25 });
+  });
+
+  it('should change quantities and remove items on orders that have not shipped', async () => {
+    const client = mockClient('processing', [{ id: 'item-2', quantity: 1, unit_price: 10 }]);
+
+    await updateOrderItem(client, { order_id: 'ord-1', item_id: 'item-1', quantity: 4 });
+    const order = await removeOrderItem(client, { order_id: 'ord-1', item_id: 'item-1' });
+
+    expect(client.updateOrderItem).toHaveBeenCalledWith({
+      order_id: 'ord-1',
+      item_id: 'item-1',
+      quantity: 4,
+    });
+    expect(client.removeOrderItem).toHaveBeenCalledWith('ord-1', 'item-1');
+    expect(order.total_amount).toBe(10);
+  });
+
+  it('should not change items once the order has shipped', async () => {
+    const client = mockClient('shipped', []);
+
+    await expect(removeOrderItem(client, { order_id: 'ord-1', item_id: 'item-1' })).rejects.toThrow(
+      InvalidStateTransitionError,
+    );
+    expect(client.removeOrderItem).not.toHaveBeenCalled();
+    expect(client.updateOrderTotals).not.toHaveBeenCalled();
+  });
+});
+
+describe('order status transitions', () => {
+  it('should follow the order lifecycle', async () => {
+    const client = {
+      getOrder: jest.fn(async () => ({ id: 'ord-1', status: 'processing' })),
+      updateOrderStatus: jest.fn(async () => ({ id: 'ord-1', status: 'shipped' })),
+    } as any;
+
+    await setOrderStatus(client, 'ord-1', 'shipped');
+    expect(client.updateOrderStatus).toHaveBeenCalledWith('ord-1', 'shipped');
+
+    await expect(setOrderStatus(client, 'ord-1', 'pending')).rejects.toThrow(
+      InvalidStateTransitionError,
+    );
+  });
+
+  it('should leave unknown statuses for the API to validate', async () => {
+    const client = {
+      getOrder: jest.fn(async () => ({ id: 'ord-1', status: 'on_backorder' })),
+      archiveOrder: jest.fn(async () => ({ id: 'ord-1', status: 'archived' })),
+    } as any;
+
+    await archiveOrder(client, { order_id: 'ord-1', reason_code: 'other' });
+
+    expect(client.archiveOrder).toHaveBeenCalledWith({ order_id: 'ord-1', reason_code: 'other' });
+  });
+
+  it('should only archive finished orders', async () => {
+    const client = {
+      getOrder: jest.fn(async () => ({ id: 'ord-1', status: 'pending' })),
+      archiveOrder: jest.fn(),
+    } as any;
+
+    await expect(
+      archiveOrder(client, { order_id: 'ord-1', reason_code: 'fulfilled' }),
+    ).rejects.toThrow("Cannot archive for order 'ord-1' in state 'pending'");
+  });
+
+  it('should list each next step tool once', () => {
+    expect(getOrderNextSteps('processing')).toEqual([
+      'stateset_add_order_item',
+      'stateset_update_order_status',
+      'stateset_cancel_order',
+    ]);
+    expect(getOrderNextSteps('archived')).toEqual([]);
+    expect(getOrderNextSteps('unknown')).toBeUndefined();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { getToolOutputSchema, StateSetResponseSchema } from '../../src/tools/output-schemas';
+import { toCallToolResult } from '../../src/tools/dispatcher';
+
+const apiMetrics = {
+  totalRequests: 3,
+  requestsInLastHour: 3,
+  averageRequestTime: 120,
+  queueLength: 0,
+  lastRequestTime: '2024-01-01T00:00:00.000Z',
+};
+
+describe('Tool output schemas', () => {
+  it('should accept enriched records', () => {
+    const result = { id: 'ord-1', status: 'pending', custom: true, metadata: { apiMetrics } };
+
+    expect(getToolOutputSchema('stateset_get_order').safeParse(result).success).toBe(true);
+  });
+
+  it('should require the list envelope for list tools', () => {
+    const schema = getToolOutputSchema('stateset_list_orders');
+
+    expect(schema.safeParse({ items: [{ id: 'ord-1' }], metadata: { apiMetrics } }).success).toBe(
+      true,
+    );
+    expect(schema.safeParse({ id: 'ord-1', metadata: { apiMetrics } }).success).toBe(false);
+  });
+
+  it('should describe batch results', () => {
+    const result = {
+      success: 1,
+      failed: 1,
+      results: [
+        { index: 0, success: true, data: { id: 'ord-1' } },
+        { index: 1, success: false, error: 'Invalid order' },
+      ],
+      duration: 40,
+    };
+
+    expect(getToolOutputSchema('stateset_csv_import').safeParse(result).success).toBe(true);
+  });
+
+  it('should fall back to the record envelope for other tools', () => {
+    expect(getToolOutputSchema('stateset_get_user')).toBe(StateSetResponseSchema);
+  });
+});
+
+describe('toCallToolResult', () => {
+  it('should return objects as structured content with a text fallback', () => {
+    const data = { id: 'ord-1', metadata: { apiMetrics } };
+
+    const result = toCallToolResult(data);
+
+    expect(result.structuredContent).toBe(data);
+    expect(result.content).toEqual([{ type: 'text', text: JSON.stringify(data, null, 2) }]);
+  });
+
+  it('should wrap arrays in an items envelope', () => {
+    const result = toCallToolResult([{ id: 'a' }]);
+
+    expect(result.structuredContent).toEqual({ items: [{ id: 'a' }] });
+  });
+
+  it('should pass through results that already have content', () => {
+    const existing = { content: [{ type: 'text' as const, text: 'done' }] };
+
+    expect(toCallToolResult(existing)).toBe(existing);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import {
+  getCapturedAmount,
+  getOrderBalance,
+  getRefundedAmount,
+  reconcileOrderBalance,
+  refundPayment,
+} from '../../src/tools/payment-reconciliation';
+import { RefundExceedsCapturedError } from '../../src/middleware/error-handler';
+
+function payment(fields: Record<string, unknown>) {
+  return { id: 'pay-1', ...fields } as any;
+}
+
+describe('getCapturedAmount', () => {
+  it('should use the captured amount, or the full amount once captured', () => {
+    expect(
+      getCapturedAmount(payment({ amount: 100, captured_amount: 80, status: 'authorized' })),
+    ).toBe(80);
+    expect(getCapturedAmount(payment({ amount: 100, status: 'succeeded' }))).toBe(100);
+    expect(getCapturedAmount(payment({ amount: 100, status: 'authorized' }))).toBe(0);
+  });
+});
+
+describe('getRefundedAmount', () => {
+  it('should ignore failed refunds and trust the larger total', () => {
+    const refunds = [
+      { id: 'r1', amount: 20 },
+      { id: 'r2', amount: 15, status: 'failed' },
+      { id: 'r3', refund_amount: '5.5', status: 'succeeded' },
+    ] as any[];
+
+    expect(getRefundedAmount(payment({}), refunds)).toBe(25.5);
+    expect(getRefundedAmount(payment({ refunded_amount: 30 }), refunds)).toBe(30);
+  });
+});
+
+describe('refundPayment', () => {
+  function mockClient(payment: Record<string, unknown>, refunds: unknown[] = []) {
+    return {
+      getPayment: jest.fn(async () => ({ id: 'pay-1', ...payment })),
+      listPaymentRefunds: jest.fn(async () => ({ items: refunds, metadata: {} })),
+      refundPayment: jest.fn(async () => ({ id: 'ref-9', status: 'pending' })),
+    } as any;
+  }
+
+  it('should refund up to the captured amount less earlier refunds', async () => {
+    const client = mockClient({ status: 'captured', amount: 120 }, [{ amount: 20 }]);
+
+    const refund = await refundPayment(client, {
+      payment_id: 'pay-1',
+      refund_amount: 75.25,
+      refund_reason: 'Late delivery',
+    });
+
+    expect(refund).toMatchObject({ id: 'ref-9', refundable_amount: 24.75 });
+  });
+
+  it('should reject refunds beyond what is left to refund', async () => {
+    const client = mockClient({ status: 'captured', amount: 120 }, [{ amount: 100 }]);
+
+    await expect(
+      refundPayment(client, { payment_id: 'pay-1', refund_amount: 25, refund_reason: 'Goodwill' }),
+    ).rejects.toThrow(RefundExceedsCapturedError);
+    expect(client.refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('should not refund payments that were never captured', async () => {
+    const client = mockClient({ status: 'authorized', amount: 50 });
+
+    await expect(
+      refundPayment(client, { payment_id: 'pay-1', refund_amount: 10, refund_reason: 'Test' }),
+    ).rejects.toThrow('only 0 of the captured amount has not been refunded');
+  });
+});
+
+describe('reconcileOrderBalance', () => {
+  const order = { id: 'ord-1', total_amount: 200, currency: 'USD' } as any;
+
+  function balance(payments: { payment: any; refunds: any[] }[], invoices: any[] = []) {
+    return reconcileOrderBalance({ order, payments, invoices });
+  }
+
+  it('should report partially paid orders with what is still owed', () => {
+    const result = balance(
+      [
+        { payment: { id: 'p1', status: 'captured', amount: 150 }, refunds: [{ amount: 30 }] },
+        { payment: { id: 'p2', status: 'authorized', amount: 50 }, refunds: [] },
+      ],
+      [
+        { id: 'inv-1', status: 'sent', total_amount: 200 },
+        { id: 'inv-2', status: 'void', total_amount: 200 },
+      ],
+    );
+
+    expect(result).toMatchObject({
+      order_total: 200,
+      invoiced: 200,
+      captured: 150,
+      refunded: 30,
+      net_paid: 120,
+      balance_due: 80,
+      status: 'partially_paid',
+    });
+    expect(result.payments[1]).toEqual({
+      payment_id: 'p2',
+      status: 'authorized',
+      amount: 50,
+      captured: 0,
+      refunded: 0,
+    });
+  });
+
+  it('should tell paid, overpaid and unpaid orders apart', () => {
+    const paid = (amount: number) => ({
+      payment: { id: 'p1', status: 'succeeded', amount },
+      refunds: [],
+    });
+
+    expect(balance([paid(200)]).status).toBe('paid');
+    expect(balance([paid(200.004)]).status).toBe('paid');
+    expect(balance([paid(250)])).toMatchObject({ status: 'overpaid', balance_due: -50 });
+    expect(balance([]).status).toBe('unpaid');
+  });
+});
+
+describe('getOrderBalance', () => {
+  it("should reconcile the order's own payments, refunds and invoices", async () => {
+    const client = {
+      getOrder: jest.fn(async () => ({ id: 'ord-1', total_amount: 90 })),
+      listPayments: jest.fn(async () => ({
+        items: [
+          { id: 'p1', order_id: 'ord-1', status: 'captured', amount: 90 },
+          { id: 'p9', order_id: 'ord-9', status: 'captured', amount: 500 },
+        ],
+        metadata: {},
+      })),
+      listPaymentRefunds: jest.fn(async () => ({ items: [{ amount: 10 }], metadata: {} })),
+      listInvoices: jest.fn(async () => ({
+        items: [{ id: 'inv-1', order_id: 'ord-1', total_amount: 90 }],
+        metadata: {},
+      })),
+    } as any;
+
+    const result = await getOrderBalance(client, 'ord-1');
+
+    expect(client.listPayments).toHaveBeenCalledWith({
+      order_id: 'ord-1',
+      page: 1,
+      per_page: 100,
+    });
+    expect(client.listPaymentRefunds).toHaveBeenCalledWith('p1');
+    expect(result).toMatchObject({
+      net_paid: 80,
+      balance_due: 10,
+      status: 'partially_paid',
+      truncated: false,
+    });
+  });
+
+  it('should keep records that match as strings or omit the order when filtered', async () => {
+    const client = {
+      getOrder: jest.fn(async () => ({ id: '42', total_amount: 90 })),
+      listPayments: jest.fn(async () => ({
+        items: [
+          { id: 'p1', order_id: 42, status: 'captured', amount: 50 },
+          { id: 'p2', status: 'captured', amount: 40 },
+        ],
+        metadata: {},
+      })),
+      listPaymentRefunds: jest.fn(async () => ({ items: [], metadata: {} })),
+      listInvoices: jest.fn(async () => ({
+        items: [{ id: 'inv-1', total_amount: 90 }],
+        metadata: {},
+      })),
+    } as any;
+
+    const result = await getOrderBalance(client, '42');
+
+    expect(result.payments.map((payment) => payment.payment_id)).toEqual(['p1', 'p2']);
+    expect(result.invoices.map((invoice) => invoice.invoice_id)).toEqual(['inv-1']);
+    expect(result).toMatchObject({ net_paid: 90, status: 'paid' });
+  });
+});
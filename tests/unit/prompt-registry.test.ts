@@ -0,0 +1,69 @@
+import { describe, it, expect } from '@jest/globals';
+import { ZodError } from 'zod';
+import { promptHandlers, listPrompts } from '../../src/core/prompt-registry';
+
+describe('Prompt Registry', () => {
+  it('should register the standard operating procedure prompts', () => {
+    expect(Array.from(promptHandlers.keys())).toEqual(
+      expect.arrayContaining([
+        'stateset_triage_return',
+        'stateset_investigate_late_shipment',
+        'stateset_weekly_inventory_review',
+      ]),
+    );
+  });
+
+  it('should derive prompt arguments from the argument schema', () => {
+    const triage = listPrompts().find((prompt) => prompt.name === 'stateset_triage_return');
+
+    expect(triage?.arguments).toEqual([
+      expect.objectContaining({ name: 'order_id', required: true }),
+      expect.objectContaining({ name: 'reason', required: false }),
+      expect.objectContaining({ name: 'rma_status', required: false }),
+    ]);
+    expect(triage?.arguments?.[0]?.description).toBeDefined();
+  });
+
+  it('should embed resource links for the referenced records', () => {
+    const result = promptHandlers.get('stateset_triage_return')!.handler({ order_id: 'ORD-123' });
+
+    expect(result.messages[0]?.content).toEqual(
+      expect.objectContaining({
+        type: 'text',
+        text: expect.stringContaining('stateset-order:///ORD-123'),
+      }),
+    );
+    expect(result.messages).toContainEqual(
+      expect.objectContaining({
+        content: expect.objectContaining({
+          type: 'resource_link',
+          uri: 'stateset-order:///ORD-123',
+        }),
+      }),
+    );
+  });
+
+  it('should link the shipment in the late shipment prompt', () => {
+    const result = promptHandlers
+      .get('stateset_investigate_late_shipment')!
+      .handler({ shipment_id: 'SHIP-9' });
+
+    expect(result.messages).toContainEqual(
+      expect.objectContaining({
+        content: expect.objectContaining({ uri: 'stateset-shipment:///SHIP-9' }),
+      }),
+    );
+  });
+
+  it('should reject missing required arguments', () => {
+    expect(() => promptHandlers.get('stateset_triage_return')!.handler({})).toThrow(ZodError);
+  });
+
+  it('should allow the inventory review without arguments', () => {
+    const result = promptHandlers.get('stateset_weekly_inventory_review')!.handler({});
+
+    expect(result.messages[0]?.content).toEqual(
+      expect.objectContaining({ text: expect.stringContaining('threshold 10') }),
+    );
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import {
+  MAX_PAGES,
+  PAGE_SIZE,
+  fetchAllPages,
+  filterByReference,
+  roundToCents,
+  toNumber,
+} from '../../src/utils/records';
+import type { StateSetResponse } from '../../src/types/mcp-api';
+
+function record(id: string, fields: Record<string, unknown> = {}): StateSetResponse {
+  return { id, status: 'open', created_at: '', updated_at: '', url: '', ...fields };
+}
+
+function records(count: number, offset = 0): StateSetResponse[] {
+  return Array.from({ length: count }, (_value, index) => record(`r${offset + index}`));
+}
+
+describe('records helpers', () => {
+  it('reads numbers from numbers and numeric strings', () => {
+    expect(toNumber(12.5)).toBe(12.5);
+    expect(toNumber('7')).toBe(7);
+    expect(toNumber('abc')).toBeUndefined();
+    expect(toNumber(undefined)).toBeUndefined();
+    expect(roundToCents(10.005 + 0.001)).toBe(10.01);
+  });
+
+  it('pages until a page comes back short', async () => {
+    const fetchPage = jest.fn(async (page: number) => ({
+      items: page === 1 ? records(PAGE_SIZE) : records(3, PAGE_SIZE),
+    }));
+
+    const result = await fetchAllPages('orders', fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(result.items).toHaveLength(PAGE_SIZE + 3);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('reports truncation when paging stops at the limit', async () => {
+    const fetchPage = jest.fn(async () => ({ items: records(PAGE_SIZE) }));
+
+    const result = await fetchAllPages('orders', fetchPage);
+
+    expect(fetchPage).toHaveBeenCalledTimes(MAX_PAGES);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('keeps unreferenced records only when the filter evidently applied', () => {
+    const filtered = [record('a', { order_id: 'ord-1' }), record('b')];
+    const unfiltered = [
+      record('a', { order_id: 1 }),
+      record('b'),
+      record('c', { order_id: 'ord-2' }),
+    ];
+
+    expect(filterByReference(filtered, 'ord-1', (record) => record.order_id)).toEqual(filtered);
+    expect(filterByReference(unfiltered, '1', (record) => record.order_id)).toEqual([
+      unfiltered[0],
+    ]);
+  });
+});
@@ -132,6 +132,705 @@ describe('Tool Registry', () => {
     });
   });
 
+  describe('Cart Operations', () => {
+    it('should have cart tool handlers registered', () => {
+      expect(toolHandlers.has('stateset_create_cart')).toBe(true);
+      expect(toolHandlers.has('stateset_get_cart')).toBe(true);
+      expect(toolHandlers.has('stateset_delete_cart')).toBe(true);
+      expect(toolHandlers.has('stateset_add_cart_item')).toBe(true);
+      expect(toolHandlers.has('stateset_update_cart_item')).toBe(true);
+      expect(toolHandlers.has('stateset_remove_cart_item')).toBe(true);
+      expect(toolHandlers.has('stateset_clear_cart')).toBe(true);
+      expect(toolHandlers.has('stateset_list_carts')).toBe(true);
+    });
+
+    it('should broadcast cart changes on the carts channel', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const cart = { id: 'cart-1', items: [], item_count: 0, subtotal: 0 };
+      const client = { addCartItem: (jest.fn() as any).mockResolvedValue(cart) } as any;
+      const args = { cart_id: 'cart-1', product_variant_id: 'var-1', quantity: 1 };
+
+      const result = await toolHandlers.get('stateset_add_cart_item')!(client, args);
+
+      expect(client.addCartItem).toHaveBeenCalledWith(args);
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('carts', 'cart-1', 'updated', cart);
+      expect(result).toBe(cart);
+    });
+  });
+
+  describe('Checkout Operations', () => {
+    it('should have checkout lifecycle handlers registered', () => {
+      expect(toolHandlers.has('stateset_create_checkout')).toBe(true);
+      expect(toolHandlers.has('stateset_get_checkout')).toBe(true);
+      expect(toolHandlers.has('stateset_update_checkout')).toBe(true);
+      expect(toolHandlers.has('stateset_complete_checkout')).toBe(true);
+      expect(toolHandlers.has('stateset_cancel_checkout')).toBe(true);
+    });
+
+    it('should not complete a checkout that has no payment yet', async () => {
+      const client = {
+        getCheckout: (jest.fn() as any).mockResolvedValue({ id: 'chk-1', status: 'shipping_set' }),
+        completeCheckout: jest.fn(),
+      } as any;
+
+      await expect(
+        toolHandlers.get('stateset_complete_checkout')!(client, { checkout_id: 'chk-1' }),
+      ).rejects.toThrow('Next steps: stateset_update_checkout_customer');
+      expect(client.completeCheckout).not.toHaveBeenCalled();
+    });
+
+    it('should list next steps when getting a checkout', async () => {
+      const client = {
+        getCheckout: (jest.fn() as any).mockResolvedValue({ id: 'chk-1', status: 'completed' }),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_get_checkout')!(client, {
+        checkout_id: 'chk-1',
+      });
+
+      expect(result.next_steps).toEqual([]);
+    });
+  });
+
+  describe('Procurement Workflow Operations', () => {
+    it('should have purchase order and ASN workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_approve_purchase_order')).toBe(true);
+      expect(toolHandlers.has('stateset_cancel_purchase_order')).toBe(true);
+      expect(toolHandlers.has('stateset_receive_purchase_order')).toBe(true);
+      expect(toolHandlers.has('stateset_match_purchase_order')).toBe(true);
+      expect(toolHandlers.has('stateset_mark_asn_in_transit')).toBe(true);
+      expect(toolHandlers.has('stateset_mark_asn_delivered')).toBe(true);
+      expect(toolHandlers.has('stateset_cancel_asn')).toBe(true);
+    });
+
+    it('should broadcast received purchase orders', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const purchaseOrder = { id: 'po-1', status: 'partially_received' };
+      const client = {
+        receivePurchaseOrder: (jest.fn() as any).mockResolvedValue(purchaseOrder),
+      } as any;
+      const args = {
+        purchase_order_id: 'po-1',
+        items: [{ item_id: 'SKU-1', quantity_received: 4 }],
+      };
+
+      const result = await toolHandlers.get('stateset_receive_purchase_order')!(client, args);
+
+      expect(client.receivePurchaseOrder).toHaveBeenCalledWith(args);
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith(
+        'purchase_orders',
+        'po-1',
+        'updated',
+        purchaseOrder,
+      );
+      expect(result).toBe(purchaseOrder);
+    });
+  });
+
+  describe('Supplier Operations', () => {
+    it('should have supplier handlers registered', () => {
+      expect(toolHandlers.has('stateset_create_supplier')).toBe(true);
+      expect(toolHandlers.has('stateset_update_supplier')).toBe(true);
+      expect(toolHandlers.has('stateset_get_supplier')).toBe(true);
+      expect(toolHandlers.has('stateset_delete_supplier')).toBe(true);
+      expect(toolHandlers.has('stateset_list_suppliers')).toBe(true);
+      expect(toolHandlers.has('stateset_supplier_scorecard')).toBe(true);
+    });
+
+    it('should broadcast deleted suppliers', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const client = {
+        deleteSupplier: (jest.fn() as any).mockResolvedValue({ id: 'sup-1' }),
+      } as any;
+
+      await toolHandlers.get('stateset_delete_supplier')!(client, { supplier_id: 'sup-1' });
+
+      expect(client.deleteSupplier).toHaveBeenCalledWith('sup-1');
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('suppliers', 'sup-1', 'deleted', {
+        id: 'sup-1',
+      });
+    });
+  });
+
+  describe('Product Variant Operations', () => {
+    it('should have product variant handlers registered', () => {
+      expect(toolHandlers.has('stateset_get_product_variants')).toBe(true);
+      expect(toolHandlers.has('stateset_create_product_variant')).toBe(true);
+      expect(toolHandlers.has('stateset_update_product_variant_price')).toBe(true);
+      expect(toolHandlers.has('stateset_delete_product_variant')).toBe(true);
+      expect(toolHandlers.has('stateset_bulk_reprice_variants')).toBe(true);
+    });
+
+    it('should broadcast variant price changes on the product', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const variant = { id: 'var-1', product_id: 'prod-1', price: 19.99 };
+      const client = {
+        updateProductVariantPrice: (jest.fn() as any).mockResolvedValue(variant),
+      } as any;
+
+      await toolHandlers.get('stateset_update_product_variant_price')!(client, {
+        variant_id: 'var-1',
+        price: 19.99,
+      });
+
+      expect(client.updateProductVariantPrice).toHaveBeenCalledWith({
+        variant_id: 'var-1',
+        price: 19.99,
+      });
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith(
+        'products',
+        'prod-1',
+        'updated',
+        variant,
+      );
+    });
+
+    it('should not broadcast variant changes when the product is unknown', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const client = {
+        updateProductVariantPrice: (jest.fn() as any).mockResolvedValue({ id: 'var-1' }),
+        deleteProductVariant: (jest.fn() as any).mockResolvedValue({ id: 'var-1' }),
+      } as any;
+      broadcastResourceUpdate.mockClear();
+
+      await toolHandlers.get('stateset_update_product_variant_price')!(client, {
+        variant_id: 'var-1',
+        price: 19.99,
+      });
+      await toolHandlers.get('stateset_delete_product_variant')!(client, { variant_id: 'var-1' });
+
+      expect(broadcastResourceUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Warranty Workflow Operations', () => {
+    it('should have warranty workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_extend_warranty')).toBe(true);
+      expect(toolHandlers.has('stateset_create_warranty_claim')).toBe(true);
+      expect(toolHandlers.has('stateset_approve_warranty_claim')).toBe(true);
+    });
+
+    it('should broadcast extended warranties', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const client = {
+        extendWarranty: (jest.fn() as any).mockResolvedValue({ id: 'war-1' }),
+      } as any;
+
+      await toolHandlers.get('stateset_extend_warranty')!(client, {
+        warranty_id: 'war-1',
+        extension_months: 6,
+      });
+
+      expect(client.extendWarranty).toHaveBeenCalledWith({
+        warranty_id: 'war-1',
+        extension_months: 6,
+      });
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('warranties', 'war-1', 'updated', {
+        id: 'war-1',
+      });
+    });
+
+    it('should only broadcast approved claims when the warranty is known', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const claim = { id: 'claim-1', warranty_id: 'war-1', status: 'approved' };
+      const client = {
+        approveWarrantyClaim: (jest.fn() as any)
+          .mockResolvedValueOnce(claim)
+          .mockResolvedValueOnce({ id: 'claim-2', status: 'approved' }),
+      } as any;
+      broadcastResourceUpdate.mockClear();
+
+      await toolHandlers.get('stateset_approve_warranty_claim')!(client, { claim_id: 'claim-1' });
+      await toolHandlers.get('stateset_approve_warranty_claim')!(client, { claim_id: 'claim-2' });
+
+      expect(broadcastResourceUpdate).toHaveBeenCalledTimes(1);
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('warranties', 'war-1', 'updated', claim);
+    });
+  });
+
+  describe('Inventory Workflow Operations', () => {
+    it('should have inventory workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_reserve_inventory')).toBe(true);
+      expect(toolHandlers.has('stateset_release_inventory')).toBe(true);
+      expect(toolHandlers.has('stateset_get_low_stock')).toBe(true);
+      expect(toolHandlers.has('stateset_get_available_to_promise')).toBe(true);
+    });
+
+    it('should reject reservations larger than the unreserved quantity', async () => {
+      const client = {
+        getInventory: (jest.fn() as any).mockResolvedValue({
+          id: '123e4567-e89b-12d3-a456-426614174000',
+          quantity_on_hand: 10,
+          quantity_reserved: 8,
+        }),
+        reserveInventory: jest.fn(),
+      } as any;
+
+      await expect(
+        toolHandlers.get('stateset_reserve_inventory')!(client, {
+          inventory_id: '123e4567-e89b-12d3-a456-426614174000',
+          location_id: 1,
+          quantity: 5,
+          reference_id: 'order-1',
+          reference_type: 'order',
+        }),
+      ).rejects.toThrow('only 2 available');
+      expect(client.reserveInventory).not.toHaveBeenCalled();
+    });
+
+    it('should broadcast released inventory', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const client = {
+        releaseInventory: (jest.fn() as any).mockResolvedValue({ id: 'inv-1' }),
+      } as any;
+
+      await toolHandlers.get('stateset_release_inventory')!(client, {
+        inventory_id: '123e4567-e89b-12d3-a456-426614174000',
+        location_id: 1,
+        quantity: 2,
+      });
+
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith(
+        'inventory',
+        '123e4567-e89b-12d3-a456-426614174000',
+        'updated',
+        { id: 'inv-1' },
+      );
+    });
+  });
+
+  describe('Analytics Operations', () => {
+    it('should have analytics handlers registered', () => {
+      for (const name of [
+        'stateset_get_dashboard_metrics',
+        'stateset_get_sales_trends',
+        'stateset_get_sales_metrics',
+        'stateset_get_inventory_metrics',
+        'stateset_get_shipment_metrics',
+        'stateset_get_cart_metrics',
+      ]) {
+        expect(toolHandlers.has(name)).toBe(true);
+      }
+    });
+  });
+
+  describe('BOM Workflow Operations', () => {
+    it('should have BOM workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_get_bom_components')).toBe(true);
+      expect(toolHandlers.has('stateset_add_bom_component')).toBe(true);
+      expect(toolHandlers.has('stateset_remove_bom_component')).toBe(true);
+      expect(toolHandlers.has('stateset_explode_bom')).toBe(true);
+    });
+
+    it('should add a component and broadcast the update', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const component = { id: 'comp-1', component_id: 'prod-9', quantity: 2 };
+      const client = {
+        addBOMComponent: (jest.fn() as any).mockResolvedValue(component),
+      } as any;
+      const componentArgs = {
+        bill_of_materials_id: 'bom-1',
+        component_id: 'prod-9',
+        quantity: 2,
+        scrap_percent: 5,
+      };
+
+      const result = await toolHandlers.get('stateset_add_bom_component')!(client, componentArgs);
+
+      expect(client.addBOMComponent).toHaveBeenCalledWith(componentArgs);
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith(
+        'bill_of_materials',
+        'bom-1',
+        'updated',
+        component,
+      );
+      expect(result).toEqual(component);
+    });
+
+    it('should explode a BOM for one unit by default', async () => {
+      const client = {
+        listBillOfMaterials: (jest.fn() as any).mockResolvedValue({ items: [] }),
+        getBOMComponents: (jest.fn() as any).mockResolvedValue({
+          items: [{ component_id: 'prod-9', quantity: 2 }],
+        }),
+        getProduct: (jest.fn() as any).mockResolvedValue({ id: 'prod-9', price: 1.5 }),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_explode_bom')!(client, {
+        bill_of_materials_id: 'bom-1',
+      });
+
+      expect(result).toMatchObject({ quantity: 1, material_cost: 3, cycles: [] });
+    });
+  });
+
+  describe('Payment Workflow Operations', () => {
+    it('should have payment workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_refund_payment')).toBe(true);
+      expect(toolHandlers.has('stateset_get_payments_by_order')).toBe(true);
+      expect(toolHandlers.has('stateset_order_balance')).toBe(true);
+    });
+
+    it('should refund within the captured amount and broadcast the update', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const refund = { id: 'ref-2', status: 'succeeded' };
+      const client = {
+        getPayment: (jest.fn() as any).mockResolvedValue({
+          id: 'pay-1',
+          status: 'captured',
+          amount: 100,
+        }),
+        listPaymentRefunds: (jest.fn() as any).mockResolvedValue({
+          items: [{ id: 'ref-1', amount: 60 }],
+        }),
+        refundPayment: (jest.fn() as any).mockResolvedValue(refund),
+      } as any;
+      const refundArgs = {
+        payment_id: 'pay-1',
+        refund_amount: 40,
+        refund_reason: 'Damaged item',
+      };
+
+      const result = await toolHandlers.get('stateset_refund_payment')!(client, refundArgs);
+
+      expect(client.refundPayment).toHaveBeenCalledWith(refundArgs);
+      expect(result).toEqual({ ...refund, refundable_amount: 0 });
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('payments', 'pay-1', 'updated', result);
+
+      await expect(
+        toolHandlers.get('stateset_refund_payment')!(client, {
+          ...refundArgs,
+          refund_amount: 40.5,
+        }),
+      ).rejects.toThrow("Cannot refund 40.5 of payment 'pay-1'");
+      expect(client.refundPayment).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Return Workflow Operations', () => {
+    const rmaId = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+    it('should have return workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_approve_return')).toBe(true);
+      expect(toolHandlers.has('stateset_restock_return')).toBe(true);
+      expect(toolHandlers.has('stateset_process_return')).toBe(true);
+    });
+
+    it('should approve a pending return and broadcast the update', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const approved = { id: rmaId, status: 'approved' };
+      const client = {
+        getRMA: (jest.fn() as any).mockResolvedValue({ id: rmaId, status: 'pending' }),
+        updateRMA: (jest.fn() as any).mockResolvedValue(approved),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_approve_return')!(client, { rma_id: rmaId });
+
+      expect(client.updateRMA).toHaveBeenCalledWith({
+        rma_id: rmaId,
+        status: 'approved',
+        notes: undefined,
+      });
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('rmas', rmaId, 'updated', approved);
+      expect(result).toEqual(approved);
+    });
+
+    it('should scrap a line without touching inventory', async () => {
+      const client = {
+        getRMA: (jest.fn() as any).mockResolvedValue({ id: rmaId, status: 'approved' }),
+        getRMAItems: (jest.fn() as any).mockResolvedValue({
+          items: [{ id: 'item-1', quantity: 1 }],
+        }),
+        // The API echoes the progress recorded on the return
+        updateRMA: (jest.fn() as any).mockImplementation(async ({ rma_id, ...changes }: any) => ({
+          id: rma_id,
+          status: 'approved',
+          ...changes,
+        })),
+        updateInventory: jest.fn(),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_restock_return')!(client, {
+        rma_id: rmaId,
+        lines: [{ item_id: 'item-1', disposition: 'scrap' }],
+      });
+
+      expect(client.updateInventory).not.toHaveBeenCalled();
+      expect(result.dispositions).toEqual([
+        { item_id: 'item-1', disposition: 'scrap', quantity: 1 },
+      ]);
+    });
+  });
+
+  describe('Customer Workflow Operations', () => {
+    const address = {
+      street: '1 Market St',
+      city: 'San Francisco',
+      state: 'CA',
+      postal_code: '94105',
+      country: 'US',
+    };
+
+    it('should have address book handlers registered', () => {
+      expect(toolHandlers.has('stateset_get_customer_addresses')).toBe(true);
+      expect(toolHandlers.has('stateset_add_customer_address')).toBe(true);
+      expect(toolHandlers.has('stateset_update_customer_address')).toBe(true);
+      expect(toolHandlers.has('stateset_delete_customer_address')).toBe(true);
+      expect(toolHandlers.has('stateset_set_default_customer_address')).toBe(true);
+    });
+
+    it('should add a normalized address and broadcast the update', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const saved = { id: 'addr-1', ...address };
+      const client = {
+        getCustomerAddresses: (jest.fn() as any).mockResolvedValue({ items: [] }),
+        addCustomerAddress: (jest.fn() as any).mockResolvedValue(saved),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_add_customer_address')!(client, {
+        customer_id: 'cust-1',
+        address: { ...address, state: 'California', country: 'United States' },
+      });
+
+      expect(client.addCustomerAddress).toHaveBeenCalledWith('cust-1', {
+        ...address,
+        address_type: 'both',
+        is_default_shipping: true,
+        is_default_billing: true,
+      });
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('customers', 'cust-1', 'updated', saved);
+      expect(result).toEqual(saved);
+    });
+
+    it("should create a checkout with the cart customer's default addresses", async () => {
+      const client = {
+        getCart: (jest.fn() as any).mockResolvedValue({ id: 'cart-1', customer_id: 'cust-1' }),
+        getCustomerAddresses: (jest.fn() as any).mockResolvedValue({
+          items: [{ id: 'addr-1', ...address, is_default_shipping: true }],
+        }),
+        createCheckout: (jest.fn() as any).mockResolvedValue({ id: 'chk-1' }),
+      } as any;
+
+      await toolHandlers.get('stateset_create_checkout')!(client, {
+        cart_id: 'cart-1',
+        shipping_method: 'ground',
+        payment_method: 'card',
+      });
+
+      expect(client.createCheckout).toHaveBeenCalledWith({
+        cart_id: 'cart-1',
+        shipping_method: 'ground',
+        payment_method: 'card',
+        shipping_address: address,
+        billing_address: undefined,
+      });
+    });
+
+    it('should still create the checkout when the cart cannot be read', async () => {
+      const client = {
+        getCart: (jest.fn() as any).mockRejectedValue(new Error('Service unavailable')),
+        createCheckout: (jest.fn() as any).mockResolvedValue({ id: 'chk-1' }),
+      } as any;
+
+      const args = { cart_id: 'cart-1', shipping_method: 'ground', payment_method: 'card' };
+      await toolHandlers.get('stateset_create_checkout')!(client, args);
+
+      expect(client.createCheckout).toHaveBeenCalledWith(args);
+    });
+  });
+
+  describe('Shipment Workflow Operations', () => {
+    it('should have shipment workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_mark_shipment_shipped')).toBe(true);
+      expect(toolHandlers.has('stateset_mark_shipment_delivered')).toBe(true);
+      expect(toolHandlers.has('stateset_track_shipment')).toBe(true);
+      expect(toolHandlers.has('stateset_list_delayed_shipments')).toBe(true);
+    });
+
+    it('should mark a shipment delivered and broadcast the update', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const shipmentId = '123e4567-e89b-12d3-a456-426614174000';
+      const shipment = { id: shipmentId, status: 'delivered' };
+      const client = {
+        getShipment: (jest.fn() as any).mockResolvedValue({ id: shipmentId, status: 'in_transit' }),
+        markShipmentDelivered: (jest.fn() as any).mockResolvedValue(shipment),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_mark_shipment_delivered')!(client, {
+        shipment_id: shipmentId,
+      });
+
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith(
+        'shipments',
+        shipmentId,
+        'updated',
+        shipment,
+      );
+      expect(result).toBe(shipment);
+    });
+  });
+
+  describe('Order Workflow Operations', () => {
+    it('should have order workflow handlers registered', () => {
+      expect(toolHandlers.has('stateset_get_order_items')).toBe(true);
+      expect(toolHandlers.has('stateset_add_order_item')).toBe(true);
+      expect(toolHandlers.has('stateset_update_order_item')).toBe(true);
+      expect(toolHandlers.has('stateset_remove_order_item')).toBe(true);
+      expect(toolHandlers.has('stateset_cancel_order')).toBe(true);
+      expect(toolHandlers.has('stateset_archive_order')).toBe(true);
+      expect(toolHandlers.has('stateset_update_order_status')).toBe(true);
+    });
+
+    it('should reject status changes the order lifecycle does not allow', async () => {
+      const client = {
+        getOrder: (jest.fn() as any).mockResolvedValue({ id: 'ord-1', status: 'pending' }),
+        updateOrderStatus: jest.fn(),
+      } as any;
+
+      await expect(
+        toolHandlers.get('stateset_update_order_status')!(client, {
+          order_id: 'ord-1',
+          status: 'delivered',
+        }),
+      ).rejects.toThrow("Cannot move to delivered for order 'ord-1' in state 'pending'");
+      expect(client.updateOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should cancel with a reason code and broadcast the update', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const order = { id: 'ord-2', status: 'cancelled' };
+      const client = {
+        getOrder: (jest.fn() as any).mockResolvedValue({ id: 'ord-2', status: 'processing' }),
+        cancelOrder: (jest.fn() as any).mockResolvedValue(order),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_cancel_order')!(client, {
+        order_id: 'ord-2',
+        reason_code: 'out_of_stock',
+      });
+
+      expect(client.cancelOrder).toHaveBeenCalledWith({
+        order_id: 'ord-2',
+        reason_code: 'out_of_stock',
+      });
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith('orders', 'ord-2', 'updated', order);
+      expect(result).toBe(order);
+    });
+
+    it('should require a reason code to cancel', async () => {
+      await expect(
+        toolHandlers.get('stateset_cancel_order')!({} as any, { order_id: 'ord-2' }),
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Work Order Workflow Operations', () => {
+    it('should have work order transition handlers registered', () => {
+      expect(toolHandlers.has('stateset_assign_work_order')).toBe(true);
+      expect(toolHandlers.has('stateset_start_work_order')).toBe(true);
+      expect(toolHandlers.has('stateset_hold_work_order')).toBe(true);
+      expect(toolHandlers.has('stateset_complete_work_order')).toBe(true);
+      expect(toolHandlers.has('stateset_cancel_work_order')).toBe(true);
+      expect(toolHandlers.has('stateset_get_work_order_timeline')).toBe(true);
+    });
+
+    it('should only hold a work order that is in progress', async () => {
+      const client = {
+        getWorkOrder: (jest.fn() as any).mockResolvedValue({ id: 'wo-1', status: 'pending' }),
+        updateWorkOrderStatus: jest.fn(),
+      } as any;
+
+      await expect(
+        toolHandlers.get('stateset_hold_work_order')!(client, {
+          work_order_id: 'wo-1',
+          reason: 'Missing parts',
+        }),
+      ).rejects.toThrow("Cannot hold for work order 'wo-1' in state 'pending'");
+      expect(client.updateWorkOrderStatus).not.toHaveBeenCalled();
+    });
+
+    it('should broadcast and record a transition', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      const workOrder = { id: 'wo-2', status: 'in_progress' };
+      const client = {
+        getWorkOrder: (jest.fn() as any).mockResolvedValue({ id: 'wo-2', status: 'scheduled' }),
+        updateWorkOrderStatus: (jest.fn() as any).mockResolvedValue(workOrder),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_start_work_order')!(client, {
+        work_order_id: 'wo-2',
+        performed_by: 'supervisor-1',
+      });
+
+      expect(client.updateWorkOrderStatus).toHaveBeenCalledWith('wo-2', 'in_progress', {
+        performed_by: 'supervisor-1',
+      });
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith(
+        'work_orders',
+        'wo-2',
+        'updated',
+        workOrder,
+      );
+      expect(result).toBe(workOrder);
+
+      const timeline = await toolHandlers.get('stateset_get_work_order_timeline')!(client, {
+        work_order_id: 'wo-2',
+      });
+      expect(timeline.transitions).toEqual([
+        expect.objectContaining({
+          action: 'start',
+          from: 'scheduled',
+          to: 'in_progress',
+          performed_by: 'supervisor-1',
+        }),
+      ]);
+    });
+
+    it('should schedule through the lifecycle and broadcast the update', async () => {
+      const { broadcastResourceUpdate } = require('../../src/utils/broadcast');
+      broadcastResourceUpdate.mockClear();
+      const workOrder = { id: 'wo-3', status: 'scheduled' };
+      const client = {
+        getWorkOrder: (jest.fn() as any).mockResolvedValue({ id: 'wo-3', status: 'pending' }),
+        scheduleWorkOrder: (jest.fn() as any).mockResolvedValue(workOrder),
+        request: jest.fn(),
+      } as any;
+
+      const result = await toolHandlers.get('stateset_schedule_work_order')!(client, {
+        work_order_id: 'wo-3',
+        scheduled_start: '2026-03-01T08:00:00Z',
+      });
+
+      expect(client.scheduleWorkOrder).toHaveBeenCalledWith({
+        work_order_id: 'wo-3',
+        scheduled_start: '2026-03-01T08:00:00Z',
+      });
+      expect(client.request).not.toHaveBeenCalled();
+      expect(broadcastResourceUpdate).toHaveBeenCalledWith(
+        'work_orders',
+        'wo-3',
+        'updated',
+        workOrder,
+      );
+      expect(result).toBe(workOrder);
+    });
+
+    it('should not schedule a completed work order', async () => {
+      const client = {
+        getWorkOrder: (jest.fn() as any).mockResolvedValue({ id: 'wo-4', status: 'completed' }),
+        scheduleWorkOrder: jest.fn(),
+      } as any;
+
+      await expect(
+        toolHandlers.get('stateset_schedule_work_order')!(client, {
+          work_order_id: 'wo-4',
+          scheduled_start: '2026-03-01T08:00:00Z',
+        }),
+      ).rejects.toThrow("Cannot schedule for work order 'wo-4' in state 'completed'");
+      expect(client.scheduleWorkOrder).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Batch Operations', () => {
     it('should have batch tool handlers registered', () => {
       expect(toolHandlers.has('stateset_batch_operations')).toBe(true);
@@ -0,0 +1,125 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+jest.mock('../../src/utils/logger', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { createLogger: () => mockLogger, logger: mockLogger };
+});
+
+jest.mock('../../src/core/websocket', () => ({
+  wsManager: { broadcast: jest.fn() },
+}));
+
+import {
+  ResourceSubscriptionManager,
+  resourceSubscriptions,
+} from '../../src/core/resource-subscriptions';
+import { parseResourceUri, buildResourceUri } from '../../src/core/resource-registry';
+import { broadcastResourceUpdate } from '../../src/utils/broadcast';
+
+function createSession(): Server & { sendResourceUpdated: jest.Mock } {
+  return { sendResourceUpdated: jest.fn(async () => undefined) } as any;
+}
+
+describe('parseResourceUri', () => {
+  it('should parse template style URIs', () => {
+    expect(parseResourceUri('stateset-order:///ORD-123')).toEqual({
+      protocol: 'stateset-order:',
+      id: 'ORD-123',
+    });
+  });
+
+  it('should parse host style URIs', () => {
+    expect(parseResourceUri('stateset-order://ORD-123')).toEqual({
+      protocol: 'stateset-order:',
+      id: 'ORD-123',
+    });
+  });
+
+  it('should round-trip with buildResourceUri', () => {
+    expect(parseResourceUri(buildResourceUri('stateset-rma:', 'RMA-1'))).toEqual({
+      protocol: 'stateset-rma:',
+      id: 'RMA-1',
+    });
+  });
+});
+
+describe('ResourceSubscriptionManager', () => {
+  let manager: ResourceSubscriptionManager;
+
+  beforeEach(() => {
+    manager = new ResourceSubscriptionManager();
+  });
+
+  it('should notify subscribed sessions with the URI they subscribed to', async () => {
+    const first = createSession();
+    const second = createSession();
+    manager.subscribe(first, 'stateset-order://ORD-1');
+    manager.subscribe(second, 'stateset-order:///ORD-1');
+
+    const notified = await manager.notify('stateset-order:', 'ORD-1');
+
+    expect(notified).toBe(2);
+    expect(first.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'stateset-order://ORD-1' });
+    expect(second.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'stateset-order:///ORD-1' });
+  });
+
+  it('should not notify sessions subscribed to other records', async () => {
+    const session = createSession();
+    manager.subscribe(session, 'stateset-order://ORD-1');
+
+    await manager.notify('stateset-order:', 'ORD-2');
+    await manager.notify('stateset-rma:', 'ORD-1');
+
+    expect(session.sendResourceUpdated).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    const session = createSession();
+    manager.subscribe(session, 'stateset-order://ORD-1');
+    manager.unsubscribe(session, 'stateset-order:///ORD-1');
+
+    expect(await manager.notify('stateset-order:', 'ORD-1')).toBe(0);
+    expect(manager.getStats()).toEqual({ resources: 0, subscriptions: 0 });
+  });
+
+  it('should drop all subscriptions of a closed session', () => {
+    const session = createSession();
+    const other = createSession();
+    manager.subscribe(session, 'stateset-order://ORD-1');
+    manager.subscribe(session, 'stateset-rma://RMA-1');
+    manager.subscribe(other, 'stateset-order://ORD-1');
+
+    manager.removeServer(session);
+
+    expect(manager.getStats()).toEqual({ resources: 1, subscriptions: 1 });
+  });
+
+  it('should survive a session that fails to receive notifications', async () => {
+    const broken = createSession();
+    broken.sendResourceUpdated.mockImplementation(async () => {
+      throw new Error('Not connected');
+    });
+    const healthy = createSession();
+    manager.subscribe(broken, 'stateset-order://ORD-1');
+    manager.subscribe(healthy, 'stateset-order://ORD-1');
+
+    await expect(manager.notify('stateset-order:', 'ORD-1')).resolves.toBe(2);
+    expect(healthy.sendResourceUpdated).toHaveBeenCalled();
+  });
+});
+
+describe('broadcastResourceUpdate', () => {
+  it('should emit resource updates to subscribed sessions', async () => {
+    const session = createSession();
+    resourceSubscriptions.subscribe(session, 'stateset-shipment://SHIP-1');
+
+    broadcastResourceUpdate('shipments', 'SHIP-1', 'updated', { id: 'SHIP-1' });
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(session.sendResourceUpdated).toHaveBeenCalledWith({
+      uri: 'stateset-shipment://SHIP-1',
+    });
+    resourceSubscriptions.removeServer(session);
+  });
+});
@@ -0,0 +1,405 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import {
+  approveReturn,
+  processReturn,
+  resolveDispositionLines,
+  restockReturn,
+} from '../../src/tools/return-processing';
+
+const RMA_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const INVENTORY_ID = '9b2f4c1e-3d5a-4e6f-8a7b-1c2d3e4f5a6b';
+
+const items = [
+  { id: 'item-1', quantity: 2, unit_price: 25, inventory_id: INVENTORY_ID, location_id: 1 },
+  { id: 'item-2', quantity: 1, price: '10' },
+] as any[];
+
+function mockClient(status: string, progress: Record<string, unknown> = {}) {
+  let rma: Record<string, any> = { id: RMA_ID, order_id: 'ord-1', status, ...progress };
+  return {
+    getRMA: jest.fn(async () => rma),
+    getRMAItems: jest.fn(async () => ({ items, metadata: {} })),
+    updateRMA: jest.fn(async ({ rma_id, ...changes }: any) => {
+      rma = { ...rma, ...changes };
+      return rma;
+    }),
+    adjustInventory: jest.fn(async (args: any) => ({ id: args.inventory_id })),
+    listPayments: jest.fn(async () => ({
+      items: [{ id: 'pay-1', order_id: 'ord-1', amount: 100, captured_amount: 100 }],
+      metadata: {},
+    })),
+    getPayment: jest.fn(async () => ({ id: 'pay-1', amount: 100, captured_amount: 100 })),
+    listPaymentRefunds: jest.fn(async () => ({ items: [], metadata: {} })),
+    refundPayment: jest.fn(async (args: any) => ({ id: 'ref-1', amount: args.refund_amount })),
+  } as any;
+}
+
+describe('resolveDispositionLines', () => {
+  it('should restock every item in full by default', () => {
+    expect(resolveDispositionLines(items.slice(0, 1), {})).toEqual([
+      {
+        item_id: 'item-1',
+        disposition: 'restock',
+        quantity: 2,
+        inventory_id: INVENTORY_ID,
+        location_id: 1,
+      },
+    ]);
+  });
+
+  it('should only need an inventory record for units going back in stock', () => {
+    expect(
+      resolveDispositionLines(items, {
+        location_id: 3,
+        lines: [
+          { item_id: 'item-1', disposition: 'refurbish', quantity: 1 },
+          { item_id: 'item-2', disposition: 'scrap' },
+        ],
+      }),
+    ).toEqual([
+      {
+        item_id: 'item-1',
+        disposition: 'refurbish',
+        quantity: 1,
+        inventory_id: INVENTORY_ID,
+        location_id: 3,
+      },
+      { item_id: 'item-2', disposition: 'scrap', quantity: 1 },
+    ]);
+  });
+
+  it('should report every line that cannot be dispositioned', () => {
+    expect(() =>
+      resolveDispositionLines(items, {
+        lines: [
+          { item_id: 'item-1', disposition: 'restock', quantity: 3 },
+          { item_id: 'item-2', disposition: 'restock' },
+          { item_id: 'item-9', disposition: 'scrap' },
+        ],
+      }),
+    ).toThrow(
+      'Cannot disposition return: item item-1 has 2 returned, not 3; item item-2 needs an inventory_id and location_id to restock; item item-9 is not on the return',
+    );
+  });
+
+  it('should check lines for the same item against the returned quantity together', () => {
+    expect(() =>
+      resolveDispositionLines(items, {
+        lines: [
+          { item_id: 'item-1', disposition: 'restock', quantity: 2 },
+          { item_id: 'item-1', disposition: 'refurbish', quantity: 2 },
+          { item_id: 'item-2', disposition: 'scrap' },
+        ],
+      }),
+    ).toThrow('Cannot disposition return: item item-1 has 2 returned, not 4');
+  });
+});
+
+describe('approveReturn', () => {
+  it('should only approve pending returns', async () => {
+    const client = mockClient('restocked');
+
+    await expect(approveReturn(client, { rma_id: RMA_ID })).rejects.toThrow(
+      `Cannot approve for return '${RMA_ID}' in state 'restocked'`,
+    );
+    expect(client.updateRMA).not.toHaveBeenCalled();
+  });
+
+  it('should refuse returns in a status it does not know', async () => {
+    const client = mockClient('cancelled');
+
+    await expect(approveReturn(client, { rma_id: RMA_ID })).rejects.toThrow(
+      `Cannot approve for return '${RMA_ID}' in state 'cancelled'`,
+    );
+    expect(client.updateRMA).not.toHaveBeenCalled();
+  });
+});
+
+describe('restockReturn', () => {
+  it('should add restocked and refurbished units on hand and record every disposition', async () => {
+    const client = mockClient('approved');
+
+    const result = await restockReturn(client, {
+      rma_id: RMA_ID,
+      lines: [
+        { item_id: 'item-1', disposition: 'restock', quantity: 1 },
+        { item_id: 'item-1', disposition: 'refurbish', quantity: 1 },
+        { item_id: 'item-2', disposition: 'return_to_vendor' },
+      ],
+    });
+
+    const stock = { inventory_id: INVENTORY_ID, location_id: 1 };
+    const adjustment = { ...stock, quantity: 2 };
+    expect(client.adjustInventory).toHaveBeenCalledTimes(1);
+    expect(client.adjustInventory).toHaveBeenCalledWith({
+      ...adjustment,
+      reason: 'return_restock,return_refurbish',
+      reference_id: RMA_ID,
+    });
+    expect(client.updateRMA.mock.calls).toEqual([
+      [
+        {
+          rma_id: RMA_ID,
+          dispositions: [
+            { item_id: 'item-1', disposition: 'restock', quantity: 1, ...stock },
+            { item_id: 'item-1', disposition: 'refurbish', quantity: 1, ...stock },
+            { item_id: 'item-2', disposition: 'return_to_vendor', quantity: 1 },
+          ],
+        },
+      ],
+      [{ rma_id: RMA_ID, inventory_adjustments: [adjustment] }],
+      [{ rma_id: RMA_ID, status: 'restocked' }],
+    ]);
+    expect(result.inventory_adjustments).toEqual([adjustment]);
+  });
+
+  it('should resume from the dispositions and adjustments recorded by a failed attempt', async () => {
+    const stock = { inventory_id: INVENTORY_ID, location_id: 1 };
+    const otherStock = { inventory_id: 'inv-2', location_id: 1 };
+    const client = mockClient('approved', {
+      dispositions: [
+        { item_id: 'item-1', disposition: 'restock', quantity: 2, ...stock },
+        { item_id: 'item-2', disposition: 'refurbish', quantity: 1, ...otherStock },
+      ],
+      inventory_adjustments: [{ ...stock, quantity: 2 }],
+    });
+
+    const result = await restockReturn(client, {
+      rma_id: RMA_ID,
+      lines: [{ item_id: 'item-1', disposition: 'scrap' }],
+    });
+
+    expect(client.getRMAItems).not.toHaveBeenCalled();
+    expect(client.adjustInventory).toHaveBeenCalledTimes(1);
+    expect(client.adjustInventory).toHaveBeenCalledWith({
+      ...otherStock,
+      quantity: 1,
+      reason: 'return_refurbish',
+      reference_id: RMA_ID,
+    });
+    expect(result).toMatchObject({
+      status: 'restocked',
+      inventory_adjustments: [
+        { ...stock, quantity: 2 },
+        { ...otherStock, quantity: 1 },
+      ],
+    });
+    expect(result.warning).toContain('the lines passed were ignored');
+  });
+
+  it('should stop before changing inventory when the API drops the dispositions', async () => {
+    const client = mockClient('approved');
+    client.updateRMA.mockImplementation(async ({ rma_id }: any) => ({
+      id: rma_id,
+      status: 'approved',
+    }));
+
+    await expect(
+      restockReturn(client, {
+        rma_id: RMA_ID,
+        lines: [{ item_id: 'item-1', disposition: 'restock' }],
+      }),
+    ).rejects.toThrow(`Return ${RMA_ID} did not store dispositions`);
+    expect(client.adjustInventory).not.toHaveBeenCalled();
+  });
+
+  it('should not change inventory when a line is invalid', async () => {
+    const client = mockClient('approved');
+
+    await expect(restockReturn(client, { rma_id: RMA_ID })).rejects.toThrow(
+      'item item-2 needs an inventory_id and location_id to restock',
+    );
+    expect(client.adjustInventory).not.toHaveBeenCalled();
+    expect(client.updateRMA).not.toHaveBeenCalled();
+  });
+});
+
+describe('processReturn', () => {
+  const lines = [
+    { item_id: 'item-1', disposition: 'restock' as const },
+    { item_id: 'item-2', disposition: 'scrap' as const },
+  ];
+
+  it('should approve, restock and refund the returned items', async () => {
+    const client = mockClient('pending');
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      lines,
+      refund_reason: 'Customer return',
+    });
+
+    expect(result.steps.map(({ step, status }) => [step, status])).toEqual([
+      ['approve', 'completed'],
+      ['restock', 'completed'],
+      ['refund', 'completed'],
+    ]);
+    expect(client.refundPayment).toHaveBeenCalledWith({
+      payment_id: 'pay-1',
+      refund_amount: 60,
+      refund_reason: `Customer return (return ${RMA_ID})`,
+    });
+    expect(result).toMatchObject({ rma_id: RMA_ID, status: 'refunded', completed: true });
+  });
+
+  it('should skip the steps already done', async () => {
+    const client = mockClient('restocked');
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      payment_id: 'pay-1',
+      refund_amount: 20,
+      refund_reason: 'Customer return',
+    });
+
+    expect(result.steps.map(({ step, status }) => [step, status])).toEqual([
+      ['approve', 'skipped'],
+      ['restock', 'skipped'],
+      ['refund', 'completed'],
+    ]);
+    expect(client.adjustInventory).not.toHaveBeenCalled();
+  });
+
+  it('should mark the return refunded without refunding again after a failed run', async () => {
+    const client = mockClient('restocked');
+    client.listPaymentRefunds.mockResolvedValue({
+      items: [{ id: 'ref-1', amount: 60, refund_reason: `Customer return (return ${RMA_ID})` }],
+      metadata: {},
+    });
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      refund_reason: 'Customer return',
+    });
+
+    expect(client.refundPayment).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ status: 'refunded', completed: true });
+    expect(result.steps[2]?.result?.refund).toMatchObject({ payment_id: 'pay-1', id: 'ref-1' });
+  });
+
+  it('should refund the first captured payment with enough left to refund', async () => {
+    const client = mockClient('restocked');
+    client.listPayments.mockResolvedValue({
+      items: [
+        { id: 'pay-0', order_id: 'ord-1', amount: 100, status: 'authorized' },
+        { id: 'pay-1', order_id: 'ord-1', amount: 100, captured_amount: 100, refunded_amount: 50 },
+        { id: 'pay-2', order_id: 'ord-1', amount: 100, captured_amount: 100 },
+      ],
+      metadata: {},
+    });
+    client.getPayment.mockImplementation(async (id: any) => ({
+      id,
+      amount: 100,
+      captured_amount: 100,
+    }));
+
+    await processReturn(client, { rma_id: RMA_ID, refund_reason: 'Customer return' });
+
+    expect(client.refundPayment).toHaveBeenCalledWith(
+      expect.objectContaining({ payment_id: 'pay-2', refund_amount: 60 }),
+    );
+  });
+
+  it('should stop at the step that fails', async () => {
+    const client = mockClient('pending');
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      lines,
+      refund_amount: 150,
+      refund_reason: 'Customer return',
+    });
+
+    expect(result.completed).toBe(false);
+    expect(result.status).toBe('restocked');
+    expect(result.steps[2]).toMatchObject({ step: 'refund', status: 'failed' });
+    expect(result.steps[2]?.error).toContain('Cannot refund 150');
+    expect(client.refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('should not refund more units than were returned', async () => {
+    const client = mockClient('restocked');
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      lines: [
+        { item_id: 'item-1', disposition: 'restock', quantity: 2 },
+        { item_id: 'item-1', disposition: 'scrap', quantity: 1 },
+      ],
+      refund_reason: 'Customer return',
+    });
+
+    expect(result.steps[2]?.error).toBe('Cannot refund return: item item-1 has 2 returned, not 3');
+    expect(client.refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('should not refund or restock once the approval fails', async () => {
+    const client = mockClient('pending');
+    client.updateRMA.mockRejectedValueOnce(new Error('Service unavailable'));
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      lines,
+      refund_reason: 'Customer return',
+    });
+
+    expect(result.steps).toEqual([
+      { step: 'approve', status: 'failed', error: 'Service unavailable' },
+      { step: 'restock', status: 'skipped', reason: 'An earlier step failed' },
+      { step: 'refund', status: 'skipped', reason: 'An earlier step failed' },
+    ]);
+  });
+
+  it('should not restock or refund a cancelled return', async () => {
+    const client = mockClient('cancelled');
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      lines,
+      refund_reason: 'Customer return',
+    });
+
+    expect(result.steps.map(({ step, status }) => [step, status])).toEqual([
+      ['approve', 'failed'],
+      ['restock', 'skipped'],
+      ['refund', 'skipped'],
+    ]);
+    expect(client.adjustInventory).not.toHaveBeenCalled();
+    expect(client.refundPayment).not.toHaveBeenCalled();
+  });
+
+  it('should reject a payment for another order', async () => {
+    const client = mockClient('restocked');
+    client.getPayment.mockResolvedValue({ id: 'pay-9', order_id: 'ord-2', captured_amount: 100 });
+
+    const result = await processReturn(client, {
+      rma_id: RMA_ID,
+      payment_id: 'pay-9',
+      refund_amount: 20,
+      refund_reason: 'Customer return',
+    });
+
+    expect(result.steps[2]).toMatchObject({
+      step: 'refund',
+      status: 'failed',
+      error: `Payment pay-9 is for order ord-2, not order ord-1 of return ${RMA_ID}`,
+    });
+    expect(client.refundPayment).not.toHaveBeenCalled();
+  });
+});
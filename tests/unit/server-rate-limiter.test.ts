@@ -0,0 +1,64 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+import { RateLimiter } from '../../src/core/server-rate-limiter';
+import { CancellationError } from '../../src/core/cancellation';
+
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('RateLimiter cancellation', () => {
+  it('should reject immediately when the signal is already aborted', async () => {
+    const limiter = new RateLimiter(1000);
+    const controller = new AbortController();
+    controller.abort();
+    const fn = jest.fn(async () => 'result');
+
+    await expect(limiter.enqueue(fn, 'getOrder', { signal: controller.signal })).rejects.toThrow(
+      CancellationError,
+    );
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should free the queue slot of a cancelled request that has not started', async () => {
+    const limiter = new RateLimiter(1000);
+    const first = deferred<string>();
+    const controller = new AbortController();
+    const cancelledFn = jest.fn(async () => 'cancelled');
+
+    const running = limiter.enqueue(() => first.promise, 'getOrder');
+    const queued = limiter.enqueue(cancelledFn, 'listOrders', { signal: controller.signal });
+    expect(limiter.getMetrics().queueLength).toBe(1);
+
+    controller.abort('User cancelled');
+
+    await expect(queued).rejects.toThrow("Operation 'listOrders' was cancelled: User cancelled");
+    expect(limiter.getMetrics().queueLength).toBe(0);
+
+    first.resolve('done');
+    await expect(running).resolves.toBe('done');
+    expect(cancelledFn).not.toHaveBeenCalled();
+  });
+
+  it('should not retry a request that was cancelled while in flight', async () => {
+    const limiter = new RateLimiter(1000);
+    const controller = new AbortController();
+    const fn = jest.fn(async () => {
+      controller.abort();
+      throw Object.assign(new Error('canceled'), { isAxiosError: true, code: 'ERR_CANCELED' });
+    });
+
+    await expect(limiter.enqueue(fn, 'getOrder', { signal: controller.signal })).rejects.toThrow(
+      CancellationError,
+    );
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import {
+  ShipmentTrackingTimeline,
+  listDelayedShipments,
+  normalizeTrackingEvent,
+  shipmentTrackingTimeline,
+  trackShipment,
+  transitionShipment,
+} from '../../src/tools/shipment-tracking';
+import { InvalidStateTransitionError, NotFoundError } from '../../src/middleware/error-handler';
+
+const shipmentId = '123e4567-e89b-12d3-a456-426614174000';
+
+describe('normalizeTrackingEvent', () => {
+  it('should normalize carrier statuses, locations and timestamps', () => {
+    expect(
+      normalizeTrackingEvent(
+        {
+          status_code: 'OUT FOR DELIVERY',
+          location: { city: 'Austin', state: 'TX', country: 'US' },
+          occurred_at: '2026-03-02T08:15:00-06:00',
+          description: 'Out for delivery',
+        },
+        'UPS',
+      ),
+    ).toEqual({
+      carrier: 'UPS',
+      status: 'out_for_delivery',
+      location: 'Austin, TX, US',
+      timestamp: '2026-03-02T14:15:00.000Z',
+      description: 'Out for delivery',
+    });
+  });
+
+  it('should fall back to the description and drop events without a time', () => {
+    expect(
+      normalizeTrackingEvent({ description: 'Delivered', timestamp: '2026-03-03T10:00:00Z' }),
+    ).toMatchObject({ status: 'delivered' });
+    expect(normalizeTrackingEvent({ status: 'Weather delay' })).toBeUndefined();
+    expect(
+      normalizeTrackingEvent({ status: 'Weather delay', timestamp: '2026-03-03T10:00:00Z' }),
+    ).toMatchObject({ status: 'unknown' });
+  });
+});
+
+describe('ShipmentTrackingTimeline', () => {
+  it('should merge repeated events and keep them in time order', () => {
+    const timeline = new ShipmentTrackingTimeline();
+    const pickedUp = { status: 'shipped' as const, timestamp: '2026-03-01T10:00:00.000Z' };
+    const inTransit = { status: 'in_transit' as const, timestamp: '2026-03-01T18:00:00.000Z' };
+
+    timeline.record('ship-1', [inTransit]);
+    timeline.record('ship-1', [pickedUp, inTransit]);
+
+    expect(timeline.get('ship-1')).toEqual([pickedUp, inTransit]);
+  });
+});
+
+describe('transitionShipment', () => {
+  beforeEach(() => shipmentTrackingTimeline.clear());
+
+  function mockClient(shipment: Record<string, unknown>) {
+    return {
+      getShipment: jest.fn(async () => ({ id: shipmentId, carrier: 'FedEx', ...shipment })),
+      markShipmentShipped: jest.fn(async () => ({ id: shipmentId, status: 'shipped' })),
+      markShipmentDelivered: jest.fn(async () => ({ id: shipmentId, status: 'delivered' })),
+    } as any;
+  }
+
+  it('should ship pending shipments and record the event', async () => {
+    const client = mockClient({ status: 'pending', tracking_number: '7946' });
+
+    await transitionShipment(client, shipmentId, 'ship');
+
+    expect(client.markShipmentShipped).toHaveBeenCalledWith(shipmentId);
+    expect(shipmentTrackingTimeline.get(shipmentId)).toEqual([
+      expect.objectContaining({ carrier: 'FedEx', status: 'shipped' }),
+    ]);
+  });
+
+  it('should require a tracking number to ship', async () => {
+    const client = mockClient({ status: 'pending' });
+
+    await expect(transitionShipment(client, shipmentId, 'ship')).rejects.toThrow(
+      'has no tracking number',
+    );
+    expect(client.markShipmentShipped).not.toHaveBeenCalled();
+  });
+
+  it('should not deliver shipments that have not shipped', async () => {
+    const client = mockClient({ status: 'pending', tracking_number: '7946' });
+
+    await expect(transitionShipment(client, shipmentId, 'deliver')).rejects.toThrow(
+      InvalidStateTransitionError,
+    );
+  });
+});
+
+describe('trackShipment', () => {
+  beforeEach(() => shipmentTrackingTimeline.clear());
+
+  it('should find the shipment by tracking number and return its timeline', async () => {
+    const client = {
+      listShipments: jest.fn(async () => ({
+        items: [
+          { id: 'other', tracking_number: '1Z000' },
+          {
+            id: shipmentId,
+            tracking_number: '1Z999',
+            carrier: 'UPS',
+            status: 'shipped',
+            promised_delivery_date: '2026-03-01',
+          },
+        ],
+        metadata: { apiMetrics: {} },
+      })),
+      getShipmentTracking: jest.fn(async () => ({
+        items: [
+          { status: 'In Transit', location: 'Memphis, TN', timestamp: '2026-03-02T04:00:00Z' },
+          { status: 'Picked up', timestamp: '2026-02-28T16:00:00Z' },
+        ],
+        metadata: {},
+      })),
+    } as any;
+
+    const result = await trackShipment(
+      client,
+      { tracking_number: '1Z999' },
+      { asOf: Date.parse('2026-03-04T12:00:00Z') },
+    );
+
+    expect(client.getShipmentTracking).toHaveBeenCalledWith(shipmentId);
+    expect(result).toMatchObject({
+      id: shipmentId,
+      metadata: { apiMetrics: {} },
+      promised_date: '2026-03-01',
+      delayed: true,
+      days_late: 3,
+      latest_event: { carrier: 'UPS', status: 'in_transit', location: 'Memphis, TN' },
+    });
+    expect(result.events.map((event: { status: string }) => event.status)).toEqual([
+      'shipped',
+      'in_transit',
+    ]);
+  });
+
+  it('should report unknown tracking numbers as not found', async () => {
+    const client = { listShipments: jest.fn(async () => ({ items: [], metadata: {} })) } as any;
+
+    await expect(trackShipment(client, { tracking_number: '1Z404' })).rejects.toThrow(
+      NotFoundError,
+    );
+  });
+});
+
+describe('listDelayedShipments', () => {
+  beforeEach(() => shipmentTrackingTimeline.clear());
+
+  it('should return open shipments past their promised date, most overdue first', async () => {
+    const client = {
+      listShipments: jest.fn(async () => ({
+        items: [
+          { id: 'a', status: 'in_transit', carrier: 'UPS', promised_date: '2026-03-03' },
+          { id: 'b', status: 'shipped', carrier: 'UPS', expected_delivery_date: '2026-02-27' },
+          { id: 'c', status: 'delivered', carrier: 'UPS', promised_date: '2026-02-20' },
+          { id: 'd', status: 'shipped', carrier: 'UPS', promised_date: '2026-03-05' },
+          { id: 'e', status: 'shipped', carrier: 'DHL', promised_date: '2026-02-01' },
+          { id: 'f', status: 'shipped', carrier: 'UPS' },
+        ],
+        metadata: {},
+      })),
+      getShipmentTracking: jest.fn(async () => ({ items: [], metadata: {} })),
+    } as any;
+
+    const result = await listDelayedShipments(client, {
+      as_of: '2026-03-04T09:00:00Z',
+      carrier: 'UPS',
+    });
+
+    expect(result.items.map((item) => [item.id, item.days_late])).toEqual([
+      ['b', 5],
+      ['a', 1],
+    ]);
+    expect(client.listShipments).toHaveBeenCalledWith({
+      status: 'in_transit',
+      page: 1,
+      per_page: 100,
+    });
+    expect(client.listShipments).not.toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'delivered' }),
+    );
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should look up tracking for a few delayed shipments at a time', async () => {
+    const shipments = Array.from({ length: 25 }, (_value, index) => ({
+      id: `s${index}`,
+      status: 'shipped',
+      promised_date: '2026-03-01',
+    }));
+    let active = 0;
+    let mostActive = 0;
+    const client = {
+      listShipments: jest.fn(async ({ status }: any) => ({
+        items: status === 'shipped' ? shipments : [],
+        metadata: {},
+      })),
+      getShipmentTracking: jest.fn(async () => {
+        active++;
+        mostActive = Math.max(mostActive, active);
+        await new Promise((resolve) => setImmediate(resolve));
+        active--;
+        return { items: [], metadata: {} };
+      }),
+    } as any;
+
+    const result = await listDelayedShipments(client, { as_of: '2026-03-04T09:00:00Z' });
+
+    expect(result.items).toHaveLength(25);
+    expect(client.getShipmentTracking).toHaveBeenCalledTimes(25);
+    expect(mostActive).toBe(10);
+  });
+
+  it('should fetch the latest tracking event from the API for each delayed shipment', async () => {
+    const client = {
+      listShipments: jest.fn(async () => ({
+        items: [
+          { id: 'a', status: 'in_transit', carrier: 'UPS', promised_date: '2026-03-01' },
+          { id: 'b', status: 'shipped', carrier: 'UPS', promised_date: '2026-03-02' },
+        ],
+        metadata: {},
+      })),
+      getShipmentTracking: jest.fn(async (id: string) => {
+        if (id === 'b') throw new Error('Carrier unavailable');
+        return {
+          items: [
+            { status: 'In Transit', location: 'Memphis, TN', timestamp: '2026-03-02T04:00:00Z' },
+          ],
+          metadata: {},
+        };
+      }),
+    } as any;
+
+    const result = await listDelayedShipments(client, { as_of: '2026-03-04T09:00:00Z' });
+
+    expect(result.items.map((item) => [item.id, item.latest_event?.status])).toEqual([
+      ['a', 'in_transit'],
+      ['b', undefined],
+    ]);
+  });
+});
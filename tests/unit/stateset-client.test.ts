@@ -554,6 +554,29 @@ describe('StateSetClient', () => {
         expect(result.status).toBe('delivered');
       });
     });
+
+    describe('updateShipment', () => {
+      it('should patch the shipment', async () => {
+        mockAxiosInstance.request.mockResolvedValueOnce({
+          data: { id: 'SHIP-001', tracking_number: '1Z999' },
+          headers: {},
+        });
+
+        const result = await client.updateShipment({
+          shipment_id: 'SHIP-001',
+          tracking_number: '1Z999',
+        });
+
+        expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+          expect.objectContaining({
+            method: 'PATCH',
+            url: '/shipments/SHIP-001',
+            data: { tracking_number: '1Z999' },
+          })
+        );
+        expect(result.tracking_number).toBe('1Z999');
+      });
+    });
   });
 
   // Error handling is covered in per-operation tests above.
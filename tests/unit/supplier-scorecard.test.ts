@@ -0,0 +1,194 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { computeSupplierScorecard, getSupplierScorecard } from '../../src/tools/supplier-scorecard';
+
+const asOf = new Date('2026-03-01T00:00:00Z').getTime();
+
+function purchaseOrder(id: string, orderDate: string, expected: string, quantity = 10) {
+  return {
+    id,
+    supplier_id: 'sup-1',
+    order_date: orderDate,
+    expected_delivery_date: expected,
+    items: [{ item_id: 'SKU-1', quantity, price: 2 }],
+  } as any;
+}
+
+function receipt(id: string, purchaseOrderId: string, receivedAt: string, quantity: number) {
+  return {
+    id,
+    purchase_order_id: purchaseOrderId,
+    received_at: receivedAt,
+    items: [{ item_id: 'SKU-1', quantity }],
+  } as any;
+}
+
+describe('computeSupplierScorecard', () => {
+  it('should compute on-time delivery, fill rate and lead time', () => {
+    const scorecard = computeSupplierScorecard(
+      {
+        supplierId: 'sup-1',
+        supplier: { name: 'Acme Parts' } as any,
+        purchaseOrders: [
+          purchaseOrder('po-1', '2026-01-01T00:00:00Z', '2026-01-11'),
+          purchaseOrder('po-2', '2026-01-05T00:00:00Z', '2026-01-15'),
+        ],
+        asns: [],
+        itemReceipts: [
+          // Received on the expected day still counts as on time
+          receipt('r-1', 'po-1', '2026-01-11T16:00:00Z', 10),
+          receipt('r-2', 'po-2', '2026-01-19T00:00:00Z', 6),
+          receipt('r-3', 'po-2', '2026-01-20T00:00:00Z', 6),
+        ],
+      },
+      { asOf },
+    );
+
+    expect(scorecard.supplier_name).toBe('Acme Parts');
+    expect(scorecard.on_time_delivery).toEqual({ rate: 0.5, on_time: 1, late: 1 });
+    // Over-receipt on po-2 is capped at the ordered quantity
+    expect(scorecard.fill_rate).toEqual({ rate: 1, ordered_quantity: 20, received_quantity: 20 });
+    expect(scorecard.lead_time).toEqual({
+      average_days: 12.83,
+      std_dev_days: 2.17,
+      min_days: 10.67,
+      max_days: 15,
+      average_delay_days: 2.5,
+      samples: 2,
+    });
+  });
+
+  it('should count overdue purchase orders as late and unfilled', () => {
+    const scorecard = computeSupplierScorecard(
+      {
+        supplierId: 'sup-1',
+        purchaseOrders: [
+          purchaseOrder('po-1', '2026-01-01T00:00:00Z', '2026-02-01'),
+          // Not due yet, so not scored
+          purchaseOrder('po-2', '2026-02-20T00:00:00Z', '2026-03-15'),
+          { ...purchaseOrder('po-3', '2026-01-01T00:00:00Z', '2026-01-10'), status: 'cancelled' },
+        ],
+        asns: [],
+        itemReceipts: [],
+      },
+      { asOf },
+    );
+
+    expect(scorecard.purchase_orders).toBe(2);
+    expect(scorecard.purchase_orders_due).toBe(1);
+    expect(scorecard.on_time_delivery).toEqual({ rate: 0, on_time: 0, late: 1 });
+    expect(scorecard.fill_rate.rate).toBe(0);
+    expect(scorecard.lead_time.samples).toBe(0);
+    expect(scorecard.lead_time.average_days).toBeNull();
+  });
+
+  it('should measure the fill rate against the ordered quantity of each PO line', () => {
+    const partlyReceived = purchaseOrder('po-1', '2026-01-01T00:00:00Z', '2026-01-10');
+    partlyReceived.items[0].quantity_received = 6;
+
+    const scorecard = computeSupplierScorecard(
+      {
+        supplierId: 'sup-1',
+        purchaseOrders: [partlyReceived],
+        asns: [],
+        itemReceipts: [receipt('r-1', 'po-1', '2026-01-09T00:00:00Z', 6)],
+      },
+      { asOf },
+    );
+
+    expect(scorecard.fill_rate).toEqual({ rate: 0.6, ordered_quantity: 10, received_quantity: 6 });
+  });
+
+  it('should use ASN deliveries when nothing was receipted', () => {
+    const scorecard = computeSupplierScorecard(
+      {
+        supplierId: 'sup-1',
+        purchaseOrders: [purchaseOrder('po-1', '2026-01-01T00:00:00Z', '2026-01-10')],
+        asns: [{ id: 'asn-1', purchase_order_id: 'po-1', delivery_date: '2026-01-08' } as any],
+        itemReceipts: [],
+      },
+      { asOf },
+    );
+
+    expect(scorecard.on_time_delivery.on_time).toBe(1);
+    expect(scorecard.lead_time.average_days).toBe(7);
+  });
+
+  it('should limit purchase orders to the period', () => {
+    const scorecard = computeSupplierScorecard(
+      {
+        supplierId: 'sup-1',
+        purchaseOrders: [
+          purchaseOrder('po-1', '2025-12-01T00:00:00Z', '2025-12-10'),
+          purchaseOrder('po-2', '2026-01-05T00:00:00Z', '2026-01-15'),
+        ],
+        asns: [],
+        itemReceipts: [],
+      },
+      { asOf, fromDate: '2026-01-01T00:00:00Z' },
+    );
+
+    expect(scorecard.purchase_orders).toBe(1);
+  });
+});
+
+describe('getSupplierScorecard', () => {
+  it("should fetch the supplier's documents and drop other suppliers' orders", async () => {
+    const list = (items: unknown[]) => jest.fn(async () => ({ items, metadata: {} }));
+    const client = {
+      getSupplier: jest.fn(async () => ({ id: 'sup-1', name: 'Acme Parts' })),
+      listPurchaseOrders: list([
+        purchaseOrder('po-1', '2026-01-01T00:00:00Z', '2026-01-10'),
+        { ...purchaseOrder('po-9', '2026-01-01T00:00:00Z', '2026-01-10'), supplier_id: 'sup-2' },
+      ]),
+      listASNs: list([]),
+      listItemReceipts: list([]),
+    } as any;
+
+    const scorecard = await getSupplierScorecard(client, 'sup-1');
+
+    const filter = { supplier_id: 'sup-1', page: 1, per_page: 100 };
+    expect(client.listPurchaseOrders).toHaveBeenCalledWith(filter);
+    expect(client.listASNs).toHaveBeenCalledWith(filter);
+    expect(client.listItemReceipts).toHaveBeenCalledWith(filter);
+    expect(scorecard.purchase_orders).toBe(1);
+    expect(scorecard.truncated).toBe(false);
+  });
+
+  it('should pass the period to the API and page until a short page', async () => {
+    const fullPage = Array.from({ length: 100 }, (_value, index) =>
+      purchaseOrder(`po-${index}`, '2026-01-01T00:00:00Z', '2026-01-10'),
+    );
+    const list = jest.fn(async () => ({ items: [], metadata: {} }));
+    const client = {
+      getSupplier: jest.fn(async () => ({ id: 'sup-1' })),
+      listPurchaseOrders: jest
+        .fn(async () => ({ items: [] as unknown[], metadata: {} }))
+        .mockResolvedValueOnce({ items: fullPage, metadata: {} }),
+      listASNs: list,
+      listItemReceipts: list,
+    } as any;
+
+    const scorecard = await getSupplierScorecard(client, 'sup-1', {
+      fromDate: '2026-01-01',
+      toDate: '2026-01-31',
+      asOf,
+    });
+
+    expect(client.listPurchaseOrders).toHaveBeenCalledTimes(2);
+    expect(client.listPurchaseOrders).toHaveBeenLastCalledWith({
+      supplier_id: 'sup-1',
+      from_date: '2026-01-01',
+      to_date: '2026-01-31',
+      page: 2,
+      per_page: 100,
+    });
+    expect(client.listItemReceipts).toHaveBeenCalledWith({
+      supplier_id: 'sup-1',
+      from_date: '2026-01-01',
+      page: 1,
+      per_page: 100,
+    });
+    expect(scorecard.purchase_orders).toBe(100);
+    expect(scorecard.truncated).toBe(false);
+  });
+});
@@ -0,0 +1,260 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { matchPurchaseOrder, runThreeWayMatch } from '../../src/tools/three-way-match';
+
+const noTolerance = { quantityPercent: 0, pricePercent: 0 };
+
+const purchaseOrder = {
+  id: 'po-1',
+  items: [
+    { item_id: 'SKU-1', quantity: 10, price: 5 },
+    { item_id: 'SKU-2', quantity: 4, price: 20 },
+  ],
+} as any;
+
+function doc(id: string, items: Record<string, unknown>[], extra: Record<string, unknown> = {}) {
+  return { id, items, ...extra } as any;
+}
+
+describe('matchPurchaseOrder', () => {
+  it('should match when shipped, received and invoiced quantities agree', () => {
+    const result = matchPurchaseOrder(
+      {
+        purchaseOrder,
+        asns: [
+          doc('asn-1', [
+            { item_id: 'SKU-1', quantity: 10 },
+            { item_id: 'SKU-2', quantity: 4 },
+          ]),
+        ],
+        itemReceipts: [
+          doc('rcpt-1', [{ item_id: 'SKU-1', quantity: 6 }]),
+          doc('rcpt-2', [
+            { item_id: 'SKU-1', quantity: 4 },
+            { item_id: 'SKU-2', quantity_received: 4 },
+          ]),
+        ],
+        invoices: [
+          doc('inv-1', [
+            { item_id: 'SKU-1', quantity: 10, unit_price: 5 },
+            { item_id: 'SKU-2', quantity: 4, unit_price: 20 },
+          ]),
+        ],
+      },
+      noTolerance,
+    );
+
+    expect(result.matched).toBe(true);
+    expect(result.exception_counts).toEqual({});
+    expect(result.documents).toEqual({
+      asn_ids: ['asn-1'],
+      item_receipt_ids: ['rcpt-1', 'rcpt-2'],
+      invoice_ids: ['inv-1'],
+    });
+    expect(result.totals).toEqual({
+      ordered_amount: 130,
+      received_amount: 130,
+      invoiced_amount: 130,
+      price_variance_amount: 0,
+    });
+  });
+
+  it('should report over/under-receipts and price variances', () => {
+    const result = matchPurchaseOrder(
+      {
+        purchaseOrder,
+        asns: [],
+        itemReceipts: [
+          doc('rcpt-1', [
+            { item_id: 'SKU-1', quantity: 12 },
+            { item_id: 'SKU-2', quantity: 3 },
+          ]),
+        ],
+        invoices: [
+          doc('inv-1', [
+            { item_id: 'SKU-1', quantity: 12, price: 5.25 },
+            { item_id: 'SKU-2', quantity: 4, price: 20 },
+          ]),
+        ],
+      },
+      noTolerance,
+    );
+
+    const [sku1, sku2] = result.lines;
+    expect(result.matched).toBe(false);
+    expect(sku1).toMatchObject({
+      receipt_variance: 2,
+      invoice_unit_price: 5.25,
+      price_variance_amount: 3,
+      exceptions: ['over_received', 'price_variance'],
+    });
+    expect(sku2).toMatchObject({
+      receipt_variance: -1,
+      invoice_quantity_variance: 1,
+      exceptions: ['under_received', 'over_invoiced'],
+    });
+    expect(result.totals.price_variance_amount).toBe(3);
+    expect(result.exception_counts).toEqual({
+      over_received: 1,
+      under_received: 1,
+      over_invoiced: 1,
+      price_variance: 1,
+    });
+  });
+
+  it('should accept differences within the tolerances', () => {
+    const result = matchPurchaseOrder(
+      {
+        purchaseOrder,
+        asns: [],
+        itemReceipts: [
+          doc('rcpt-1', [
+            { item_id: 'SKU-1', quantity: 10 },
+            { item_id: 'SKU-2', quantity: 4 },
+          ]),
+        ],
+        invoices: [
+          doc('inv-1', [
+            { item_id: 'SKU-1', quantity: 10, price: 5.1 },
+            { item_id: 'SKU-2', quantity: 4, price: 20 },
+          ]),
+        ],
+      },
+      { quantityPercent: 0, pricePercent: 2 },
+    );
+
+    expect(result.matched).toBe(true);
+    expect(result.lines[0]?.price_variance_amount).toBe(1);
+  });
+
+  it('should flag ASN quantities that were not received and items not on the PO', () => {
+    const result = matchPurchaseOrder(
+      {
+        purchaseOrder,
+        asns: [doc('asn-1', [{ item_id: 'SKU-1', quantity: 10 }])],
+        itemReceipts: [
+          doc('rcpt-1', [
+            { item_id: 'SKU-1', quantity: 8 },
+            { item_id: 'SKU-9', quantity: 1 },
+          ]),
+        ],
+        invoices: [],
+      },
+      noTolerance,
+    );
+
+    expect(result.lines.find((line) => line.item_id === 'SKU-1')?.exceptions).toEqual([
+      'under_received',
+      'shipped_received_mismatch',
+    ]);
+    expect(result.lines.find((line) => line.item_id === 'SKU-9')?.exceptions).toEqual([
+      'not_on_purchase_order',
+      'shipped_received_mismatch',
+    ]);
+  });
+
+  it('should take the ordered quantity from the PO line, not its received progress', () => {
+    const result = matchPurchaseOrder(
+      {
+        purchaseOrder: doc('po-1', [
+          { item_id: 'SKU-1', quantity: 10, quantity_received: 6, price: 5 },
+        ]),
+        asns: [],
+        itemReceipts: [doc('rcpt-1', [{ item_id: 'SKU-1', quantity_received: 6 }])],
+        invoices: [],
+      },
+      noTolerance,
+    );
+
+    expect(result.matched).toBe(false);
+    expect(result.lines[0]).toMatchObject({ ordered_quantity: 10, received_quantity: 6 });
+    expect(result.lines[0]?.exceptions).toEqual(['under_received']);
+  });
+});
+
+describe('runThreeWayMatch', () => {
+  it('should load the documents for the purchase order', async () => {
+    const list = (items: unknown[]) => jest.fn(async () => ({ items, metadata: {} }));
+    const client = {
+      getPurchaseOrder: jest.fn(async () => purchaseOrder),
+      listASNs: list([]),
+      listItemReceipts: list([
+        doc('rcpt-1', [{ item_id: 'SKU-1', quantity: 10 }], { purchase_order_id: 'po-1' }),
+        doc('rcpt-2', [{ item_id: 'SKU-1', quantity: 99 }], { purchase_order_id: 'po-2' }),
+      ]),
+      listInvoices: list([]),
+      getInvoice: jest.fn(async () => doc('inv-7', [])),
+    } as any;
+
+    const result = await runThreeWayMatch(client, 'po-1', {
+      invoiceId: 'inv-7',
+      tolerances: noTolerance,
+    });
+
+    expect(client.listItemReceipts).toHaveBeenCalledWith({
+      purchase_order_id: 'po-1',
+      page: 1,
+      per_page: 100,
+    });
+    expect(client.getInvoice).toHaveBeenCalledWith('inv-7');
+    expect(client.listInvoices).not.toHaveBeenCalled();
+    expect(result.documents.item_receipt_ids).toEqual(['rcpt-1']);
+    expect(result.documents.invoice_ids).toEqual(['inv-7']);
+  });
+
+  it('should drop unreferenced documents when the API ignored the filter', async () => {
+    const list = (items: unknown[]) => jest.fn(async () => ({ items, metadata: {} }));
+    const client = {
+      getPurchaseOrder: jest.fn(async () => purchaseOrder),
+      listASNs: list([doc('asn-1', [{ item_id: 'SKU-1', quantity: 10 }])]),
+      listItemReceipts: list([
+        doc('rcpt-1', [{ item_id: 'SKU-1', quantity: 10 }]),
+        doc('rcpt-2', [{ item_id: 'SKU-1', quantity: 99 }], { purchase_order_id: 'po-2' }),
+      ]),
+      listInvoices: list([]),
+    } as any;
+
+    const result = await runThreeWayMatch(client, 'po-1', { tolerances: noTolerance });
+
+    expect(result.documents.asn_ids).toEqual(['asn-1']);
+    expect(result.documents.item_receipt_ids).toEqual([]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should page through documents and flag truncation', async () => {
+    const fullPage = Array.from({ length: 100 }, (_value, index) =>
+      doc(`rcpt-${index}`, [{ item_id: 'SKU-1', quantity: 0 }], { purchase_order_id: 'po-1' }),
+    );
+    const list = jest.fn(async () => ({ items: [], metadata: {} }));
+    const client = {
+      getPurchaseOrder: jest.fn(async () => purchaseOrder),
+      listASNs: list,
+      listItemReceipts: jest.fn(async () => ({ items: fullPage, metadata: {} })),
+      listInvoices: list,
+    } as any;
+
+    const result = await runThreeWayMatch(client, 'po-1', { tolerances: noTolerance });
+
+    expect(client.listItemReceipts).toHaveBeenCalledTimes(20);
+    expect(client.listItemReceipts).toHaveBeenLastCalledWith({
+      purchase_order_id: 'po-1',
+      page: 20,
+      per_page: 100,
+    });
+    expect(result.truncated).toBe(true);
+  });
+
+  it('should reject an invoice for another purchase order', async () => {
+    const list = jest.fn(async () => ({ items: [], metadata: {} }));
+    const client = {
+      getPurchaseOrder: jest.fn(async () => purchaseOrder),
+      listASNs: list,
+      listItemReceipts: list,
+      listInvoices: list,
+      getInvoice: jest.fn(async () => doc('inv-8', [], { purchase_order_id: 'po-2' })),
+    } as any;
+
+    await expect(
+      runThreeWayMatch(client, 'po-1', { invoiceId: 'inv-8', tolerances: noTolerance }),
+    ).rejects.toThrow('Invoice inv-8 is for purchase order po-2, not po-1');
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getToolAnnotations,
+  getToolCategory,
+  getToolTitle,
+} from '../../src/core/tool-classification';
+
+describe('Tool classification', () => {
+  describe('getToolCategory', () => {
+    it('should classify tools by their leading verb', () => {
+      expect(getToolCategory('stateset_get_order')).toBe('read');
+      expect(getToolCategory('stateset_list_orders')).toBe('list');
+      expect(getToolCategory('stateset_create_order')).toBe('create');
+      expect(getToolCategory('stateset_mark_shipment_shipped')).toBe('update');
+      expect(getToolCategory('stateset_set_default_customer_address')).toBe('update');
+      expect(getToolCategory('stateset_remove_cart_item')).toBe('delete');
+      expect(getToolCategory('stateset_refund_payment')).toBe('workflow');
+      expect(getToolCategory('stateset_batch_create_orders')).toBe('batch');
+      expect(getToolCategory('stateset_bulk_reprice_variants')).toBe('batch');
+      expect(getToolCategory('stateset_match_purchase_order')).toBe('analytics');
+      expect(getToolCategory('stateset_explode_bom')).toBe('analytics');
+    });
+
+    it('should classify tools whose names do not start with a verb', () => {
+      expect(getToolCategory('stateset_full_text_search')).toBe('search');
+      expect(getToolCategory('stateset_csv_import')).toBe('batch');
+      expect(getToolCategory('stateset_clear_cache')).toBe('admin');
+      expect(getToolCategory('stateset_supplier_scorecard')).toBe('analytics');
+      expect(getToolCategory('stateset_order_balance')).toBe('analytics');
+    });
+
+    it('should not treat unknown tools as reads', () => {
+      expect(getToolCategory('stateset_frobnicate_order')).toBe('workflow');
+    });
+  });
+
+  describe('getToolAnnotations', () => {
+    it('should mark reads as read-only', () => {
+      expect(getToolAnnotations('stateset_get_order')).toEqual({
+        title: 'Get order',
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      });
+    });
+
+    it('should mark analytics tools as read-only', () => {
+      expect(getToolAnnotations('stateset_match_purchase_order')).toEqual(
+        expect.objectContaining({ readOnlyHint: true, destructiveHint: false }),
+      );
+    });
+
+    it('should mark deletes, refunds and cancellations as destructive', () => {
+      for (const name of [
+        'stateset_delete_order',
+        'stateset_refund_payment',
+        'stateset_cancel_order',
+        'stateset_cancel_purchase_order',
+      ]) {
+        expect(getToolAnnotations(name)).toEqual(
+          expect.objectContaining({ readOnlyHint: false, destructiveHint: true }),
+        );
+      }
+    });
+
+    it('should not mark removing a cart item as destructive', () => {
+      expect(getToolAnnotations('stateset_remove_cart_item').destructiveHint).toBe(false);
+      expect(getToolAnnotations('stateset_clear_cart').destructiveHint).toBe(true);
+    });
+
+    it('should mark creates as non-idempotent and non-destructive', () => {
+      expect(getToolAnnotations('stateset_create_rma')).toEqual(
+        expect.objectContaining({ destructiveHint: false, idempotentHint: false }),
+      );
+    });
+
+    it('should mark local admin tools as closed-world', () => {
+      expect(getToolAnnotations('stateset_cache_stats')).toEqual(
+        expect.objectContaining({ readOnlyHint: true, openWorldHint: false }),
+      );
+      expect(getToolAnnotations('stateset_clear_cache').readOnlyHint).toBe(false);
+      expect(getToolAnnotations('stateset_health_check').openWorldHint).toBe(true);
+    });
+  });
+
+  describe('getToolTitle', () => {
+    it('should keep acronyms upper-case', () => {
+      expect(getToolTitle('stateset_create_rma')).toBe('Create RMA');
+      expect(getToolTitle('stateset_list_asns')).toBe('List ASNs');
+      expect(getToolTitle('stateset_get_order_by_number')).toBe('Get order by number');
+    });
+  });
+});
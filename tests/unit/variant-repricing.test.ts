@@ -0,0 +1,182 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import {
+  applyPriceRule,
+  bulkRepriceVariants,
+  planReprice,
+} from '../../src/tools/variant-repricing';
+
+function variant(id: string, price: number | undefined, extra: Record<string, unknown> = {}) {
+  return { id, sku: id.toUpperCase(), price, ...extra } as any;
+}
+
+describe('applyPriceRule', () => {
+  it('should apply percentage and fixed changes rounded to cents', () => {
+    expect(applyPriceRule({ type: 'percentage', percent: 12.5 }, variant('v', 19.99))).toEqual({
+      price: 22.49,
+    });
+    expect(applyPriceRule({ type: 'fixed_delta', amount: -2.5 }, variant('v', 10))).toEqual({
+      price: 7.5,
+    });
+  });
+
+  it('should round to .99', () => {
+    const round = (price: number) => applyPriceRule({ type: 'round_to_99' }, variant('v', price));
+
+    expect(round(10.5)).toEqual({ price: 10.99 });
+    expect(round(10)).toEqual({ price: 9.99 });
+    expect(round(10.99)).toEqual({ price: 10.99 });
+    expect(round(0.5)).toEqual({ price: 0.99 });
+  });
+
+  it('should price from cost plus a markup', () => {
+    expect(
+      applyPriceRule({ type: 'cost_plus', markup_percent: 40 }, variant('v', 10, { cost: 8 })),
+    ).toEqual({ price: 11.2 });
+    expect(applyPriceRule({ type: 'cost_plus', markup_percent: 40 }, variant('v', 10))).toEqual({
+      reason: 'Variant has no cost',
+    });
+  });
+
+  it('should refuse prices that are not positive', () => {
+    expect(applyPriceRule({ type: 'fixed_delta', amount: -5 }, variant('v', 5))).toEqual({
+      reason: 'New price 0 is not positive',
+    });
+  });
+});
+
+describe('planReprice', () => {
+  it('should preview changes, unchanged and skipped variants', () => {
+    const plan = planReprice(
+      [
+        {
+          product: { id: 'prod-1' } as any,
+          variants: [variant('v1', 20), variant('v2', 0.99), variant('v3', undefined)],
+        },
+      ],
+      { type: 'round_to_99' },
+    );
+
+    expect(plan).toEqual({
+      applied: false,
+      rule: { type: 'round_to_99' },
+      products: 1,
+      variants: 3,
+      changes: [
+        {
+          variant_id: 'v1',
+          product_id: 'prod-1',
+          sku: 'V1',
+          name: undefined,
+          current_price: 20,
+          new_price: 19.99,
+          difference: -0.01,
+          difference_percent: -0.05,
+        },
+      ],
+      unchanged: 1,
+      skipped: [
+        { variant_id: 'v3', product_id: 'prod-1', sku: 'V3', reason: 'Variant has no price' },
+      ],
+    });
+  });
+});
+
+describe('bulkRepriceVariants', () => {
+  function mockClient() {
+    return {
+      listProducts: jest.fn(async () => ({
+        items: [
+          { id: 'prod-1', category: 'shoes' },
+          { id: 'prod-2', categories: [{ id: 'cat-9', name: 'shoes' }] },
+          { id: 'prod-3', category: 'hats' },
+        ],
+        metadata: {},
+      })),
+      getProduct: jest.fn(),
+      getProductVariants: jest.fn(async (productId: string) => ({
+        items: [variant(`${productId}-a`, 10)],
+        metadata: {},
+      })),
+      updateProductVariantPrice: jest.fn(async (args: { variant_id: string }) => {
+        if (args.variant_id === 'prod-2-a') throw new Error('Variant is locked');
+        return { id: args.variant_id };
+      }),
+    } as any;
+  }
+
+  it('should preview without updating prices', async () => {
+    const client = mockClient();
+
+    const result = await bulkRepriceVariants(client, {
+      category: 'shoes',
+      rule: { type: 'percentage', percent: 10 },
+      apply: false,
+    });
+
+    expect(result.products).toBe(2);
+    expect(result.changes.map((change) => [change.variant_id, change.new_price])).toEqual([
+      ['prod-1-a', 11],
+      ['prod-2-a', 11],
+    ]);
+    expect(client.updateProductVariantPrice).not.toHaveBeenCalled();
+  });
+
+  it('should apply the changes and report failures and progress', async () => {
+    const client = mockClient();
+    const onProgress = jest.fn(async () => undefined);
+
+    const result = await bulkRepriceVariants(
+      client,
+      { category: 'shoes', rule: { type: 'fixed_delta', amount: 1 }, apply: true },
+      { onProgress },
+    );
+
+    expect(client.updateProductVariantPrice).toHaveBeenCalledWith({
+      variant_id: 'prod-1-a',
+      price: 11,
+    });
+    expect(result).toMatchObject({ applied: true, updated: 1, failed: 1 });
+    expect(result.changes[1]).toMatchObject({ status: 'failed', error: 'Variant is locked' });
+    expect(onProgress).toHaveBeenCalledWith({ total: 2, completed: 2, success: 1, failed: 1 });
+  });
+
+  it('should search every page of products for the category', async () => {
+    const client = mockClient();
+    const fullPage = Array.from({ length: 100 }, (_, index) => ({ id: `p-${index}` }));
+    client.listProducts
+      .mockResolvedValueOnce({ items: fullPage, metadata: {} })
+      .mockResolvedValueOnce({ items: [{ id: 'prod-101', category: 'shoes' }], metadata: {} });
+
+    const result = await bulkRepriceVariants(client, {
+      category: 'shoes',
+      rule: { type: 'round_to_99' },
+      apply: false,
+    });
+
+    expect(client.listProducts).toHaveBeenCalledTimes(2);
+    expect(client.listProducts).toHaveBeenLastCalledWith({ page: 2, per_page: 100 });
+    expect(result).toMatchObject({ products: 1, truncated: false });
+  });
+
+  it('should require a product or category filter', async () => {
+    await expect(
+      bulkRepriceVariants(mockClient(), { rule: { type: 'round_to_99' }, apply: false }),
+    ).rejects.toThrow('Provide product_ids or a category');
+  });
+});
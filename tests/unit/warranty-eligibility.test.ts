@@ -0,0 +1,178 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  },
+  createLogger: () => ({
+    debug: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  }),
+}));
+
+import { createWarrantyClaim, evaluateWarrantyClaim } from '../../src/tools/warranty-eligibility';
+import { WarrantyClaimIneligibleError } from '../../src/middleware/error-handler';
+
+const asOf = new Date('2026-06-01T00:00:00Z').getTime();
+
+const warranty = {
+  id: 'war-1',
+  status: 'active',
+  start_date: '2025-01-15T00:00:00Z',
+  items: [{ item_id: 'ROBOT-X', serial_number: 'RB-100', warranty_period_months: 24 }],
+} as any;
+
+const robot = {
+  kind: 'robot' as const,
+  record: { id: 'rs-1', serial_number: 'RB-100', model: 'X1' } as any,
+};
+
+function result(eligibility: ReturnType<typeof evaluateWarrantyClaim>, check: string) {
+  return eligibility.checks.find((c) => c.check === check);
+}
+
+describe('evaluateWarrantyClaim', () => {
+  it('should pass a claim within coverage for a known serial number', () => {
+    const eligibility = evaluateWarrantyClaim(
+      { warranty, claims: [], serials: [robot] },
+      {},
+      { asOf },
+    );
+
+    expect(eligibility.eligible).toBe(true);
+    expect(eligibility.serial_number).toBe('RB-100');
+    expect(eligibility.coverage).toEqual({ start_date: '2025-01-15', end_date: '2027-01-15' });
+    expect(eligibility.checks.map((check) => check.result)).toEqual([
+      'pass',
+      'pass',
+      'pass',
+      'pass',
+    ]);
+    expect(result(eligibility, 'serial_number')?.reason).toBe(
+      'Serial number RB-100 is robot serial rs-1 (X1)',
+    );
+  });
+
+  it('should fail claims outside the coverage window', () => {
+    const eligibility = evaluateWarrantyClaim(
+      { warranty, claims: [], serials: [robot] },
+      { incident_date: '2027-01-25T00:00:00Z' },
+    );
+
+    expect(eligibility.eligible).toBe(false);
+    expect(result(eligibility, 'coverage_window')).toEqual({
+      check: 'coverage_window',
+      result: 'fail',
+      reason: 'Coverage ended on 2027-01-15, 10 day(s) before the incident on 2027-01-25',
+    });
+  });
+
+  it('should fail inactive warranties and serial numbers it does not cover', () => {
+    const eligibility = evaluateWarrantyClaim(
+      {
+        warranty: { ...warranty, status: 'voided' },
+        claims: [],
+        serials: [{ kind: 'robot', record: { id: 'rs-2', serial_number: 'RB-200' } as any }],
+      },
+      { serial_number: 'RB-200' },
+      { asOf },
+    );
+
+    expect(result(eligibility, 'warranty_status')?.result).toBe('fail');
+    expect(result(eligibility, 'serial_number')?.reason).toBe(
+      'Serial number RB-200 is not covered by this warranty (covers RB-100)',
+    );
+  });
+
+  it('should cover components through the robot they are installed in', () => {
+    const eligibility = evaluateWarrantyClaim(
+      {
+        warranty,
+        claims: [],
+        serials: [
+          {
+            kind: 'component',
+            record: { id: 'cmp-1', serial_number: 'MTR-7', component_type: 'motor' } as any,
+            robotSerialNumber: 'RB-100',
+          },
+        ],
+      },
+      { serial_number: 'MTR-7' },
+      { asOf },
+    );
+
+    expect(eligibility.eligible).toBe(true);
+    expect(result(eligibility, 'serial_number')?.reason).toBe(
+      'Serial number MTR-7 is motor component cmp-1 installed in robot RB-100',
+    );
+  });
+
+  it('should flag open claims for the same serial number without blocking', () => {
+    const eligibility = evaluateWarrantyClaim(
+      {
+        warranty,
+        claims: [
+          { id: 'clm-1', status: 'pending', serial_number: 'RB-100' },
+          { id: 'clm-2', status: 'rejected', serial_number: 'RB-100' },
+          { id: 'clm-3', status: 'pending', serial_number: 'RB-999' },
+        ] as any[],
+        serials: [robot],
+      },
+      {},
+      { asOf },
+    );
+
+    expect(eligibility.eligible).toBe(true);
+    expect(eligibility.duplicate_claim_ids).toEqual(['clm-1']);
+    expect(result(eligibility, 'duplicate_claim')?.result).toBe('flag');
+  });
+});
+
+describe('createWarrantyClaim', () => {
+  function mockClient(robots: unknown[]) {
+    return {
+      getWarranty: jest.fn(async () => warranty),
+      listWarrantyClaims: jest.fn(async () => ({ items: [], metadata: {} })),
+      request: jest.fn(async (_method: string, path: string) =>
+        path === '/manufacturing/robot-serials' ? { items: robots } : { items: [] },
+      ),
+      createWarrantyClaim: jest.fn(async () => ({ id: 'clm-9', status: 'pending' })),
+    } as any;
+  }
+
+  it('should create eligible claims with the eligibility reasoning', async () => {
+    const client = mockClient([robot.record]);
+
+    const claim = await createWarrantyClaim(
+      client,
+      { warranty_id: 'war-1', claim_reason: 'Arm joint failure' },
+      { asOf },
+    );
+
+    expect(client.request).toHaveBeenCalledWith('GET', '/manufacturing/robot-serials', {
+      serial_number: 'RB-100',
+      per_page: 100,
+    });
+    expect(client.createWarrantyClaim).toHaveBeenCalledWith({
+      warranty_id: 'war-1',
+      claim_reason: 'Arm joint failure',
+      serial_number: 'RB-100',
+    });
+    expect(claim.id).toBe('clm-9');
+    expect(claim.eligibility.eligible).toBe(true);
+  });
+
+  it('should reject ineligible claims before creating them', async () => {
+    const client = mockClient([]);
+
+    await expect(
+      createWarrantyClaim(client, { warranty_id: 'war-1', claim_reason: 'Failure' }, { asOf }),
+    ).rejects.toThrow(WarrantyClaimIneligibleError);
+    expect(client.createWarrantyClaim).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+
+jest.mock('../../src/utils/logger', () => {
+  const mockLogger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  return { createLogger: () => mockLogger, logger: mockLogger };
+});
+
+import {
+  workOrderStateMachine,
+  workOrderTimeline,
+  WorkOrderTimeline,
+  transitionWorkOrder,
+  scheduleWorkOrder,
+  setWorkOrderStatus,
+  getWorkOrderNextSteps,
+} from '../../src/tools/work-order-lifecycle';
+import { InvalidStateTransitionError } from '../../src/middleware/error-handler';
+import { createRequestContext, runWithContextAsync } from '../../src/core/request-context';
+
+function clientWithStatus(status: string) {
+  return {
+    getWorkOrder: jest.fn(async () => ({ id: 'wo-1', status })),
+    updateWorkOrder: jest.fn(async (args: any) => ({ id: args.work_order_id, status })),
+    updateWorkOrderStatus: jest.fn(async (id: string, next: string) => ({ id, status: next })),
+    scheduleWorkOrder: jest.fn(async (args: any) => ({
+      id: args.work_order_id,
+      status: 'scheduled',
+    })),
+  } as any;
+}
+
+describe('workOrderStateMachine', () => {
+  it('should move between in progress and on hold', () => {
+    let state = workOrderStateMachine.transition('wo-1', 'scheduled', 'start');
+    state = workOrderStateMachine.transition('wo-1', state, 'hold');
+    expect(state).toBe('on_hold');
+    state = workOrderStateMachine.transition('wo-1', state, 'start');
+    expect(workOrderStateMachine.transition('wo-1', state, 'complete')).toBe('completed');
+  });
+
+  it('should only hold work orders that are in progress', () => {
+    expect(() => workOrderStateMachine.transition('wo-1', 'pending', 'hold')).toThrow(
+      "Cannot hold for work order 'wo-1' in state 'pending'. Next steps: " +
+        'stateset_assign_work_order, stateset_schedule_work_order, stateset_start_work_order, ' +
+        'stateset_cancel_work_order.',
+    );
+  });
+
+  it('should find the action that reaches a status', () => {
+    expect(workOrderStateMachine.transitionTo('wo-1', 'in_progress', 'on_hold')).toBe('hold');
+    expect(() => workOrderStateMachine.transitionTo('wo-1', 'completed', 'in_progress')).toThrow(
+      'Cannot move to in progress',
+    );
+  });
+});
+
+describe('transitionWorkOrder', () => {
+  beforeEach(() => {
+    workOrderTimeline.clear();
+  });
+
+  it('should reject the change before it is sent', async () => {
+    const client = clientWithStatus('completed');
+
+    const error = await transitionWorkOrder(client, 'wo-1', 'cancel').catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidStateTransitionError);
+    expect(error.statusCode).toBe(409);
+    expect(client.updateWorkOrderStatus).not.toHaveBeenCalled();
+    expect(workOrderTimeline.get('wo-1')).toEqual([]);
+  });
+
+  it('should send the reason with the new status and record it', async () => {
+    const client = clientWithStatus('in_progress');
+
+    await transitionWorkOrder(client, 'wo-1', 'hold', {
+      reason: 'Missing parts',
+      performed_by: 'lead-7',
+    });
+
+    expect(client.updateWorkOrderStatus).toHaveBeenCalledWith('wo-1', 'on_hold', {
+      reason: 'Missing parts',
+      performed_by: 'lead-7',
+    });
+    expect(workOrderTimeline.get('wo-1')).toEqual([
+      {
+        action: 'hold',
+        from: 'in_progress',
+        to: 'on_hold',
+        performed_by: 'lead-7',
+        assigned_to: undefined,
+        reason: 'Missing parts',
+        notes: undefined,
+        timestamp: expect.any(String),
+      },
+    ]);
+  });
+
+  it('should assign through updateWorkOrder without changing the status', async () => {
+    const client = clientWithStatus('scheduled');
+
+    await transitionWorkOrder(client, 'wo-1', 'assign', { assigned_to: 'tech-3' });
+
+    expect(client.updateWorkOrder).toHaveBeenCalledWith({
+      work_order_id: 'wo-1',
+      assigned_to: 'tech-3',
+    });
+    expect(client.updateWorkOrderStatus).not.toHaveBeenCalled();
+    expect(workOrderTimeline.get('wo-1')[0]).toMatchObject({ from: 'scheduled', to: 'scheduled' });
+  });
+
+  it('should fall back to the calling client as the actor', async () => {
+    const client = clientWithStatus('pending');
+
+    await runWithContextAsync(createRequestContext({ clientId: 'client-42' }), () =>
+      transitionWorkOrder(client, 'wo-1', 'start'),
+    );
+
+    expect(workOrderTimeline.get('wo-1')[0]?.performed_by).toBe('client-42');
+  });
+
+  it('should leave unknown statuses to the API', async () => {
+    const client = clientWithStatus('awaiting_parts');
+
+    await transitionWorkOrder(client, 'wo-1', 'complete');
+
+    expect(client.updateWorkOrderStatus).toHaveBeenCalledWith('wo-1', 'completed', {});
+  });
+});
+
+describe('setWorkOrderStatus', () => {
+  beforeEach(() => {
+    workOrderTimeline.clear();
+  });
+
+  it('should record the matching lifecycle action', async () => {
+    await setWorkOrderStatus(clientWithStatus('on_hold'), 'wo-1', 'cancelled');
+
+    expect(workOrderTimeline.get('wo-1')[0]).toMatchObject({ action: 'cancel', to: 'cancelled' });
+  });
+
+  it('should schedule pending work orders and reopen scheduled ones', async () => {
+    await setWorkOrderStatus(clientWithStatus('pending'), 'wo-1', 'scheduled');
+    await setWorkOrderStatus(clientWithStatus('scheduled'), 'wo-1', 'pending');
+
+    expect(workOrderTimeline.get('wo-1')).toMatchObject([
+      { action: 'schedule', from: 'pending', to: 'scheduled' },
+      { action: 'reopen', from: 'scheduled', to: 'pending' },
+    ]);
+  });
+
+  it('should schedule through the schedule endpoint and record it', async () => {
+    const client = clientWithStatus('on_hold');
+    const args = { work_order_id: 'wo-1', scheduled_start: '2026-03-01T08:00:00Z' };
+
+    await scheduleWorkOrder(client, args);
+
+    expect(client.scheduleWorkOrder).toHaveBeenCalledWith(args);
+    expect(workOrderTimeline.get('wo-1')).toMatchObject([
+      { action: 'schedule', from: 'on_hold', to: 'scheduled' },
+    ]);
+  });
+
+  it('should not schedule a work order that is in progress', async () => {
+    const client = clientWithStatus('in_progress');
+
+    await expect(
+      scheduleWorkOrder(client, { work_order_id: 'wo-1', scheduled_start: '2026-03-01T08:00:00Z' }),
+    ).rejects.toThrow("Cannot schedule for work order 'wo-1' in state 'in_progress'");
+    expect(client.scheduleWorkOrder).not.toHaveBeenCalled();
+  });
+
+  it('should reject statuses that no action reaches', async () => {
+    const client = clientWithStatus('pending');
+
+    await expect(setWorkOrderStatus(client, 'wo-1', 'completed')).rejects.toThrow(
+      "Cannot move to completed for work order 'wo-1' in state 'pending'",
+    );
+    expect(client.updateWorkOrderStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('WorkOrderTimeline', () => {
+  it('should drop the least recently changed work order past the limit', () => {
+    const timeline = new WorkOrderTimeline();
+    const entry = { action: 'start', from: 'pending', to: 'in_progress', timestamp: '' } as const;
+
+    for (let i = 0; i < 1001; i++) {
+      timeline.record(`wo-${i}`, entry);
+    }
+
+    expect(timeline.get('wo-0')).toEqual([]);
+    expect(timeline.get('wo-1000')).toHaveLength(1);
+  });
+});
+
+describe('getWorkOrderNextSteps', () => {
+  it('should list the tools that can be called next', () => {
+    expect(getWorkOrderNextSteps('in_progress')).toEqual([
+      'stateset_assign_work_order',
+      'stateset_hold_work_order',
+      'stateset_complete_work_order',
+      'stateset_cancel_work_order',
+    ]);
+    expect(getWorkOrderNextSteps('cancelled')).toEqual([]);
+    expect(getWorkOrderNextSteps(undefined)).toBeUndefined();
+  });
+});